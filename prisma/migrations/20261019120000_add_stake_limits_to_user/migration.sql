@@ -0,0 +1,3 @@
+-- Per-user min/max stake by market type; unset entries inherit from the parent chain.
+ALTER TABLE "users"
+ADD COLUMN "stake_limits" JSONB;
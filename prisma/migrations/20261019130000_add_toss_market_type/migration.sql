@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "market_type" ADD VALUE IF NOT EXISTS 'TOSS';
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "market_type" ADD VALUE IF NOT EXISTS 'OVER_UNDER';
+ALTER TYPE "market_type" ADD VALUE IF NOT EXISTS 'BOTH_TEAMS_TO_SCORE';
+ALTER TYPE "market_type" ADD VALUE IF NOT EXISTS 'CORRECT_SCORE';
+ALTER TYPE "market_type" ADD VALUE IF NOT EXISTS 'SET_BETTING';
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "transaction_type" ADD VALUE IF NOT EXISTS 'COMMISSION';
+
+-- AlterTable
+ALTER TABLE "hierarchy_pnl" ADD COLUMN "is_commission" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "market_commissions" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "settlement_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "market_type" "market_type" NOT NULL,
+    "market_id" TEXT,
+    "net_winnings" DOUBLE PRECISION NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_commissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_commissions_settlement_user_key" ON "market_commissions"("settlement_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_market_commissions_user_event_market" ON "market_commissions"("user_id", "event_id", "market_type");
@@ -0,0 +1,4 @@
+-- Add per-client caps on total open exposure and on exposure within one event.
+ALTER TABLE "users"
+ADD COLUMN "max_exposure" DOUBLE PRECISION,
+ADD COLUMN "max_event_exposure" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- Add per-client bet acceptance delay (seconds per market type), added to the event delay.
+ALTER TABLE "users"
+ADD COLUMN "bet_delays" JSONB;
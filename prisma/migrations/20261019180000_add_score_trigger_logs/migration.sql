@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "score_trigger_logs" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "event_id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "fancy_sec" INTEGER NOT NULL DEFAULT 0,
+    "bookmaker_sec" INTEGER NOT NULL DEFAULT 0,
+    "previous_score" JSONB NOT NULL,
+    "current_score" JSONB NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "score_trigger_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_score_trigger_logs_event_created" ON "score_trigger_logs"("event_id", "created_at");
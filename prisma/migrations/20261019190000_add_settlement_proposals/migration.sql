@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "settlement_proposal_status" AS ENUM ('PENDING', 'FLAGGED', 'APPLIED', 'REJECTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "settlement_proposals" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "settlement_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "market_type" "market_type" NOT NULL,
+    "market_id" TEXT,
+    "selection_id" TEXT,
+    "market_name" TEXT,
+    "winner_id" TEXT,
+    "is_cancel" BOOLEAN NOT NULL DEFAULT false,
+    "status" "settlement_proposal_status" NOT NULL DEFAULT 'PENDING',
+    "flag" TEXT,
+    "flag_reason" TEXT,
+    "vendor_result" JSONB,
+    "pending_bets" INTEGER NOT NULL DEFAULT 0,
+    "auto_applied" BOOLEAN NOT NULL DEFAULT false,
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(6),
+    "error" TEXT,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlement_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_settlement_proposals_settlement_id" ON "settlement_proposals"("settlement_id");
+
+-- CreateIndex
+CREATE INDEX "idx_settlement_proposals_status_created" ON "settlement_proposals"("status", "created_at");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "settlement_request_action" AS ENUM ('SETTLE', 'ROLLBACK');
+
+-- CreateEnum
+CREATE TYPE "settlement_request_status" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "settlement_requests" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "action" "settlement_request_action" NOT NULL,
+    "status" "settlement_request_status" NOT NULL DEFAULT 'PENDING',
+    "settlement_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "market_type" "market_type" NOT NULL,
+    "market_id" TEXT,
+    "params" JSONB NOT NULL,
+    "preview" JSONB,
+    "payout" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "requested_by" TEXT NOT NULL,
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(6),
+    "reason" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlement_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_settlement_requests_settlement_id" ON "settlement_requests"("settlement_id");
+
+-- CreateIndex
+CREATE INDEX "idx_settlement_requests_status_created" ON "settlement_requests"("status", "created_at");
@@ -0,0 +1,9 @@
+-- AlterEnum: a proposal whose settlement waits for a second admin (SettlementRequest)
+ALTER TYPE "settlement_proposal_status" ADD VALUE IF NOT EXISTS 'AWAITING_APPROVAL' AFTER 'FLAGGED';
+
+-- AlterTable
+ALTER TABLE "settlement_requests"
+ADD COLUMN "proposal_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "idx_settlement_requests_proposal_id" ON "settlement_requests"("proposal_id");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "market_commission_failures" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "settlement_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "market_type" "market_type" NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "error" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_commission_failures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_commission_failures_settlement_user_key" ON "market_commission_failures"("settlement_id", "user_id");
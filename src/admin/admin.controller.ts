@@ -5,6 +5,7 @@ import {
   Post,
   Param,
   Body,
+  Query,
   UseGuards,
   ValidationPipe,
 } from '@nestjs/common';
@@ -15,7 +16,20 @@ import { CurrentUser } from '../common/decorators/current-user.decorator';
 import type { User } from '@prisma/client';
 import { UserRole } from '@prisma/client';
 import { MatchVisibilityService } from '../cricketid/match-visibility.service';
-import { BetsService } from '../bets/bets.service';
+import { MarketSuspensionService } from '../cricketid/market-suspension.service';
+import {
+  ScoreWatchService,
+  type ScoreTriggerSuspension,
+} from '../cricketid/score-watch.service';
+import {
+  BetsService,
+  MAX_WINNING_SCOPES,
+  type MaxWinningScope,
+} from '../bets/bets.service';
+import {
+  BetRateLimitService,
+  type TokenBucketLimit,
+} from '../bets/bet-rate-limit.service';
 import { AuthService } from '../auth/auth.service';
 
 @Controller('admin')
@@ -25,6 +39,9 @@ export class AdminController {
     private readonly matchVisibilityService: MatchVisibilityService,
     private readonly betsService: BetsService,
     private readonly authService: AuthService,
+    private readonly marketSuspensionService: MarketSuspensionService,
+    private readonly scoreWatchService: ScoreWatchService,
+    private readonly betRateLimitService: BetRateLimitService,
   ) {}
 
   /**
@@ -263,6 +280,158 @@ export class AdminController {
     };
   }
 
+  /**
+   * GET /admin/market/stop/:marketId
+   * Current suspension status for one market (same shape as PATCH response).
+   */
+  @Get('market/stop/:marketId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AGENT)
+  async getMarketStop(@Param('marketId') marketId: string) {
+    const marketIds = await this.marketSuspensionService.getSuspendedMarkets();
+    const normalizedMarketId = String(marketId || '').trim();
+    const blocked = marketIds.includes(normalizedMarketId);
+    return {
+      success: true,
+      totalBlockedMarkets: marketIds.length,
+      ...this.marketBlockDetail(normalizedMarketId, blocked),
+    };
+  }
+
+  /**
+   * GET /admin/market/stop
+   * All suspended markets with per-market detail (same fields as PATCH).
+   */
+  @Get('market/stop')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AGENT)
+  async getStoppedMarkets() {
+    const marketIds = await this.marketSuspensionService.getSuspendedMarkets();
+    const items = marketIds.map((id) => this.marketBlockDetail(id, true));
+    return {
+      success: true,
+      status: 'ACTIVE_BLOCKLIST',
+      total: marketIds.length,
+      totalBlockedMarkets: marketIds.length,
+      marketIds,
+      items,
+    };
+  }
+
+  /**
+   * PATCH /admin/market/stop/:marketId
+   * Suspend/allow betting on one market (e.g. a single bookmaker) for all clients.
+   * Body: { blocked: boolean } or { status: "STOPPED" | "ALLOWED" }
+   */
+  @Patch('market/stop/:marketId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AGENT)
+  async setMarketStop(
+    @Param('marketId') marketId: string,
+    @Body() body: { blocked?: boolean; status?: boolean | string },
+  ) {
+    const blocked = this.parseBlockedBody(body);
+    if (blocked === null) {
+      return {
+        success: false,
+        message:
+          'Provide blocked (boolean) or status ("true"/"false"/"STOPPED"/"ALLOWED")',
+      };
+    }
+
+    const result = await this.marketSuspensionService.setMarketSuspended(
+      marketId,
+      blocked,
+    );
+    return {
+      success: true,
+      ...this.marketBlockDetail(result.marketId, blocked),
+      totalBlockedMarkets: result.totalSuspendedMarkets,
+    };
+  }
+
+  /**
+   * GET /admin/selection/stop/:eventId/:selectionId
+   * Current suspension status for one selection of a match (same shape as PATCH response).
+   */
+  @Get('selection/stop/:eventId/:selectionId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AGENT)
+  async getSelectionStop(
+    @Param('eventId') eventId: string,
+    @Param('selectionId') selectionId: string,
+  ) {
+    const normalizedEventId = String(eventId || '').trim();
+    const normalizedSelectionId = String(selectionId || '').trim();
+    const selections =
+      await this.marketSuspensionService.getSuspendedSelections();
+    const blocked = selections.some(
+      (s) =>
+        s.eventId === normalizedEventId &&
+        s.selectionId === normalizedSelectionId,
+    );
+    return {
+      success: true,
+      totalBlockedSelections: selections.length,
+      ...this.selectionBlockDetail(
+        normalizedEventId,
+        normalizedSelectionId,
+        blocked,
+      ),
+    };
+  }
+
+  /**
+   * GET /admin/selection/stop?eventId=
+   * All suspended selections (optionally of one match) with per-selection detail (same fields as PATCH).
+   */
+  @Get('selection/stop')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AGENT)
+  async getStoppedSelections(@Query('eventId') eventId?: string) {
+    const selections =
+      await this.marketSuspensionService.getSuspendedSelections(eventId);
+    const items = selections.map((s) =>
+      this.selectionBlockDetail(s.eventId, s.selectionId, true),
+    );
+    return {
+      success: true,
+      status: 'ACTIVE_BLOCKLIST',
+      total: selections.length,
+      totalBlockedSelections: selections.length,
+      selections,
+      items,
+    };
+  }
+
+  /**
+   * PATCH /admin/selection/stop/:eventId/:selectionId
+   * Suspend/allow betting on one selection of a match (e.g. a single fancy run) for all clients.
+   * Body: { blocked: boolean } or { status: "STOPPED" | "ALLOWED" }
+   */
+  @Patch('selection/stop/:eventId/:selectionId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AGENT)
+  async setSelectionStop(
+    @Param('eventId') eventId: string,
+    @Param('selectionId') selectionId: string,
+    @Body() body: { blocked?: boolean; status?: boolean | string },
+  ) {
+    const blocked = this.parseBlockedBody(body);
+    if (blocked === null) {
+      return {
+        success: false,
+        message:
+          'Provide blocked (boolean) or status ("true"/"false"/"STOPPED"/"ALLOWED")',
+      };
+    }
+
+    const result = await this.marketSuspensionService.setSelectionSuspended(
+      eventId,
+      selectionId,
+      blocked,
+    );
+    return {
+      success: true,
+      ...this.selectionBlockDetail(result.eventId, result.selectionId, blocked),
+      totalBlockedSelections: result.totalSuspendedSelections,
+    };
+  }
+
   /**
    * PATCH /admin/matchodds/accept-delay/:eventId
    * Per-event Match Odds acceptance delay (seconds) only.
@@ -327,6 +496,237 @@ export class AdminController {
     };
   }
 
+  /**
+   * PATCH /admin/max-winning/:scope/:id
+   * Max winning override, scope = event | bookmaker-market | competition | sport.
+   * Body: { "marketType": "matchodds", "maxWinning": 300000 } — marketType is matchodds, fancy or
+   * bookmaker (not needed for bookmaker-market, whose id is the bookmaker marketId).
+   * Body: { "marketType": "matchodds", "maxWinning": null } — remove the override.
+   * Most specific wins at placement: bookmaker market → event → competition → sport → default.
+   */
+  @Patch('max-winning/:scope/:id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async setMaxWinningLimit(
+    @Param('scope') scope: string,
+    @Param('id') id: string,
+    @Body() body: { marketType?: string; maxWinning?: number | null },
+  ) {
+    if (!MAX_WINNING_SCOPES.includes(scope as MaxWinningScope)) {
+      return {
+        success: false,
+        message: `scope must be one of: ${MAX_WINNING_SCOPES.join(', ')}`,
+      };
+    }
+    if (body == null || typeof body !== 'object' || !('maxWinning' in body)) {
+      return {
+        success: false,
+        message:
+          'Body must include maxWinning. Use a positive amount, or null to remove. Example: {"marketType":"matchodds","maxWinning":300000}',
+      };
+    }
+
+    const marketType =
+      body.marketType === undefined || body.marketType === null
+        ? null
+        : String(body.marketType).trim().toLowerCase();
+    if (
+      marketType !== null &&
+      marketType !== 'matchodds' &&
+      marketType !== 'fancy' &&
+      marketType !== 'bookmaker'
+    ) {
+      return {
+        success: false,
+        message: 'marketType must be matchodds, fancy or bookmaker',
+      };
+    }
+    if (scope !== 'bookmaker-market' && marketType === null) {
+      return {
+        success: false,
+        message: 'marketType is required for this scope',
+      };
+    }
+
+    const rawMaxWinning = body.maxWinning;
+    const maxWinning =
+      rawMaxWinning === null || rawMaxWinning === undefined
+        ? null
+        : Number(rawMaxWinning);
+
+    if (
+      maxWinning !== null &&
+      (!Number.isFinite(maxWinning) || maxWinning <= 0)
+    ) {
+      return {
+        success: false,
+        message: 'maxWinning must be a positive number or null',
+      };
+    }
+
+    const result = await this.betsService.setMaxWinningLimit(
+      scope as MaxWinningScope,
+      id,
+      marketType,
+      maxWinning,
+    );
+    return {
+      success: true,
+      message:
+        maxWinning === null
+          ? `Max winning override removed for ${result.scope} ${result.id}`
+          : `Max winning set to ${maxWinning} for ${result.scope} ${result.id} (${result.marketType})`,
+      ...result,
+    };
+  }
+
+  /**
+   * GET /admin/max-winning
+   * Default max winning per market type plus every event / bookmaker market / competition / sport override.
+   */
+  @Get('max-winning')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getMaxWinningLimits() {
+    const limits = await this.betsService.getMaxWinningLimits();
+    return {
+      success: true,
+      ...limits,
+    };
+  }
+
+  /**
+   * GET /admin/score-watch
+   * Automatic fancy/bookmaker suspension on score events: on/off and seconds per trigger.
+   */
+  @Get('score-watch')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getScoreWatchConfig() {
+    const config = await this.scoreWatchService.getScoreWatchConfig();
+    return {
+      success: true,
+      ...config,
+    };
+  }
+
+  /**
+   * PATCH /admin/score-watch
+   * Body: { "enabled": true, "triggers": { "WICKET": { "fancy": 30, "bookmaker": 10 }, "OVER_COMPLETE": null } }
+   * Triggers: WICKET, BOUNDARY, OVER_COMPLETE, INNINGS_CHANGE. null removes a trigger.
+   */
+  @Patch('score-watch')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async updateScoreWatchConfig(
+    @Body()
+    body: {
+      enabled?: boolean;
+      triggers?: Record<string, ScoreTriggerSuspension | null>;
+    },
+  ) {
+    const config = await this.scoreWatchService.updateScoreWatchConfig(
+      body ?? {},
+    );
+    return {
+      success: true,
+      ...config,
+    };
+  }
+
+  /**
+   * GET /admin/score-watch/logs?eventId=&limit=
+   * Score triggers, newest first. With eventId, also the fancy/bookmaker suspensions still running.
+   */
+  @Get('score-watch/logs')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getScoreTriggerLogs(
+    @Query('eventId') eventId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.scoreWatchService.getTriggerLogs(
+      eventId,
+      limit ? Number(limit) : undefined,
+    );
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  /**
+   * GET /admin/risk/bet-rejections?date=YYYY-MM-DD&top=20
+   * Bets rejected by the rate limiter / duplicate check on a UTC day (default today),
+   * with the users rejected most. Also returns the limits in effect.
+   */
+  @Get('risk/bet-rejections')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getBetRejections(
+    @Query('date') date?: string,
+    @Query('top') top?: string,
+  ) {
+    const [stats, limits] = await Promise.all([
+      this.betRateLimitService.getRejectionStats(
+        date,
+        top ? Number(top) : undefined,
+      ),
+      this.betRateLimitService.getBetRateLimits(),
+    ]);
+    return {
+      success: true,
+      ...stats,
+      limits,
+    };
+  }
+
+  /**
+   * GET /admin/risk/bet-rate-limits
+   * Token bucket limits per role and the duplicate-bet window.
+   */
+  @Get('risk/bet-rate-limits')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getBetRateLimits() {
+    const limits = await this.betRateLimitService.getBetRateLimits();
+    return {
+      success: true,
+      ...limits,
+    };
+  }
+
+  /**
+   * PATCH /admin/risk/bet-rate-limits/:role
+   * Body: { "user": { "capacity": 10, "refillPerSec": 2 }, "market": { "capacity": 5, "refillPerSec": 1 } }
+   * null removes a bucket; a role with no bucket is not rate limited.
+   */
+  @Patch('risk/bet-rate-limits/:role')
+  @Roles(UserRole.SUPER_ADMIN)
+  async setBetRateLimits(
+    @Param('role') role: string,
+    @Body()
+    body: { user?: TokenBucketLimit | null; market?: TokenBucketLimit | null },
+  ) {
+    const limits = await this.betRateLimitService.setRoleLimits(
+      String(role || '').toUpperCase() as UserRole,
+      body ?? {},
+    );
+    return {
+      success: true,
+      ...limits,
+    };
+  }
+
+  /**
+   * PATCH /admin/risk/duplicate-bet-window
+   * Body: { "duplicateWindowMs": 2000 } — 0 turns duplicate-bet rejection off.
+   */
+  @Patch('risk/duplicate-bet-window')
+  @Roles(UserRole.SUPER_ADMIN)
+  async setDuplicateBetWindow(@Body() body: { duplicateWindowMs?: number }) {
+    const limits = await this.betRateLimitService.setDuplicateWindow(
+      Number(body?.duplicateWindowMs),
+    );
+    return {
+      success: true,
+      ...limits,
+    };
+  }
+
   private parseBlockedBody(body: {
     blocked?: boolean;
     status?: boolean | string;
@@ -363,6 +763,39 @@ export class AdminController {
     };
   }
 
+  private marketBlockDetail(marketId: string, blocked: boolean) {
+    return {
+      message: blocked
+        ? `Betting suspended for marketId ${marketId}`
+        : `Betting allowed for marketId ${marketId}`,
+      status: blocked ? ('STOPPED' as const) : ('ALLOWED' as const),
+      action: blocked ? ('STOP' as const) : ('ALLOW' as const),
+      isMarketBlocked: blocked,
+      isMarketAllowed: !blocked,
+      marketId,
+      blocked,
+    };
+  }
+
+  private selectionBlockDetail(
+    eventId: string,
+    selectionId: string,
+    blocked: boolean,
+  ) {
+    return {
+      message: blocked
+        ? `Betting suspended for selectionId ${selectionId} of eventId ${eventId}`
+        : `Betting allowed for selectionId ${selectionId} of eventId ${eventId}`,
+      status: blocked ? ('STOPPED' as const) : ('ALLOWED' as const),
+      action: blocked ? ('STOP' as const) : ('ALLOW' as const),
+      isSelectionBlocked: blocked,
+      isSelectionAllowed: !blocked,
+      eventId,
+      selectionId,
+      blocked,
+    };
+  }
+
   private fancyBlockDetail(eventId: string, blocked: boolean) {
     return {
       message: blocked
@@ -1,6 +1,7 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { UserRole } from '@prisma/client';
-import { JwtPayload } from './types/jwt-payload.interface';
+import { JwtAuthUser, JwtPayload } from './types/jwt-payload.interface';
 
 export type AccessTokenUserInput = {
   id: string;
@@ -28,3 +29,55 @@ export function signAccessToken(
 ): string {
   return jwtService.sign(buildJwtPayload(user));
 }
+
+/**
+ * Claim checks shared by the HTTP JwtStrategy and the socket handshake.
+ * Signature/expiry must already be verified by the caller.
+ */
+export function resolveJwtAuthUser(
+  payload: JwtPayload,
+  logger?: Logger,
+): JwtAuthUser {
+  if (!payload?.sub) {
+    logger?.warn('JWT payload missing required field: sub');
+    throw new UnauthorizedException('Invalid token: missing user identifier');
+  }
+
+  if (payload.exp && payload.exp * 1000 < Date.now()) {
+    logger?.warn(
+      `JWT token expired for user ${payload.sub} (exp: ${new Date(payload.exp * 1000).toISOString()})`,
+    );
+    throw new UnauthorizedException('Token expired');
+  }
+
+  const username = String(payload.username || '').trim();
+  if (!username) {
+    throw new UnauthorizedException('Invalid token: missing username');
+  }
+
+  const role = payload.role;
+  if (!role || !Object.values(UserRole).includes(role)) {
+    throw new UnauthorizedException('Invalid token: missing or invalid role');
+  }
+
+  // Explicit false only — legacy tokens without isActive still work until they expire
+  if (payload.isActive === false) {
+    logger?.warn(`JWT rejected: inactive user ${payload.sub}`);
+    throw new UnauthorizedException('Unauthorized');
+  }
+
+  const impersonatedBy =
+    typeof payload.impersonatedBy === 'string' &&
+    payload.impersonatedBy.length > 0
+      ? payload.impersonatedBy
+      : undefined;
+
+  return {
+    id: payload.sub,
+    username,
+    role,
+    name: String(payload.name || username).trim() || username,
+    isActive: payload.isActive ?? true,
+    ...(impersonatedBy ? { impersonatedBy } : {}),
+  };
+}
@@ -4,6 +4,8 @@ import { LoginDto } from './dto/login.dto';
 import { CreateUserDto } from './dto/create-user.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { UpdateClientDto } from './dto/update-client.dto';
+import { StakeLimitsDto } from './dto/stake-limits.dto';
+import { BetDelaysDto } from './dto/bet-delays.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { OptionalJwtAuthGuard } from '../common/guards/optional-jwt-auth.guard';
@@ -151,6 +153,18 @@ export class AuthController {
     };
   }
   
+  /**
+   * Downline clients with a bet delay, e.g. for the flagged-clients screen
+   *
+   * @example GET /auth/subordinates/bet-delays
+   */
+  @Get('subordinates/bet-delays')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.AGENT, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async getBetDelays(@CurrentUser() currentUser: User) {
+    return this.authService.getDownlineBetDelays(currentUser);
+  }
+
   /**
    * ✅ GET /auth/subordinates
    * 
@@ -267,11 +281,12 @@ export class AuthController {
 
   /**
    * Update client details (Agent only)
-   * Allows agents to update their client's name, password, commission, and maxWinLimit
+   * Allows agents to update their client's name, password, commission, maxWinLimit and exposure caps
    * Username cannot be changed
    * 
    * @example PATCH /auth/subordinates/:clientId
    * Body: { "name": "New Name", "password": "newpassword123", "commissionPercentage": 5, "maxWinLimit": 100000 }
+   * Body: { "maxExposure": 50000, "maxEventExposure": 20000 } — null removes a cap
    */
   @Patch('subordinates/:clientId')
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -283,6 +298,43 @@ export class AuthController {
   ) {
     return this.authService.updateClient(currentUser, clientId, updateClientDto);
   }
-}
 
+  /**
+   * Set min/max stake per market type on a downline agent or client
+   * Unset values inherit from the user's parent chain (defaults: 500 / 200000)
+   *
+   * @example PATCH /auth/subordinates/:userId/stake-limits
+   * Body: { "matchodds": { "min": 100, "max": 50000 }, "fancy": { "max": 25000 }, "bookmaker": null }
+   */
+  @Patch('subordinates/:userId/stake-limits')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.AGENT, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async updateStakeLimits(
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) stakeLimitsDto: StakeLimitsDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    return this.authService.updateStakeLimits(
+      currentUser,
+      userId,
+      stakeLimitsDto,
+    );
+  }
 
+  /**
+   * Extra accept delay (seconds) per market type on a downline client, added to the event delay
+   *
+   * @example PATCH /auth/subordinates/:userId/bet-delay
+   * Body: { "fancy": 8, "matchodds": 3 } — null or 0 removes a market type
+   */
+  @Patch('subordinates/:userId/bet-delay')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.AGENT, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async updateBetDelays(
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) betDelaysDto: BetDelaysDto,
+    @CurrentUser() currentUser: User,
+  ) {
+    return this.authService.updateBetDelays(currentUser, userId, betDelaysDto);
+  }
+}
@@ -8,7 +8,12 @@ import {
   Logger,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
-import { UsersService } from '../users/users.service';
+import {
+  UsersService,
+  STAKE_LIMIT_MARKET_TYPES,
+  type StakeLimits,
+  type BetDelays,
+} from '../users/users.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { AccountStatementService, AccountStatementFilters } from '../roles/account-statement.service';
 import { SettlementService } from '../settlement/settlement.service';
@@ -17,7 +22,15 @@ import { CreateUserDto } from './dto/create-user.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { UpdateClientDto } from './dto/update-client.dto';
-import { UserRole, BetStatus, TransferLogType, type User } from '@prisma/client';
+import { StakeLimitsDto } from './dto/stake-limits.dto';
+import { BetDelaysDto } from './dto/bet-delays.dto';
+import {
+  UserRole,
+  BetStatus,
+  TransferLogType,
+  Prisma,
+  type User,
+} from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import { signAccessToken } from './auth-token.util';
 import { JwtAuthUser } from './types/jwt-payload.interface';
@@ -1330,6 +1343,25 @@ export class AuthService {
       updateData.maxWinAmount = resolvedMaxWinAmount;
     }
 
+    if (updateClientDto.maxExposure !== undefined) {
+      updateData.maxExposure = updateClientDto.maxExposure;
+    }
+
+    if (updateClientDto.maxEventExposure !== undefined) {
+      updateData.maxEventExposure = updateClientDto.maxEventExposure;
+    }
+
+    if (updateClientDto.stakeLimits !== undefined) {
+      const stakeLimits = await this.mergeStakeLimits(
+        currentUser,
+        targetClient,
+        updateClientDto.stakeLimits,
+      );
+      updateData.stakeLimits = Object.keys(stakeLimits).length
+        ? stakeLimits
+        : Prisma.DbNull;
+    }
+
     // Update user
     const updatedUser = await this.prisma.user.update({
       where: { id: clientId },
@@ -1340,6 +1372,8 @@ export class AuthService {
         username: true,
         role: true,
         commissionPercentage: true,
+        maxExposure: true,
+        maxEventExposure: true,
         isActive: true,
         parentId: true,
         createdAt: true,
@@ -1353,4 +1387,219 @@ export class AuthService {
       user: updatedUser,
     };
   }
+
+  /**
+   * Set min/max stake per market type on a downline user (agent or client).
+   * Unset entries inherit from the parent chain; see UsersService.getEffectiveStakeLimits.
+   */
+  async updateStakeLimits(
+    currentUser: User,
+    targetUserId: string,
+    dto: StakeLimitsDto,
+  ) {
+    const targetUser = await this.prisma.user.findUnique({
+      where: { id: targetUserId },
+    });
+
+    if (!targetUser) {
+      throw new BadRequestException('User not found');
+    }
+
+    if (targetUser.id === currentUser.id) {
+      throw new ForbiddenException('You cannot change your own stake limits');
+    }
+
+    if (currentUser.role !== UserRole.SUPER_ADMIN) {
+      const isInHierarchy = await this.isUserInHierarchy(
+        currentUser.id,
+        targetUserId,
+      );
+      if (!isInHierarchy) {
+        throw new ForbiddenException(
+          'You do not have access to update this user',
+        );
+      }
+    }
+
+    const stakeLimits = await this.mergeStakeLimits(
+      currentUser,
+      targetUser,
+      dto,
+    );
+    await this.prisma.user.update({
+      where: { id: targetUserId },
+      data: {
+        stakeLimits: Object.keys(stakeLimits).length
+          ? stakeLimits
+          : Prisma.DbNull,
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Stake limits updated successfully',
+      userId: targetUserId,
+      stakeLimits,
+      effective: await this.usersService.getEffectiveStakeLimits(targetUserId),
+    };
+  }
+
+  /**
+   * Set the extra accept delay per market type on a downline client (null removes a market type).
+   * Added to the event delay in placeBet; bets placed under it carry metadata.betDelay.
+   */
+  async updateBetDelays(
+    currentUser: User,
+    targetUserId: string,
+    dto: BetDelaysDto,
+  ) {
+    const targetUser = await this.prisma.user.findUnique({
+      where: { id: targetUserId },
+    });
+
+    if (!targetUser) {
+      throw new BadRequestException('User not found');
+    }
+
+    if (targetUser.role !== UserRole.CLIENT) {
+      throw new BadRequestException(
+        'Bet delay can only be set on CLIENT users',
+      );
+    }
+
+    if (currentUser.role !== UserRole.SUPER_ADMIN) {
+      const isInHierarchy = await this.isUserInHierarchy(
+        currentUser.id,
+        targetUserId,
+      );
+      if (!isInHierarchy) {
+        throw new ForbiddenException(
+          'You do not have access to update this user',
+        );
+      }
+    }
+
+    const betDelays: BetDelays = {
+      ...((targetUser.betDelays ?? {}) as BetDelays),
+    };
+    for (const type of STAKE_LIMIT_MARKET_TYPES) {
+      const delaySec = dto[type];
+      if (delaySec === undefined) continue;
+      if (delaySec === null || delaySec === 0) delete betDelays[type];
+      else betDelays[type] = delaySec;
+    }
+
+    await this.prisma.user.update({
+      where: { id: targetUserId },
+      data: {
+        betDelays: Object.keys(betDelays).length ? betDelays : Prisma.DbNull,
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Bet delay updated successfully',
+      userId: targetUserId,
+      betDelays,
+    };
+  }
+
+  /**
+   * Clients in the current user's downline that have a bet delay set.
+   */
+  async getDownlineBetDelays(currentUser: User) {
+    const downlineIds =
+      currentUser.role === UserRole.SUPER_ADMIN
+        ? undefined
+        : await this.getDownlineUserIds(currentUser.id);
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        role: UserRole.CLIENT,
+        betDelays: { not: Prisma.DbNull },
+        ...(downlineIds && { id: { in: downlineIds } }),
+      },
+      select: {
+        id: true,
+        name: true,
+        username: true,
+        parentId: true,
+        betDelays: true,
+      },
+      orderBy: { username: 'asc' },
+    });
+
+    return {
+      success: true,
+      total: users.length,
+      users,
+    };
+  }
+
+  /**
+   * Merge a stake-limit update into the user's stored limits (null clears an entry) and validate it:
+   * min <= max once inherited values are applied, and a non-super-admin cannot grant limits
+   * outside their own effective range.
+   */
+  private async mergeStakeLimits(
+    currentUser: User,
+    targetUser: {
+      id: string;
+      parentId: string | null;
+      stakeLimits: Prisma.JsonValue | null;
+    },
+    dto: StakeLimitsDto,
+  ): Promise<StakeLimits> {
+    const merged: StakeLimits = {
+      ...((targetUser.stakeLimits ?? {}) as StakeLimits),
+    };
+
+    for (const type of STAKE_LIMIT_MARKET_TYPES) {
+      const update = dto[type];
+      if (update === undefined) continue;
+      if (update === null) {
+        delete merged[type];
+        continue;
+      }
+      const next = { ...(merged[type] ?? {}) };
+      for (const bound of ['min', 'max'] as const) {
+        if (update[bound] === null) delete next[bound];
+        else if (update[bound] !== undefined) next[bound] = update[bound];
+      }
+      if (Object.keys(next).length) merged[type] = next;
+      else delete merged[type];
+    }
+
+    const inherited = await this.usersService.getEffectiveStakeLimits(
+      targetUser.parentId ?? '',
+    );
+    const ownLimits =
+      currentUser.role === UserRole.SUPER_ADMIN
+        ? null
+        : await this.usersService.getEffectiveStakeLimits(currentUser.id);
+
+    for (const type of STAKE_LIMIT_MARKET_TYPES) {
+      const min = merged[type]?.min ?? inherited[type].min;
+      const max = merged[type]?.max ?? inherited[type].max;
+      if (min > max) {
+        throw new BadRequestException(
+          `${type}: min stake ${min} cannot exceed max stake ${max}`,
+        );
+      }
+      if (ownLimits) {
+        if (merged[type]?.min !== undefined && min < ownLimits[type].min) {
+          throw new BadRequestException(
+            `${type}: cannot set min stake below your own min stake of ${ownLimits[type].min}`,
+          );
+        }
+        if (merged[type]?.max !== undefined && max > ownLimits[type].max) {
+          throw new BadRequestException(
+            `${type}: cannot set max stake above your own max stake of ${ownLimits[type].max}`,
+          );
+        }
+      }
+    }
+
+    return merged;
+  }
 }
@@ -0,0 +1,22 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+
+/** Extra accept delay in seconds per market type for one client; null removes it. */
+export class BetDelaysDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(120)
+  matchodds?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(120)
+  bookmaker?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(120)
+  fancy?: number | null;
+}
@@ -0,0 +1,32 @@
+import { IsNumber, IsOptional, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class StakeLimitDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  min?: number | null; // null clears the limit (inherit from parent)
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max?: number | null;
+}
+
+/** Per-market-type stake limits; a market type set to null inherits entirely from the parent. */
+export class StakeLimitsDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StakeLimitDto)
+  matchodds?: StakeLimitDto | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StakeLimitDto)
+  bookmaker?: StakeLimitDto | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StakeLimitDto)
+  fancy?: StakeLimitDto | null;
+}
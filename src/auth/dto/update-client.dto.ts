@@ -1,4 +1,15 @@
-import { IsString, MinLength, MaxLength, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import {
+  IsString,
+  MinLength,
+  MaxLength,
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StakeLimitsDto } from './stake-limits.dto';
 
 export class UpdateClientDto {
   @IsOptional()
@@ -29,6 +40,23 @@ export class UpdateClientDto {
   @IsNumber()
   @Min(0)
   maxWinLimit?: number;
+
+  // Cap on total open exposure (wallet liability); null removes it.
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxExposure?: number | null;
+
+  // Cap on open exposure within a single event; null removes it.
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxEventExposure?: number | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StakeLimitsDto)
+  stakeLimits?: StakeLimitsDto;
 }
 
 
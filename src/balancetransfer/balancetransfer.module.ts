@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { BalanceTransferController } from './transfer.controller';
 import { TransferService } from './transfer.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { CricketIdModule } from '../cricketid/cricketid.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, CricketIdModule],
   controllers: [BalanceTransferController],
   providers: [TransferService],
   exports: [TransferService],
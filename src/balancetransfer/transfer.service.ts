@@ -8,12 +8,16 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { UserRole, TransferLogType, type User } from '@prisma/client';
 import { BalanceChangeDto } from './dto/balance-change.dto';
+import { BettingGateway } from '../betting/betting.gateway';
 
 @Injectable()
 export class TransferService {
   private readonly logger = new Logger(TransferService.name);
   
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private readonly bettingGateway: BettingGateway,
+  ) {}
 
   // =======================================================
   // 🔼 TOP-UP BALANCE (uses Wallet.balance)
@@ -45,7 +49,7 @@ export class TransferService {
       // Configure transaction with timeout to prevent transaction invalidation
       // Note: Prisma automatically uses DIRECT_URL for transactions when configured in schema
       // Neon pooler doesn't support transactions well, so Prisma switches to direct connection
-      return await this.prisma.$transaction(
+      const result = await this.prisma.$transaction(
         async (tx) => {
           let updatedFromWallet:
             | {
@@ -130,6 +134,12 @@ export class TransferService {
           timeout: 20000, // Maximum time the transaction can run (20 seconds)
         }
       );
+
+      await this.pushWalletUpdates(
+        shouldDeduct ? [fromUser.id, toUser.id] : [toUser.id],
+      );
+
+      return result;
     } catch (error) {
       this.logger.error(`Error in topUpBalance: ${error instanceof Error ? error.message : String(error)}`);
       this.logger.error(`Stack trace: ${error instanceof Error ? error.stack : 'No stack trace'}`);
@@ -166,7 +176,7 @@ export class TransferService {
     // ✅ Role validation
     this.validateRoleHierarchy(initiator, subordinate, 'TOPDOWN');
 
-    return this.prisma.$transaction(
+    const result = await this.prisma.$transaction(
       async (tx) => {
         // Ensure wallets
         const subordinateWallet = await tx.wallet.upsert({
@@ -240,6 +250,29 @@ export class TransferService {
         timeout: 20000, // Maximum time the transaction can run (20 seconds)
       }
     );
+
+    await this.pushWalletUpdates([subordinate.id, initiator.id]);
+
+    return result;
+  }
+
+  // =======================================================
+  // 📡 SOCKET PUSH (after commit)
+  // =======================================================
+  private async pushWalletUpdates(userIds: string[]) {
+    try {
+      const wallets = await this.prisma.wallet.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, balance: true, liability: true },
+      });
+      for (const wallet of wallets) {
+        this.bettingGateway.emitWalletUpdate(wallet.userId, wallet);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to push wallet updates: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
   }
 
   // =======================================================
@@ -125,6 +125,43 @@ export class BetProcessingQueue {
     }
   }
 
+  /**
+   * Delayed job that places a bet parked in the accept-delay window once `delayMs` elapses.
+   * Resolves false when the queue cannot take it; BetsService.sweepPendingAcceptances places it then.
+   */
+  async addPendingAcceptanceJob(
+    acceptanceId: string,
+    delayMs: number,
+  ): Promise<boolean> {
+    if (!this.queue) {
+      return false;
+    }
+
+    try {
+      await this.queue.add(
+        'accept-pending-bet',
+        { acceptanceId },
+        {
+          jobId: `accept-${acceptanceId}`, // Ensure idempotency
+          delay: delayMs,
+          attempts: 1, // Accept/cancel is claimed once in Redis; retries would be no-ops
+        },
+      );
+      this.logger.debug(
+        `Pending acceptance job added: ${acceptanceId} (delay ${delayMs}ms)`,
+      );
+      return true;
+    } catch (error) {
+      const errorCode = (error as any)?.code || 'UNKNOWN';
+      if (errorCode !== 'ECONNREFUSED') {
+        this.logger.warn(
+          `Failed to add pending acceptance job for ${acceptanceId}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return false;
+    }
+  }
+
   /**
    * ✅ PERFORMANCE: Add bet exposure processing job to queue
    * Fire-and-forget - does not block response
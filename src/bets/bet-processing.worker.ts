@@ -6,6 +6,8 @@ import { FancyExposureService } from './fancy-exposure.service';
 import { BookmakerExposureService } from './bookmaker-exposure.service';
 import { BetStatus, Bet, MatchStatus, TransactionType } from '@prisma/client';
 import { RedisService } from '../common/redis/redis.service';
+import { BettingGateway } from '../betting/betting.gateway';
+import { BetsService } from './bets.service';
 import {
   calculateMatchOddsPosition,
   calculateBookmakerPosition,
@@ -22,6 +24,7 @@ import {
  * - Cross-market exposure recalculation
  * - Final wallet updates
  * - Bet status: ACCEPTED → CONFIRMED
+ * - Placing bets parked in the accept-delay window
  */
 @Injectable()
 export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
@@ -34,6 +37,8 @@ export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
     private readonly fancyExposureService: FancyExposureService,
     private readonly bookmakerExposureService: BookmakerExposureService,
     private readonly redisService: RedisService,
+    private readonly bettingGateway: BettingGateway,
+    private readonly betsService: BetsService,
   ) {}
 
   onModuleInit() {
@@ -49,6 +54,8 @@ export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
           return await this.handleBetExposureProcessing(job);
         } else if (job.name === 'process-bet') {
           return await this.handleBetProcessing(job);
+        } else if (job.name === 'accept-pending-bet') {
+          return await this.betsService.completePendingAcceptance(job.data.acceptanceId);
         } else {
           throw new Error(`Unknown job type: ${job.name}`);
         }
@@ -324,7 +331,7 @@ export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
       const realExposureDelta = matchOddsDelta + fancyDelta + bookmakerDelta;
 
       // ✅ Update wallet: Compare locked exposure vs real exposure
-      await this.prisma.$transaction(async (tx) => {
+      const walletAfter = await this.prisma.$transaction(async (tx) => {
         const wallet = await tx.wallet.findUnique({
           where: { userId },
         });
@@ -384,12 +391,22 @@ export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
           `Locked: ${maxPossibleLoss}, Real: ${realExposureDelta}, Adjustment: ${balanceAdjustment}. ` +
           `Deltas: MO=${matchOddsDelta}, Fancy=${fancyDelta}, BM=${bookmakerDelta}`,
         );
+
+        return { balance: finalBalance, liability: finalLiability };
       });
 
       // ✅ Invalidate caches in background
       this.redisService.invalidateUserPositions(userId).catch(() => {});
       this.redisService.invalidateUserExposure(userId).catch(() => {});
 
+      this.bettingGateway.emitWalletUpdate(userId, walletAfter);
+      this.bettingGateway.emitExposureUpdate(userId, {
+        liability: walletAfter.liability,
+        eventId: eventId || null,
+        marketId,
+        marketExposure: realExposureDelta,
+      });
+
       return { success: true, realExposureDelta, maxPossibleLoss };
     } catch (error) {
       // Log error but don't fail - wallet is already protected by lockedExposure
@@ -633,7 +650,7 @@ export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
         const exposureDelta = matchOddsDelta + fancyDelta + bookmakerDelta;
 
         // ✅ Update wallet: Release lockedExposure, apply final exposure
-        await this.prisma.$transaction(async (tx) => {
+        const walletAfter = await this.prisma.$transaction(async (tx) => {
           const wallet = await tx.wallet.findUnique({
             where: { userId },
           });
@@ -687,12 +704,28 @@ export class BetProcessingWorker implements OnModuleInit, OnModuleDestroy {
           this.logger.log(
             `Bet ${betId} confirmed. Exposure: MO=${matchOddsDelta}, Fancy=${fancyDelta}, BM=${bookmakerDelta}, Total=${exposureDelta}`,
           );
+
+          return { balance: finalBalance, liability: finalLiability };
         });
 
         // ✅ Invalidate caches in background
         this.redisService.invalidateUserPositions(userId).catch(() => {});
         this.redisService.invalidateUserExposure(userId).catch(() => {});
 
+        this.bettingGateway.emitWalletUpdate(userId, walletAfter);
+        this.bettingGateway.emitExposureUpdate(userId, {
+          liability: walletAfter.liability,
+          eventId: eventId || null,
+          marketId,
+          marketExposure: exposureDelta,
+        });
+        this.bettingGateway.emitBetStatus(userId, {
+          betId,
+          status: BetStatus.CONFIRMED,
+          eventId: eventId || null,
+          marketId,
+        });
+
         return { success: true, exposureDelta };
   }
 
@@ -0,0 +1,410 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+
+/** Token bucket: up to `capacity` bets in a burst, refilled at `refillPerSec` bets per second. */
+export interface TokenBucketLimit {
+  capacity: number;
+  refillPerSec: number;
+}
+
+/** Buckets of one role: across all of a user's bets, and per user and market. */
+export interface RoleBetRateLimits {
+  user?: TokenBucketLimit;
+  market?: TokenBucketLimit;
+}
+
+/** Setting `bet_rate_limits` */
+export interface BetRateLimitConfig {
+  roles: Partial<Record<UserRole, RoleBetRateLimits>>;
+  /** Identical consecutive bets within this window are rejected (0 = off). */
+  duplicateWindowMs: number;
+}
+
+/** What the rate limit / duplicate check needs of one bet. */
+export interface RateLimitedBet {
+  marketId: string;
+  selectionId: string | number;
+  betType: string;
+  rate: number;
+  stake: number;
+}
+
+export type BetRejectionReason =
+  | 'RATE_LIMIT_USER'
+  | 'RATE_LIMIT_MARKET'
+  | 'DUPLICATE_BET';
+
+/**
+ * Bet rate limiting and duplicate-bet detection
+ *
+ * Runs before any other placement work (guardPlacement). Each bet takes a token from the user's
+ * bucket and from the user's bucket for that market (Redis, so limits hold across instances); an
+ * empty bucket rejects with BET_RATE_LIMITED. A bet identical to the user's previous one (market,
+ * selection, side, rate and stake) within `duplicateWindowMs` is rejected with DUPLICATE_BET; a
+ * placement that fails does not count as the previous bet. A bet slip is checked once, as one
+ * request.
+ * Rejections are counted per day and per user for the admin risk endpoint. Redis failures
+ * never block betting.
+ */
+@Injectable()
+export class BetRateLimitService {
+  private readonly logger = new Logger(BetRateLimitService.name);
+  private readonly BET_RATE_LIMITS_KEY = 'bet_rate_limits';
+  private readonly MAX_DUPLICATE_WINDOW_MS = 60_000;
+  /** Rejection counters are kept for 30 days. */
+  private readonly REJECTION_COUNTER_TTL_SEC = 30 * 24 * 3600;
+  private readonly DEFAULT_CONFIG: BetRateLimitConfig = {
+    roles: {
+      [UserRole.CLIENT]: {
+        user: { capacity: 10, refillPerSec: 2 },
+        market: { capacity: 5, refillPerSec: 1 },
+      },
+    },
+    duplicateWindowMs: 2000,
+  };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  private parseBetRateLimitConfig(
+    raw: string | null | undefined,
+  ): BetRateLimitConfig {
+    if (!raw) return this.DEFAULT_CONFIG;
+    try {
+      const parsed = JSON.parse(raw) as Partial<BetRateLimitConfig>;
+      return {
+        roles:
+          parsed.roles && typeof parsed.roles === 'object' ? parsed.roles : {},
+        duplicateWindowMs: Number(parsed.duplicateWindowMs) || 0,
+      };
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.BET_RATE_LIMITS_KEY} setting, using defaults`,
+      );
+      return this.DEFAULT_CONFIG;
+    }
+  }
+
+  async getBetRateLimits(): Promise<BetRateLimitConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.BET_RATE_LIMITS_KEY },
+      select: { value: true },
+    });
+    return this.parseBetRateLimitConfig(existing?.value);
+  }
+
+  private validateBucket(name: string, bucket: TokenBucketLimit) {
+    const capacity = Number(bucket?.capacity);
+    const refillPerSec = Number(bucket?.refillPerSec);
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > 1000) {
+      throw new BadRequestException(
+        `${name}.capacity must be an integer between 1 and 1000`,
+      );
+    }
+    if (
+      !Number.isFinite(refillPerSec) ||
+      refillPerSec <= 0 ||
+      refillPerSec > 100
+    ) {
+      throw new BadRequestException(
+        `${name}.refillPerSec must be a number above 0 and at most 100`,
+      );
+    }
+    return { capacity, refillPerSec };
+  }
+
+  /**
+   * Set or clear (null) the user / market bucket of a role. A role with neither is unlimited.
+   */
+  async setRoleLimits(
+    role: UserRole,
+    limits: {
+      user?: TokenBucketLimit | null;
+      market?: TokenBucketLimit | null;
+    },
+  ) {
+    if (!Object.values(UserRole).includes(role)) {
+      throw new BadRequestException(
+        `role must be one of: ${Object.values(UserRole).join(', ')}`,
+      );
+    }
+
+    const config = await this.getBetRateLimits();
+    const next: RoleBetRateLimits = { ...(config.roles[role] ?? {}) };
+    for (const scope of ['user', 'market'] as const) {
+      const bucket = limits[scope];
+      if (bucket === undefined) continue;
+      if (bucket === null) delete next[scope];
+      else next[scope] = this.validateBucket(scope, bucket);
+    }
+    const roles = { ...config.roles };
+    if (next.user || next.market) roles[role] = next;
+    else delete roles[role];
+
+    return this.saveBetRateLimits({ ...config, roles });
+  }
+
+  async setDuplicateWindow(duplicateWindowMs: number) {
+    if (
+      !Number.isInteger(duplicateWindowMs) ||
+      duplicateWindowMs < 0 ||
+      duplicateWindowMs > this.MAX_DUPLICATE_WINDOW_MS
+    ) {
+      throw new BadRequestException(
+        `duplicateWindowMs must be an integer between 0 and ${this.MAX_DUPLICATE_WINDOW_MS}`,
+      );
+    }
+    const config = await this.getBetRateLimits();
+    return this.saveBetRateLimits({ ...config, duplicateWindowMs });
+  }
+
+  private async saveBetRateLimits(config: BetRateLimitConfig) {
+    const value = JSON.stringify(config);
+    await this.prisma.setting.upsert({
+      where: { key: this.BET_RATE_LIMITS_KEY },
+      update: { value },
+      create: { key: this.BET_RATE_LIMITS_KEY, value },
+    });
+    return config;
+  }
+
+  /**
+   * Run a placement behind the rate limit / duplicate check (checkBets). A placement that throws
+   * releases its duplicate fingerprint, so an identical retry is not rejected as DUPLICATE_BET.
+   */
+  async guardPlacement<T>(
+    userId: string,
+    bets: RateLimitedBet[],
+    options: { duplicateCheck: boolean },
+    place: () => Promise<T>,
+  ): Promise<T> {
+    const fingerprint = await this.checkBets(userId, bets, options);
+    try {
+      return await place();
+    } catch (error) {
+      if (fingerprint) {
+        await this.redisService
+          .deleteIfEquals(this.lastBetKey(userId), fingerprint)
+          .catch((releaseError: Error) =>
+            this.logger.warn(
+              `Could not release duplicate bet fingerprint: ${releaseError.message}`,
+            ),
+          );
+      }
+      throw error;
+    }
+  }
+
+  private lastBetKey(userId: string) {
+    return `bet-rate:last:${userId}`;
+  }
+
+  /**
+   * Rate limit / duplicate check of one request carrying one or more bets (a bet slip). Throws
+   * BET_RATE_LIMITED (429) or DUPLICATE_BET (409) when the request must not go through.
+   *
+   * The user bucket gives one token per bet and each market bucket one per bet on that market
+   * (a request never takes more than a bucket's capacity); tokens are taken only when every
+   * bucket has them. The duplicate check compares the whole request with the user's previous one,
+   * so the bets of a slip never count as duplicates of each other; it is skipped for requests
+   * carrying an idempotency key, whose retries are answered by the key instead.
+   *
+   * @returns the fingerprint recorded for the duplicate check, if any
+   */
+  private async checkBets(
+    userId: string,
+    bets: RateLimitedBet[],
+    options: { duplicateCheck: boolean },
+  ): Promise<string | null> {
+    if (bets.length === 0) return null;
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+    if (!user) return null;
+
+    const config = await this.getBetRateLimits();
+    const limits = config.roles[user.role] ?? {};
+
+    const buckets: Array<{
+      reason: BetRejectionReason;
+      scope: 'USER' | 'MARKET';
+      key: string;
+      limit: TokenBucketLimit;
+      marketId: string;
+      count: number;
+    }> = [];
+    if (limits.user) {
+      buckets.push({
+        reason: 'RATE_LIMIT_USER',
+        scope: 'USER',
+        key: `bet-rate:user:${userId}`,
+        limit: limits.user,
+        marketId: bets[0].marketId,
+        count: bets.length,
+      });
+    }
+    if (limits.market) {
+      const perMarket = new Map<string, number>();
+      for (const bet of bets) {
+        perMarket.set(bet.marketId, (perMarket.get(bet.marketId) ?? 0) + 1);
+      }
+      for (const [marketId, count] of perMarket) {
+        buckets.push({
+          reason: 'RATE_LIMIT_MARKET',
+          scope: 'MARKET',
+          key: `bet-rate:market:${userId}:${marketId}`,
+          limit: limits.market,
+          marketId,
+          count,
+        });
+      }
+    }
+
+    let result: { allowed: boolean; deniedIndex: number; retryAfterMs: number };
+    try {
+      result = await this.redisService.takeTokens(
+        buckets.map((bucket) => ({
+          key: bucket.key,
+          capacity: bucket.limit.capacity,
+          refillPerSec: bucket.limit.refillPerSec,
+          count: Math.min(bucket.count, bucket.limit.capacity),
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Bet rate limiter unavailable, allowing bet: ${(error as Error).message}`,
+      );
+      return null;
+    }
+    if (!result.allowed) {
+      const bucket = buckets[result.deniedIndex];
+      await this.recordRejection(userId, bucket.reason);
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Too many bets, please slow down',
+          code: 'BET_RATE_LIMITED',
+          scope: bucket.scope,
+          marketId: bucket.marketId,
+          retryAfterMs: result.retryAfterMs,
+        },
+        429,
+      );
+    }
+
+    if (!options.duplicateCheck || config.duplicateWindowMs <= 0) return null;
+    const fingerprint = bets
+      .map((bet) =>
+        [
+          bet.marketId,
+          bet.selectionId,
+          bet.betType.toUpperCase(),
+          bet.rate,
+          bet.stake,
+        ].join('|'),
+      )
+      .join(';');
+    let previous: string | null;
+    try {
+      previous = await this.redisService.swapWithExpiry(
+        this.lastBetKey(userId),
+        fingerprint,
+        config.duplicateWindowMs,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Duplicate bet check unavailable, allowing bet: ${(error as Error).message}`,
+      );
+      return null;
+    }
+    if (previous === fingerprint) {
+      await this.recordRejection(userId, 'DUPLICATE_BET');
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Identical bet placed moments ago',
+          code: 'DUPLICATE_BET',
+          marketId: bets[0].marketId,
+          selectionId: bets[0].selectionId,
+          duplicateWindowMs: config.duplicateWindowMs,
+        },
+        409,
+      );
+    }
+    return fingerprint;
+  }
+
+  private rejectionKeys(date: string) {
+    return {
+      totals: `bet-risk:rejections:${date}`,
+      users: `bet-risk:rejections:${date}:users`,
+    };
+  }
+
+  private async recordRejection(userId: string, reason: BetRejectionReason) {
+    const keys = this.rejectionKeys(new Date().toISOString().slice(0, 10));
+    await Promise.all([
+      this.redisService.incrementHashField(
+        keys.totals,
+        reason,
+        this.REJECTION_COUNTER_TTL_SEC,
+      ),
+      this.redisService.incrementSortedSetMember(
+        keys.users,
+        userId,
+        this.REJECTION_COUNTER_TTL_SEC,
+      ),
+    ]);
+  }
+
+  /**
+   * Rejection counts of one UTC day (default today) and the users rejected most.
+   */
+  async getRejectionStats(date?: string, top = 20) {
+    const day =
+      date && /^\d{4}-\d{2}-\d{2}$/.test(date)
+        ? date
+        : new Date().toISOString().slice(0, 10);
+    const keys = this.rejectionKeys(day);
+    const [counts, topUsers] = await Promise.all([
+      this.redisService.getHashCounters(keys.totals),
+      this.redisService.getTopSortedSetMembers(
+        keys.users,
+        Math.min(Math.max(Math.floor(top) || 20, 1), 100),
+      ),
+    ]);
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: topUsers.map((u) => u.member) } },
+      select: { id: true, username: true, role: true },
+    });
+    const byId = new Map(users.map((u) => [u.id, u]));
+
+    const totals: Record<BetRejectionReason, number> = {
+      RATE_LIMIT_USER: counts.RATE_LIMIT_USER ?? 0,
+      RATE_LIMIT_MARKET: counts.RATE_LIMIT_MARKET ?? 0,
+      DUPLICATE_BET: counts.DUPLICATE_BET ?? 0,
+    };
+    return {
+      date: day,
+      total: Object.values(totals).reduce((sum, n) => sum + n, 0),
+      totals,
+      topUsers: topUsers.map((u) => ({
+        userId: u.member,
+        username: byId.get(u.member)?.username ?? null,
+        role: byId.get(u.member)?.role ?? null,
+        rejections: u.score,
+      })),
+    };
+  }
+}
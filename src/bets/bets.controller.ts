@@ -3,16 +3,20 @@ import {
   Controller,
   Post,
   Get,
+  Param,
   Query,
   HttpException,
   HttpStatus,
+  Headers,
   Logger,
   UseGuards,
 } from '@nestjs/common';
-import { PlaceBetDto } from './bets.dto';
+import { PlaceBetDto, PlaceBetSlipDto } from './bets.dto';
 import { BetsService } from './bets.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { Playlive24OriginGuard } from '../common/guards/playlive24-origin.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { JwtAuthUser } from '../auth/types/jwt-payload.interface';
 
 @Controller('bf_placeBet_api')
 export class BetsController {
@@ -22,9 +26,12 @@ export class BetsController {
 
   @Post()
    @UseGuards(JwtAuthGuard, Playlive24OriginGuard)
-  async placeBet(@Body() dto: PlaceBetDto) {
+  async placeBet(
+    @Body() dto: PlaceBetDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
     try {
-      return await this.betsService.placeBet(dto);
+      return await this.betsService.placeBet(dto, { idempotencyKey });
     } catch (error) {
       this.logger.error('Error placing bet:', error);
       
@@ -46,6 +53,51 @@ export class BetsController {
     }
   }
 
+  /**
+   * Place several bets as one slip (all or nothing)
+   * POST /bf_placeBet_api/slip
+   *
+   * Body: { bets: PlaceBetDto[] } for a single user. Every bet runs the normal placement checks and
+   * all of them share one wallet transaction; on any rejection nothing is placed and `results`
+   * shows which bet failed. Under an accept delay the slip is parked and AWAITING_ACCEPTANCE is
+   * returned with an acceptanceId, as for a single bet.
+   */
+  @Post('slip')
+  @UseGuards(JwtAuthGuard, Playlive24OriginGuard)
+  placeBetSlip(@Body() dto: PlaceBetSlipDto) {
+    return this.betsService.placeBetSlip(dto.bets);
+  }
+
+  /**
+   * Poll a bet parked in the accept-delay window
+   * GET /bf_placeBet_api/pending/:acceptanceId
+   *
+   * status: AWAITING_ACCEPTANCE | PROCESSING | ACCEPTED (betId set) | REJECTED (error set) | CANCELLED
+   */
+  @Get('pending/:acceptanceId')
+  @UseGuards(JwtAuthGuard)
+  getPendingBet(
+    @Param('acceptanceId') acceptanceId: string,
+    @CurrentUser() user: JwtAuthUser,
+  ) {
+    return this.betsService.getPendingAcceptance(acceptanceId, user.id);
+  }
+
+  /**
+   * Withdraw a bet that is still inside the accept-delay window
+   * POST /bf_placeBet_api/pending/:acceptanceId/cancel
+   *
+   * 409 PENDING_BET_NOT_CANCELLABLE once the delay has elapsed and the bet is being placed.
+   */
+  @Post('pending/:acceptanceId/cancel')
+  @UseGuards(JwtAuthGuard, Playlive24OriginGuard)
+  cancelPendingBet(
+    @Param('acceptanceId') acceptanceId: string,
+    @CurrentUser() user: JwtAuthUser,
+  ) {
+    return this.betsService.cancelPendingAcceptance(acceptanceId, user.id);
+  }
+
   /**
    * Get position details for a market
    * GET /bf_placeBet_api/positions?userId={userId}&marketId={marketId}&selections={selection1,selection2,selection3}
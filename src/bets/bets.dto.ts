@@ -1,6 +1,26 @@
-import { IsNotEmpty, IsNumber, IsString, IsOptional } from 'class-validator';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
+/**
+ * Match Odds price handling when the live price differs from bet_rate:
+ * EXACT fills at bet_rate if it is still available, BETTER fills at the current best price if it is
+ * at least as good, TICKS also accepts a best price up to odds_tolerance_ticks worse.
+ */
+export const ODDS_TOLERANCES = ['EXACT', 'BETTER', 'TICKS'] as const;
+export type OddsTolerance = (typeof ODDS_TOLERANCES)[number];
+
 export class PlaceBetDto {
   @IsNotEmpty()
   @Type(() => Number)
@@ -68,4 +88,27 @@ export class PlaceBetDto {
   @IsOptional()
   @IsString()
   runner_name_2?: string;
+
+  @IsOptional()
+  @IsString()
+  client_ref?: string; // Client idempotency key; same as the Idempotency-Key header
+
+  @IsOptional()
+  @IsIn(ODDS_TOLERANCES)
+  odds_tolerance?: OddsTolerance; // Match Odds only; defaults to EXACT
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  odds_tolerance_ticks?: number; // Required with odds_tolerance TICKS
+}
+
+export class PlaceBetSlipDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PlaceBetDto)
+  bets: PlaceBetDto[];
 }
@@ -2,26 +2,35 @@ import { Module } from '@nestjs/common';
 import { BetsController } from './bets.controller';
 import { BetsService } from './bets.service';
 import { CricketIdModule } from '../cricketid/cricketid.module';
+import { UsersModule } from '../users/users.module';
 import { MatchOddsExposureService } from './matchodds-exposure.service';
 import { BookmakerExposureService } from './bookmaker-exposure.service';
 import { FancyExposureService } from './fancy-exposure.service';
+import { TossExposureService } from './toss-exposure.service';
+import { SportsMarketExposureService } from './sports-market-exposure.service';
+import { LiabilityService } from './liability.service';
 import { BetProcessingQueue } from './bet-processing.queue';
+import { BetRateLimitService } from './bet-rate-limit.service';
 import { BetProcessingWorker } from './bet-processing.worker';
 import { Playlive24OriginGuard } from '../common/guards/playlive24-origin.guard';
 
 @Module({
-  imports: [CricketIdModule],
+  imports: [CricketIdModule, UsersModule],
   controllers: [BetsController],
   providers: [
     Playlive24OriginGuard,
     BetsService,
     MatchOddsExposureService,
     BookmakerExposureService,
+    TossExposureService,
+    SportsMarketExposureService,
     FancyExposureService,
+    LiabilityService,
     BetProcessingQueue,
     BetProcessingWorker,
+    BetRateLimitService,
   ],
-  exports: [BetsService],
+  exports: [BetsService, BetRateLimitService, FancyExposureService],
 })
 export class BetsModule {}
 
@@ -0,0 +1,111 @@
+import { HttpException } from '@nestjs/common';
+import { type DiamondSection, priceBetFromVendorSection } from './bets.service';
+
+describe('priceBetFromVendorSection', () => {
+  const bookmaker: DiamondSection = {
+    sid: '7',
+    odds: [
+      { otype: 'back', odds: 90 },
+      { otype: 'lay', odds: 95 },
+    ],
+  };
+
+  const price = (
+    params: Partial<Parameters<typeof priceBetFromVendorSection>[0]>,
+  ) =>
+    priceBetFromVendorSection({
+      kind: 'bookmaker',
+      section: bookmaker,
+      betType: 'BACK',
+      requestedRate: 90,
+      stake: 100,
+      clientWinAmount: 0,
+      clientLossAmount: 0,
+      ...params,
+    });
+
+  const errorCode = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(HttpException);
+      return ((error as HttpException).getResponse() as { code: string }).code;
+    }
+    throw new Error('expected the vendor price to be rejected');
+  };
+
+  it('accepts the vendor rate quoted as r or as the decimal', () => {
+    for (const requestedRate of [90, 1.9]) {
+      const result = price({ requestedRate });
+      expect(result.betRate).toBeCloseTo(1.9);
+      expect(result.winAmount).toBeCloseTo(90);
+      expect(result.lossAmount).toBe(100);
+    }
+  });
+
+  it('converts a worse r quote before comparing', () => {
+    const result = price({ requestedRate: 85 });
+    expect(result.betRate).toBeCloseTo(1.85);
+    expect(result.winAmount).toBeCloseTo(85);
+  });
+
+  it('rejects a back price better than the vendor in either form', () => {
+    expect(errorCode(() => price({ requestedRate: 95 }))).toBe(
+      'RATE_NOT_MATCHED',
+    );
+    expect(errorCode(() => price({ requestedRate: 1.95 }))).toBe(
+      'RATE_NOT_MATCHED',
+    );
+  });
+
+  it('prices a lay r quote as a decimal, not as the raw number', () => {
+    const result = price({ betType: 'LAY', requestedRate: 100 });
+    expect(result.betRate).toBeCloseTo(2);
+    expect(result.winAmount).toBe(100);
+    expect(result.lossAmount).toBeCloseTo(100);
+  });
+
+  it('rejects a lay price lower than the vendor', () => {
+    expect(errorCode(() => price({ betType: 'LAY', requestedRate: 90 }))).toBe(
+      'RATE_NOT_MATCHED',
+    );
+  });
+
+  it('rejects a client amount priced from the other rate form', () => {
+    // bet_rate 1.5 read as decimal 1.5, but the win amount was priced as r = 1.5
+    expect(
+      errorCode(() => price({ requestedRate: 1.5, clientWinAmount: 1.5 })),
+    ).toBe('MIXED_RATE_FORMS');
+    expect(
+      errorCode(() =>
+        price({ betType: 'LAY', requestedRate: 100, clientLossAmount: 9900 }),
+      ),
+    ).toBe('MIXED_RATE_FORMS');
+  });
+
+  it('accepts a client amount consistent with the rate', () => {
+    const result = price({ requestedRate: 90, clientWinAmount: 90 });
+    expect(result.winAmount).toBeCloseTo(90);
+  });
+
+  it('prices fancy from the vendor line and rate', () => {
+    const section: DiamondSection = {
+      sid: '7',
+      odds: [
+        { otype: 'back', odds: 50, size: 110 },
+        { otype: 'lay', odds: 49, size: 90 },
+      ],
+    };
+    expect(
+      price({ kind: 'fancy', section, betType: 'YES', requestedRate: 50 }),
+    ).toEqual({ betRate: 50, winAmount: 110, lossAmount: 100 });
+    expect(
+      price({ kind: 'fancy', section, betType: 'NO', requestedRate: 49 }),
+    ).toEqual({ betRate: 49, winAmount: 100, lossAmount: 90 });
+    expect(
+      errorCode(() =>
+        price({ kind: 'fancy', section, betType: 'YES', requestedRate: 51 }),
+      ),
+    ).toBe('RATE_NOT_MATCHED');
+  });
+});
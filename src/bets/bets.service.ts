@@ -1,5 +1,6 @@
 import { BadRequestException, HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
-import { PlaceBetDto } from './bets.dto';
+import { Cron } from '@nestjs/schedule';
+import { PlaceBetDto, type OddsTolerance } from './bets.dto';
 import { PrismaService } from '../prisma/prisma.service';
 import { BetStatus, MatchStatus, TransactionType, Prisma, Wallet, Bet, PrismaClient } from '@prisma/client';
 import { 
@@ -7,14 +8,306 @@ import {
   calculateMatchOddsPosition, 
   calculateBookmakerPosition,
   calculateFancyPosition,
+  calculateTossPosition,
+  calculateSportsMarketPosition,
   type FancyPosition,
 } from '../positions/position.service';
 import { CricketIdService } from '../cricketid/cricketid.service';
+import { MarketSuspensionService } from '../cricketid/market-suspension.service';
+import {
+  BetRateLimitService,
+  type RateLimitedBet,
+} from './bet-rate-limit.service';
 import { RedisService } from '../common/redis/redis.service';
 import { MatchOddsExposureService } from './matchodds-exposure.service';
 import { BookmakerExposureService } from './bookmaker-exposure.service';
 import { FancyExposureService } from './fancy-exposure.service';
+import { TossExposureService } from './toss-exposure.service';
+import { SportsMarketExposureService } from './sports-market-exposure.service';
+import { LiabilityService } from './liability.service';
+import {
+  SPORTS_MARKET_GTYPES,
+  isSportsMarketGtype,
+  resolveSportsMarketGtype,
+} from '../constants/sports-markets';
 import { BetProcessingQueue } from './bet-processing.queue';
+import { BettingGateway } from '../betting/betting.gateway';
+import {
+  UsersService,
+  type AncestorChainUser,
+  type BetDelays,
+  type StakeLimitMarketType,
+} from '../users/users.service';
+import { createHash, randomUUID } from 'crypto';
+
+export type PendingAcceptanceStatus =
+  | 'AWAITING_ACCEPTANCE'
+  | 'PROCESSING'
+  | 'ACCEPTED'
+  | 'REJECTED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+/** Match Odds price the bet was filled at, versus the price the client asked for. */
+export interface OddsFill {
+  requestedOdds: number;
+  matchedOdds: number;
+  oddsTolerance: OddsTolerance;
+  oddsToleranceTicks?: number;
+}
+
+/** Accept delay applied to a bet: the event override plus the delay the agent set on the client. */
+export interface BetDelay {
+  delaySec: number;
+  eventDelaySec: number;
+  userDelaySec: number;
+}
+
+/** One bet of a parked bet slip, with the price and delay it was parked at. */
+export interface PendingSlipLeg {
+  input: PlaceBetDto;
+  oddsFill?: OddsFill;
+  betDelay?: BetDelay;
+}
+
+/** Bet (or bet slip) held in the accept-delay window (Redis: bet:pending-accept:{id}). */
+export interface PendingAcceptanceRecord {
+  id: string;
+  userId: string;
+  status: PendingAcceptanceStatus;
+  eventId: string;
+  marketId: string;
+  delaySec: number;
+  createdAt: number;
+  acceptAt: number;
+  input: PlaceBetDto;
+  oddsFill?: OddsFill;
+  betDelay?: BetDelay;
+  /** Parked bet slip: every bet in slip order (`input` is the first); placed all or none */
+  slip?: PendingSlipLeg[];
+  betId?: string;
+  /** Bets of an accepted slip, in slip order */
+  betIds?: string[];
+  error?: unknown;
+  updatedAt: number;
+}
+
+/** Redis record behind an idempotency key (bet:idempotency:{userId}:{key}). */
+interface IdempotencyRecord {
+  status: 'IN_PROGRESS' | 'COMPLETED';
+  fingerprint: string;
+  createdAt: number;
+  response?: unknown;
+}
+
+export type MaxWinningMarketType = 'matchodds' | 'fancy' | 'bookmaker';
+export type MaxWinningScope =
+  | 'event'
+  | 'bookmaker-market'
+  | 'competition'
+  | 'sport';
+export const MAX_WINNING_SCOPES: MaxWinningScope[] = [
+  'event',
+  'bookmaker-market',
+  'competition',
+  'sport',
+];
+
+/** Per-market-type max winning amounts for one event / competition / sport. */
+export type MaxWinningTier = Partial<Record<MaxWinningMarketType, number>>;
+
+/** Setting `max_winning_limits`: overrides of MATCH_ODDS_MAX_WINNING / FANCY_MAX_WINNING. */
+export interface MaxWinningLimitsConfig {
+  events: Record<string, MaxWinningTier>;
+  bookmakerMarkets: Record<string, number>;
+  competitions: Record<string, MaxWinningTier>;
+  sports: Record<string, MaxWinningTier>;
+}
+
+/** Limit in effect for one bet; `source` is the most specific level that defined it. */
+interface ResolvedMaxWinningLimit {
+  limit: number | null;
+  source: MaxWinningScope | 'default';
+  sourceId: string | null;
+}
+
+/** Diamond (getdiamondapi) market as served by getBookmakerFancy / getDiamondFancy. */
+export type DiamondOdds = {
+  otype?: string;
+  odds?: number | string;
+  size?: number | string;
+  psid?: number;
+};
+export type DiamondSection = {
+  sid?: number | string;
+  nat?: string;
+  gstatus?: string;
+  min?: number;
+  max?: number;
+  odds?: DiamondOdds[];
+};
+type DiamondMarket = {
+  mid?: number | string;
+  marketId?: string;
+  mname?: string;
+  gtype?: string;
+  gstatus?: string;
+  min?: number;
+  max?: number;
+  section?: DiamondSection[];
+};
+
+/** PlaceBetDto after validation and exchange math; input to the wallet transaction. */
+interface PreparedBet {
+  input: PlaceBetDto;
+  userId: string;
+  match_id: number;
+  bet_name: string;
+  bet_type: string;
+  market_name: string;
+  market_type: string;
+  marketId: string;
+  eventId?: string;
+  runner_name_2?: string;
+  actualMarketType: string;
+  betGtype: string;
+  isTiedMatchMarket: boolean;
+  normalizedEventId: string;
+  normalizedSelectionId: number;
+  normalizedBetValue: number;
+  normalizedBetRate: number;
+  normalizedWinAmount: number;
+  normalizedLossAmount: number;
+  to_return: number;
+  selid: number;
+  settlement_id: string;
+  maxWinningLimit: ResolvedMaxWinningLimit;
+  /** The user and its ancestors (UsersService.getAncestorChain), shared by stake limits and bet delay */
+  ancestorChain: AncestorChainUser[];
+  oddsFill?: OddsFill;
+  betDelay?: BetDelay;
+  /** Parked bet being placed; kept in the bet metadata */
+  acceptanceId?: string;
+}
+
+/**
+ * ✅ PURE FUNCTION
+ * Prices a fancy / bookmaker / toss bet from its Diamond section.
+ *
+ * Fancy: bet_rate is the line (YES uses the back line, NO the lay line); the rate is the section's
+ * `size` (percent). YES wins stake × rate / 100 and risks the stake; NO wins the stake and risks
+ * stake × rate / 100. A client win_amount / loss_amount implying another rate is rejected.
+ *
+ * Bookmaker / toss: vendor rate r is decimal 1 + r / 100; bet_rate may be r or the decimal. A
+ * bet_rate above the decimal range (nearer the vendor's r than its decimal) is read as r and
+ * converted before the requested price is checked to still be available (or better); win/loss
+ * follow decimal exchange odds, and a client win_amount / loss_amount priced from the other form
+ * is rejected.
+ */
+export function priceBetFromVendorSection(params: {
+  kind: 'fancy' | 'bookmaker' | 'toss';
+  section: DiamondSection;
+  betType: string;
+  requestedRate: number;
+  stake: number;
+  clientWinAmount: number;
+  clientLossAmount: number;
+}): { betRate: number; winAmount: number; lossAmount: number } {
+  const {
+    kind,
+    section,
+    betType,
+    requestedRate,
+    stake,
+    clientWinAmount,
+    clientLossAmount,
+  } = params;
+  const eps = 1e-4;
+  const side = (betType || '').toUpperCase();
+  const isBack = side === 'BACK' || side === 'YES';
+
+  const sideOdds = (Array.isArray(section?.odds) ? section.odds : []).filter(
+    (o) =>
+      String(o?.otype ?? '').toLowerCase() === (isBack ? 'back' : 'lay') &&
+      Number(o?.odds) > 0,
+  );
+  const rateNotMatched = (extra: Record<string, unknown>) =>
+    new HttpException(
+      {
+        success: false,
+        error: 'Rate not matched',
+        code: 'RATE_NOT_MATCHED',
+        ...extra,
+      },
+      400,
+    );
+
+  if (kind === 'fancy') {
+    const entry = sideOdds[0];
+    const line = Number(entry?.odds);
+    if (!entry || Math.abs(line - requestedRate) > eps) {
+      throw rateNotMatched({
+        requestedLine: requestedRate,
+        currentLine: entry ? line : null,
+      });
+    }
+    const rate = Number(entry?.size) > 0 ? Number(entry.size) : 100;
+    const winAmount = isBack ? (stake * rate) / 100 : stake;
+    const lossAmount = isBack ? stake : (stake * rate) / 100;
+    // The rate-dependent amount the client priced the bet with, if it sent one
+    const clientAmount = isBack ? clientWinAmount : clientLossAmount;
+    const serverAmount = isBack ? winAmount : lossAmount;
+    if (clientAmount > 0 && Math.abs(clientAmount - serverAmount) > 1) {
+      throw rateNotMatched({
+        requestedLine: requestedRate,
+        currentLine: line,
+        requestedRate: (clientAmount / stake) * 100,
+        currentRate: rate,
+      });
+    }
+    return { betRate: line, winAmount, lossAmount };
+  }
+
+  const vendorRates = sideOdds.map((o) => Number(o.odds));
+  if (vendorRates.length === 0) {
+    throw rateNotMatched({ requestedRate, currentRate: null });
+  }
+  // Backers want the highest rate on offer, layers the lowest
+  const vendorRate = isBack
+    ? Math.max(...vendorRates)
+    : Math.min(...vendorRates);
+  const vendorDecimal = 1 + vendorRate / 100;
+  // The decimal range ends halfway to the vendor's r quote; anything above it is an r quote
+  const isRateForm = requestedRate > (vendorDecimal + vendorRate) / 2;
+  const requestedDecimal = isRateForm ? 1 + requestedRate / 100 : requestedRate;
+  const available = isBack
+    ? requestedDecimal <= vendorDecimal + eps
+    : requestedDecimal + eps >= vendorDecimal;
+  if (requestedDecimal <= 1 || !available) {
+    throw rateNotMatched({ requestedRate, currentRate: vendorRate });
+  }
+
+  const winAmount = isBack ? stake * (requestedDecimal - 1) : stake;
+  const lossAmount = isBack ? stake : stake * (requestedDecimal - 1);
+  // A client amount priced from the other form (e.g. bet_rate 1.5 meant as r = 1.5) is rejected
+  const clientAmount = isBack ? clientWinAmount : clientLossAmount;
+  const serverAmount = isBack ? winAmount : lossAmount;
+  if (clientAmount > 0 && Math.abs(clientAmount - serverAmount) > 1) {
+    throw new HttpException(
+      {
+        success: false,
+        error: 'bet_rate and win_amount / loss_amount use different rate forms',
+        code: 'MIXED_RATE_FORMS',
+        requestedRate,
+        rateForm: isRateForm ? 'r' : 'decimal',
+        expectedAmount: serverAmount,
+        clientAmount,
+      },
+      400,
+    );
+  }
+  return { betRate: requestedDecimal, winAmount, lossAmount };
+}
 
 @Injectable()
 export class BetsService {
@@ -31,8 +324,27 @@ export class BetsService {
   private readonly MATCH_ODDS_MAX_WINNING = 500_000;
   /** Max winning validation (Fancy): reject if max(YES, NO) exceeds this */
   private readonly FANCY_MAX_WINNING = 200_000;
+  /** Admin overrides of the max winning defaults (event, bookmaker market, competition, sport). */
+  private readonly MAX_WINNING_LIMITS_KEY = 'max_winning_limits';
   /** Redis TTL for pos:{userId}:{matchId}:{marketType} snapshots */
   private readonly POS_MAX_WINNING_CACHE_TTL_SEC = 7 * 24 * 3600;
+  /** Pending-acceptance records outlive the delay so clients can still poll the final outcome. */
+  private readonly PENDING_ACCEPTANCE_TTL_SEC =
+    this.MAX_BET_ACCEPT_DELAY_SEC + 600;
+  /** Sorted set of parked bets not yet final, scored by accept time (for the sweep). */
+  private readonly PENDING_ACCEPTANCE_INDEX_KEY = 'bet:pending-accept:index';
+  private readonly PENDING_ACCEPTANCE_SWEEP_LOCK_KEY =
+    'bet:pending-accept:sweep-lock';
+  /** The sweep leaves a parked bet to its queue job for this long after the accept time. */
+  private readonly PENDING_ACCEPTANCE_SWEEP_GRACE_MS = 5000;
+  /** A parked bet this late is expired rather than placed: its price is stale. */
+  private readonly PENDING_ACCEPTANCE_MAX_LATE_SEC = 30;
+  /** A claimed acceptance unchanged this long was orphaned (the bet transaction times out at 45s). */
+  private readonly PENDING_ACCEPTANCE_STALE_SEC = 120;
+  /** Window in which a retried placement with the same idempotency key returns the original bet. */
+  private readonly IDEMPOTENCY_TTL_SEC = 15 * 60;
+  /** Upper bound on bets in one slip; all of them share a single wallet transaction. */
+  private readonly MAX_BET_SLIP_SIZE = 10;
 
   constructor(
     private readonly prisma: PrismaService,
@@ -40,8 +352,15 @@ export class BetsService {
     private readonly matchOddsExposureService: MatchOddsExposureService,
     private readonly bookmakerExposureService: BookmakerExposureService,
     private readonly fancyExposureService: FancyExposureService,
+    private readonly tossExposureService: TossExposureService,
+    private readonly sportsMarketExposureService: SportsMarketExposureService,
+    private readonly liabilityService: LiabilityService,
     private readonly betProcessingQueue: BetProcessingQueue,
     private readonly redisService: RedisService,
+    private readonly bettingGateway: BettingGateway,
+    private readonly usersService: UsersService,
+    private readonly marketSuspensionService: MarketSuspensionService,
+    private readonly betRateLimitService: BetRateLimitService,
   ) {}
 
   /**
@@ -260,169 +579,951 @@ export class BetsService {
     return m === '' || m === 'undefined' || m === 'null' ? '' : m;
   }
 
+  /**
+   * Accept delay for a bet: the event override (Match Odds only) plus the client's bet delay
+   * (User.betDelays; toss uses the bookmaker delay, soccer/tennis markets the Match Odds one).
+   * `ancestorChain` is the one prepareBet loaded; its first row is the client.
+   * Null when there is nothing to wait for.
+   */
+  private async resolveBetDelay(
+    ancestorChain: AncestorChainUser[],
+    betGtype: string,
+    eventId: string,
+  ): Promise<BetDelay | null> {
+    const eventDelaySec =
+      betGtype === 'matchodds'
+        ? ((await this.getBetAcceptDelayOverrideSec(eventId)) ?? 0)
+        : 0;
+
+    const user = ancestorChain[0];
+    const delayType = (
+      betGtype === 'toss'
+        ? 'bookmaker'
+        : isSportsMarketGtype(betGtype)
+          ? 'matchodds'
+          : betGtype
+    ) as StakeLimitMarketType;
+    const userDelay = Number(
+      ((user?.betDelays ?? {}) as BetDelays)[delayType] ?? 0,
+    );
+    const userDelaySec =
+      Number.isFinite(userDelay) && userDelay > 0 ? userDelay : 0;
+
+    const totalSec = eventDelaySec + userDelaySec;
+    if (totalSec <= 0) return null;
+    return {
+      delaySec: Math.min(totalSec, this.MAX_BET_ACCEPT_DELAY_SEC),
+      eventDelaySec,
+      userDelaySec,
+    };
+  }
+
   private sleepMs(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  // ---------- MAX WINNING LIMITS (admin overrides) ----------
+
+  private parseMaxWinningTiers(raw: unknown): Record<string, MaxWinningTier> {
+    const out: Record<string, MaxWinningTier> = {};
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return out;
+    for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+      const id = String(k || '').trim();
+      if (!id || !v || typeof v !== 'object') continue;
+      const tier: MaxWinningTier = {};
+      for (const type of ['matchodds', 'fancy', 'bookmaker'] as const) {
+        const amount = Number((v as Record<string, unknown>)[type]);
+        if (Number.isFinite(amount) && amount > 0) tier[type] = amount;
+      }
+      if (Object.keys(tier).length > 0) out[id] = tier;
+    }
+    return out;
+  }
+
+  private parseMaxWinningLimits(
+    rawValue: string | null | undefined,
+  ): MaxWinningLimitsConfig {
+    const config: MaxWinningLimitsConfig = {
+      events: {},
+      bookmakerMarkets: {},
+      competitions: {},
+      sports: {},
+    };
+    if (!rawValue) return config;
+    try {
+      const parsed = JSON.parse(rawValue) as Record<string, unknown> | null;
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed))
+        return config;
+      config.events = this.parseMaxWinningTiers(parsed.events);
+      config.competitions = this.parseMaxWinningTiers(parsed.competitions);
+      config.sports = this.parseMaxWinningTiers(parsed.sports);
+      if (
+        parsed.bookmakerMarkets &&
+        typeof parsed.bookmakerMarkets === 'object'
+      ) {
+        for (const [k, v] of Object.entries(
+          parsed.bookmakerMarkets as Record<string, unknown>,
+        )) {
+          const marketId = String(k || '').trim();
+          const amount = Number(v);
+          if (!marketId || !Number.isFinite(amount) || amount <= 0) continue;
+          config.bookmakerMarkets[marketId] = amount;
+        }
+      }
+      return config;
+    } catch {
+      return config;
+    }
+  }
+
+  private async getMaxWinningLimitsConfig(): Promise<MaxWinningLimitsConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.MAX_WINNING_LIMITS_KEY },
+      select: { value: true },
+    });
+    return this.parseMaxWinningLimits(existing?.value);
+  }
+
   /**
-   * ✅ EXCHANGE-ACCURATE LIABILITY CALCULATION
-   *
-   * Official Exchange Rules:
-   * - FANCY: liability = stake (for both BACK and LAY)
-   * - MATCH ODDS & BOOKMAKER (decimal odds for match odds; bookmaker uses stored rate as today):
-   *   - BACK: liability = stake
-   *   - LAY: liability = (decimalOdds - 1) × stake
-   * 
-   * @param gtype - Market type: 'fancy' | 'bookmaker' | 'matchodds'
-   * @param betType - Bet type: 'BACK' | 'LAY'
-   * @param stake - Stake amount
-   * @param odds - Odds/rate
-   * @returns Liability amount
+   * Set or clear (maxWinning = null) one max winning override.
+   * `bookmaker-market` is keyed by bookmaker marketId and ignores marketType; the other scopes need one.
    */
-  private calculateLiability(
-    gtype: string | null | undefined,
-    betType: string | null | undefined,
-    stake: number,
-    odds: number,
-  ): number {
-    const normalizedGtype = (gtype || '').toLowerCase();
-    const normalizedBetType = (betType || '').toUpperCase();
+  async setMaxWinningLimit(
+    scope: MaxWinningScope,
+    id: string,
+    marketType: MaxWinningMarketType | null,
+    maxWinning: number | null,
+  ) {
+    const normalizedId = String(id || '').trim();
+    if (!normalizedId) {
+      throw new BadRequestException('id is required');
+    }
+    if (!MAX_WINNING_SCOPES.includes(scope)) {
+      throw new BadRequestException(
+        `scope must be one of: ${MAX_WINNING_SCOPES.join(', ')}`,
+      );
+    }
+    if (scope !== 'bookmaker-market' && !marketType) {
+      throw new BadRequestException(
+        'marketType is required (matchodds, fancy or bookmaker)',
+      );
+    }
+    if (
+      maxWinning !== null &&
+      (!Number.isFinite(maxWinning) || maxWinning <= 0)
+    ) {
+      throw new BadRequestException(
+        'maxWinning must be a positive number or null',
+      );
+    }
 
-    // FANCY: liability = stake (for both BACK and LAY)
-    if (normalizedGtype === 'fancy') {
-      return stake;
+    const config = await this.getMaxWinningLimitsConfig();
+    if (scope === 'bookmaker-market') {
+      if (maxWinning === null) delete config.bookmakerMarkets[normalizedId];
+      else config.bookmakerMarkets[normalizedId] = maxWinning;
+    } else {
+      const tiers =
+        scope === 'event'
+          ? config.events
+          : scope === 'competition'
+            ? config.competitions
+            : config.sports;
+      const tier: MaxWinningTier = { ...(tiers[normalizedId] ?? {}) };
+      if (maxWinning === null) delete tier[marketType!];
+      else tier[marketType!] = maxWinning;
+      if (Object.keys(tier).length > 0) tiers[normalizedId] = tier;
+      else delete tiers[normalizedId];
     }
 
-    // MATCH ODDS & BOOKMAKER: LAY uses (odds - 1) × stake, BACK uses stake
-    if (normalizedBetType === 'LAY') {
-      return (odds - 1) * stake;
+    const value = JSON.stringify(config);
+    await this.prisma.setting.upsert({
+      where: { key: this.MAX_WINNING_LIMITS_KEY },
+      update: { value },
+      create: { key: this.MAX_WINNING_LIMITS_KEY, value },
+    });
+
+    return {
+      scope,
+      id: normalizedId,
+      marketType:
+        scope === 'bookmaker-market' ? ('bookmaker' as const) : marketType,
+      maxWinning,
+      hasOverride: maxWinning !== null,
+    };
+  }
+
+  async getMaxWinningLimits() {
+    const config = await this.getMaxWinningLimitsConfig();
+    return {
+      defaults: {
+        matchodds: this.MATCH_ODDS_MAX_WINNING,
+        fancy: this.FANCY_MAX_WINNING,
+        bookmaker: null,
+      },
+      ...config,
+    };
+  }
+
+  /**
+   * Sport and competition of an event, from the same events-by-sport feed as the lobby lists
+   * (cached in Redis). Only looked up when a sport/competition tier is configured.
+   */
+  private async resolveEventSportAndCompetition(
+    eventId: string,
+  ): Promise<{ sportId: string; competitionId: string | null } | null> {
+    for (const sportId of [4, 1, 2]) {
+      try {
+        const row: {
+          CompetitionId?: string | number;
+          competitionId?: string | number;
+          event?: { competition?: { id?: string | number } };
+        } | null = await this.cricketIdService.getEventDetailFromSportFeed(
+          eventId,
+          sportId,
+        );
+        if (!row) continue;
+        const competitionId = String(
+          row?.CompetitionId ??
+            row?.competitionId ??
+            row?.event?.competition?.id ??
+            '',
+        ).trim();
+        return {
+          sportId: String(sportId),
+          competitionId: competitionId || null,
+        };
+      } catch (err) {
+        this.logger.debug(
+          `[max_winning] sport feed lookup failed for eventId=${eventId}, sportId=${sportId}: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+        );
+      }
     }
-    // BACK bet (match odds/bookmaker) or fallback
-    return stake;
+    return null;
   }
 
   /**
-   * Observability only: upsert remaining fancy exposure for (userId, marketId, selectionId).
-   * Does not affect placement; wrapped in try/catch so failures never fail the main flow.
+   * Most specific limit wins: bookmaker market → event → competition → sport → default.
+   * Bookmaker has no default limit, so it is only capped when an override applies.
    */
-  private async upsertFancyExposureSafe(
-    tx: Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>,
-    params: {
-      userId: string;
-      eventId: string;
-      marketId: string;
-      selectionId: number;
-      remainingExposure: number;
-      lastBetId: string;
-    },
-  ): Promise<void> {
-    try {
-      await (tx as PrismaClient).fancyExposure.upsert({
-        where: {
-          userId_marketId_selectionId: {
-            userId: params.userId,
-            marketId: params.marketId,
-            selectionId: params.selectionId,
-          },
-        },
-        update: {
-          remainingExposure: params.remainingExposure,
-          lastBetId: params.lastBetId,
-          updatedAt: new Date(),
-          ...(params.eventId && { eventId: params.eventId }),
-        },
-        create: {
-          userId: params.userId,
-          eventId: params.eventId || null,
-          marketId: params.marketId,
-          selectionId: params.selectionId,
-          remainingExposure: params.remainingExposure,
-          lastBetId: params.lastBetId,
-        },
-      });
-    } catch (err) {
-      this.logger.warn(
-        `[fancy_exposures] upsert failed (observability only): ${(err as Error)?.message}`,
-        { userId: params.userId, marketId: params.marketId, selectionId: params.selectionId },
-      );
+  private async resolveMaxWinningLimit(
+    marketType: string,
+    eventId: string,
+    marketId: string,
+  ): Promise<ResolvedMaxWinningLimit> {
+    const type: MaxWinningMarketType | null =
+      marketType === 'matchodds' ||
+      marketType === 'fancy' ||
+      marketType === 'bookmaker'
+        ? marketType
+        : null;
+    const fallback: ResolvedMaxWinningLimit = {
+      limit:
+        type === 'matchodds'
+          ? this.MATCH_ODDS_MAX_WINNING
+          : type === 'fancy'
+            ? this.FANCY_MAX_WINNING
+            : null,
+      source: 'default',
+      sourceId: null,
+    };
+    if (!type) return fallback;
+
+    const config = await this.getMaxWinningLimitsConfig();
+    if (
+      type === 'bookmaker' &&
+      marketId &&
+      config.bookmakerMarkets[marketId] !== undefined
+    ) {
+      return {
+        limit: config.bookmakerMarkets[marketId],
+        source: 'bookmaker-market',
+        sourceId: marketId,
+      };
+    }
+    if (eventId && config.events[eventId]?.[type] !== undefined) {
+      return {
+        limit: config.events[eventId][type],
+        source: 'event',
+        sourceId: eventId,
+      };
+    }
+
+    const hasTiers =
+      Object.values(config.competitions).some((t) => t[type] !== undefined) ||
+      Object.values(config.sports).some((t) => t[type] !== undefined);
+    if (!eventId || !hasTiers) return fallback;
+
+    const eventInfo = await this.resolveEventSportAndCompetition(eventId);
+    if (!eventInfo) return fallback;
+    const { sportId, competitionId } = eventInfo;
+    if (
+      competitionId &&
+      config.competitions[competitionId]?.[type] !== undefined
+    ) {
+      return {
+        limit: config.competitions[competitionId][type],
+        source: 'competition',
+        sourceId: competitionId,
+      };
+    }
+    if (config.sports[sportId]?.[type] !== undefined) {
+      return {
+        limit: config.sports[sportId][type],
+        source: 'sport',
+        sourceId: sportId,
+      };
     }
+    return fallback;
   }
 
-  /** Snapshot of pending bet ids for cache coherence (same DB read, no extra queries). */
-  private pendingBetsSnapshot(bets: { id: string }[]): string {
-    if (!bets.length) return '0:';
-    const ids = [...new Set(bets.map((b) => b.id))].sort();
-    return `${bets.length}:${ids.join('|')}`;
+  // ---------- ACCEPT-DELAY WINDOW (pending acceptance) ----------
+
+  private pendingAcceptanceKey(id: string): string {
+    return `bet:pending-accept:${id}`;
   }
 
-  private buildMoMarketSelectionsFromBets(
-    rows: Array<{ selectionId: number | null | undefined }>,
-  ): string[] {
-    return Array.from(
-      new Set(
-        rows
-          .map((b) => b.selectionId)
-          .filter((id): id is number => id !== null && id !== undefined)
-          .map((id) => String(id)),
-      ),
+  private async savePendingAcceptance(
+    record: PendingAcceptanceRecord,
+  ): Promise<void> {
+    await this.redisService.set(
+      this.pendingAcceptanceKey(record.id),
+      { ...record, updatedAt: Date.now() },
+      this.PENDING_ACCEPTANCE_TTL_SEC,
     );
+    if (
+      record.status !== 'AWAITING_ACCEPTANCE' &&
+      record.status !== 'PROCESSING'
+    ) {
+      this.redisService.removeSortedSetMember(
+        this.PENDING_ACCEPTANCE_INDEX_KEY,
+        record.id,
+      );
+    }
   }
 
   /**
-   * ALL runners in the Match Odds market are required for correct max(runner.net).
-   * Bet-only selection ids miss outcomes (e.g. draw / third runner) and under-state max winning → limits fail.
+   * First caller wins between the delayed accept and a client cancel, so a bet can never be
+   * both cancelled and placed.
    */
-  private async resolveMoMarketSelectionsForLimit(
-    marketId: string,
-    fallbackRows: Array<{ selectionId: number | null | undefined }>,
-  ): Promise<string[]> {
-    const fromBets = this.buildMoMarketSelectionsFromBets(fallbackRows);
+  private async claimPendingAcceptance(
+    id: string,
+    action: 'accept' | 'cancel' | 'expire',
+  ): Promise<boolean> {
     try {
-      const detail = await this.cricketIdService.getMatchDetailByMarketId(marketId);
-      const markets = Array.isArray(detail) ? detail : [];
-      const targetMid = String(marketId).trim();
-      const market =
-        markets.find((m: { marketId?: string }) => String(m?.marketId ?? '').trim() === targetMid) ??
-        markets[0];
-      const runners = Array.isArray(market?.runners) ? market.runners : [];
-      const fromApi = runners
-        .map((r: { selectionId?: unknown }) => r?.selectionId)
-        .filter((id: unknown) => id !== null && id !== undefined)
-        .map((id: unknown) => String(id));
-      const merged = new Set<string>([...fromApi, ...fromBets]);
-      if (fromApi.length === 0 && fromBets.length > 0) {
-        this.logger.warn(
-          `[max_winning_mo] No runners from API for marketId=${marketId}; using bet selections only — max-winning cap may be inaccurate`,
-        );
-      }
-      if (merged.size > 0) {
-        return Array.from(merged);
-      }
-    } catch (err) {
-      this.logger.debug(
-        `[max_winning_mo] getMatchDetailByMarketId failed, using bet selections: ${
-          err instanceof Error ? err.message : String(err)
-        }`,
+      return await this.redisService.setIfAbsent(
+        `${this.pendingAcceptanceKey(id)}:claim`,
+        action,
+        this.PENDING_ACCEPTANCE_TTL_SEC,
       );
+    } catch {
+      return false;
     }
-    return fromBets;
   }
 
-  private maxMatchOddsNetWinning(runners: Record<string, { net: number }>): number {
-    let m = 0;
-    for (const v of Object.values(runners)) {
-      const n = Number(v?.net ?? 0);
-      if (n > m) m = n;
+  private toPendingAcceptanceView(record: PendingAcceptanceRecord) {
+    return {
+      success: true,
+      acceptanceId: record.id,
+      status: record.status,
+      eventId: record.eventId,
+      marketId: record.marketId,
+      delaySec: record.delaySec,
+      acceptAt: new Date(record.acceptAt).toISOString(),
+      selectionId: record.input.selection_id,
+      betType: record.input.bet_type,
+      betRate: record.input.bet_rate,
+      betValue: record.input.betvalue,
+      ...(record.oddsFill && { matchedOdds: record.oddsFill.matchedOdds }),
+      ...(record.slip && {
+        bets: record.slip.map((leg) => ({
+          marketId: leg.input.marketId,
+          selectionId: leg.input.selection_id,
+          betType: leg.input.bet_type,
+          betRate: leg.input.bet_rate,
+          betValue: leg.input.betvalue,
+        })),
+      }),
+      ...(record.betId && { betId: record.betId }),
+      ...(record.betIds && { betIds: record.betIds }),
+      ...(record.error !== undefined && { error: record.error }),
+    };
+  }
+
+  /**
+   * Park a validated bet (or, with `slip`, a whole bet slip) for `delaySec` instead of holding the
+   * HTTP request open. Returns null when Redis cannot track it, in which case the caller falls back
+   * to waiting inline. A bet whose delayed job cannot be queued is still parked:
+   * sweepPendingAcceptances places it.
+   */
+  private async createPendingAcceptance(
+    input: PlaceBetDto,
+    userId: string,
+    eventId: string,
+    marketId: string,
+    delaySec: number,
+    oddsFill?: OddsFill,
+    betDelay?: BetDelay,
+    slip?: PendingSlipLeg[],
+  ) {
+    const now = Date.now();
+    const record: PendingAcceptanceRecord = {
+      id: randomUUID(),
+      userId,
+      status: 'AWAITING_ACCEPTANCE',
+      eventId,
+      marketId,
+      delaySec,
+      createdAt: now,
+      acceptAt: now + delaySec * 1000,
+      input,
+      ...(oddsFill && { oddsFill }),
+      ...(betDelay && { betDelay }),
+      ...(slip && { slip }),
+      updatedAt: now,
+    };
+
+    try {
+      await this.savePendingAcceptance(record);
+      await this.redisService.addSortedSetMember(
+        this.PENDING_ACCEPTANCE_INDEX_KEY,
+        record.id,
+        record.acceptAt,
+      );
+    } catch {
+      return null;
     }
-    return m;
+
+    await this.betProcessingQueue.addPendingAcceptanceJob(
+      record.id,
+      delaySec * 1000,
+    );
+
+    this.bettingGateway.emitToUser(userId, 'bet:status', {
+      acceptanceId: record.id,
+      status: record.status,
+      eventId,
+      marketId,
+    });
+
+    return this.toPendingAcceptanceView(record);
   }
 
   /**
-   * Max winning limits. Match Odds: full calculateMatchOddsPosition with all market runners (vendor).
-   * Fancy: Redis cache + incremental when valid snapshot. Does not alter exposure formulas.
+   * Runs when the accept delay elapses (bet-processing worker, or the sweep when the job is missing).
+   * Places the parked bet (or slip) unless the client cancelled it first.
    */
-  private async enforceMaxWinningLimitsWithCache(params: {
-    userId: string;
+  async completePendingAcceptance(id: string): Promise<void> {
+    const record = await this.redisService.get<PendingAcceptanceRecord>(
+      this.pendingAcceptanceKey(id),
+    );
+    if (!record || record.status !== 'AWAITING_ACCEPTANCE') return;
+    if (!(await this.claimPendingAcceptance(id, 'accept'))) return;
+
+    await this.savePendingAcceptance({ ...record, status: 'PROCESSING' }).catch(
+      () => {},
+    );
+
+    try {
+      if (record.slip) {
+        const legs = record.slip;
+        const perfLog = this.slipPerfLog();
+        const prepared = await this.prepareBetSlip(
+          legs.map((leg) => leg.input),
+          (index) => ({
+            acceptanceId: id,
+            oddsFill: legs[index].oddsFill,
+            betDelay: legs[index].betDelay,
+          }),
+          perfLog,
+        );
+        const result = await this.executeBetSlip(prepared, perfLog);
+        const betIds = result.results.map((bet) => bet.betId);
+        await this.savePendingAcceptance({
+          ...record,
+          status: 'ACCEPTED',
+          betId: betIds[0],
+          betIds,
+        });
+      } else {
+        const result = await this.placeBet(record.input, {
+          acceptanceId: id,
+          oddsFill: record.oddsFill,
+          betDelay: record.betDelay,
+        });
+        await this.savePendingAcceptance({
+          ...record,
+          status: 'ACCEPTED',
+          betId: result.betId,
+        });
+      }
+    } catch (error) {
+      const payload =
+        error instanceof HttpException
+          ? error.getResponse()
+          : {
+              success: false,
+              error:
+                error instanceof Error ? error.message : 'Failed to place bet',
+              code: 'BET_PLACEMENT_FAILED',
+            };
+      this.logger.warn(
+        `Pending bet ${id} rejected after accept delay: ${JSON.stringify(payload)}`,
+      );
+      await this.savePendingAcceptance({
+        ...record,
+        status: 'REJECTED',
+        error: payload,
+      }).catch(() => {});
+      this.bettingGateway.emitToUser(record.userId, 'bet:status', {
+        acceptanceId: id,
+        status: 'REJECTED',
+        eventId: record.eventId,
+        marketId: record.marketId,
+        error: payload,
+      });
+    }
+  }
+
+  /**
+   * Recovers parked bets a lost job or a crashed instance left behind (every 5s, so also right
+   * after a restart). A due bet still awaiting acceptance is placed, or EXPIRED once
+   * PENDING_ACCEPTANCE_MAX_LATE_SEC late; a claimed one that stopped progressing is resolved
+   * from the bets table (ACCEPTED with its bet, or REJECTED).
+   */
+  @Cron('*/5 * * * * *')
+  async sweepPendingAcceptances(): Promise<void> {
+    try {
+      // One instance at a time; the lock expires by itself if an instance dies mid-run
+      if (
+        !(await this.redisService.setIfAbsent(
+          this.PENDING_ACCEPTANCE_SWEEP_LOCK_KEY,
+          Date.now(),
+          60,
+        ))
+      ) {
+        return;
+      }
+      try {
+        const ids = await this.redisService.getSortedSetMembersUpTo(
+          this.PENDING_ACCEPTANCE_INDEX_KEY,
+          Date.now() - this.PENDING_ACCEPTANCE_SWEEP_GRACE_MS,
+          100,
+        );
+        for (const id of ids) {
+          await this.recoverPendingAcceptance(id).catch((error) =>
+            this.logger.warn(
+              `Pending bet ${id} recovery failed: ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          );
+        }
+      } finally {
+        await this.redisService.delAwait(
+          this.PENDING_ACCEPTANCE_SWEEP_LOCK_KEY,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error in pending bet sweep:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private async recoverPendingAcceptance(id: string): Promise<void> {
+    const record = await this.redisService.get<PendingAcceptanceRecord>(
+      this.pendingAcceptanceKey(id),
+    );
+    if (!record) {
+      this.redisService.removeSortedSetMember(
+        this.PENDING_ACCEPTANCE_INDEX_KEY,
+        id,
+      );
+      return;
+    }
+    if (
+      record.status !== 'AWAITING_ACCEPTANCE' &&
+      record.status !== 'PROCESSING'
+    ) {
+      this.redisService.removeSortedSetMember(
+        this.PENDING_ACCEPTANCE_INDEX_KEY,
+        id,
+      );
+      return;
+    }
+
+    if (record.status === 'AWAITING_ACCEPTANCE') {
+      if (
+        Date.now() - record.acceptAt <=
+        this.PENDING_ACCEPTANCE_MAX_LATE_SEC * 1000
+      ) {
+        await this.completePendingAcceptance(id);
+        return;
+      }
+      if (await this.claimPendingAcceptance(id, 'expire')) {
+        this.logger.warn(`Pending bet ${id} expired: not accepted in time`);
+        await this.savePendingAcceptance({ ...record, status: 'EXPIRED' });
+        this.bettingGateway.emitToUser(record.userId, 'bet:status', {
+          acceptanceId: id,
+          status: 'EXPIRED',
+          eventId: record.eventId,
+          marketId: record.marketId,
+        });
+        return;
+      }
+    }
+
+    // Claimed, but the accept has not finished: once stale, its bet row decides
+    if (
+      Date.now() - record.updatedAt <
+      this.PENDING_ACCEPTANCE_STALE_SEC * 1000
+    ) {
+      return;
+    }
+    // A slip is placed in one transaction, so either all of its bets exist or none
+    const bets = await this.prisma.bet.findMany({
+      where: {
+        userId: record.userId,
+        ...(!record.slip && { marketId: record.marketId }),
+        metadata: { path: ['acceptanceId'], equals: id },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (bets.length > 0) {
+      await this.savePendingAcceptance({
+        ...record,
+        status: 'ACCEPTED',
+        betId: bets[0].id,
+        ...(record.slip && { betIds: bets.map((bet) => bet.id) }),
+      });
+      return;
+    }
+    const error = {
+      success: false,
+      error: 'Bet placement was interrupted',
+      code: 'BET_PLACEMENT_INTERRUPTED',
+    };
+    this.logger.warn(`Pending bet ${id} rejected: placement was interrupted`);
+    await this.savePendingAcceptance({ ...record, status: 'REJECTED', error });
+    this.bettingGateway.emitToUser(record.userId, 'bet:status', {
+      acceptanceId: id,
+      status: 'REJECTED',
+      eventId: record.eventId,
+      marketId: record.marketId,
+      error,
+    });
+  }
+
+  private async loadOwnedPendingAcceptance(id: string, userId: string) {
+    const record = await this.redisService.get<PendingAcceptanceRecord>(
+      this.pendingAcceptanceKey(id),
+    );
+    if (!record || record.userId !== userId) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Pending bet not found',
+          code: 'PENDING_BET_NOT_FOUND',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return record;
+  }
+
+  async getPendingAcceptance(id: string, userId: string) {
+    return this.toPendingAcceptanceView(
+      await this.loadOwnedPendingAcceptance(id, userId),
+    );
+  }
+
+  async cancelPendingAcceptance(id: string, userId: string) {
+    const record = await this.loadOwnedPendingAcceptance(id, userId);
+    if (
+      record.status !== 'AWAITING_ACCEPTANCE' ||
+      !(await this.claimPendingAcceptance(id, 'cancel'))
+    ) {
+      const latest = await this.redisService.get<PendingAcceptanceRecord>(
+        this.pendingAcceptanceKey(id),
+      );
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Bet is no longer awaiting acceptance',
+          code: 'PENDING_BET_NOT_CANCELLABLE',
+          status: latest?.status ?? record.status,
+          ...(latest?.betId && { betId: latest.betId }),
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const cancelled: PendingAcceptanceRecord = {
+      ...record,
+      status: 'CANCELLED',
+    };
+    await this.savePendingAcceptance(cancelled);
+    this.bettingGateway.emitToUser(userId, 'bet:status', {
+      acceptanceId: id,
+      status: 'CANCELLED',
+      eventId: record.eventId,
+      marketId: record.marketId,
+    });
+    return this.toPendingAcceptanceView(cancelled);
+  }
+
+  // ---------- IDEMPOTENCY (Idempotency-Key header / client_ref) ----------
+
+  private idempotencyKey(userId: string, key: string): string {
+    return `bet:idempotency:${userId}:${key}`;
+  }
+
+  /**
+   * Run a placement at most once per (user, idempotency key) within IDEMPOTENCY_TTL_SEC.
+   * A retry with the same key and payload gets the original response back (idempotentReplay: true);
+   * reusing a key for a different payload is rejected. A failed placement releases the key so the
+   * client can retry. Without Redis the placement runs unguarded.
+   */
+  private async runIdempotent<T extends object>(
+    userId: string,
+    key: string,
+    input: PlaceBetDto,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    const redisKey = this.idempotencyKey(userId, key);
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify({ ...input, client_ref: undefined }))
+      .digest('hex');
+
+    let claimed: boolean;
+    try {
+      claimed = await this.redisService.setIfAbsent(
+        redisKey,
+        {
+          status: 'IN_PROGRESS',
+          fingerprint,
+          createdAt: Date.now(),
+        } satisfies IdempotencyRecord,
+        this.IDEMPOTENCY_TTL_SEC,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `[idempotency] Redis unavailable, placing without key ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return run();
+    }
+
+    if (!claimed) {
+      const existing = await this.redisService.get<IdempotencyRecord>(redisKey);
+      if (existing && existing.fingerprint !== fingerprint) {
+        throw new HttpException(
+          {
+            success: false,
+            error: 'Idempotency key was already used for a different bet',
+            code: 'IDEMPOTENCY_KEY_REUSED',
+          },
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      if (existing?.status === 'COMPLETED' && existing.response) {
+        return { ...(existing.response as T), idempotentReplay: true };
+      }
+      throw new HttpException(
+        {
+          success: false,
+          error: 'A bet with this idempotency key is still being placed',
+          code: 'IDEMPOTENT_REQUEST_IN_PROGRESS',
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    let response: T;
+    try {
+      response = await run();
+    } catch (error) {
+      await this.redisService.delAwait(redisKey);
+      throw error;
+    }
+
+    try {
+      await this.redisService.set(
+        redisKey,
+        {
+          status: 'COMPLETED',
+          fingerprint,
+          createdAt: Date.now(),
+          response,
+        } satisfies IdempotencyRecord,
+        this.IDEMPOTENCY_TTL_SEC,
+      );
+    } catch {
+      // Key stays IN_PROGRESS until it expires; retries get 409 rather than a duplicate bet
+    }
+    return response;
+  }
+
+  /**
+   * ✅ EXCHANGE-ACCURATE LIABILITY CALCULATION
+   *
+   * Official Exchange Rules:
+   * - FANCY: liability = stake (for both BACK and LAY)
+   * - MATCH ODDS & BOOKMAKER (decimal odds for match odds; bookmaker uses stored rate as today):
+   *   - BACK: liability = stake
+   *   - LAY: liability = (decimalOdds - 1) × stake
+   * 
+   * @param gtype - Market type: 'fancy' | 'bookmaker' | 'matchodds'
+   * @param betType - Bet type: 'BACK' | 'LAY'
+   * @param stake - Stake amount
+   * @param odds - Odds/rate
+   * @returns Liability amount
+   */
+  private calculateLiability(
+    gtype: string | null | undefined,
+    betType: string | null | undefined,
+    stake: number,
+    odds: number,
+  ): number {
+    const normalizedGtype = (gtype || '').toLowerCase();
+    const normalizedBetType = (betType || '').toUpperCase();
+
+    // FANCY: liability = stake (for both BACK and LAY)
+    if (normalizedGtype === 'fancy') {
+      return stake;
+    }
+
+    // MATCH ODDS & BOOKMAKER: LAY uses (odds - 1) × stake, BACK uses stake
+    if (normalizedBetType === 'LAY') {
+      return (odds - 1) * stake;
+    }
+    // BACK bet (match odds/bookmaker) or fallback
+    return stake;
+  }
+
+  /**
+   * Observability only: upsert remaining fancy exposure for (userId, marketId, selectionId).
+   * Does not affect placement; wrapped in try/catch so failures never fail the main flow.
+   */
+  private async upsertFancyExposureSafe(
+    tx: Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>,
+    params: {
+      userId: string;
+      eventId: string;
+      marketId: string;
+      selectionId: number;
+      remainingExposure: number;
+      lastBetId: string;
+    },
+  ): Promise<void> {
+    try {
+      await (tx as PrismaClient).fancyExposure.upsert({
+        where: {
+          userId_marketId_selectionId: {
+            userId: params.userId,
+            marketId: params.marketId,
+            selectionId: params.selectionId,
+          },
+        },
+        update: {
+          remainingExposure: params.remainingExposure,
+          lastBetId: params.lastBetId,
+          updatedAt: new Date(),
+          ...(params.eventId && { eventId: params.eventId }),
+        },
+        create: {
+          userId: params.userId,
+          eventId: params.eventId || null,
+          marketId: params.marketId,
+          selectionId: params.selectionId,
+          remainingExposure: params.remainingExposure,
+          lastBetId: params.lastBetId,
+        },
+      });
+    } catch (err) {
+      this.logger.warn(
+        `[fancy_exposures] upsert failed (observability only): ${(err as Error)?.message}`,
+        { userId: params.userId, marketId: params.marketId, selectionId: params.selectionId },
+      );
+    }
+  }
+
+  /** Snapshot of pending bet ids for cache coherence (same DB read, no extra queries). */
+  private pendingBetsSnapshot(bets: { id: string }[]): string {
+    if (!bets.length) return '0:';
+    const ids = [...new Set(bets.map((b) => b.id))].sort();
+    return `${bets.length}:${ids.join('|')}`;
+  }
+
+  private buildMoMarketSelectionsFromBets(
+    rows: Array<{ selectionId: number | null | undefined }>,
+  ): string[] {
+    return Array.from(
+      new Set(
+        rows
+          .map((b) => b.selectionId)
+          .filter((id): id is number => id !== null && id !== undefined)
+          .map((id) => String(id)),
+      ),
+    );
+  }
+
+  /**
+   * ALL runners in the Match Odds market are required for correct max(runner.net).
+   * Bet-only selection ids miss outcomes (e.g. draw / third runner) and under-state max winning → limits fail.
+   */
+  private async resolveMoMarketSelectionsForLimit(
+    marketId: string,
+    fallbackRows: Array<{ selectionId: number | null | undefined }>,
+  ): Promise<string[]> {
+    const fromBets = this.buildMoMarketSelectionsFromBets(fallbackRows);
+    try {
+      const detail = await this.cricketIdService.getMatchDetailByMarketId(marketId);
+      const markets = Array.isArray(detail) ? detail : [];
+      const targetMid = String(marketId).trim();
+      const market =
+        markets.find((m: { marketId?: string }) => String(m?.marketId ?? '').trim() === targetMid) ??
+        markets[0];
+      const runners = Array.isArray(market?.runners) ? market.runners : [];
+      const fromApi = runners
+        .map((r: { selectionId?: unknown }) => r?.selectionId)
+        .filter((id: unknown) => id !== null && id !== undefined)
+        .map((id: unknown) => String(id));
+      const merged = new Set<string>([...fromApi, ...fromBets]);
+      if (fromApi.length === 0 && fromBets.length > 0) {
+        this.logger.warn(
+          `[max_winning_mo] No runners from API for marketId=${marketId}; using bet selections only — max-winning cap may be inaccurate`,
+        );
+      }
+      if (merged.size > 0) {
+        return Array.from(merged);
+      }
+    } catch (err) {
+      this.logger.debug(
+        `[max_winning_mo] getMatchDetailByMarketId failed, using bet selections: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      );
+    }
+    return fromBets;
+  }
+
+  private maxMatchOddsNetWinning(runners: Record<string, { net: number }>): number {
+    let m = 0;
+    for (const v of Object.values(runners)) {
+      const n = Number(v?.net ?? 0);
+      if (n > m) m = n;
+    }
+    return m;
+  }
+
+  /**
+   * Max winning limits. Match Odds: full calculateMatchOddsPosition with all market runners (vendor).
+   * Fancy: Redis cache + incremental when valid snapshot. Does not alter exposure formulas.
+   */
+  private async enforceMaxWinningLimitsWithCache(params: {
+    userId: string;
     matchIdStr: string;
     marketId: string;
     actualMarketType: string;
@@ -457,6 +1558,7 @@ export class BetsService {
     eventId: string | undefined | null;
     normalizedSelectionId: number;
     userMaxWinAmount?: number | null;
+    maxWinningLimit: ResolvedMaxWinningLimit;
   }): Promise<void> {
     const {
       userId,
@@ -468,14 +1570,59 @@ export class BetsService {
       eventId,
       normalizedSelectionId,
       userMaxWinAmount,
+      maxWinningLimit,
     } =
       params;
     const effectiveMaxWinAmount =
       Number.isFinite(Number(userMaxWinAmount)) && Number(userMaxWinAmount) > 0
         ? Number(userMaxWinAmount)
         : null;
+    // Rejection payload names the level that set the limit, so support can tell an override from the default.
+    const limitDetail = (configuredLimit: number) => {
+      const userCapped =
+        effectiveMaxWinAmount !== null &&
+        effectiveMaxWinAmount < configuredLimit;
+      return {
+        limit: userCapped ? effectiveMaxWinAmount : configuredLimit,
+        limitSource: userCapped ? 'user' : maxWinningLimit.source,
+        override:
+          maxWinningLimit.source === 'default'
+            ? null
+            : {
+                scope: maxWinningLimit.source,
+                id: maxWinningLimit.sourceId,
+                maxWinning: configuredLimit,
+              },
+        userMaxWinAmount: effectiveMaxWinAmount,
+      };
+    };
 
     if (actualMarketType === 'bookmaker') {
+      if (maxWinningLimit.limit === null) {
+        return;
+      }
+      const marketSelections = this.buildMoMarketSelectionsFromBets(
+        [...allPendingBets, newBet].filter((b) => b.marketId === marketId),
+      );
+      const simulatedPos = calculateBookmakerPosition(
+        [...allPendingBets, { ...newBet, status: BetStatus.PENDING }] as Bet[],
+        marketId,
+        marketSelections,
+      );
+      const maxWin = this.maxMatchOddsNetWinning(simulatedPos?.runners ?? {});
+      const detail = limitDetail(maxWinningLimit.limit);
+      if (maxWin > detail.limit) {
+        throw new HttpException(
+          {
+            success: false,
+            error: `Maximum Bookmaker winning (${detail.limit}) would be exceeded.`,
+            code: 'MAX_BOOKMAKER_WINNING_EXCEEDED',
+            maxWinning: maxWin,
+            ...detail,
+          },
+          400,
+        );
+      }
       return;
     }
 
@@ -496,18 +1643,17 @@ export class BetsService {
         marketSelections,
       );
       const maxWin = this.maxMatchOddsNetWinning(simulatedPos?.runners ?? {});
-      const moLimit =
-        effectiveMaxWinAmount !== null
-          ? Math.min(this.MATCH_ODDS_MAX_WINNING, effectiveMaxWinAmount)
-          : this.MATCH_ODDS_MAX_WINNING;
-      if (maxWin > moLimit) {
+      const detail = limitDetail(
+        maxWinningLimit.limit ?? this.MATCH_ODDS_MAX_WINNING,
+      );
+      if (maxWin > detail.limit) {
         throw new HttpException(
           {
             success: false,
-            error: `Maximum Match Odds winning (${moLimit}) would be exceeded.`,
+            error: `Maximum Match Odds winning (${detail.limit}) would be exceeded.`,
             code: 'MAX_MATCH_ODDS_WINNING_EXCEEDED',
             maxWinning: maxWin,
-            limit: moLimit,
+            ...detail,
           },
           400,
         );
@@ -564,18 +1710,91 @@ export class BetsService {
       const simNo = baseNo + dN;
       const maxFancy = Math.max(simYes, simNo);
 
-      const fancyLimit =
-        effectiveMaxWinAmount !== null
-          ? Math.min(this.FANCY_MAX_WINNING, effectiveMaxWinAmount)
-          : this.FANCY_MAX_WINNING;
-      if (maxFancy > fancyLimit) {
+      const detail = limitDetail(
+        maxWinningLimit.limit ?? this.FANCY_MAX_WINNING,
+      );
+      if (maxFancy > detail.limit) {
         throw new HttpException(
           {
             success: false,
-            error: `Maximum Fancy winning (${fancyLimit}) would be exceeded.`,
+            error: `Maximum Fancy winning (${detail.limit}) would be exceeded.`,
             code: 'MAX_FANCY_WINNING_EXCEEDED',
             maxWinning: maxFancy,
-            limit: fancyLimit,
+            ...detail,
+          },
+          400,
+        );
+      }
+    }
+  }
+
+  /**
+   * Reject a bet that would push the client's open exposure over the caps set by the agent
+   * (User.maxExposure for all markets, User.maxEventExposure within one event).
+   * Runs inside the placement transaction, after exposureDelta is known.
+   */
+  private async enforceExposureCaps(
+    tx: Omit<
+      PrismaClient,
+      '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+    >,
+    {
+      userId,
+      eventId,
+      exposureDelta,
+      currentLiability,
+      limits,
+    }: {
+      userId: string;
+      eventId: string | null | undefined;
+      exposureDelta: number;
+      currentLiability: number;
+      limits: {
+        maxExposure?: number | null;
+        maxEventExposure?: number | null;
+      } | null;
+    },
+  ): Promise<void> {
+    const maxExposure = limits?.maxExposure;
+    if (maxExposure !== null && maxExposure !== undefined) {
+      const currentExposure = Math.max(0, currentLiability);
+      if (currentExposure + exposureDelta > maxExposure) {
+        throw new HttpException(
+          {
+            success: false,
+            error: `Maximum exposure exceeded. Current exposure: ${currentExposure}, this bet adds: ${exposureDelta}, allowed: ${maxExposure}`,
+            code: 'MAX_EXPOSURE_EXCEEDED',
+            currentExposure,
+            requestedExposure: currentExposure + exposureDelta,
+            allowedExposure: maxExposure,
+          },
+          400,
+        );
+      }
+    }
+
+    const maxEventExposure = limits?.maxEventExposure;
+    if (
+      maxEventExposure !== null &&
+      maxEventExposure !== undefined &&
+      eventId
+    ) {
+      const eventPendingBets = await tx.bet.findMany({
+        where: { userId, eventId, status: BetStatus.PENDING },
+      });
+      // The liability the wallet locks for these bets (LiabilityService, as in recalcLiability)
+      const currentEventExposure =
+        this.liabilityService.calculateLiabilityInMemory(eventPendingBets);
+      if (currentEventExposure + exposureDelta > maxEventExposure) {
+        throw new HttpException(
+          {
+            success: false,
+            error: `Maximum exposure for this event exceeded. Current event exposure: ${currentEventExposure}, this bet adds: ${exposureDelta}, allowed: ${maxEventExposure}`,
+            code: 'MAX_EVENT_EXPOSURE_EXCEEDED',
+            eventId,
+            currentExposure: currentEventExposure,
+            requestedExposure: currentEventExposure + exposureDelta,
+            allowedExposure: maxEventExposure,
           },
           400,
         );
@@ -587,12 +1806,15 @@ export class BetsService {
     matchOdds: number;
     fancy: number;
     bookmaker: number;
+    toss: number;
+    sportsMarkets: number;
     total: number;
   } {
     // Group bets by market type for efficient calculation
     const matchOddsBetsByMarket = new Map<string, typeof bets>();
     const bookmakerBetsByMarket = new Map<string, typeof bets>();
     const fancyBetsBySelection = new Map<string, typeof bets>();
+    const tossBetsByMarket = new Map<string, typeof bets>();
 
     for (const bet of bets) {
       const betGtype = (bet.gtype || '').toLowerCase();
@@ -623,11 +1845,19 @@ export class BetsService {
         }
         fancyBetsBySelection.get(key)!.push(bet);
       }
+      // Toss bets
+      else if (betGtype === 'toss' && bet.marketId) {
+        if (!tossBetsByMarket.has(bet.marketId)) {
+          tossBetsByMarket.set(bet.marketId, []);
+        }
+        tossBetsByMarket.get(bet.marketId)!.push(bet);
+      }
     }
 
     let matchOddsExposure = 0;
     let bookmakerExposure = 0;
     let fancyExposure = 0;
+    let tossExposure = 0;
 
     // Calculate Match Odds exposure (sum across all Match Odds markets)
     for (const [, marketBets] of matchOddsBetsByMarket) {
@@ -644,13 +1874,32 @@ export class BetsService {
       fancyExposure += this.fancyExposureService.calculateFancyExposureInMemory(selectionBets);
     }
 
+    // Calculate Toss exposure (sum across all Toss markets)
+    for (const [, marketBets] of tossBetsByMarket) {
+      tossExposure +=
+        this.tossExposureService.calculateTossExposureInMemory(marketBets);
+    }
+
+    // Calculate soccer/tennis sports market exposure (grouped by marketId inside the service)
+    const sportsMarketsExposure =
+      this.sportsMarketExposureService.calculateSportsMarketsExposureInMemory(
+        bets,
+      );
+
     // Calculate total exposure (sum of all market types)
-    const total = matchOddsExposure + fancyExposure + bookmakerExposure;
+    const total =
+      matchOddsExposure +
+      fancyExposure +
+      bookmakerExposure +
+      tossExposure +
+      sportsMarketsExposure;
 
     return {
       matchOdds: matchOddsExposure,
       fancy: fancyExposure,
       bookmaker: bookmakerExposure,
+      toss: tossExposure,
+      sportsMarkets: sportsMarketsExposure,
       total,
     };
   }
@@ -747,8 +1996,35 @@ export class BetsService {
     };
   }
 
+  /** Betfair price ladder increment at `price` (1.01–2 by 0.01, …, 100–1000 by 10). */
+  private betfairTickSize(price: number): number {
+    if (price < 2) return 0.01;
+    if (price < 3) return 0.02;
+    if (price < 4) return 0.05;
+    if (price < 6) return 0.1;
+    if (price < 10) return 0.2;
+    if (price < 20) return 0.5;
+    if (price < 30) return 1;
+    if (price < 50) return 2;
+    if (price < 100) return 5;
+    return 10;
+  }
+
+  /** Number of ladder ticks from `low` up to `high` (low <= high). */
+  private betfairTicksBetween(low: number, high: number): number {
+    const eps = 1e-4;
+    let ticks = 0;
+    let price = low;
+    while (price + eps < high && price < 1000) {
+      price = Math.round((price + this.betfairTickSize(price)) * 100) / 100;
+      ticks++;
+    }
+    return ticks;
+  }
+
   /**
    * Match Odds only: ensure client price is still achievable on the same Betfair feed as GET /cricketid/odds.
+   * Returns the decimal price to fill at, per the client's odds tolerance (see ODDS_TOLERANCES).
    * Fancy / bookmaker are not validated here (different feeds and line models).
    */
   private async assertMatchOddsRateAgainstBetfair(params: {
@@ -757,14 +2033,24 @@ export class BetsService {
     selectionId: number;
     betType: string;
     requestedDecimal: number;
-  }): Promise<void> {
-    const { marketId, eventId, selectionId, betType, requestedDecimal } = params;
+    oddsTolerance: OddsTolerance;
+    oddsToleranceTicks: number;
+  }): Promise<number> {
+    const {
+      marketId,
+      eventId,
+      selectionId,
+      betType,
+      requestedDecimal,
+      oddsTolerance,
+      oddsToleranceTicks,
+    } = params;
     const eps = 1e-4;
     const normalizedEventId = String(eventId || '').trim();
     const overrideDelaySec = await this.getBetAcceptDelayOverrideSec(normalizedEventId);
     const snapshotKey = this.redisService.getVendorKey('matchodds-rate-snapshot', String(marketId).trim());
 
-    const assertFromOddsPayload = (oddsPayload: any) => {
+    const assertFromOddsPayload = (oddsPayload: any): number => {
       const markets = this.unwrapBetfairOddsMarkets(oddsPayload);
       const mid = String(marketId).trim();
       const market = markets.find((m: any) => String(m?.marketId ?? '').trim() === mid);
@@ -787,21 +2073,44 @@ export class BetsService {
       }
       const { bestBack, bestLay } = this.extractBetfairBestPrices(runner);
       const side = (betType || '').toUpperCase();
-      if (side === 'BACK') {
-        if (bestBack === null || bestBack + eps < requestedDecimal) {
-          throw new HttpException(
-            { success: false, error: 'Rate not matched', code: 'RATE_NOT_MATCHED' },
-            400,
-          );
-        }
-      } else if (side === 'LAY' || side === 'NO') {
-        if (bestLay === null || bestLay - eps > requestedDecimal) {
-          throw new HttpException(
-            { success: false, error: 'Rate not matched', code: 'RATE_NOT_MATCHED' },
-            400,
-          );
-        }
+      const isBack = side === 'BACK';
+      if (!isBack && side !== 'LAY' && side !== 'NO') return requestedDecimal;
+
+      const best = isBack ? bestBack : bestLay;
+      if (best === null) {
+        throw new HttpException(
+          {
+            success: false,
+            error: 'Rate not matched',
+            code: 'RATE_NOT_MATCHED',
+          },
+          400,
+        );
+      }
+      // Backers want a higher price, layers a lower one
+      const atLeastAsGood = isBack
+        ? best + eps >= requestedDecimal
+        : best - eps <= requestedDecimal;
+      if (atLeastAsGood) {
+        return oddsTolerance === 'EXACT' ? requestedDecimal : best;
       }
+      const ticksWorse = isBack
+        ? this.betfairTicksBetween(best, requestedDecimal)
+        : this.betfairTicksBetween(requestedDecimal, best);
+      if (oddsTolerance === 'TICKS' && ticksWorse <= oddsToleranceTicks) {
+        return best;
+      }
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Rate not matched',
+          code: 'RATE_NOT_MATCHED',
+          requestedOdds: requestedDecimal,
+          currentOdds: best,
+          ticksWorse,
+        },
+        400,
+      );
     };
 
     try {
@@ -815,17 +2124,17 @@ export class BetsService {
         }
       }
 
-      assertFromOddsPayload(liveOddsPayload);
+      return assertFromOddsPayload(liveOddsPayload);
     } catch (error) {
       if (error instanceof HttpException && overrideDelaySec) {
         const snap = await this.redisService.get<any>(snapshotKey);
         if (snap) {
           try {
-            assertFromOddsPayload(snap);
+            const matched = assertFromOddsPayload(snap);
             this.logger.debug(
               `[matchodds_accept_delay_override] Accepted from snapshot eventId=${normalizedEventId || 'n/a'} marketId=${marketId} delaySec=${overrideDelaySec}`,
             );
-            return;
+            return matched;
           } catch {
             // keep original strict error below
           }
@@ -845,16 +2154,174 @@ export class BetsService {
   }
 
 
-  async placeBet(input: PlaceBetDto) {
-    // 🔍 PERF: Start timing IMMEDIATELY at function entry
-    const perfStart = Date.now();
-    this.logger.log('[PERF][placeBet] function_entry', {
-      ms: 0,
-      timestamp: new Date().toISOString(),
+  /**
+   * Diamond market and section (runner / fancy line) a fancy, bookmaker or toss bet targets.
+   * Reads the cached bookmaker-fancy feed first; fancy types it filters out fall back to the raw
+   * diamond feed. Prefers the market whose id matches the bet's marketId.
+   */
+  private async findDiamondSection(
+    eventId: string,
+    marketId: string,
+    selectionId: number,
+    kind: 'fancy' | 'bookmaker' | 'toss',
+  ): Promise<{ market: DiamondMarket; section: DiamondSection } | null> {
+    const marketKind = (m: DiamondMarket): 'fancy' | 'bookmaker' | 'toss' => {
+      const mname = String(m?.mname ?? '').toUpperCase();
+      const gtype = String(m?.gtype ?? '').toLowerCase();
+      if (mname.includes('TOSS')) return 'toss';
+      return mname.includes('BOOKMAKER') ||
+        mname.includes('TIED') ||
+        (gtype.startsWith('match') &&
+          gtype !== 'match' &&
+          gtype !== 'matchodds')
+        ? 'bookmaker'
+        : 'fancy';
+    };
+    const pick = (markets: DiamondMarket[]) => {
+      const candidates: Array<{
+        market: DiamondMarket;
+        section: DiamondSection;
+      }> = [];
+      for (const market of markets) {
+        if (String(market?.mname ?? '').toUpperCase() === 'MATCH_ODDS')
+          continue;
+        if (marketKind(market) !== kind) continue;
+        const sections = Array.isArray(market?.section) ? market.section : [];
+        const section = sections.find(
+          (x) => String(x?.sid ?? '').trim() === String(selectionId),
+        );
+        if (section) candidates.push({ market, section });
+      }
+      return (
+        candidates.find(
+          (c) =>
+            String(c.market?.mid ?? c.market?.marketId ?? '').trim() ===
+            marketId,
+        ) ??
+        candidates[0] ??
+        null
+      );
+    };
+
+    const bookmakerFancy =
+      await this.cricketIdService.getBookmakerFancy(eventId);
+    const found = pick(
+      Array.isArray(bookmakerFancy?.data)
+        ? (bookmakerFancy.data as DiamondMarket[])
+        : [],
+    );
+    if (found || kind !== 'fancy') return found;
+
+    const diamond: { data?: unknown } | null =
+      await this.cricketIdService.getDiamondFancy(eventId);
+    return pick(
+      Array.isArray(diamond?.data) ? (diamond.data as DiamondMarket[]) : [],
+    );
+  }
+
+  /**
+   * Fancy / bookmaker: the Diamond feed is authoritative for line, rate and suspension. Finds the
+   * section, rejects suspended markets and prices the bet from the section
+   * (priceBetFromVendorSection) so client-supplied amounts cannot inflate a payout.
+   */
+  private async assertFancyOrBookmakerRateAgainstVendor(params: {
+    kind: 'fancy' | 'bookmaker' | 'toss';
+    eventId: string;
+    marketId: string;
+    selectionId: number;
+    betType: string;
+    requestedRate: number;
+    stake: number;
+    clientWinAmount: number;
+    clientLossAmount: number;
+  }): Promise<{ betRate: number; winAmount: number; lossAmount: number }> {
+    const {
+      kind,
+      eventId,
+      marketId,
+      selectionId,
+      betType,
+      requestedRate,
+      stake,
+      clientWinAmount,
+      clientLossAmount,
+    } = params;
+
+    let found: { market: DiamondMarket; section: DiamondSection } | null;
+    try {
+      found = eventId
+        ? await this.findDiamondSection(eventId, marketId, selectionId, kind)
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `${kind} rate validation failed: eventId=${eventId}, marketId=${marketId}, selectionId=${selectionId}`,
+        error,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Rate not matched',
+          code: 'RATE_VALIDATION_ERROR',
+        },
+        400,
+      );
+    }
+    if (!found) {
+      throw new BadRequestException({
+        success: false,
+        error: 'rate not matched or rate is not available.',
+        code: 'RATE_NOT_MATCHED_OR_NOT_AVAILABLE',
+        eventId,
+        marketId,
+        selectionId,
+      });
+    }
+
+    const { market, section } = found;
+    const sections = Array.isArray(market?.section) ? market.section : [];
+    const marketSuspended = this.cricketIdService.isMarketSuspended({
+      ...market,
+      odds: sections.flatMap((x) => (Array.isArray(x?.odds) ? x.odds : [])),
     });
+    if (marketSuspended || this.cricketIdService.isMarketSuspended(section)) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Market is suspended',
+          code: 'MARKET_SUSPENDED',
+          eventId,
+          marketId,
+          selectionId,
+        },
+        400,
+      );
+    }
 
-    const debug: Record<string, unknown> = {};
+    return priceBetFromVendorSection({
+      kind,
+      section,
+      betType,
+      requestedRate,
+      stake,
+      clientWinAmount,
+      clientLossAmount,
+    });
+  }
 
+  /**
+   * Validation and exchange math for one PlaceBetDto, up to (not including) the wallet transaction:
+   * stake limits, market type, blocked events, win/loss amounts and the vendor rate checks
+   * (Betfair for Match Odds, Diamond for fancy / bookmaker).
+   */
+  private async prepareBet(
+    input: PlaceBetDto,
+    options: {
+      acceptanceId?: string;
+      oddsFill?: OddsFill;
+      betDelay?: BetDelay;
+    },
+    perfLog: (step: string, extra?: Record<string, unknown>) => void,
+  ): Promise<PreparedBet> {
     const inputParseStart = Date.now();
     const {
       selection_id,
@@ -872,47 +2339,16 @@ export class BetsService {
       marketId,
       eventId,
       runner_name_2,
-    } = input;
-    const inputParseMs = Date.now() - inputParseStart;
-    if (inputParseMs > 10) {
-      this.logger.warn('[PERF][placeBet] input_parse_slow', { ms: inputParseMs });
-    }
-
-    // 🔍 PERF: Initialize per-request timing helper
-    const perfLog = (step: string, extra?: Record<string, unknown>) => {
-      const ms = Date.now() - perfStart;
-      const payload = extra ? { step, ms, ...extra } : { step, ms };
-      this.logger.log(`[PERF][placeBet]`, payload);
-    };
-    
-    perfLog('after_input_parsing');
-
-    const normalizedBetValue = Number(betvalue) || 0;
-    const rawBetRate = Number(bet_rate) || 0;
-    const normalizedSelectionId = Number(selection_id) || 0;
-    
-    // Validate bet value range: minimum 500, maximum 200000
-    if (normalizedBetValue < 500) {
-      throw new HttpException(
-        {
-          success: false,
-          error: 'Bet value must be at least 500',
-          code: 'INVALID_BET_VALUE_MIN',
-        },
-        400,
-      );
-    }
-    
-    if (normalizedBetValue > 200000) {
-      throw new HttpException(
-        {
-          success: false,
-          error: 'Bet value cannot exceed 200000',
-          code: 'INVALID_BET_VALUE_MAX',
-        },
-        400,
-      );
+    } = input;
+    const inputParseMs = Date.now() - inputParseStart;
+    if (inputParseMs > 10) {
+      this.logger.warn('[PERF][placeBet] input_parse_slow', { ms: inputParseMs });
     }
+    perfLog('after_input_parsing');
+
+    const normalizedBetValue = Number(betvalue) || 0;
+    const rawBetRate = Number(bet_rate) || 0;
+    const normalizedSelectionId = Number(selection_id) || 0;
 
     // 1. VALIDATE MARKET ID (REQUIRED FOR EXCHANGE EXPOSURE)
     if (!marketId) {
@@ -931,8 +2367,25 @@ export class BetsService {
     const marketName = (input.market_name || '').toLowerCase();
     const isTiedMatchMarket = this.isTiedMatchMarketName(input.market_name);
     let actualMarketType = normalizedGtype;
+    // Soccer/tennis markets: explicit gtype, or a Match Odds gtype on e.g. "Over/Under 2.5 Goals"
+    const sportsMarketGtype = resolveSportsMarketGtype(
+      normalizedGtype,
+      input.market_name,
+    );
     
-    if (normalizedGtype.startsWith('match') && normalizedGtype !== 'match' && normalizedGtype !== 'matchodds') {
+    // Toss: gtype 'toss', or a non-fancy market the vendor names as a toss (e.g. "Who will win the toss")
+    if (
+      normalizedGtype === 'toss' ||
+      (normalizedGtype !== 'fancy' && marketName.includes('toss'))
+    ) {
+      actualMarketType = 'toss';
+    } else if (sportsMarketGtype) {
+      actualMarketType = sportsMarketGtype;
+    } else if (
+      normalizedGtype.startsWith('match') &&
+      normalizedGtype !== 'match' &&
+      normalizedGtype !== 'matchodds'
+    ) {
       actualMarketType = 'bookmaker';
     }
     else if (!normalizedGtype || normalizedGtype === '') {
@@ -974,11 +2427,38 @@ export class BetsService {
       }
     }
 
-    if (!['matchodds', 'fancy', 'bookmaker'].includes(actualMarketType)) {
+    const suspension = await this.marketSuspensionService.getSuspension({
+      marketId,
+      eventId: normalizedEventId,
+      selectionId: selection_id,
+      kind:
+        actualMarketType === 'fancy' || actualMarketType === 'bookmaker'
+          ? actualMarketType
+          : null,
+    });
+    if (suspension) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Market is suspended',
+          code: 'MARKET_SUSPENDED',
+          ...suspension,
+          eventId: normalizedEventId,
+          marketId,
+          selectionId: selection_id,
+        },
+        400,
+      );
+    }
+
+    if (
+      !['matchodds', 'fancy', 'bookmaker', 'toss'].includes(actualMarketType) &&
+      !isSportsMarketGtype(actualMarketType)
+    ) {
       throw new HttpException(
         {
           success: false,
-          error: `Unsupported market type: ${gtype}. Supported types: match/matchodds, match1/match2/etc (bookmaker), fancy, bookmaker`,
+          error: `Unsupported market type: ${gtype}. Supported types: match/matchodds, match1/match2/etc (bookmaker), fancy, bookmaker, toss, ${SPORTS_MARKET_GTYPES.join(', ')}`,
           code: 'UNSUPPORTED_MARKET_TYPE',
         },
         400,
@@ -990,9 +2470,60 @@ export class BetsService {
       betGtype = 'fancy';
     } else if (actualMarketType === 'bookmaker') {
       betGtype = 'bookmaker';
+    } else if (actualMarketType === 'toss') {
+      betGtype = 'toss';
+    } else if (isSportsMarketGtype(actualMarketType)) {
+      betGtype = actualMarketType;
+    }
+    // Soccer/tennis markets are Betfair-priced like Match Odds (decimal odds, same win/loss math)
+    const isSportsMarketBet = isSportsMarketGtype(betGtype);
+
+    // Validate bet value range: per-market-type min/max set on the user or inherited from its parents.
+    // Toss has no tier of its own and uses the bookmaker limits; sports markets use Match Odds.
+    const ancestorChain = await this.usersService.getAncestorChain(
+      String(user_id),
+    );
+    const stakeLimits = await this.usersService.getEffectiveStakeLimits(
+      String(user_id),
+      ancestorChain,
+    );
+    const { min: minStake, max: maxStake } =
+      stakeLimits[
+        (betGtype === 'toss'
+          ? 'bookmaker'
+          : isSportsMarketBet
+            ? 'matchodds'
+            : betGtype) as StakeLimitMarketType
+      ];
+    if (normalizedBetValue < minStake) {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Bet value must be at least ${minStake}`,
+          code: 'INVALID_BET_VALUE_MIN',
+          marketType: betGtype,
+          minStake,
+          maxStake,
+        },
+        400,
+      );
+    }
+
+    if (normalizedBetValue > maxStake) {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Bet value cannot exceed ${maxStake}`,
+          code: 'INVALID_BET_VALUE_MAX',
+          marketType: betGtype,
+          minStake,
+          maxStake,
+        },
+        400,
+      );
     }
 
-    const normalizedBetRate =
+    let normalizedBetRate =
       betGtype === 'matchodds' ? this.normalizeMatchOddsToDecimal(rawBetRate) : rawBetRate;
 
     perfLog('after_bet_value_validation', {
@@ -1003,16 +2534,23 @@ export class BetsService {
 
     // ✅ EXCHANGE LOGIC: win/loss use decimal odds for match odds (after normalization).
     // Match odds: BACK win = stake×(decimalOdds−1), loss = stake; LAY win = stake, loss = stake×(decimalOdds−1).
+    // Sports markets and toss are single-winner books settled from the odds, so a client win_amount is ignored.
     // Fancy/bookmaker: unchanged win fallback formulas; fancy BACK still overridden below.
     const normalizedBetType = (bet_type || '').toUpperCase();
     const isBackBet = normalizedBetType === 'BACK';
     const isLayBet = normalizedBetType === 'LAY' || normalizedBetType === 'NO';
+    const isOddsPricedBet = isSportsMarketBet || betGtype === 'toss';
     
-    let normalizedWinAmount = Number(win_amount) || 0;
+    let normalizedWinAmount = isOddsPricedBet ? 0 : Number(win_amount) || 0;
     let normalizedLossAmount = 0;
     
     if (normalizedBetValue > 0 && normalizedBetRate > 0) {
-      if (betGtype === 'matchodds') {
+      // Bookmaker / toss rates are decimal here when a parked bet replays its vendor-checked rate
+      if (
+        betGtype === 'matchodds' ||
+        betGtype === 'bookmaker' ||
+        isOddsPricedBet
+      ) {
         if (isBackBet) {
           normalizedWinAmount =
             normalizedWinAmount || normalizedBetValue * (normalizedBetRate - 1);
@@ -1036,7 +2574,7 @@ export class BetsService {
     //   normalizedLossAmount = normalizedBetValue;
     // }
     if (betGtype === 'fancy' && isBackBet) {
-      // TRUST FRONTEND PAYROLL VALUE (ONLY FOR FANCY BACK)
+      // Provisional only: replaced by the vendor-validated amounts further down
       normalizedWinAmount = Number(win_amount) || 0;
       normalizedLossAmount = normalizedBetValue; 
     }
@@ -1073,7 +2611,7 @@ export class BetsService {
     }
 
     // Bookmaker keeps old behavior
-    if (betGtype === 'bookmaker') {
+    if (betGtype === 'bookmaker' || betGtype === 'toss') {
       normalizedLossAmount = this.calculateLiability(
         gtype,
         bet_type,
@@ -1083,7 +2621,7 @@ export class BetsService {
     }
 
     // Match Odds: lossAmount is ONLY for settlement, not exposure
-    if (betGtype === 'matchodds') {
+    if (betGtype === 'matchodds' || isSportsMarketBet) {
       normalizedLossAmount = isBackBet
         ? normalizedBetValue
         : (normalizedBetRate - 1) * normalizedBetValue;
@@ -1104,536 +2642,897 @@ export class BetsService {
       marketType: actualMarketType,
     });
 
-    // Match Odds only: live price check against same Betfair feed as GET /cricketid/odds.
+    // Match Odds and soccer/tennis sports markets: live price check against same Betfair feed as GET /cricketid/odds.
     // Tied Match runs on a different market source (Yes/No), so skip Betfair runner-rate validation.
-    if (betGtype === 'matchodds' && normalizedSelectionId > 0 && !isTiedMatchMarket) {
-      await this.assertMatchOddsRateAgainstBetfair({
+    // A parked bet being accepted keeps the price it was matched at on submission, unless it
+    // waited out a client bet delay: then the rate must still be there after the delay.
+    const validateRate =
+      !options.acceptanceId || (options.betDelay?.userDelaySec ?? 0) > 0;
+    let oddsFill = options.acceptanceId ? options.oddsFill : undefined;
+    if (
+      (betGtype === 'matchodds' || isSportsMarketBet) &&
+      normalizedSelectionId > 0 &&
+      !isTiedMatchMarket &&
+      validateRate
+    ) {
+      const oddsTolerance = input.odds_tolerance ?? 'EXACT';
+      const oddsToleranceTicks = Number(input.odds_tolerance_ticks) || 0;
+      if (oddsTolerance === 'TICKS' && oddsToleranceTicks <= 0) {
+        throw new HttpException(
+          {
+            success: false,
+            error:
+              'odds_tolerance_ticks is required when odds_tolerance is TICKS',
+            code: 'INVALID_ODDS_TOLERANCE',
+          },
+          400,
+        );
+      }
+      const matchedOdds = await this.assertMatchOddsRateAgainstBetfair({
         marketId,
         eventId: normalizedEventId,
         selectionId: normalizedSelectionId,
         betType: bet_type,
         requestedDecimal: normalizedBetRate,
+        oddsTolerance,
+        oddsToleranceTicks,
       });
+      oddsFill = {
+        requestedOdds: normalizedBetRate,
+        matchedOdds,
+        oddsTolerance,
+        ...(oddsTolerance === 'TICKS' && { oddsToleranceTicks }),
+      };
     }
 
-    // Match Odds: when admin sets accept-delay for this eventId, wait before wallet transaction
-    // (after rate validation). Also used inside assertMatchOddsRateAgainstBetfair as Redis snapshot TTL.
-    if (betGtype === 'matchodds' && normalizedEventId) {
-      const acceptDelaySec = await this.getBetAcceptDelayOverrideSec(normalizedEventId);
-      if (acceptDelaySec !== null && acceptDelaySec > 0) {
-        const cappedSec = Math.min(acceptDelaySec, this.MAX_BET_ACCEPT_DELAY_SEC);
-        await this.sleepMs(cappedSec * 1000);
-        perfLog('matchodds_accept_delay_wait', {
-          eventId: normalizedEventId,
-          delaySec: cappedSec,
-        });
-      }
+    if (
+      (betGtype === 'fancy' ||
+        betGtype === 'bookmaker' ||
+        betGtype === 'toss') &&
+      validateRate
+    ) {
+      const checked = await this.assertFancyOrBookmakerRateAgainstVendor({
+        kind: betGtype,
+        eventId: normalizedEventId,
+        marketId,
+        selectionId: normalizedSelectionId,
+        betType: bet_type,
+        requestedRate: normalizedBetRate,
+        stake: normalizedBetValue,
+        clientWinAmount: isOddsPricedBet ? 0 : Number(win_amount) || 0,
+        clientLossAmount: isOddsPricedBet ? 0 : Number(loss_amount) || 0,
+      });
+      normalizedBetRate = checked.betRate;
+      normalizedWinAmount = checked.winAmount;
+      normalizedLossAmount = checked.lossAmount;
+      to_return = normalizedWinAmount + normalizedLossAmount;
     }
 
-    try {
-      // 🔐 STEP 1: Load wallet & ALL pending bets (SNAPSHOT STATE)
-      const txStart = Date.now();
-      const transactionResult = await this.prisma.$transaction(
-        async (tx) => {
-          let maxWinningCacheWrite:
-            | {
-                userId: string;
-                matchId: string;
-                posMarketType: 'matchodds' | 'fancy';
-                payload: {
-                  v: number;
-                  marketId: string;
-                  snapshot: string;
-                  runners?: Record<string, { net: number }>;
-                  lines?: FancyPosition[];
-                };
-              }
-            | undefined;
-
-          // ✅ COMBINED: Check user status, betting_enabled, AND wallet in parallel within transaction
-          const [user, userWinLimit, wallet] = await Promise.all([
-            tx.user.findUnique({
-              where: { id: userId },
-              select: { id: true, isActive: true, bettingEnabled: true },
-            }),
-            (tx as any).user.findUnique({
-              where: { id: userId },
-              select: { maxWinAmount: true },
-            }),
-            tx.wallet.findUnique({
-              where: { userId },
-              select: { id: true, balance: true, liability: true },
-            }),
-          ]);
-
-          // Validate user exists and is active
-          if (!user) {
-            throw new HttpException(
-              {
-                success: false,
-                error: `User not found. Please ensure the user with ID '${userId}' exists in the system before placing bets.`,
-                code: 'USER_NOT_FOUND',
-              },
-              404,
-            );
-          }
+    // Filled at a different price than requested: redo the Match Odds win/loss at the matched price
+    if (oddsFill && Math.abs(oddsFill.matchedOdds - normalizedBetRate) > 1e-9) {
+      normalizedBetRate = oddsFill.matchedOdds;
+      normalizedWinAmount = isBackBet
+        ? normalizedBetValue * (normalizedBetRate - 1)
+        : normalizedBetValue;
+      normalizedLossAmount = isBackBet
+        ? normalizedBetValue
+        : (normalizedBetRate - 1) * normalizedBetValue;
+      to_return = normalizedWinAmount + normalizedLossAmount;
+      perfLog('matchodds_filled_at_live_price', { ...oddsFill });
+    }
 
-          if (!user.isActive) {
-            throw new HttpException(
-              {
-                success: false,
-                error: 'Account is locked. Betting is not allowed.',
-                code: 'ACCOUNT_LOCKED',
-              },
-              403,
-            );
-          }
+    // Resolved before the wallet transaction: sport/competition tiers may need the vendor event feed.
+    const maxWinningLimit = await this.resolveMaxWinningLimit(
+      actualMarketType,
+      normalizedEventId,
+      marketId,
+    );
 
-          // Disable betting for all clients under a stopped agent (enforced on backend)
-          if (user.bettingEnabled === false) {
-            throw new BadRequestException({
-              success: false,
-              error: 'Betting is disabled by your agent.',
-              code: 'BETTING_DISABLED_BY_AGENT',
-            });
-          }
+    return {
+      input,
+      userId,
+      match_id,
+      bet_name,
+      bet_type,
+      market_name,
+      market_type,
+      marketId,
+      eventId,
+      runner_name_2,
+      actualMarketType,
+      betGtype,
+      isTiedMatchMarket,
+      normalizedEventId,
+      normalizedSelectionId,
+      normalizedBetValue,
+      normalizedBetRate,
+      normalizedWinAmount,
+      normalizedLossAmount,
+      to_return,
+      selid,
+      settlement_id,
+      maxWinningLimit,
+      ancestorChain,
+      oddsFill,
+      betDelay: options.betDelay,
+      acceptanceId: options.acceptanceId,
+    };
+  }
 
-          // Validate wallet exists
-          if (!wallet) {
-            throw new HttpException(
-              {
-                success: false,
-                error: `Wallet not found for user ${userId}`,
-                code: 'WALLET_NOT_FOUND',
-              },
-              404,
-            );
-          }
+  /**
+   * Wallet transaction body for one prepared bet: exposure delta, balance lock, bet insert, audit row.
+   * Runs inside the caller's transaction so a bet slip can place several bets atomically.
+   */
+  private async executePreparedBet(
+    tx: Prisma.TransactionClient,
+    prepared: PreparedBet,
+    debug: Record<string, unknown>,
+  ) {
+    const {
+      userId,
+      match_id,
+      bet_name,
+      bet_type,
+      market_name,
+      market_type,
+      marketId,
+      eventId,
+      runner_name_2,
+      actualMarketType,
+      betGtype,
+      normalizedSelectionId,
+      normalizedBetValue,
+      normalizedBetRate,
+      normalizedWinAmount,
+      normalizedLossAmount,
+      to_return,
+      selid,
+      settlement_id,
+      oddsFill,
+    } = prepared;
+
+    let maxWinningCacheWrite:
+      | {
+          userId: string;
+          matchId: string;
+          posMarketType: 'matchodds' | 'fancy';
+          payload: {
+            v: number;
+            marketId: string;
+            snapshot: string;
+            runners?: Record<string, { net: number }>;
+            lines?: FancyPosition[];
+          };
+        }
+      | undefined;
 
-          // Ensure match exists
-          await tx.match.upsert({
-            where: { id: String(match_id) },
-            update: {
-              ...(eventId && { eventId }),
-              ...(marketId && { marketId }),
-            },
-            create: {
-              id: String(match_id),
-              homeTeam: bet_name ?? 'Unknown',
-              awayTeam: market_name ?? 'Unknown',
-              startTime: new Date(),
-              status: MatchStatus.LIVE,
-              ...(eventId && { eventId }),
-              ...(marketId && { marketId }),
-            },
-          });
+    // ✅ COMBINED: Check user status, betting_enabled, AND wallet in parallel within transaction
+    const [user, userWinLimit, wallet] = await Promise.all([
+      tx.user.findUnique({
+        where: { id: userId },
+        select: { id: true, isActive: true, bettingEnabled: true },
+      }),
+      (tx as any).user.findUnique({
+        where: { id: userId },
+        select: {
+          maxWinAmount: true,
+          maxExposure: true,
+          maxEventExposure: true,
+        },
+      }),
+      tx.wallet.findUnique({
+        where: { userId },
+        select: { id: true, balance: true, liability: true },
+      }),
+    ]);
 
-          // Normalize wallet values defensively (handle null/undefined from DB)
-          // These values are critical for financial calculations - must be numbers
-          let currentBalance = Number(wallet.balance) || 0;
-          let currentLiability = Number(wallet.liability) || 0;
-
-          // 🔐 STEP 1: Load pending bets for SAME marketId
-          // Exchange rule: Exposure is locked per USER + MARKET ID, not per market type.
-          // Match Odds of Match A ≠ Match Odds of Match B - they NEVER offset each other.
-          const allPendingBets = await tx.bet.findMany({
-            where: {
-              userId,
-              status: BetStatus.PENDING,
-              marketId, // 🔥 CRITICAL: Filter by marketId to isolate exposure per market
-            },
-            select: {
-              id: true,
-              userId: true,
-              gtype: true,
-              marketId: true,
-              eventId: true,
-              selectionId: true,
-              betType: true,
-              betValue: true,
-              amount: true,
-              betRate: true,
-              odds: true,
-              winAmount: true,
-              lossAmount: true,
-              isRangeConsumed: true,
-              status: true,
-              metadata: true,
-            },
-          });
+    // Validate user exists and is active
+    if (!user) {
+      throw new HttpException(
+        {
+          success: false,
+          error: `User not found. Please ensure the user with ID '${userId}' exists in the system before placing bets.`,
+          code: 'USER_NOT_FOUND',
+        },
+        404,
+      );
+    }
 
-          // 🔐 STEP 2: Create new bet object in memory (for exposure calculation)
-          // This object represents the bet being placed and is used to calculate
-          // exposure delta before the bet is persisted to the database
-          const newBet = {
-            gtype: betGtype, // Market type: 'matchodds', 'fancy', or 'bookmaker'
-            marketId, // Market identifier (required for exposure isolation)
-            eventId: eventId || null, // Event identifier (optional)
-            selectionId: normalizedSelectionId, // Selection/runner ID
-            betType: bet_type, // 'BACK' or 'LAY'
-            betValue: normalizedBetValue, // Stake amount
-            amount: normalizedBetValue, // Same as betValue (for compatibility)
-            betRate: normalizedBetRate, // Odds/rate
-            odds: normalizedBetRate, // Same as betRate (for compatibility)
-            winAmount: normalizedWinAmount, // Calculated win amount
-            lossAmount: normalizedLossAmount, // Calculated loss amount (liability)
-            isRangeConsumed: false, // Fancy range consumption flag (not used in current model)
-          };
+    if (!user.isActive) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Account is locked. Betting is not allowed.',
+          code: 'ACCOUNT_LOCKED',
+        },
+        403,
+      );
+    }
 
-          const userMaxWinAmount = (userWinLimit as { maxWinAmount?: number | null } | null)?.maxWinAmount;
+    // Disable betting for all clients under a stopped agent (enforced on backend)
+    if (user.bettingEnabled === false) {
+      throw new BadRequestException({
+        success: false,
+        error: 'Betting is disabled by your agent.',
+        code: 'BETTING_DISABLED_BY_AGENT',
+      });
+    }
 
-          await this.enforceMaxWinningLimitsWithCache({
-            userId,
-            matchIdStr: String(match_id),
-            marketId,
-            actualMarketType,
-            allPendingBets,
-            newBet,
-            eventId,
-            normalizedSelectionId,
-            userMaxWinAmount,
-          });
+    // Validate wallet exists
+    if (!wallet) {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Wallet not found for user ${userId}`,
+          code: 'WALLET_NOT_FOUND',
+        },
+        404,
+      );
+    }
+
+    // Ensure match exists
+    await tx.match.upsert({
+      where: { id: String(match_id) },
+      update: {
+        ...(eventId && { eventId }),
+        ...(marketId && { marketId }),
+      },
+      create: {
+        id: String(match_id),
+        homeTeam: bet_name ?? 'Unknown',
+        awayTeam: market_name ?? 'Unknown',
+        startTime: new Date(),
+        status: MatchStatus.LIVE,
+        ...(eventId && { eventId }),
+        ...(marketId && { marketId }),
+      },
+    });
+
+    // Normalize wallet values defensively (handle null/undefined from DB)
+    // These values are critical for financial calculations - must be numbers
+    let currentBalance = Number(wallet.balance) || 0;
+    let currentLiability = Number(wallet.liability) || 0;
+
+    // 🔐 STEP 1: Load pending bets for SAME marketId
+    // Exchange rule: Exposure is locked per USER + MARKET ID, not per market type.
+    // Match Odds of Match A ≠ Match Odds of Match B - they NEVER offset each other.
+    const allPendingBets = await tx.bet.findMany({
+      where: {
+        userId,
+        status: BetStatus.PENDING,
+        marketId, // 🔥 CRITICAL: Filter by marketId to isolate exposure per market
+      },
+      select: {
+        id: true,
+        userId: true,
+        gtype: true,
+        marketId: true,
+        eventId: true,
+        selectionId: true,
+        betType: true,
+        betValue: true,
+        amount: true,
+        betRate: true,
+        odds: true,
+        winAmount: true,
+        lossAmount: true,
+        isRangeConsumed: true,
+        status: true,
+        metadata: true,
+      },
+    });
+
+    // 🔐 STEP 2: Create new bet object in memory (for exposure calculation)
+    // This object represents the bet being placed and is used to calculate
+    // exposure delta before the bet is persisted to the database
+    const newBet = {
+      gtype: betGtype, // Market type: 'matchodds', 'fancy', 'bookmaker', 'toss' or a sports market gtype
+      marketId, // Market identifier (required for exposure isolation)
+      eventId: eventId || null, // Event identifier (optional)
+      selectionId: normalizedSelectionId, // Selection/runner ID
+      betType: bet_type, // 'BACK' or 'LAY'
+      betValue: normalizedBetValue, // Stake amount
+      amount: normalizedBetValue, // Same as betValue (for compatibility)
+      betRate: normalizedBetRate, // Odds/rate
+      odds: normalizedBetRate, // Same as betRate (for compatibility)
+      winAmount: normalizedWinAmount, // Calculated win amount
+      lossAmount: normalizedLossAmount, // Calculated loss amount (liability)
+      isRangeConsumed: false, // Fancy range consumption flag (not used in current model)
+    };
+
+    const userMaxWinAmount = (userWinLimit as { maxWinAmount?: number | null } | null)?.maxWinAmount;
+
+    await this.enforceMaxWinningLimitsWithCache({
+      userId,
+      matchIdStr: String(match_id),
+      marketId,
+      actualMarketType,
+      allPendingBets,
+      newBet,
+      eventId,
+      normalizedSelectionId,
+      userMaxWinAmount,
+      maxWinningLimit: prepared.maxWinningLimit,
+    });
            
-          // 🔐 STEP 3: Calculate isolated deltas
-          let matchOddsDelta = 0;
-          let fancyDelta = 0;
-          let bookmakerDelta = 0;
-
-          if (actualMarketType === 'matchodds') {
-            // ✅ Match Odds exposure delta (single source of truth)
-            matchOddsDelta =
-              this.matchOddsExposureService.calculateMatchOddsExposureDelta(
-                allPendingBets,
-                newBet,
-              );
-          } else if (actualMarketType === 'fancy') {
-            // ✅ FANCY DELTA using Maximum Possible Loss model
-            // Use calculateFancyGroupDeltaSafe to isolate by group (marketId + selectionId)
-            const fancyResult = this.fancyExposureService.calculateFancyGroupDeltaSafe(
-              allPendingBets,
-              newBet,
-            );
-            fancyDelta = fancyResult.delta;
-          } else if (actualMarketType === 'bookmaker') {
-            // ✅ BOOKMAKER DELTA (isolated by marketId)
-            const allBetsWithNewBet = [...allPendingBets, newBet];
-            bookmakerDelta = this.bookmakerExposureService.calculateBookmakerExposureDelta(
-              allPendingBets,
-              allBetsWithNewBet,
-              marketId,
-            );
-          }
+    // 🔐 STEP 3: Calculate isolated deltas
+    let matchOddsDelta = 0;
+    let fancyDelta = 0;
+    let bookmakerDelta = 0;
+    let tossDelta = 0;
+    let sportsMarketDelta = 0;
+
+    if (actualMarketType === 'matchodds') {
+      // ✅ Match Odds exposure delta (single source of truth)
+      matchOddsDelta =
+        this.matchOddsExposureService.calculateMatchOddsExposureDelta(
+          allPendingBets,
+          newBet,
+        );
+    } else if (actualMarketType === 'fancy') {
+      // ✅ FANCY DELTA using Maximum Possible Loss model
+      // Use calculateFancyGroupDeltaSafe to isolate by group (marketId + selectionId)
+      const fancyResult = this.fancyExposureService.calculateFancyGroupDeltaSafe(
+        allPendingBets,
+        newBet,
+      );
+      fancyDelta = fancyResult.delta;
+    } else if (actualMarketType === 'bookmaker') {
+      // ✅ BOOKMAKER DELTA (isolated by marketId)
+      const allBetsWithNewBet = [...allPendingBets, newBet];
+      bookmakerDelta = this.bookmakerExposureService.calculateBookmakerExposureDelta(
+        allPendingBets,
+        allBetsWithNewBet,
+        marketId,
+      );
+    } else if (actualMarketType === 'toss') {
+      // ✅ TOSS DELTA (isolated by marketId, worst case over both sides)
+      tossDelta = this.tossExposureService.calculateTossExposureDelta(
+        allPendingBets,
+        [...allPendingBets, newBet],
+        marketId,
+      );
+    } else if (isSportsMarketGtype(actualMarketType)) {
+      // ✅ SPORTS MARKET DELTA (isolated by marketId, worst case over its runners)
+      sportsMarketDelta =
+        this.sportsMarketExposureService.calculateSportsMarketExposureDelta(
+          allPendingBets,
+          [...allPendingBets, newBet],
+          marketId,
+        );
+    }
+
+    // FINAL exposureDelta = sum of individual deltas
+    // Each market type calculates its own delta independently
+    // The total delta represents the change in locked exposure for this bet
+    const exposureDelta =
+      matchOddsDelta +
+      fancyDelta +
+      bookmakerDelta +
+      tossDelta +
+      sportsMarketDelta;
+
+    // Debug: Calculate snapshot exposure for logging only (NOT for wallet update)
+    const oldExposure = this.calculateExposureByMarketType(allPendingBets);
+    const allPendingBetsWithNewBet = [...allPendingBets, newBet];
+    const newExposure = this.calculateExposureByMarketType(allPendingBetsWithNewBet);
+    const oldNetExposure = oldExposure.total;
+    const newNetExposure = newExposure.total;
+
+    debug.old_exposure = oldExposure;
+    debug.old_net_exposure = oldNetExposure;
+    debug.new_exposure = newExposure;
+    debug.new_net_exposure = newNetExposure;
+    debug.deltas = {
+      matchOdds: matchOddsDelta,
+      fancy: fancyDelta,
+      bookmaker: bookmakerDelta,
+      toss: tossDelta,
+      sportsMarkets: sportsMarketDelta,
+      total: exposureDelta,
+    };
+    debug.isRangeConsumed = newBet.isRangeConsumed || false;
+
+    // 🔐 Exposure caps set by the agent (total open exposure and per event)
+    if (exposureDelta > 0) {
+      await this.enforceExposureCaps(tx, {
+        userId,
+        eventId,
+        exposureDelta,
+        currentLiability,
+        limits: userWinLimit as {
+          maxExposure?: number | null;
+          maxEventExposure?: number | null;
+        } | null,
+      });
+    }
+
+    // 🔐 STEP 4: Validate balance ONLY if exposureDelta > 0
+    if (exposureDelta > 0 && currentBalance < exposureDelta) {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Insufficient balance. Required=${exposureDelta}, Available=${currentBalance}`,
+          code: 'INSUFFICIENT_FUNDS',
+        },
+        400,
+      );
+    }
+
+    // 🔐 STEP 5: Update wallet EXACTLY ONCE using exposureDelta
+    // If exposureDelta > 0: lock funds (decrease balance)
+    // If exposureDelta < 0: release funds (increase balance) - happens when bet reduces exposure
+    // Liability always increases by exposureDelta (can be negative if exposure decreases)
+    const updatedBalance =
+      exposureDelta > 0
+        ? currentBalance - exposureDelta
+        : currentBalance + Math.abs(exposureDelta);
+
+    // Liability tracks total locked exposure across all pending bets
+    const updatedLiability = currentLiability + exposureDelta;
+
+    await tx.wallet.update({
+      where: { userId },
+      data: {
+        balance: updatedBalance,
+        liability: updatedLiability,
+      },
+    });
+
+    debug.wallet = {
+      before: { balance: currentBalance, liability: currentLiability },
+      after: { balance: updatedBalance, liability: updatedLiability },
+      exposureDelta,
+    };
+
+    // 🔐 STEP 6: Persist bet
+    const betData: any = {
+      userId,
+      matchId: String(match_id),
+      amount: normalizedBetValue,
+      odds: normalizedBetRate,
+      selectionId: normalizedSelectionId,
+      betType: bet_type,
+      betName: bet_name,
+      marketName: market_name,
+      marketType: market_type,
+      betValue: normalizedBetValue,
+      betRate: normalizedBetRate,
+      winAmount: normalizedWinAmount,
+      lossAmount: normalizedLossAmount,
+      gtype: betGtype,
+      settlementId: settlement_id,
+      toReturn: to_return,
+      status: BetStatus.PENDING,
+      marketId,
+            
+      // ✅ Fancy flag persist
+      isRangeConsumed: newBet.isRangeConsumed, // ← یہ ensure کریں
+            
+      ...(eventId && { eventId }),
+      metadata:
+        runner_name_2 ||
+        oddsFill ||
+        prepared.betDelay?.userDelaySec ||
+        prepared.acceptanceId
+          ? {
+              ...(runner_name_2 && { runner_name_2 }),
+              ...oddsFill,
+              // Lets the pending-acceptance sweep find the bet of an interrupted acceptance
+              ...(prepared.acceptanceId && {
+                acceptanceId: prepared.acceptanceId,
+              }),
+              // Flagged client: accepted after the delay their agent set
+              ...(prepared.betDelay?.userDelaySec && {
+                betDelay: prepared.betDelay,
+              }),
+            }
+          : undefined,
+    };
+
+    if (selid) {
+      betData.selId = selid;
+    }
+
+    // ✅ Update all previous pending bets for same market + selection (Fancy only)
+    if (betGtype === 'fancy') {
+      // Update all previous pending bets for same market + selection
+      const updateResult = await tx.bet.updateMany({
+        where: {
+          userId,
+          marketId,
+          selectionId: normalizedSelectionId,
+          isRangeConsumed: false,
+          status: BetStatus.PENDING,
+        },
+        data: {
+          isRangeConsumed: true,
+        },
+      });
+
+      if (updateResult.count > 0) {
+        this.logger.log(
+          `[RANGE CONSUMED PATCH] All previous pending bets for selectionId=${normalizedSelectionId}, marketId=${marketId} marked as isRangeConsumed=true. Updated ${updateResult.count} bet(s).`
+        );
+      }
+
+      // Current bet is always inserted as consumed
+      newBet.isRangeConsumed = true;
+      betData.isRangeConsumed = true;
+    }
+
+    const createdBet = await tx.bet.create({ data: betData });
+
+    // 🔐 STEP 7: Create transaction log for audit trail
+    // Use Math.abs() because transaction amount must be positive
+    // Type indicates whether funds were locked (BET_PLACED) or released (REFUND)
+    await tx.transaction.create({
+      data: {
+        walletId: wallet.id,
+        amount: Math.abs(exposureDelta), // Always positive for transaction record
+        type: exposureDelta > 0 ? TransactionType.BET_PLACED : TransactionType.REFUND,
+        description: `${actualMarketType.charAt(0).toUpperCase() + actualMarketType.slice(1)} bet placed: ${bet_name || 'Unknown'} (${bet_type || 'Unknown'}) - Stake: ${normalizedBetValue}, Exposure Delta: ${exposureDelta}`,
+      },
+    });
 
-          // FINAL exposureDelta = sum of individual deltas
-          // Each market type calculates its own delta independently
-          // The total delta represents the change in locked exposure for this bet
-          const exposureDelta = matchOddsDelta + fancyDelta + bookmakerDelta;
-
-          // Debug: Calculate snapshot exposure for logging only (NOT for wallet update)
-          const oldExposure = this.calculateExposureByMarketType(allPendingBets);
-          const allPendingBetsWithNewBet = [...allPendingBets, newBet];
-          const newExposure = this.calculateExposureByMarketType(allPendingBetsWithNewBet);
-          const oldNetExposure = oldExposure.matchOdds + oldExposure.fancy + oldExposure.bookmaker;
-          const newNetExposure = newExposure.matchOdds + newExposure.fancy + newExposure.bookmaker;
-
-          debug.old_exposure = oldExposure;
-          debug.old_net_exposure = oldNetExposure;
-          debug.new_exposure = newExposure;
-          debug.new_net_exposure = newNetExposure;
-          debug.deltas = {
-            matchOdds: matchOddsDelta,
-            fancy: fancyDelta,
-            bookmaker: bookmakerDelta,
-            total: exposureDelta,
-          };
-          debug.isRangeConsumed = newBet.isRangeConsumed || false;
-
-          // 🔐 STEP 4: Validate balance ONLY if exposureDelta > 0
-          if (exposureDelta > 0 && currentBalance < exposureDelta) {
-            throw new HttpException(
-              {
-                success: false,
-                error: `Insufficient balance. Required=${exposureDelta}, Available=${currentBalance}`,
-                code: 'INSUFFICIENT_FUNDS',
-              },
-              400,
-            );
-          }
+    // ✅ Update existing bets with refund information if refund occurred
+    if (exposureDelta < 0) {
+      const affectedBets = allPendingBets.filter(
+        (b) =>
+          b.selectionId === normalizedSelectionId &&
+          b.marketId === marketId &&
+          b.userId === userId &&
+          b.status === BetStatus.PENDING
+      );
+            
+      for (const bet of affectedBets) {
+        await tx.bet.update({
+          where: { id: bet.id },
+          data: {
+            isRefunded: true,
+            refundAmount: Math.abs(exposureDelta),
+            refundedByBetId: createdBet.id,
+          },
+        });
+      }
+    }
 
-          // 🔐 STEP 5: Update wallet EXACTLY ONCE using exposureDelta
-          // If exposureDelta > 0: lock funds (decrease balance)
-          // If exposureDelta < 0: release funds (increase balance) - happens when bet reduces exposure
-          // Liability always increases by exposureDelta (can be negative if exposure decreases)
-          const updatedBalance =
-            exposureDelta > 0
-              ? currentBalance - exposureDelta
-              : currentBalance + Math.abs(exposureDelta);
-
-          // Liability tracks total locked exposure across all pending bets
-          const updatedLiability = currentLiability + exposureDelta;
-
-          await tx.wallet.update({
-            where: { userId },
-            data: {
-              balance: updatedBalance,
-              liability: updatedLiability,
-            },
-          });
+    // Observability only: store remaining fancy exposure (no impact on placement/settlement)
+    // Use persisted createdBet with normalized fields so exposure engine sees the latest bet correctly.
+    if (betGtype === 'fancy') {
+      try {
+        const fancyGroup = allPendingBets.filter(
+          (b) =>
+            (b.gtype || '').toLowerCase() === 'fancy' &&
+            b.marketId === marketId &&
+            b.selectionId === normalizedSelectionId,
+        );
+        const normalizedCreatedBet = {
+          gtype: 'fancy',
+          eventId: createdBet.eventId ?? eventId ?? '',
+          selectionId: createdBet.selectionId ?? normalizedSelectionId,
+          betType: createdBet.betType ?? bet_type,
+          betRate: createdBet.betRate ?? normalizedBetRate,
+          odds: createdBet.odds ?? normalizedBetRate,
+          betValue: createdBet.betValue ?? normalizedBetValue,
+          amount: createdBet.amount ?? normalizedBetValue,
+          winAmount: createdBet.winAmount ?? normalizedWinAmount,
+          lossAmount: createdBet.lossAmount ?? normalizedLossAmount,
+        };
+        const newGroup = [...fancyGroup, normalizedCreatedBet];
+        const remainingExposure =
+          this.fancyExposureService.calculateFancyExposureInMemory(newGroup);
+        await this.upsertFancyExposureSafe(tx, {
+          userId,
+          eventId: eventId || '',
+          marketId,
+          selectionId: normalizedSelectionId,
+          remainingExposure,
+          lastBetId: createdBet.id,
+        });
+      } catch {
+        // Never fail placement; observability only
+      }
+    }
 
-          debug.wallet = {
-            before: { balance: currentBalance, liability: currentLiability },
-            after: { balance: updatedBalance, liability: updatedLiability },
-            exposureDelta,
-          };
+    this.logger.log(
+      `Bet placed successfully: ${createdBet.id} for user ${userId}. ` +
+      `Deltas: MO=${matchOddsDelta}, Fancy=${fancyDelta}, BM=${bookmakerDelta}, Toss=${tossDelta}, Sports=${sportsMarketDelta}, Total=${exposureDelta}. ` +
+      `Old Exposure: MO=${oldExposure.matchOdds}, Fancy=${oldExposure.fancy}, BM=${oldExposure.bookmaker} (Net: ${oldNetExposure}). ` +
+      `New Exposure: MO=${newExposure.matchOdds}, Fancy=${newExposure.fancy}, BM=${newExposure.bookmaker} (Net: ${newNetExposure}).`,
+    );
 
-          // 🔐 STEP 6: Persist bet
-          const betData: any = {
+    const snapshotAfterBet = this.pendingBetsSnapshot([...allPendingBets, { id: createdBet.id }]);
+    if (actualMarketType === 'matchodds') {
+      const finalRowsForMo = [
+        ...allPendingBets,
+        {
+          id: createdBet.id,
+          userId: createdBet.userId,
+          gtype: createdBet.gtype,
+          marketId: createdBet.marketId,
+          eventId: createdBet.eventId,
+          selectionId: createdBet.selectionId,
+          betType: createdBet.betType,
+          betValue: createdBet.betValue,
+          amount: createdBet.amount,
+          betRate: createdBet.betRate,
+          odds: createdBet.odds,
+          winAmount: createdBet.winAmount,
+          lossAmount: createdBet.lossAmount,
+          status: createdBet.status,
+        },
+      ];
+      const moSelections = await this.resolveMoMarketSelectionsForLimit(marketId, finalRowsForMo);
+      if (moSelections.length > 0) {
+        const moPos = calculateMatchOddsPosition(finalRowsForMo as Bet[], marketId, moSelections);
+        if (moPos) {
+          maxWinningCacheWrite = {
             userId,
             matchId: String(match_id),
-            amount: normalizedBetValue,
-            odds: normalizedBetRate,
-            selectionId: normalizedSelectionId,
-            betType: bet_type,
-            betName: bet_name,
-            marketName: market_name,
-            marketType: market_type,
-            betValue: normalizedBetValue,
-            betRate: normalizedBetRate,
-            winAmount: normalizedWinAmount,
-            lossAmount: normalizedLossAmount,
-            gtype: betGtype,
-            settlementId: settlement_id,
-            toReturn: to_return,
-            status: BetStatus.PENDING,
-            marketId,
-            
-            // ✅ Fancy flag persist
-            isRangeConsumed: newBet.isRangeConsumed, // ← یہ ensure کریں
-            
-            ...(eventId && { eventId }),
-            metadata: runner_name_2 ? { runner_name_2 } : undefined,
+            posMarketType: 'matchodds',
+            payload: {
+              v: 1,
+              marketId,
+              snapshot: snapshotAfterBet,
+              runners: moPos.runners,
+            },
           };
+        }
+      }
+    } else if (actualMarketType === 'fancy') {
+      const finalRowsForFancy = [
+        ...allPendingBets,
+        {
+          id: createdBet.id,
+          userId: createdBet.userId,
+          gtype: createdBet.gtype,
+          marketId: createdBet.marketId,
+          eventId: createdBet.eventId,
+          selectionId: createdBet.selectionId,
+          betType: createdBet.betType,
+          betValue: createdBet.betValue,
+          amount: createdBet.amount,
+          betRate: createdBet.betRate,
+          odds: createdBet.odds,
+          winAmount: createdBet.winAmount,
+          lossAmount: createdBet.lossAmount,
+          status: createdBet.status,
+          betName: createdBet.betName,
+        },
+      ];
+      maxWinningCacheWrite = {
+        userId,
+        matchId: String(match_id),
+        posMarketType: 'fancy',
+        payload: {
+          v: 1,
+          marketId,
+          snapshot: snapshotAfterBet,
+          lines: calculateFancyPosition(finalRowsForFancy as Bet[]),
+        },
+      };
+    }
 
-          if (selid) {
-            betData.selId = selid;
-          }
+    // Return bet info - position calculation happens AFTER transaction commits
+    return {
+      success: true,
+      betId: createdBet.id,
+      debug,
+      available_balance: updatedBalance,
+      liability: updatedLiability,
+      exposureDelta,
+      betStatus: createdBet.status,
+      eventId: createdBet.eventId,
+      marketType: actualMarketType,
+      marketId,
+      maxWinningCacheWrite,
+    };
+  }
 
-          // ✅ Update all previous pending bets for same market + selection (Fancy only)
-          if (betGtype === 'fancy') {
-            // Update all previous pending bets for same market + selection
-            const updateResult = await tx.bet.updateMany({
-              where: {
-                userId,
-                marketId,
-                selectionId: normalizedSelectionId,
-                isRangeConsumed: false,
-                status: BetStatus.PENDING,
-              },
-              data: {
-                isRangeConsumed: true,
-              },
-            });
+  /** Post-commit side effects of a placed bet: max-winning position cache and socket pushes. */
+  private async publishPlacedBet(
+    userId: string,
+    transactionResult: Awaited<ReturnType<BetsService['executePreparedBet']>>,
+  ) {
+    const marketId = transactionResult.marketId;
 
-            if (updateResult.count > 0) {
-              this.logger.log(
-                `[RANGE CONSUMED PATCH] All previous pending bets for selectionId=${normalizedSelectionId}, marketId=${marketId} marked as isRangeConsumed=true. Updated ${updateResult.count} bet(s).`
-              );
-            }
+    if (transactionResult.maxWinningCacheWrite) {
+      const w = transactionResult.maxWinningCacheWrite;
+      try {
+        await this.redisService.set(
+          this.redisService.getMaxWinningPositionKey(w.userId, w.matchId, w.posMarketType),
+          w.payload,
+          this.POS_MAX_WINNING_CACHE_TTL_SEC,
+        );
+      } catch (err) {
+        this.logger.debug(
+          `[max_winning_cache] set skipped: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
 
-            // Current bet is always inserted as consumed
-            newBet.isRangeConsumed = true;
-            betData.isRangeConsumed = true;
-          }
+    // Push committed wallet/exposure/bet state to the user's private socket room
+    this.bettingGateway.emitWalletUpdate(userId, {
+      balance: transactionResult.available_balance,
+      liability: transactionResult.liability,
+    });
+    this.bettingGateway.emitExposureUpdate(userId, {
+      liability: transactionResult.liability,
+      eventId: transactionResult.eventId,
+      marketId,
+      marketExposure: transactionResult.exposureDelta,
+    });
+    this.bettingGateway.emitBetStatus(userId, {
+      betId: transactionResult.betId,
+      status: transactionResult.betStatus,
+      eventId: transactionResult.eventId,
+      marketId,
+    });
+  }
 
-          const createdBet = await tx.bet.create({ data: betData });
-
-          // 🔐 STEP 7: Create transaction log for audit trail
-          // Use Math.abs() because transaction amount must be positive
-          // Type indicates whether funds were locked (BET_PLACED) or released (REFUND)
-          await tx.transaction.create({
-            data: {
-              walletId: wallet.id,
-              amount: Math.abs(exposureDelta), // Always positive for transaction record
-              type: exposureDelta > 0 ? TransactionType.BET_PLACED : TransactionType.REFUND,
-              description: `${actualMarketType.charAt(0).toUpperCase() + actualMarketType.slice(1)} bet placed: ${bet_name || 'Unknown'} (${bet_type || 'Unknown'}) - Stake: ${normalizedBetValue}, Exposure Delta: ${exposureDelta}`,
-            },
-          });
+  /**
+   * @param options.acceptanceId set when a bet parked in the accept-delay window is being placed;
+   *   the rate was already validated at submission and the delay has elapsed.
+   * @param options.oddsFill price the parked bet was matched at on submission.
+   * @param options.betDelay delay the parked bet waited out; a client delay re-checks the rate.
+   * @param options.idempotencyKey `Idempotency-Key` header; falls back to input.client_ref.
+   */
+  async placeBet(
+    input: PlaceBetDto,
+    options: {
+      acceptanceId?: string;
+      oddsFill?: OddsFill;
+      betDelay?: BetDelay;
+      idempotencyKey?: string;
+    } = {},
+  ) {
+    const key = String(options.idempotencyKey ?? input.client_ref ?? '').trim();
+    // A parked bet being accepted replays its original input, whose key already holds the parked response
+    if (!key || options.acceptanceId) {
+      return this.placeSingleBet(input, { ...options, idempotent: false });
+    }
+    if (key.length > 128) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Idempotency key must be at most 128 characters',
+          code: 'INVALID_IDEMPOTENCY_KEY',
+        },
+        400,
+      );
+    }
+    return this.runIdempotent(String(input.user_id), key, input, () =>
+      this.placeSingleBet(input, { ...options, idempotent: true }),
+    );
+  }
 
-          // ✅ Update existing bets with refund information if refund occurred
-          if (exposureDelta < 0) {
-            const affectedBets = allPendingBets.filter(
-              (b) =>
-                b.selectionId === normalizedSelectionId &&
-                b.marketId === marketId &&
-                b.userId === userId &&
-                b.status === BetStatus.PENDING
-            );
-            
-            for (const bet of affectedBets) {
-              await tx.bet.update({
-                where: { id: bet.id },
-                data: {
-                  isRefunded: true,
-                  refundAmount: Math.abs(exposureDelta),
-                  refundedByBetId: createdBet.id,
-                },
-              });
-            }
-          }
+  /**
+   * Rate limit / duplicate check, then placement. A parked bet being accepted was checked on
+   * submission; a request with an idempotency key skips the duplicate check (the key answers retries).
+   */
+  private async placeSingleBet(
+    input: PlaceBetDto,
+    options: {
+      acceptanceId?: string;
+      oddsFill?: OddsFill;
+      betDelay?: BetDelay;
+      idempotent: boolean;
+    },
+  ) {
+    if (options.acceptanceId) {
+      return this.placeCheckedBet(input, options);
+    }
+    return this.betRateLimitService.guardPlacement(
+      String(input.user_id),
+      [this.rateLimitedBet(input)],
+      { duplicateCheck: !options.idempotent },
+      () => this.placeCheckedBet(input, options),
+    );
+  }
 
-          // Observability only: store remaining fancy exposure (no impact on placement/settlement)
-          // Use persisted createdBet with normalized fields so exposure engine sees the latest bet correctly.
-          if (betGtype === 'fancy') {
-            try {
-              const fancyGroup = allPendingBets.filter(
-                (b) =>
-                  (b.gtype || '').toLowerCase() === 'fancy' &&
-                  b.marketId === marketId &&
-                  b.selectionId === normalizedSelectionId,
-              );
-              const normalizedCreatedBet = {
-                gtype: 'fancy',
-                eventId: createdBet.eventId ?? eventId ?? '',
-                selectionId: createdBet.selectionId ?? normalizedSelectionId,
-                betType: createdBet.betType ?? bet_type,
-                betRate: createdBet.betRate ?? normalizedBetRate,
-                odds: createdBet.odds ?? normalizedBetRate,
-                betValue: createdBet.betValue ?? normalizedBetValue,
-                amount: createdBet.amount ?? normalizedBetValue,
-                winAmount: createdBet.winAmount ?? normalizedWinAmount,
-                lossAmount: createdBet.lossAmount ?? normalizedLossAmount,
-              };
-              const newGroup = [...fancyGroup, normalizedCreatedBet];
-              const remainingExposure =
-                this.fancyExposureService.calculateFancyExposureInMemory(newGroup);
-              await this.upsertFancyExposureSafe(tx, {
-                userId,
-                eventId: eventId || '',
-                marketId,
-                selectionId: normalizedSelectionId,
-                remainingExposure,
-                lastBetId: createdBet.id,
-              });
-            } catch {
-              // Never fail placement; observability only
-            }
-          }
+  private rateLimitedBet(input: PlaceBetDto): RateLimitedBet {
+    return {
+      marketId: String(input.marketId),
+      selectionId: input.selection_id,
+      betType: input.bet_type || '',
+      rate: Number(input.bet_rate) || 0,
+      stake: Number(input.betvalue) || 0,
+    };
+  }
 
-          this.logger.log(
-            `Bet placed successfully: ${createdBet.id} for user ${userId}. ` +
-            `Deltas: MO=${matchOddsDelta}, Fancy=${fancyDelta}, BM=${bookmakerDelta}, Total=${exposureDelta}. ` +
-            `Old Exposure: MO=${oldExposure.matchOdds}, Fancy=${oldExposure.fancy}, BM=${oldExposure.bookmaker} (Net: ${oldNetExposure}). ` +
-            `New Exposure: MO=${newExposure.matchOdds}, Fancy=${newExposure.fancy}, BM=${newExposure.bookmaker} (Net: ${newNetExposure}).`,
-          );
+  private async placeCheckedBet(
+    input: PlaceBetDto,
+    options: {
+      acceptanceId?: string;
+      oddsFill?: OddsFill;
+      betDelay?: BetDelay;
+    },
+  ) {
+    // 🔍 PERF: Start timing IMMEDIATELY at function entry
+    const perfStart = Date.now();
+    this.logger.log('[PERF][placeBet] function_entry', {
+      ms: 0,
+      timestamp: new Date().toISOString(),
+    });
 
-          const snapshotAfterBet = this.pendingBetsSnapshot([...allPendingBets, { id: createdBet.id }]);
-          if (actualMarketType === 'matchodds') {
-            const finalRowsForMo = [
-              ...allPendingBets,
-              {
-                id: createdBet.id,
-                userId: createdBet.userId,
-                gtype: createdBet.gtype,
-                marketId: createdBet.marketId,
-                eventId: createdBet.eventId,
-                selectionId: createdBet.selectionId,
-                betType: createdBet.betType,
-                betValue: createdBet.betValue,
-                amount: createdBet.amount,
-                betRate: createdBet.betRate,
-                odds: createdBet.odds,
-                winAmount: createdBet.winAmount,
-                lossAmount: createdBet.lossAmount,
-                status: createdBet.status,
-              },
-            ];
-            const moSelections = await this.resolveMoMarketSelectionsForLimit(marketId, finalRowsForMo);
-            if (moSelections.length > 0) {
-              const moPos = calculateMatchOddsPosition(finalRowsForMo as Bet[], marketId, moSelections);
-              if (moPos) {
-                maxWinningCacheWrite = {
-                  userId,
-                  matchId: String(match_id),
-                  posMarketType: 'matchodds',
-                  payload: {
-                    v: 1,
-                    marketId,
-                    snapshot: snapshotAfterBet,
-                    runners: moPos.runners,
-                  },
-                };
-              }
-            }
-          } else if (actualMarketType === 'fancy') {
-            const finalRowsForFancy = [
-              ...allPendingBets,
-              {
-                id: createdBet.id,
-                userId: createdBet.userId,
-                gtype: createdBet.gtype,
-                marketId: createdBet.marketId,
-                eventId: createdBet.eventId,
-                selectionId: createdBet.selectionId,
-                betType: createdBet.betType,
-                betValue: createdBet.betValue,
-                amount: createdBet.amount,
-                betRate: createdBet.betRate,
-                odds: createdBet.odds,
-                winAmount: createdBet.winAmount,
-                lossAmount: createdBet.lossAmount,
-                status: createdBet.status,
-                betName: createdBet.betName,
-              },
-            ];
-            maxWinningCacheWrite = {
-              userId,
-              matchId: String(match_id),
-              posMarketType: 'fancy',
-              payload: {
-                v: 1,
-                marketId,
-                snapshot: snapshotAfterBet,
-                lines: calculateFancyPosition(finalRowsForFancy as Bet[]),
-              },
-            };
-          }
+    const debug: Record<string, unknown> = {};
 
-          // Return bet info - position calculation happens AFTER transaction commits
-          return {
-            success: true,
-            betId: createdBet.id,
-            debug,
-            available_balance: updatedBalance,
-            marketType: actualMarketType,
-            marketId,
-            maxWinningCacheWrite,
-          };
-        },
+    // 🔍 PERF: Initialize per-request timing helper
+    const perfLog = (step: string, extra?: Record<string, unknown>) => {
+      const ms = Date.now() - perfStart;
+      const payload = extra ? { step, ms, ...extra } : { step, ms };
+      this.logger.log(`[PERF][placeBet]`, payload);
+    };
+
+    const prepared = await this.prepareBet(input, options, perfLog);
+    const {
+      userId,
+      marketId,
+      betGtype,
+      isTiedMatchMarket,
+      normalizedEventId,
+      oddsFill,
+    } = prepared;
+
+    // Accept delay = event override (Match Odds only) + the client's own bet delay. The bet is parked as
+    // AWAITING_ACCEPTANCE (after rate validation) and its id returned; the wallet transaction runs when
+    // the delay elapses unless the client cancels first. The event delay is also used inside
+    // assertMatchOddsRateAgainstBetfair as Redis snapshot TTL.
+    if (!options.acceptanceId) {
+      const betDelay = await this.resolveBetDelay(
+        prepared.ancestorChain,
+        betGtype,
+        normalizedEventId,
+      );
+      if (betDelay) {
+        const pending = await this.createPendingAcceptance(
+          // Bookmaker / toss park the decimal rate the vendor check resolved (bet_rate may be r)
+          betGtype === 'bookmaker' || betGtype === 'toss'
+            ? { ...input, bet_rate: prepared.normalizedBetRate }
+            : input,
+          userId,
+          normalizedEventId,
+          marketId,
+          betDelay.delaySec,
+          oddsFill,
+          betDelay,
+        );
+        if (pending) {
+          perfLog('accept_delay_parked', {
+            eventId: normalizedEventId,
+            ...betDelay,
+            acceptanceId: pending.acceptanceId,
+          });
+          return pending;
+        }
+        // Redis unavailable: cannot track the window, keep the request open as before
+        await this.sleepMs(betDelay.delaySec * 1000);
+        prepared.betDelay = betDelay;
+        perfLog('accept_delay_wait', {
+          eventId: normalizedEventId,
+          ...betDelay,
+        });
+      }
+    }
+
+    try {
+      // 🔐 STEP 1: Load wallet & ALL pending bets (SNAPSHOT STATE)
+      const txStart = Date.now();
+      const transactionResult = await this.prisma.$transaction(
+        (tx) => this.executePreparedBet(tx, prepared, debug),
         {
           maxWait: 15000,
           timeout: 30000,
         },
       );
 
-      if (transactionResult.maxWinningCacheWrite) {
-        const w = transactionResult.maxWinningCacheWrite;
-        try {
-          await this.redisService.set(
-            this.redisService.getMaxWinningPositionKey(w.userId, w.matchId, w.posMarketType),
-            w.payload,
-            this.POS_MAX_WINNING_CACHE_TTL_SEC,
-          );
-        } catch (err) {
-          this.logger.debug(
-            `[max_winning_cache] set skipped: ${err instanceof Error ? err.message : String(err)}`,
-          );
-        }
-      }
+      await this.publishPlacedBet(userId, transactionResult);
 
       const txMs = Date.now() - txStart;
       this.logger.log('[PERF][placeBet] transaction', {
         ms: txMs,
-        userId: String(user_id),
+        userId,
         exposureDelta: (transactionResult.debug?.deltas as any)?.total || 0,
         note: 'Includes user check, wallet check, pending bets load, exposure calculation, wallet update, bet insert, and transaction log',
       });
@@ -1642,7 +3541,7 @@ export class BetsService {
       if (txMs > 1000) {
         this.logger.warn('[PERF][placeBet] SLOW_TRANSACTION', {
           ms: txMs,
-          userId: String(user_id),
+          userId,
           suggestion: 'Check database connection pool, indexes, network latency, or lock contention',
         });
       }
@@ -1779,6 +3678,56 @@ export class BetsService {
               );
             }
           }
+        } else if (transactionResult.marketType === 'toss') {
+          // ⚠️ Same fallback as Bookmaker: runner set derived from bets
+          const marketSelections = Array.from(
+            new Set(
+              pendingBets
+                .map((bet) => bet.selectionId)
+                .filter((id): id is number => id !== null && id !== undefined)
+                .map((id) => String(id)),
+            ),
+          );
+
+          const tossPosition = calculateTossPosition(
+            pendingBets as Bet[],
+            marketId,
+            marketSelections,
+          );
+          for (const [selectionId, runner] of Object.entries(
+            tossPosition?.runners ?? {},
+          )) {
+            const net = runner?.net ?? 0;
+            positions[selectionId] = {
+              win: net > 0 ? net : 0,
+              lose: net < 0 ? Math.abs(net) : 0,
+            };
+          }
+        } else if (isSportsMarketGtype(transactionResult.marketType)) {
+          // ⚠️ Same fallback as Bookmaker: runner set derived from bets
+          const marketSelections = Array.from(
+            new Set(
+              pendingBets
+                .map((bet) => bet.selectionId)
+                .filter((id): id is number => id !== null && id !== undefined)
+                .map((id) => String(id)),
+            ),
+          );
+
+          const sportsMarketPosition = calculateSportsMarketPosition(
+            pendingBets as Bet[],
+            marketId,
+            marketSelections,
+          );
+          for (const [selectionId, runner] of Object.entries(
+            sportsMarketPosition?.runners ?? {},
+          )) {
+            const net = runner?.net ?? 0;
+            positions[selectionId] = {
+              win: net > 0 ? net : 0,
+              lose: net < 0 ? Math.abs(net) : 0,
+            };
+          }
         } else if (transactionResult.marketType === 'fancy') {
           // Calculate Fancy position (isolated)
           const fancyPositions = calculateFancyPosition(pendingBets as Bet[]);
@@ -1817,6 +3766,10 @@ export class BetsService {
         positions,
         debug: transactionResult.debug,
         available_balance: transactionResult.available_balance,
+        ...(oddsFill && {
+          requestedOdds: oddsFill.requestedOdds,
+          matchedOdds: oddsFill.matchedOdds,
+        }),
       };
 
       // ✅ PERFORMANCE SUMMARY LOG with breakdown
@@ -1838,7 +3791,7 @@ export class BetsService {
       };
       
       this.logger.log('[PERF][placeBet] SUMMARY', {
-        userId: String(user_id),
+        userId,
         betId: transactionResult.betId,
         totalMs,
         breakdown,
@@ -1938,6 +3891,252 @@ export class BetsService {
   }
  
 
+  /**
+   * Place several bets for one user as a single slip: every bet is validated first, then all of them
+   * run in one Prisma transaction (same wallet/exposure logic as placeBet). Either every bet is placed
+   * or none is; the response carries a per-bet result in slip order.
+   *
+   * An accept delay parks the whole slip like a single bet: the response is AWAITING_ACCEPTANCE with
+   * an acceptanceId, and all bets are placed together once the longest delay in the slip elapses.
+   */
+  async placeBetSlip(inputs: PlaceBetDto[]) {
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      throw new HttpException(
+        { success: false, error: 'Bet slip is empty', code: 'BET_SLIP_EMPTY' },
+        400,
+      );
+    }
+    if (inputs.length > this.MAX_BET_SLIP_SIZE) {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Bet slip cannot contain more than ${this.MAX_BET_SLIP_SIZE} bets`,
+          code: 'BET_SLIP_TOO_LARGE',
+        },
+        400,
+      );
+    }
+    const userIds = new Set(inputs.map((b) => String(b.user_id)));
+    if (userIds.size !== 1) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'All bets in a slip must belong to the same user',
+          code: 'BET_SLIP_MIXED_USERS',
+        },
+        400,
+      );
+    }
+
+    const perfLog = this.slipPerfLog();
+
+    // 1. Rate limit / duplicate check once for the whole slip
+    return this.betRateLimitService.guardPlacement(
+      String(inputs[0].user_id),
+      inputs.map((input) => this.rateLimitedBet(input)),
+      { duplicateCheck: true },
+      () => this.placeCheckedBetSlip(inputs, perfLog),
+    );
+  }
+
+  private async placeCheckedBetSlip(
+    inputs: PlaceBetDto[],
+    perfLog: (step: string, extra?: Record<string, unknown>) => void,
+  ) {
+    perfLog('after_rate_limit_check');
+
+    // 2. Validate every bet; a single rejection rejects the slip before any wallet change
+    const prepared = await this.prepareBetSlip(inputs, () => ({}), perfLog);
+
+    // 3. Accept delay: park the slip for the longest delay in it (event override + client bet delay)
+    let acceptDelaySec = 0;
+    for (const bet of prepared) {
+      const betDelay = await this.resolveBetDelay(
+        bet.ancestorChain,
+        bet.betGtype,
+        bet.normalizedEventId,
+      );
+      if (!betDelay) continue;
+      if (betDelay.userDelaySec > 0) bet.betDelay = betDelay;
+      if (betDelay.delaySec > acceptDelaySec)
+        acceptDelaySec = betDelay.delaySec;
+    }
+    if (acceptDelaySec > 0) {
+      const legs = prepared.map((bet) => ({
+        // Bookmaker / toss park the decimal rate the vendor check resolved (bet_rate may be r)
+        input:
+          bet.betGtype === 'bookmaker' || bet.betGtype === 'toss'
+            ? { ...bet.input, bet_rate: bet.normalizedBetRate }
+            : bet.input,
+        ...(bet.oddsFill && { oddsFill: bet.oddsFill }),
+        ...(bet.betDelay && { betDelay: bet.betDelay }),
+      }));
+      const pending = await this.createPendingAcceptance(
+        legs[0].input,
+        prepared[0].userId,
+        prepared[0].normalizedEventId,
+        prepared[0].marketId,
+        acceptDelaySec,
+        legs[0].oddsFill,
+        legs[0].betDelay,
+        legs,
+      );
+      if (pending) {
+        perfLog('accept_delay_parked', {
+          delaySec: acceptDelaySec,
+          acceptanceId: pending.acceptanceId,
+        });
+        return pending;
+      }
+      // Redis unavailable: cannot track the window, keep the request open as before
+      await this.sleepMs(acceptDelaySec * 1000);
+      perfLog('accept_delay_wait', { delaySec: acceptDelaySec });
+    }
+
+    // 4. One transaction for the whole slip
+    return this.executeBetSlip(prepared, perfLog);
+  }
+
+  private slipPerfLog() {
+    const perfStart = Date.now();
+    return (step: string, extra?: Record<string, unknown>) => {
+      const ms = Date.now() - perfStart;
+      this.logger.log(
+        `[PERF][placeBetSlip]`,
+        extra ? { step, ms, ...extra } : { step, ms },
+      );
+    };
+  }
+
+  private betSlipErrorPayload(error: unknown) {
+    return error instanceof HttpException
+      ? error.getResponse()
+      : {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+  }
+
+  /**
+   * prepareBet for every bet of a slip; any rejection throws BET_SLIP_REJECTED with the
+   * failing bets marked in `results`.
+   */
+  private async prepareBetSlip(
+    inputs: PlaceBetDto[],
+    optionsFor: (index: number) => Parameters<BetsService['prepareBet']>[1],
+    perfLog: (step: string, extra?: Record<string, unknown>) => void,
+  ): Promise<PreparedBet[]> {
+    const prepared: PreparedBet[] = [];
+    const rejected: Array<{ index: number; error: unknown; status: number }> =
+      [];
+    for (const [index, input] of inputs.entries()) {
+      try {
+        prepared.push(await this.prepareBet(input, optionsFor(index), perfLog));
+      } catch (error) {
+        rejected.push({
+          index,
+          error: this.betSlipErrorPayload(error),
+          status:
+            error instanceof HttpException
+              ? error.getStatus()
+              : HttpStatus.BAD_REQUEST,
+        });
+      }
+    }
+    if (rejected.length > 0) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Bet slip rejected; no bets were placed',
+          code: 'BET_SLIP_REJECTED',
+          results: inputs.map((_, index) => {
+            const failure = rejected.find((r) => r.index === index);
+            return failure
+              ? { index, placed: false, error: failure.error }
+              : { index, placed: false };
+          }),
+        },
+        rejected[0].status,
+      );
+    }
+    return prepared;
+  }
+
+  /**
+   * Wallet transaction of a prepared slip; any failure rolls every bet back.
+   */
+  private async executeBetSlip(
+    prepared: PreparedBet[],
+    perfLog: (step: string, extra?: Record<string, unknown>) => void,
+  ) {
+    const userId = prepared[0].userId;
+    const debugs = prepared.map(() => ({}) as Record<string, unknown>);
+    let failedIndex = -1;
+    let transactionResults: Array<
+      Awaited<ReturnType<BetsService['executePreparedBet']>>
+    >;
+    try {
+      transactionResults = await this.prisma.$transaction(
+        async (tx) => {
+          const results: Array<
+            Awaited<ReturnType<BetsService['executePreparedBet']>>
+          > = [];
+          for (const [index, bet] of prepared.entries()) {
+            failedIndex = index;
+            results.push(await this.executePreparedBet(tx, bet, debugs[index]));
+          }
+          failedIndex = -1;
+          return results;
+        },
+        {
+          maxWait: 15000,
+          timeout: 30000 + 5000 * prepared.length,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Bet slip for user ${userId} rolled back at bet ${failedIndex} of ${prepared.length}:`,
+        error,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Bet slip rejected; no bets were placed',
+          code: 'BET_SLIP_REJECTED',
+          results: prepared.map((_, index) =>
+            index === failedIndex
+              ? { index, placed: false, error: this.betSlipErrorPayload(error) }
+              : { index, placed: false },
+          ),
+        },
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    for (const result of transactionResults) {
+      await this.publishPlacedBet(userId, result);
+    }
+    perfLog('end_success', { userId, bets: transactionResults.length });
+
+    const last = transactionResults[transactionResults.length - 1];
+    return {
+      success: true,
+      results: transactionResults.map((result, index) => ({
+        index,
+        placed: true,
+        betId: result.betId,
+        marketId: result.marketId,
+        marketType: result.marketType,
+        exposureDelta: result.exposureDelta,
+        debug: result.debug,
+      })),
+      available_balance: last.available_balance,
+      liability: last.liability,
+    };
+  }
+
   /**
    * Validate exposure before placing a bet
    * Checks if user has sufficient balance to cover the bet liability
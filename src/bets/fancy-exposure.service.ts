@@ -21,6 +21,11 @@ export class FancyExposureService {
    * Minimum possible outcome value for Fancy markets
    */
   private readonly MIN_FANCY_OUTCOME = 0;
+
+  /**
+   * Runs shown below the lowest and above the highest bet line in a run ladder
+   */
+  private readonly FANCY_LADDER_PADDING = 5;
   /**
    * Calculate Fancy exposure in memory using Maximum Possible Loss model
    * 
@@ -129,6 +134,93 @@ export class FancyExposureService {
     return this.calculateTotalPlForOutcome(fancyBets, actualRuns);
   }
 
+  /**
+   * Run ladder for ONE fancy (bets of the same eventId + selectionId).
+   *
+   * P/L only changes where an outcome crosses a bet line (YES wins at runs >= line), so each
+   * row covers the runs `from`..`to` (`to` null = and above) with the P/L of that band.
+   *
+   * @param fancyBets - Array of bets for a single Fancy market
+   * @returns Ladder rows in ascending runs (P/L positive = profit, negative = loss)
+   */
+  calculateFancyRunLadder(
+    fancyBets: any[],
+  ): Array<{ from: number; to: number | null; pnl: number }> {
+    if (fancyBets.length === 0) return [];
+
+    const breakpoints = new Set<number>([this.MIN_FANCY_OUTCOME]);
+    for (const bet of fancyBets as Array<{
+      betRate?: number | null;
+      odds?: number | null;
+    }>) {
+      const line = Math.ceil(Number(bet?.betRate ?? bet?.odds ?? 0));
+      if (
+        Number.isFinite(line) &&
+        line > this.MIN_FANCY_OUTCOME &&
+        line <= this.MAX_FANCY_OUTCOME
+      ) {
+        breakpoints.add(line);
+      }
+    }
+    const sorted = Array.from(breakpoints).sort((a, b) => a - b);
+
+    return sorted.map((from, i) => ({
+      from,
+      to: i + 1 < sorted.length ? sorted[i + 1] - 1 : null,
+      pnl: Number(this.calculateTotalPlForOutcome(fancyBets, from).toFixed(2)),
+    }));
+  }
+
+  /**
+   * P/L at every run value for ONE fancy (bets of the same eventId + selectionId): each run
+   * value takes the P/L of its calculateFancyRunLadder band.
+   *
+   * Without `from`/`to` the ladder spans the bet lines ± FANCY_LADDER_PADDING runs; the range
+   * is always kept within the simulated outcomes.
+   *
+   * @param fancyBets - Array of bets for a single Fancy market
+   * @param range - Optional first/last run value
+   * @returns Range used and one row per run value (P/L positive = profit, negative = loss)
+   */
+  calculateFancyRunPnl(
+    fancyBets: any[],
+    range: { from?: number; to?: number } = {},
+  ): { from: number; to: number; rows: Array<{ runs: number; pnl: number }> } {
+    const lines = (
+      fancyBets as Array<{ betRate?: number | null; odds?: number | null }>
+    )
+      .map((bet) => Number(bet?.betRate ?? bet?.odds ?? NaN))
+      .filter((line) => Number.isFinite(line));
+    const clamp = (runs: number) =>
+      Math.min(
+        Math.max(Math.floor(runs), this.MIN_FANCY_OUTCOME),
+        this.MAX_FANCY_OUTCOME,
+      );
+
+    let from = clamp(
+      range.from ??
+        (lines.length
+          ? Math.min(...lines) - this.FANCY_LADDER_PADDING
+          : this.MIN_FANCY_OUTCOME),
+    );
+    let to = clamp(
+      range.to ??
+        (lines.length
+          ? Math.ceil(Math.max(...lines)) + this.FANCY_LADDER_PADDING
+          : this.MIN_FANCY_OUTCOME),
+    );
+    if (from > to) [from, to] = [to, from];
+
+    const ladder = this.calculateFancyRunLadder(fancyBets);
+    const rows: Array<{ runs: number; pnl: number }> = [];
+    let band = 0;
+    for (let runs = from; runs <= to; runs++) {
+      while (band + 1 < ladder.length && ladder[band + 1].from <= runs) band++;
+      rows.push({ runs, pnl: ladder[band]?.pnl ?? 0 });
+    }
+    return { from, to, rows };
+  }
+
   /**
    * Per-bet P/L for a given outcome. Use in fancy settlement (individual or gola fallback) so win/loss
    * and PnL match the same rules as exposure (YES: win if actualRuns >= line, NO: win if actualRuns < line).
@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { MatchOddsExposureService } from './matchodds-exposure.service';
+import { BookmakerExposureService } from './bookmaker-exposure.service';
+import { FancyExposureService } from './fancy-exposure.service';
+import { TossExposureService } from './toss-exposure.service';
+import { SportsMarketExposureService } from './sports-market-exposure.service';
+
+/** Fields of a pending bet the grouping reads; the exposure services read the rest. */
+type LiabilityBet = { gtype?: string | null; marketId?: string | null };
+
+/**
+ * ✅ LIABILITY SERVICE
+ *
+ * Locked liability of a set of pending bets: the worst-case loss of each market (each fancy
+ * selection) from its exposure service, summed. SettlementService.recalcLiability writes it to
+ * the wallet, and BetsService checks the agent's exposure caps against it, so both agree.
+ */
+@Injectable()
+export class LiabilityService {
+  constructor(
+    private readonly matchOddsExposureService: MatchOddsExposureService,
+    private readonly bookmakerExposureService: BookmakerExposureService,
+    private readonly fancyExposureService: FancyExposureService,
+    private readonly tossExposureService: TossExposureService,
+    private readonly sportsMarketExposureService: SportsMarketExposureService,
+  ) {}
+
+  /**
+   * Calculate liability in memory (no database queries)
+   *
+   * @param bets - Pending bets (gtype, marketId, eventId, selectionId, betType, stake and rate)
+   * @returns Total liability across all markets
+   */
+  calculateLiabilityInMemory(bets: LiabilityBet[]): number {
+    // Group bets by market type for proper exposure calculation
+    const matchOddsBets: LiabilityBet[] = [];
+    const fancyBets: LiabilityBet[] = [];
+    const bookmakerBets: LiabilityBet[] = [];
+    const tossBets: LiabilityBet[] = [];
+
+    for (const bet of bets) {
+      const gtype = (bet.gtype || '').toLowerCase();
+      if (gtype === 'matchodds' || gtype === 'match') {
+        matchOddsBets.push(bet);
+      } else if (gtype === 'fancy') {
+        fancyBets.push(bet);
+      } else if (gtype === 'toss') {
+        tossBets.push(bet);
+      } else if (
+        gtype === 'bookmaker' ||
+        (gtype.startsWith('match') &&
+          gtype !== 'match' &&
+          gtype !== 'matchodds')
+      ) {
+        bookmakerBets.push(bet);
+      }
+    }
+
+    let totalLiability = 0;
+
+    // Match Odds exposure (grouped by marketId)
+    for (const marketBets of this.groupByMarket(matchOddsBets).values()) {
+      totalLiability +=
+        this.matchOddsExposureService.calculateMatchOddsExposureInMemory(
+          marketBets,
+        );
+    }
+
+    // Fancy exposure (grouped by eventId + selectionId inside the service)
+    totalLiability +=
+      this.fancyExposureService.calculateFancyExposureInMemory(fancyBets);
+
+    // Bookmaker exposure (grouped by marketId)
+    for (const marketBets of this.groupByMarket(bookmakerBets).values()) {
+      totalLiability +=
+        this.bookmakerExposureService.calculateBookmakerExposureInMemory(
+          marketBets,
+        );
+    }
+
+    // Toss exposure (grouped by marketId)
+    for (const marketBets of this.groupByMarket(tossBets).values()) {
+      totalLiability +=
+        this.tossExposureService.calculateTossExposureInMemory(marketBets);
+    }
+
+    // Soccer/tennis sports market exposure (grouped by marketId inside the service)
+    totalLiability +=
+      this.sportsMarketExposureService.calculateSportsMarketsExposureInMemory(
+        bets,
+      );
+
+    return totalLiability;
+  }
+
+  private groupByMarket(bets: LiabilityBet[]): Map<string, LiabilityBet[]> {
+    const byMarket = new Map<string, LiabilityBet[]>();
+    for (const bet of bets) {
+      if (!bet.marketId) continue;
+      if (!byMarket.has(bet.marketId)) {
+        byMarket.set(bet.marketId, []);
+      }
+      byMarket.get(bet.marketId)!.push(bet);
+    }
+    return byMarket;
+  }
+}
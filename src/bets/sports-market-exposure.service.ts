@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import {
+  SPORTS_MARKETS,
+  isSportsMarketGtype,
+} from '../constants/sports-markets';
+
+/**
+ * ✅ SPORTS MARKET EXPOSURE SERVICE
+ *
+ * Handles exposure for soccer Over/Under, Both Teams To Score, Correct Score and tennis
+ * Set Betting (see constants/sports-markets). Each is a single-winner market on decimal
+ * odds, isolated by marketId.
+ */
+@Injectable()
+export class SportsMarketExposureService {
+  /**
+   * Calculate exposure of one sports market in memory (no database queries)
+   *
+   * Exposure = worst-case loss, simulating each bet runner winning. Unless every runner of
+   * the market has a bet (two-runner markets only), an unbacked runner can also win, so the
+   * "every bet runner loses" outcome is simulated too.
+   *
+   * @param bets - Bets of ONE sports market
+   * @returns Net exposure for this market
+   */
+  calculateSportsMarketExposureInMemory(bets: any[]): number {
+    const runners = new Set<string>();
+    for (const bet of bets) {
+      if (bet.selectionId !== null && bet.selectionId !== undefined) {
+        runners.add(String(bet.selectionId));
+      }
+    }
+    if (runners.size === 0) return 0;
+
+    const gtype = String(bets[0]?.gtype || '').toLowerCase();
+    const runnerCount = isSportsMarketGtype(gtype)
+      ? SPORTS_MARKETS[gtype].runnerCount
+      : null;
+
+    // null = a runner nobody has bet on wins
+    const outcomes: Array<string | null> = [...runners];
+    if (runnerCount === null || runners.size < runnerCount) outcomes.push(null);
+
+    let maxLoss = 0;
+    for (const winner of outcomes) {
+      let pnl = 0;
+      for (const bet of bets) {
+        const stake = Number(bet.betValue ?? bet.amount ?? 0);
+        const odds = Number(bet.betRate ?? bet.odds ?? 0);
+        const betTypeUpper = (bet.betType || '').toUpperCase();
+        const onWinner = String(bet.selectionId) === winner;
+
+        if (betTypeUpper === 'BACK') {
+          pnl += onWinner ? (odds - 1) * stake : -stake;
+        } else if (betTypeUpper === 'LAY') {
+          pnl += onWinner ? -(odds - 1) * stake : stake;
+        }
+      }
+      if (pnl < 0) {
+        maxLoss = Math.max(maxLoss, Math.abs(pnl));
+      }
+    }
+
+    return maxLoss;
+  }
+
+  /**
+   * Sum of sports market exposure over a mixed list of bets (other gtypes are ignored)
+   *
+   * @param bets - Any bets; grouped by marketId internally
+   */
+  calculateSportsMarketsExposureInMemory(bets: any[]): number {
+    const betsByMarket = new Map<string, any[]>();
+    for (const bet of bets) {
+      if (!isSportsMarketGtype(bet.gtype) || !bet.marketId) continue;
+      if (!betsByMarket.has(bet.marketId)) {
+        betsByMarket.set(bet.marketId, []);
+      }
+      betsByMarket.get(bet.marketId)!.push(bet);
+    }
+
+    let total = 0;
+    for (const [, marketBets] of betsByMarket) {
+      total += this.calculateSportsMarketExposureInMemory(marketBets);
+    }
+    return total;
+  }
+
+  /**
+   * ✅ SPORTS MARKET EXPOSURE DELTA CALCULATOR
+   *
+   * @param existingBets - Existing pending bets (without new bet)
+   * @param allBetsWithNewBet - All bets including new bet
+   * @param marketId - Market ID to filter by
+   * @returns Exposure delta (positive = liability increases, negative = liability releases)
+   */
+  calculateSportsMarketExposureDelta(
+    existingBets: any[],
+    allBetsWithNewBet: any[],
+    marketId: string,
+  ): number {
+    const inMarket = (bet: any) =>
+      isSportsMarketGtype(bet.gtype) && bet.marketId === marketId;
+
+    const oldExposure = this.calculateSportsMarketExposureInMemory(
+      existingBets.filter(inMarket),
+    );
+    const newExposure = this.calculateSportsMarketExposureInMemory(
+      allBetsWithNewBet.filter(inMarket),
+    );
+
+    return newExposure - oldExposure;
+  }
+}
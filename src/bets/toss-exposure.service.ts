@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * ✅ TOSS EXPOSURE SERVICE
+ *
+ * Handles all exposure calculations for Toss markets (gtype 'toss').
+ * Toss is a two-runner book on decimal odds, isolated by marketId.
+ */
+@Injectable()
+export class TossExposureService {
+  /**
+   * Calculate Toss exposure in memory (no database queries)
+   *
+   * Exposure = worst-case loss over the runners, simulating each side winning.
+   * A runner nobody has bet on is covered by the "every bet runner loses" case.
+   *
+   * @param bets - Array of bets for the market
+   * @returns Net exposure for this Toss market
+   */
+  calculateTossExposureInMemory(bets: any[]): number {
+    const runners = new Set<string>();
+    for (const bet of bets) {
+      if (bet.selectionId !== null && bet.selectionId !== undefined) {
+        runners.add(String(bet.selectionId));
+      }
+    }
+    if (runners.size === 0) return 0;
+
+    // null = the other side wins (no bets on it)
+    const outcomes: Array<string | null> = [...runners];
+    if (runners.size === 1) outcomes.push(null);
+
+    let maxLoss = 0;
+    for (const winner of outcomes) {
+      let pnl = 0;
+      for (const bet of bets) {
+        const stake = Number(bet.betValue ?? bet.amount ?? 0);
+        const odds = Number(bet.betRate ?? bet.odds ?? 0);
+        const betTypeUpper = (bet.betType || '').toUpperCase();
+        const onWinner = String(bet.selectionId) === winner;
+
+        if (betTypeUpper === 'BACK') {
+          pnl += onWinner ? (odds - 1) * stake : -stake;
+        } else if (betTypeUpper === 'LAY') {
+          pnl += onWinner ? -(odds - 1) * stake : stake;
+        }
+      }
+      if (pnl < 0) {
+        maxLoss = Math.max(maxLoss, Math.abs(pnl));
+      }
+    }
+
+    return maxLoss;
+  }
+
+  /**
+   * ✅ TOSS EXPOSURE DELTA CALCULATOR
+   *
+   * @param existingBets - Existing pending bets (without new bet)
+   * @param allBetsWithNewBet - All bets including new bet
+   * @param marketId - Market ID to filter by
+   * @returns Exposure delta (positive = liability increases, negative = liability releases)
+   */
+  calculateTossExposureDelta(
+    existingBets: any[],
+    allBetsWithNewBet: any[],
+    marketId: string,
+  ): number {
+    const isToss = (bet: any) =>
+      (bet.gtype || '').toLowerCase() === 'toss' && bet.marketId === marketId;
+
+    const oldExposure = this.calculateTossExposureInMemory(
+      existingBets.filter(isToss),
+    );
+    const newExposure = this.calculateTossExposureInMemory(
+      allBetsWithNewBet.filter(isToss),
+    );
+
+    return newExposure - oldExposure;
+  }
+}
@@ -8,9 +8,18 @@ import {
   WebSocketServer,
 } from '@nestjs/websockets';
 import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
 import { Server, Socket } from 'socket.io';
 import { createHash } from 'crypto';
 import { AggregatorService } from '../cricketid/aggregator.service';
+import { resolveJwtAuthUser } from '../auth/auth-token.util';
+import { JwtAuthUser, JwtPayload } from '../auth/types/jwt-payload.interface';
+
+export type UserSocketEvent =
+  | 'wallet:update'
+  | 'exposure:update'
+  | 'bet:status';
 
 @WebSocketGateway()
 export class BettingGateway implements OnGatewayConnection, OnGatewayDisconnect {
@@ -20,16 +29,83 @@ export class BettingGateway implements OnGatewayConnection, OnGatewayDisconnect
   @WebSocketServer()
   server: Server;
 
-  constructor(private readonly aggregatorService: AggregatorService) {}
+  constructor(
+    private readonly aggregatorService: AggregatorService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
 
+  /**
+   * Odds/fancy rooms stay public. A socket that presents the same access token used for HTTP
+   * (handshake `auth.token`, `Authorization: Bearer` header or `?token=`) also joins its private
+   * `user:{id}` room for wallet, exposure and bet status pushes.
+   */
   handleConnection(client: Socket) {
     this.logger.debug(`Socket connected: ${client.id}`);
+
+    const token = this.extractToken(client);
+    if (!token) return;
+
+    const user = this.authenticate(token);
+    if (!user) {
+      client.emit('auth:error', {
+        success: false,
+        message: 'Invalid or expired token',
+      });
+      return;
+    }
+
+    client.data.user = user;
+    void client.join(this.userRoom(user.id));
+    client.emit('auth:success', { success: true, userId: user.id });
   }
 
   handleDisconnect(client: Socket) {
     this.logger.debug(`Socket disconnected: ${client.id}`);
   }
 
+  private extractToken(client: Socket): string | null {
+    const handshake = client.handshake;
+    const authToken = handshake?.auth?.token;
+    if (typeof authToken === 'string' && authToken.trim()) {
+      return authToken.trim().replace(/^Bearer\s+/i, '');
+    }
+
+    const header = handshake?.headers?.authorization;
+    if (typeof header === 'string' && /^Bearer\s+/i.test(header)) {
+      return header.replace(/^Bearer\s+/i, '').trim() || null;
+    }
+
+    const queryToken = handshake?.query?.token;
+    if (typeof queryToken === 'string' && queryToken.trim()) {
+      return queryToken.trim();
+    }
+
+    return null;
+  }
+
+  /** Same signature + claim checks as JwtStrategy; returns null instead of throwing. */
+  private authenticate(token: string): JwtAuthUser | null {
+    const secret = this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      this.logger.error(
+        'JWT_SECRET is not set; socket authentication disabled',
+      );
+      return null;
+    }
+    try {
+      const payload = this.jwtService.verify<JwtPayload>(token, { secret });
+      return resolveJwtAuthUser(payload, this.logger);
+    } catch (error) {
+      this.logger.debug(`Socket auth rejected: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
   private normalizeMarketIds(marketIds: string): string {
     return Array.from(
       new Set(
@@ -94,6 +170,65 @@ export class BettingGateway implements OnGatewayConnection, OnGatewayDisconnect
     );
   }
 
+  /**
+   * Push to a single user's private room. Never throws — callers invoke this after their
+   * database work has committed and a socket failure must not surface as a business error.
+   */
+  emitToUser(
+    userId: string,
+    eventName: UserSocketEvent,
+    payload: Record<string, unknown>,
+  ): void {
+    if (!userId || !this.server) return;
+    try {
+      this.server.to(this.userRoom(userId)).emit(eventName, {
+        ...payload,
+        userId,
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to emit ${eventName} to user ${userId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  emitWalletUpdate(
+    userId: string,
+    wallet: { balance: number; liability: number },
+  ): void {
+    this.emitToUser(userId, 'wallet:update', {
+      balance: wallet.balance,
+      liability: wallet.liability,
+      availableBalance: wallet.balance,
+    });
+  }
+
+  emitExposureUpdate(
+    userId: string,
+    payload: {
+      liability: number;
+      eventId?: string | null;
+      marketId?: string | null;
+      marketExposure?: number;
+    },
+  ): void {
+    this.emitToUser(userId, 'exposure:update', payload);
+  }
+
+  emitBetStatus(
+    userId: string,
+    payload: {
+      betId: string;
+      status: string;
+      eventId?: string | null;
+      marketId?: string | null;
+      pnl?: number | null;
+    },
+  ): void {
+    this.emitToUser(userId, 'bet:status', payload);
+  }
+
   @SubscribeMessage('subscribe:odds')
   handleSubscribeOdds(
     @ConnectedSocket() client: Socket,
@@ -83,6 +83,29 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * SET NX with expiry. Resolves true only when this call created the key.
+   * Throws on Redis failure so callers can decide whether to fail open or closed.
+   */
+  async setIfAbsent(key: string, value: any, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, JSON.stringify(value), 'EX', ttl, 'NX');
+    return result === 'OK';
+  }
+
+  /**
+   * SET XX KEEPTTL: overwrite an existing key without extending its expiry. Resolves false (and
+   * writes nothing) when the key has already expired. Throws on Redis failure.
+   */
+  async replaceKeepingTtl(key: string, value: any): Promise<boolean> {
+    const result = await this.client.set(
+      key,
+      JSON.stringify(value),
+      'KEEPTTL',
+      'XX',
+    );
+    return result === 'OK';
+  }
+
   del(key: string): void {
     this.client.del(key).catch(() => {});
   }
@@ -96,6 +119,166 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // ---------- RATE LIMITING / COUNTERS ----------
+
+  /**
+   * Take tokens from several token buckets at once (atomic Lua, Redis clock): either every bucket
+   * has its `count` tokens and all of them are taken, or none is touched and `deniedIndex` is the
+   * first bucket that is short. Each bucket holds `capacity` tokens and refills at `refillPerSec`.
+   * Throws on Redis failure so callers can fail open.
+   */
+  async takeTokens(
+    buckets: Array<{
+      key: string;
+      capacity: number;
+      refillPerSec: number;
+      count: number;
+    }>,
+  ): Promise<{ allowed: boolean; deniedIndex: number; retryAfterMs: number }> {
+    if (buckets.length === 0) {
+      return { allowed: true, deniedIndex: -1, retryAfterMs: 0 };
+    }
+    const script = `
+      local t = redis.call('TIME')
+      local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+      local next = {}
+      for i = 1, #KEYS do
+        local capacity = tonumber(ARGV[i * 3 - 2])
+        local refillPerMs = tonumber(ARGV[i * 3 - 1]) / 1000
+        local count = tonumber(ARGV[i * 3])
+        local data = redis.call('HMGET', KEYS[i], 'tokens', 'ts')
+        local tokens = tonumber(data[1]) or capacity
+        local ts = tonumber(data[2]) or now
+        tokens = math.min(capacity, tokens + math.max(0, now - ts) * refillPerMs)
+        if tokens < count then
+          return { i, math.ceil((count - tokens) / refillPerMs) }
+        end
+        next[i] = { tokens - count, math.ceil(capacity / refillPerMs) + 1000 }
+      end
+      for i = 1, #KEYS do
+        redis.call('HSET', KEYS[i], 'tokens', tostring(next[i][1]), 'ts', tostring(now))
+        redis.call('PEXPIRE', KEYS[i], next[i][2])
+      end
+      return { 0, 0 }
+    `;
+    const [denied, retryAfterMs] = (await this.client.eval(
+      script,
+      buckets.length,
+      ...buckets.map((b) => b.key),
+      ...buckets.flatMap((b) => [b.capacity, b.refillPerSec, b.count]),
+    )) as [number, number];
+    return { allowed: denied === 0, deniedIndex: denied - 1, retryAfterMs };
+  }
+
+  /**
+   * Atomically replace a string value (expiring after `ttlMs`) and return the previous one.
+   * Throws on Redis failure.
+   */
+  async swapWithExpiry(
+    key: string,
+    value: string,
+    ttlMs: number,
+  ): Promise<string | null> {
+    const script = `
+      local previous = redis.call('GET', KEYS[1])
+      redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+      return previous
+    `;
+    const previous = (await this.client.eval(script, 1, key, value, ttlMs)) as
+      | string
+      | null;
+    return previous ?? null;
+  }
+
+  /** Delete a string value only if it still equals `value`. Throws on Redis failure. */
+  async deleteIfEquals(key: string, value: string): Promise<void> {
+    const script = `
+      if redis.call('GET', KEYS[1]) == ARGV[1] then
+        redis.call('DEL', KEYS[1])
+      end
+      return 0
+    `;
+    await this.client.eval(script, 1, key, value);
+  }
+
+  /** Increment a hash field and (re)set the hash expiry. Never throws. */
+  async incrementHashField(
+    key: string,
+    field: string,
+    ttl: number,
+  ): Promise<void> {
+    try {
+      await this.client.multi().hincrby(key, field, 1).expire(key, ttl).exec();
+    } catch {
+      // counters are best effort
+    }
+  }
+
+  /** Increment a sorted-set member score and (re)set the set expiry. Never throws. */
+  async incrementSortedSetMember(
+    key: string,
+    member: string,
+    ttl: number,
+  ): Promise<void> {
+    try {
+      await this.client.multi().zincrby(key, 1, member).expire(key, ttl).exec();
+    } catch {
+      // counters are best effort
+    }
+  }
+
+  getHashCounters(key: string): Promise<Record<string, number>> {
+    return this.client
+      .hgetall(key)
+      .then((values) =>
+        Object.fromEntries(
+          Object.entries(values).map(([k, v]) => [k, Number(v)]),
+        ),
+      )
+      .catch(() => ({}));
+  }
+
+  /** Highest-scored members first, at most `count`. */
+  getTopSortedSetMembers(
+    key: string,
+    count: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    return this.client
+      .zrevrange(key, 0, count - 1, 'WITHSCORES')
+      .then((flat) => {
+        const out: Array<{ member: string; score: number }> = [];
+        for (let i = 0; i + 1 < flat.length; i += 2) {
+          out.push({ member: flat[i], score: Number(flat[i + 1]) });
+        }
+        return out;
+      })
+      .catch(() => []);
+  }
+
+  /** Add (or re-score) a sorted-set member. Throws on Redis failure. */
+  async addSortedSetMember(
+    key: string,
+    member: string,
+    score: number,
+  ): Promise<void> {
+    await this.client.zadd(key, score, member);
+  }
+
+  /** Lowest-scored members with a score up to `maxScore`, at most `count`. */
+  getSortedSetMembersUpTo(
+    key: string,
+    maxScore: number,
+    count: number,
+  ): Promise<string[]> {
+    return this.client
+      .zrangebyscore(key, '-inf', maxScore, 'LIMIT', 0, count)
+      .catch(() => []);
+  }
+
+  removeSortedSetMember(key: string, member: string): void {
+    this.client.zrem(key, member).catch(() => {});
+  }
+
   // ❌ REMOVED: delPattern() - Redis KEYS command is blocking and causes latency
   // Use explicit key deletion instead: del(`user:${userId}:positions`)
 
@@ -0,0 +1,104 @@
+import { MarketType } from '@prisma/client';
+
+/**
+ * Soccer and tennis markets beyond Match Odds
+ *
+ * All of them are Betfair single-winner markets on decimal odds (exactly one runner wins),
+ * priced from the same feed as Match Odds. Each has its own bet gtype and settles under
+ * its own MarketType with settlement ID `{sport}:{marketType}:{eventId}:{marketId}`.
+ */
+export const SPORTS_MARKETS = {
+  overunder: {
+    marketType: MarketType.OVER_UNDER,
+    sport: 'SOCCER',
+    label: 'Over/Under Goals',
+    runnerCount: 2,
+  },
+  btts: {
+    marketType: MarketType.BOTH_TEAMS_TO_SCORE,
+    sport: 'SOCCER',
+    label: 'Both Teams To Score',
+    runnerCount: 2,
+  },
+  correctscore: {
+    marketType: MarketType.CORRECT_SCORE,
+    sport: 'SOCCER',
+    label: 'Correct Score',
+    runnerCount: null,
+  },
+  setbetting: {
+    marketType: MarketType.SET_BETTING,
+    sport: 'TENNIS',
+    label: 'Set Betting',
+    runnerCount: null,
+  },
+} as const;
+
+export type SportsMarketGtype = keyof typeof SPORTS_MARKETS;
+
+export const SPORTS_MARKET_GTYPES = Object.keys(
+  SPORTS_MARKETS,
+) as SportsMarketGtype[];
+
+/**
+ * Check if a bet gtype is one of the soccer/tennis sports markets
+ */
+export function isSportsMarketGtype(
+  gtype: string | null | undefined,
+): gtype is SportsMarketGtype {
+  return (
+    !!gtype &&
+    SPORTS_MARKET_GTYPES.includes(gtype.toLowerCase() as SportsMarketGtype)
+  );
+}
+
+/**
+ * Sports market gtype for a settled MarketType (null for cricket market types)
+ */
+export function sportsMarketGtypeFor(
+  marketType: MarketType | string | null | undefined,
+): SportsMarketGtype | null {
+  return (
+    SPORTS_MARKET_GTYPES.find(
+      (gtype) => SPORTS_MARKETS[gtype].marketType === marketType,
+    ) ?? null
+  );
+}
+
+/**
+ * Resolve the sports market a bet targets from its gtype, or from the Betfair market name
+ * when the client sent a generic Match Odds gtype (e.g. "Over/Under 2.5 Goals", "Set Betting").
+ */
+export function resolveSportsMarketGtype(
+  gtype: string | null | undefined,
+  marketName: string | null | undefined,
+): SportsMarketGtype | null {
+  const normalizedGtype = (gtype || '').toLowerCase().replace(/[\s_-]/g, '');
+  if (isSportsMarketGtype(normalizedGtype)) return normalizedGtype;
+  if (
+    normalizedGtype &&
+    normalizedGtype !== 'match' &&
+    normalizedGtype !== 'matchodds'
+  ) {
+    return null;
+  }
+
+  const name = (marketName || '').toLowerCase();
+  if (/over\s*\/?\s*under/.test(name)) return 'overunder';
+  if (name.includes('both teams to score')) return 'btts';
+  if (name.includes('correct score')) return 'correctscore';
+  if (name.includes('set betting')) return 'setbetting';
+  return null;
+}
+
+/**
+ * Settlement ID of a sports market, e.g. SOCCER:OVER_UNDER:{eventId}:{marketId}
+ */
+export function sportsMarketSettlementId(
+  gtype: SportsMarketGtype,
+  eventId: string,
+  marketId: string,
+): string {
+  const { sport, marketType } = SPORTS_MARKETS[gtype];
+  return `${sport}:${marketType}:${eventId}:${marketId}`;
+}
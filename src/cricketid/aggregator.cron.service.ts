@@ -6,6 +6,7 @@ import { AggregatorService } from './aggregator.service';
 import { CricketIdService } from './cricketid.service';
 import { RedisService } from '../common/redis/redis.service';
 import { BettingGateway } from '../betting/betting.gateway';
+import { CricketIdWebhookService } from './cricketid-webhook.service';
 
 @Injectable()
 export class AggregatorCronService {
@@ -19,8 +20,33 @@ export class AggregatorCronService {
     private readonly cricketIdService: CricketIdService, // Inject service directly instead of HTTP calls
     private readonly redisService: RedisService, // ✅ PERFORMANCE: Redis for storing vendor data
     private readonly bettingGateway: BettingGateway,
+    private readonly cricketIdWebhookService: CricketIdWebhookService,
   ) {}
 
+  /**
+   * Odds polling is a fallback for the push feed: drop registrations the webhook covered recently.
+   * Odds are pushed per market, so a registration is dropped only when every one of its markets
+   * was pushed. Bookmaker-fancy is always polled: the webhook pushes only the fancy rows.
+   */
+  private async withoutRecentPush(
+    matches: Array<{ eventId: string; marketIds: string }>,
+  ) {
+    const pushed = await Promise.all(
+      matches.map(async (m) => {
+        const marketIds = m.marketIds
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean);
+        if (marketIds.length === 0) return false;
+        const fresh = await Promise.all(
+          marketIds.map((id) => this.cricketIdWebhookService.hasRecentPush(id)),
+        );
+        return fresh.every(Boolean);
+      }),
+    );
+    return matches.filter((_, i) => !pushed[i]);
+  }
+
   /**
    * ✅ REMOVED: refreshActiveMatchesCache() cron job
    * 
@@ -42,7 +68,9 @@ export class AggregatorCronService {
   @Cron('*/1 * * * * *') // Every 1 second (vendor limits permitting)
   async fetchOddsFast() {
     try {
-      const activeMatches = this.aggregatorService.getActiveMatches();
+      const activeMatches = await this.withoutRecentPush(
+        this.aggregatorService.getActiveMatches(),
+      );
       
       if (activeMatches.length === 0) {
         return;
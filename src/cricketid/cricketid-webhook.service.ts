@@ -0,0 +1,273 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { RedisService } from '../common/redis/redis.service';
+import { BettingGateway } from '../betting/betting.gateway';
+import { CricketIdService } from './cricketid.service';
+import { AggregatorService } from './aggregator.service';
+import { CricketIdWebhookDto } from './dto/webhook.dto';
+
+/**
+ * CricketId push feed (POST /cricketid/webhook).
+ *
+ * Signature: hex HMAC-SHA256 of `${timestamp}.${rawBody}` with CRICKETID_WEBHOOK_SECRET, sent as
+ * `x-cricketid-signature`, with the unix-seconds timestamp in `x-cricketid-timestamp`.
+ * Replay: timestamps outside the tolerance window are rejected, and each signature is accepted once.
+ *
+ * Every accepted odds push marks its marketId as "recently pushed"; AggregatorCronService skips
+ * those so odds polling only covers what the vendor has not pushed lately. Pushed fancy rows stay
+ * fresh for the same window on their own key; bookmaker / tied-match markets are never pushed, so
+ * the event's bookmaker-fancy payload keeps being polled.
+ */
+@Injectable()
+export class CricketIdWebhookService {
+  private readonly logger = new Logger(CricketIdWebhookService.name);
+
+  private readonly TIMESTAMP_TOLERANCE_SEC = 300;
+  /** Push freshness window; after this the cron polls the market again and pushed fancy rows expire. */
+  private readonly PUSH_FRESH_SEC =
+    Number(process.env.CRICKETID_PUSH_FRESH_SEC) || 5;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly cricketIdService: CricketIdService,
+    private readonly aggregatorService: AggregatorService,
+    private readonly bettingGateway: BettingGateway,
+  ) {}
+
+  async verify(
+    rawBody: Buffer | string | undefined,
+    signatureHeader: string | undefined,
+    timestampHeader: string | undefined,
+  ): Promise<void> {
+    const secret = process.env.CRICKETID_WEBHOOK_SECRET;
+    if (!secret) {
+      this.logger.error(
+        'CRICKETID_WEBHOOK_SECRET is not set; rejecting webhook',
+      );
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Webhook not configured',
+          code: 'WEBHOOK_NOT_CONFIGURED',
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const timestamp = Number(timestampHeader);
+    const nowSec = Math.floor(Date.now() / 1000);
+    if (
+      !Number.isFinite(timestamp) ||
+      Math.abs(nowSec - timestamp) > this.TIMESTAMP_TOLERANCE_SEC
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Webhook timestamp missing or expired',
+          code: 'WEBHOOK_TIMESTAMP_INVALID',
+        },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const body = Buffer.isBuffer(rawBody)
+      ? rawBody.toString('utf8')
+      : String(rawBody ?? '');
+    const expected = createHmac('sha256', secret)
+      .update(`${timestampHeader}.${body}`)
+      .digest('hex');
+    const provided = String(signatureHeader ?? '')
+      .trim()
+      .replace(/^sha256=/i, '');
+    const expectedBuf = Buffer.from(expected, 'hex');
+    const providedBuf = Buffer.from(provided, 'hex');
+    if (
+      providedBuf.length !== expectedBuf.length ||
+      !timingSafeEqual(providedBuf, expectedBuf)
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Invalid webhook signature',
+          code: 'WEBHOOK_SIGNATURE_INVALID',
+        },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // Fail closed: without Redis we cannot prove the delivery is not a replay
+    let firstDelivery = false;
+    try {
+      firstDelivery = await this.redisService.setIfAbsent(
+        `cricketid:webhook:seen:${expected}`,
+        timestamp,
+        this.TIMESTAMP_TOLERANCE_SEC * 2,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Webhook replay check unavailable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Replay protection unavailable',
+          code: 'WEBHOOK_REPLAY_CHECK_FAILED',
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+    if (!firstDelivery) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Webhook already processed',
+          code: 'WEBHOOK_REPLAYED',
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  async ingest(dto: CricketIdWebhookDto) {
+    const eventId = String(
+      dto.eventId ?? dto.match?.match_id ?? dto.score?.match_id ?? '',
+    ).trim();
+    if (!eventId) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'eventId or match.match_id is required',
+          code: 'WEBHOOK_EVENT_REQUIRED',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const result = {
+      eventId,
+      odds: false,
+      bookmakerFancy: false,
+      score: false,
+    };
+
+    if (dto.odds?.length) {
+      const marketId = String(dto.marketId ?? '').trim();
+      if (!marketId) {
+        throw new HttpException(
+          {
+            success: false,
+            error: 'marketId is required with odds',
+            code: 'WEBHOOK_MARKET_REQUIRED',
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      await this.ingestOdds(eventId, marketId, dto);
+      result.odds = true;
+    }
+
+    const sections = [
+      ...(dto.fancy ?? [])
+        .filter((f) => f.name)
+        .map((f) => ({
+          sid: f.session,
+          nat: String(f.name),
+          gstatus: f.status ?? 'ACTIVE',
+          odds: [{ otype: 'back', odds: Number(f.line), size: f.rate }],
+        })),
+      ...(dto.session ?? [])
+        .filter((s) => s.runner)
+        .map((s) => ({
+          sid: s.sid,
+          nat: String(s.runner),
+          gstatus: s.status ?? 'ACTIVE',
+          odds: [
+            { otype: 'back', odds: s.back },
+            { otype: 'lay', odds: s.lay },
+          ],
+        })),
+    ];
+    if (sections.length) {
+      const payload = await this.cricketIdService.applyPushedBookmakerFancy(
+        eventId,
+        sections,
+        this.PUSH_FRESH_SEC,
+      );
+      this.bettingGateway.emitBookmakerFancyIfChanged(eventId, payload);
+      result.bookmakerFancy = true;
+    }
+
+    if (dto.score) {
+      await this.cricketIdService.applyPushedScore(eventId, {
+        ...dto.score,
+        receivedAt: Date.now(),
+      });
+      result.score = true;
+    }
+
+    return { success: true, ...result };
+  }
+
+  /**
+   * Odds are cached per `marketIds` string, so update the single-market key and every active
+   * registration that includes this market, emitting to each registration's socket room.
+   */
+  private async ingestOdds(
+    eventId: string,
+    marketId: string,
+    dto: CricketIdWebhookDto,
+  ) {
+    const rows = dto.odds ?? [];
+    const singleMarket = await this.cricketIdService.applyPushedOdds(
+      marketId,
+      marketId,
+      rows,
+    );
+
+    const registrations = this.aggregatorService.getActiveMatches().filter(
+      (m) =>
+        m.eventId === eventId &&
+        m.marketIds
+          .split(',')
+          .map((id) => id.trim())
+          .includes(marketId),
+    );
+
+    for (const registration of registrations) {
+      if (registration.marketIds === marketId) continue;
+      const markets = await this.cricketIdService.applyPushedOdds(
+        registration.marketIds,
+        marketId,
+        rows,
+      );
+      this.bettingGateway.emitOddsIfChanged(
+        eventId,
+        registration.marketIds,
+        markets,
+      );
+    }
+    this.bettingGateway.emitOddsIfChanged(eventId, marketId, singleMarket);
+
+    await this.markPushed(marketId);
+  }
+
+  private async markPushed(marketId: string) {
+    try {
+      await this.redisService.set(
+        `cricketid:push:odds:${marketId}`,
+        Date.now(),
+        this.PUSH_FRESH_SEC,
+      );
+    } catch {
+      // Cron simply keeps polling it
+    }
+  }
+
+  async hasRecentPush(marketId: string): Promise<boolean> {
+    return (
+      (await this.redisService.get<number>(
+        `cricketid:push:odds:${marketId}`,
+      )) !== null
+    );
+  }
+}
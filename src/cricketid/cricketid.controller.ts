@@ -1,5 +1,9 @@
-import { Body, Controller, Get, Header, Logger, Param, Post, Query, HttpException, HttpStatus, BadRequestException } from '@nestjs/common';
+import { Body, Controller, Get, Header, Headers, HttpCode, Logger, Param, Post, Query, Req, HttpException, HttpStatus, BadRequestException } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
 import { CricketIdService } from './cricketid.service';
+import { CricketIdWebhookService } from './cricketid-webhook.service';
+import { CricketIdWebhookDto } from './dto/webhook.dto';
 
 @Controller('cricketid')
 export class CricketIdController {
@@ -7,8 +11,28 @@ export class CricketIdController {
 
   constructor(
     private readonly cricketIdService: CricketIdService,
+    private readonly cricketIdWebhookService: CricketIdWebhookService,
   ) {}
 
+  /**
+   * Vendor push feed (odds, fancy/session, score).
+   * POST /cricketid/webhook
+   * Headers: x-cricketid-timestamp (unix seconds), x-cricketid-signature (hex HMAC-SHA256 of `${timestamp}.${rawBody}`)
+   * Data is written to the same Redis keys as the pull APIs and fanned out over sockets;
+   * recently pushed events are skipped by the polling cron.
+   */
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  async ingestWebhook(
+    @Req() req: RawBodyRequest<FastifyRequest>,
+    @Headers('x-cricketid-signature') signature: string | undefined,
+    @Headers('x-cricketid-timestamp') timestamp: string | undefined,
+    @Body() dto: CricketIdWebhookDto,
+  ) {
+    await this.cricketIdWebhookService.verify(req.rawBody, signature, timestamp);
+    return this.cricketIdWebhookService.ingest(dto);
+  }
+
   /**
    * Get all sports/events
    * GET /cricketid/sports
@@ -1,25 +1,40 @@
 import { HttpModule } from '@nestjs/axios';
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
 import { CricketIdController } from './cricketid.controller';
 import { CricketIdService } from './cricketid.service';
 import { AggregatorService } from './aggregator.service';
 import { AggregatorController } from './aggregator.controller';
 import { AggregatorCronService } from './aggregator.cron.service';
+import { CricketIdWebhookService } from './cricketid-webhook.service';
 import { MatchVisibilityService } from './match-visibility.service';
+import { MarketSuspensionService } from './market-suspension.service';
+import { ScoreWatchService } from './score-watch.service';
 import { RedisModule } from '../common/redis/redis.module';
 import { BettingGateway } from '../betting/betting.gateway';
 
 @Module({
-  imports: [HttpModule, RedisModule], // ✅ PERFORMANCE: Redis module for vendor data caching
+  // ✅ PERFORMANCE: Redis module for vendor data caching; JwtModule lets BettingGateway verify socket tokens
+  imports: [HttpModule, RedisModule, JwtModule.register({})],
   controllers: [CricketIdController, AggregatorController],
   providers: [
     CricketIdService,
     AggregatorService,
     AggregatorCronService,
+    CricketIdWebhookService,
     MatchVisibilityService,
+    MarketSuspensionService,
+    ScoreWatchService,
+    BettingGateway,
+  ],
+  exports: [
+    CricketIdService,
+    AggregatorService,
+    MatchVisibilityService,
+    MarketSuspensionService,
+    ScoreWatchService,
     BettingGateway,
   ],
-  exports: [CricketIdService, AggregatorService, MatchVisibilityService, BettingGateway],
 })
 export class CricketIdModule {}
 
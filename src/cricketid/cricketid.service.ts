@@ -5,6 +5,7 @@ import { AxiosError } from 'axios';
 import * as https from 'https';
 import * as http from 'http';
 import { RedisService } from '../common/redis/redis.service';
+import { MarketSuspensionService } from './market-suspension.service';
 
 @Injectable()
 export class CricketIdService {
@@ -89,6 +90,7 @@ export class CricketIdService {
   constructor(
     private readonly http: HttpService,
     private readonly redisService: RedisService, // ✅ PERFORMANCE: Redis for vendor data caching
+    private readonly marketSuspensionService: MarketSuspensionService,
   ) {}
 
   /**
@@ -586,7 +588,7 @@ export class CricketIdService {
         null;
     }
 
-    const cacheKey = this.redisService.getVendorKey('match-detail-market-v1', resolvedMarketId);
+    const cacheKey = this.redisService.getVendorKey('match-detail-market-v2', resolvedMarketId);
     const cached = await this.redisService.get<any[]>(cacheKey);
     if (cached) {
       this.logger.debug(`Redis cache HIT for match-detail-market: marketId=${resolvedMarketId}`);
@@ -606,6 +608,7 @@ export class CricketIdService {
     const sportsId = String(feedMatch?.SportsId ?? feedMatch?.sportsId ?? eventTypeNode?.eventTypeId ?? '');
     const sportsName = feedMatch?.Sports ?? feedMatch?.sports ?? null;
 
+    const isClosed = this.isMatchDetailClosed(vendor);
     const normalized = marketNodes.map((m: any) => {
       const runners = Array.isArray(m?.runners)
         ? m.runners.map((r: any) => ({
@@ -613,6 +616,8 @@ export class CricketIdService {
             runnerName: r?.description?.runnerName ?? null,
             handicap: Number(r?.handicap ?? 0),
             sortPriority: Number(r?.state?.sortPriority ?? 0),
+            // ACTIVE while trading; WINNER / LOSER / REMOVED once the market is settled
+            status: r?.state?.status ?? r?.status ?? null,
           }))
         : [];
 
@@ -642,10 +647,11 @@ export class CricketIdService {
         runners,
         totalMatched,
         marketStartTime: startTime || null,
+        status: m?.state?.status ?? m?.marketState?.status ?? m?.status ?? null,
+        isClosed,
       };
     });
 
-    const isClosed = this.isMatchDetailClosed(vendor);
     const ttl = isClosed ? this.REDIS_TTL.MATCH_DETAIL_AFTER_END : this.REDIS_TTL.VENDOR_MATCH_DETAIL;
     try {
       await this.redisService.set(cacheKey, normalized, ttl);
@@ -1199,7 +1205,8 @@ export class CricketIdService {
    * Data is sorted in the following order:
    * 1. bookmakerfancy (Bookmaker, Bookmaker 2)
    * 2. tie match (Tied Match, TIED_MATCH)
-   * 3. normal fancy (all other fancy types)
+   * 3. toss
+   * 4. normal fancy (all other fancy types)
    * 
    * Excluded markets:
    * - MATCH_ODDS
@@ -1226,7 +1233,10 @@ export class CricketIdService {
     
     if (cached) {
       this.logger.debug(`Redis cache HIT for bookmaker-fancy: ${eventId}`);
-      return cached;
+      return this.marketSuspensionService.applyToBookmakerFancy(
+        eventId,
+        cached,
+      );
     }
 
     // Cache miss - fetch from diamond vendor (DO NOT use listing.fancyres.in/v3/bookmakerFancy)
@@ -1282,12 +1292,22 @@ export class CricketIdService {
           }
 
           // 2. bookmakerfancy (Bookmaker, Bookmaker 2, or gtype match1 that's not Tied Match)
-          if (mname.includes('BOOKMAKER') || (gtype === 'match1' && !mname.includes('TIED'))) {
+          if (
+            mname.includes('BOOKMAKER') ||
+            (gtype === 'match1' &&
+              !mname.includes('TIED') &&
+              !mname.includes('TOSS'))
+          ) {
             return 2;
           }
 
-          // 4. normal fancy (all other types)
-          return 4;
+          // 4. toss (Toss, "Who will win the toss")
+          if (mname.includes('TOSS')) {
+            return 4;
+          }
+
+          // 5. normal fancy (all other types)
+          return 5;
         };
 
         const priorityA = getPriority(a);
@@ -1310,6 +1330,7 @@ export class CricketIdService {
       // - "Normal"
       // - "Bookmaker" / "Bookmaker 2" / anything containing "BOOKMAKER"
       // - "Tied Match" / "TIED_MATCH" / anything containing "TIED"
+      // - "Toss" / anything containing "TOSS"
       // Excludes:
       // - Sections containing "bhav" in their nat field (case-insensitive)
       response.data = response.data.filter((market) => {
@@ -1341,7 +1362,12 @@ export class CricketIdService {
           return true;
         }
 
-        // 3. Normal
+        // 3. Toss
+        if (mname.includes('TOSS')) {
+          return true;
+        }
+
+        // 4. Normal
         if (mname === 'NORMAL') {
           return true;
         }
@@ -1367,17 +1393,24 @@ export class CricketIdService {
       });
     }
 
+    // Fancy rows pushed through the webhook are fresher than the polled Normal market
+    const pushedFancy = await this.getPushedFancySections(eid);
+    const payload = pushedFancy
+      ? this.withPushedFancy(response, pushedFancy)
+      : response;
+
     // ✅ PERFORMANCE: Store in Redis for future requests (after all filtering/sorting)
     // Await to ensure cache is set before returning
     try {
-      await this.redisService.set(cacheKey, response, this.REDIS_TTL.VENDOR_BOOKMAKER);
+      await this.redisService.set(cacheKey, payload, this.REDIS_TTL.VENDOR_BOOKMAKER);
       this.logger.debug(`Redis cache SET for bookmaker-fancy: ${eventId} (TTL: ${this.REDIS_TTL.VENDOR_BOOKMAKER}s)`);
     } catch (error) {
       // Log but don't fail - cache is optional
       this.logger.warn(`Failed to set Redis cache for bookmaker-fancy ${eventId}: ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    return response;
+    // Operator market/selection suspensions are applied after caching so lifting one shows up immediately
+    return this.marketSuspensionService.applyToBookmakerFancy(eventId, payload);
   }
 
   /**
@@ -1431,6 +1464,177 @@ export class CricketIdService {
     return response;
   }
 
+  // ---------- PUSH FEED (POST /cricketid/webhook) ----------
+  // Pushed odds are merged into the same Redis keys the pull methods above read, with the same TTLs,
+  // so readers cannot tell a pushed snapshot from a polled one and stale pushes expire normally.
+  // Pushed fancy rows only cover the Normal market, so they expire on their own key instead.
+
+  /**
+   * Merge pushed Match Odds runner prices into the `odds-v2` cache entry for `marketIds`.
+   * Existing runner metadata (runnerName, sizes beyond level 1) is preserved.
+   */
+  async applyPushedOdds(
+    marketIds: string,
+    marketId: string,
+    rows: Array<{ sid?: string; runner?: string; back?: number; lay?: number; status?: string }>,
+  ) {
+    const cacheKey = this.redisService.getVendorKey('odds-v2', marketIds);
+    const cached = await this.redisService.get<any[]>(cacheKey);
+    const markets: any[] = Array.isArray(cached) ? [...cached] : [];
+
+    const index = markets.findIndex((m) => String(m?.marketId ?? '') === marketId);
+    const current =
+      index >= 0
+        ? markets[index]
+        : { marketId, mname: 'MATCH_ODDS', marketName: 'MATCH_ODDS', runners: [] };
+    const runners: any[] = Array.isArray(current.runners) ? [...current.runners] : [];
+
+    for (const row of rows) {
+      const selectionId = Number(row.sid);
+      if (!Number.isFinite(selectionId)) continue;
+      const runnerIndex = runners.findIndex((r) => Number(r?.selectionId) === selectionId);
+      const existing = runnerIndex >= 0 ? runners[runnerIndex] : {};
+      const ex = existing?.ex ?? {};
+      const merged = {
+        ...existing,
+        selectionId,
+        runnerName: existing?.runnerName || row.runner || null,
+        status: row.status ?? existing?.status ?? 'ACTIVE',
+        ex: {
+          ...ex,
+          availableToBack:
+            row.back !== undefined
+              ? [{ price: row.back, size: ex?.availableToBack?.[0]?.size ?? 0 }]
+              : ex?.availableToBack ?? [],
+          availableToLay:
+            row.lay !== undefined
+              ? [{ price: row.lay, size: ex?.availableToLay?.[0]?.size ?? 0 }]
+              : ex?.availableToLay ?? [],
+        },
+      };
+      if (runnerIndex >= 0) runners[runnerIndex] = merged;
+      else runners.push(merged);
+    }
+
+    const nextMarket = { ...current, runners };
+    if (index >= 0) markets[index] = nextMarket;
+    else markets.push(nextMarket);
+
+    await this.redisService.set(cacheKey, markets, this.REDIS_TTL.VENDOR_ODDS);
+    return markets;
+  }
+
+  /**
+   * Pushed fancy/session rows (Diamond-style sections keyed by `nat`, the fancy name). They are
+   * kept under their own key for `freshSec` and laid over the `Normal` market of the
+   * `bookmaker-fancy-v3` payload, so bookmaker / tied-match markets keep their polled expiry and
+   * the poller keeps refreshing them: a cached payload is rewritten without extending its TTL.
+   */
+  async applyPushedBookmakerFancy(
+    eventId: string,
+    sections: Array<{
+      sid?: string | number;
+      nat: string;
+      gstatus?: string;
+      odds: any[];
+    }>,
+    freshSec: number,
+  ) {
+    const pushKey = this.redisService.getVendorKey('fancy-push', eventId);
+    const previous = await this.redisService.get<any[]>(pushKey);
+    const pushed = this.mergeSectionsByNat(
+      Array.isArray(previous) ? previous : [],
+      sections,
+    );
+    await this.redisService.set(pushKey, pushed, freshSec);
+
+    const cacheKey = this.redisService.getVendorKey(
+      'bookmaker-fancy-v3',
+      eventId,
+    );
+    const cached = await this.redisService.get<{
+      success: boolean;
+      msg: string;
+      status: number;
+      data: Array<{ mname: string; gtype: string; [key: string]: any }>;
+    }>(cacheKey);
+    if (cached) {
+      await this.redisService.replaceKeepingTtl(
+        cacheKey,
+        this.withPushedFancy(cached, pushed),
+      );
+    }
+    // Served from the rewritten cache, or polled (with the pushed rows laid over) once it expired
+    return this.getBookmakerFancy(eventId);
+  }
+
+  private async getPushedFancySections(eventId: string): Promise<any[] | null> {
+    try {
+      const pushed = await this.redisService.get<any[]>(
+        this.redisService.getVendorKey('fancy-push', eventId),
+      );
+      return Array.isArray(pushed) && pushed.length ? pushed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Lay pushed fancy sections over the payload's `Normal` market (created if missing). */
+  private withPushedFancy<
+    T extends {
+      data: Array<{ mname: string; gtype: string; [key: string]: any }>;
+    },
+  >(payload: T, sections: any[]): T {
+    const data = Array.isArray(payload.data) ? [...payload.data] : [];
+    let normalIndex = data.findIndex(
+      (m) => String(m?.mname ?? '').toUpperCase() === 'NORMAL',
+    );
+    if (normalIndex < 0) {
+      data.push({ mname: 'Normal', gtype: 'fancy', section: [] });
+      normalIndex = data.length - 1;
+    }
+    const normal = { ...data[normalIndex] };
+    const merged = this.mergeSectionsByNat(
+      Array.isArray(normal.section) ? normal.section : [],
+      sections,
+    );
+    normal.section = merged;
+    normal.isSuspended = this.isMarketSuspended({
+      ...normal,
+      odds: merged.flatMap((x) => (Array.isArray(x?.odds) ? x.odds : [])),
+    });
+    data[normalIndex] = normal;
+    return { ...payload, data };
+  }
+
+  private mergeSectionsByNat(existing: any[], sections: any[]): any[] {
+    const merged = [...existing];
+    for (const section of sections) {
+      const index = merged.findIndex((x) => x?.nat === section?.nat);
+      if (index >= 0) merged[index] = { ...merged[index], ...section };
+      else merged.push(section);
+    }
+    return merged;
+  }
+
+  /**
+   * Pushed scoreboard (CricketIdScoreDto shape). Kept under its own key because the pulled
+   * score API is uncached and returns a different vendor shape.
+   */
+  async applyPushedScore(eventId: string, score: Record<string, any>) {
+    await this.redisService.set(
+      this.redisService.getVendorKey('score-push', eventId),
+      score,
+      this.REDIS_TTL.MATCH_DETAIL_AFTER_END,
+    );
+  }
+
+  getPushedScore(eventId: string | number) {
+    return this.redisService.get<Record<string, any>>(
+      this.redisService.getVendorKey('score-push', String(eventId)),
+    );
+  }
+
   /**
    * Get live score by eventId from cache.tresting.com
    * Endpoint: https://cache.tresting.com/v2/api/getScoreByEventIdNew?eventId={eventId}
@@ -1505,7 +1709,7 @@ export class CricketIdService {
    * @param market - Market object with gstatus/status, min, max, odds properties
    * @returns boolean indicating if the market is suspended
    */
-  private isMarketSuspended(market: {
+  isMarketSuspended(market: {
     gstatus?: string;
     status?: string;
     min?: number;
@@ -16,5 +16,10 @@ export class CricketIdFancyDto {
   @IsOptional()
   @IsString()
   line?: string;
+
+  /** Vendor market status (e.g. ACTIVE, SUSPENDED) */
+  @IsOptional()
+  @IsString()
+  status?: string;
 }
 
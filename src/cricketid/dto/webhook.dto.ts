@@ -6,6 +6,16 @@ import { CricketIdOddsDto } from './odds.dto';
 import { CricketIdScoreDto } from './score.dto';
 
 export class CricketIdWebhookDto {
+  /** Event the push belongs to; falls back to match.match_id / score.match_id. */
+  @IsOptional()
+  @IsString()
+  eventId?: string;
+
+  /** Exchange marketId the `odds` rows belong to (required when odds are pushed). */
+  @IsOptional()
+  @IsString()
+  marketId?: string;
+
   @IsOptional()
   @ValidateNested()
   @Type(() => CricketIdMatchDto)
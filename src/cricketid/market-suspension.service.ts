@@ -0,0 +1,312 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+
+/** Bookmaker-fancy payload as served by CricketIdService.getBookmakerFancy. */
+interface BookmakerFancyPayload {
+  data?: Array<{ [key: string]: any }>;
+  [key: string]: any;
+}
+
+/** Market families a score event can suspend (see ScoreWatchService). */
+export type ScoreSuspensionKind = 'fancy' | 'bookmaker';
+
+/** Timed suspension written by the score watcher, stored in Redis with a matching TTL. */
+export interface ScoreSuspension {
+  trigger: string;
+  suspendedUntil: string;
+}
+
+export interface MarketSuspension {
+  suspendedBy: 'MARKET' | 'SELECTION' | 'SCORE_EVENT';
+  trigger?: string;
+  suspendedUntil?: string;
+}
+
+/**
+ * Market-level suspension
+ *
+ * Finer-grained than the per-event Match Odds / Fancy blocks in BetsService: operators can
+ * suspend one market (by marketId, e.g. a single bookmaker) or one selection of an event
+ * (eventId + selectionId, e.g. a single fancy run). Both lists live in the Setting table,
+ * are checked when a bet is placed and are overlaid on the bookmaker-fancy feed as `suspended`.
+ */
+@Injectable()
+export class MarketSuspensionService {
+  private readonly logger = new Logger(MarketSuspensionService.name);
+  private readonly SUSPENDED_MARKETS_KEY = 'suspended_market_ids';
+  /** JSON array of `${eventId}:${selectionId}` */
+  private readonly SUSPENDED_SELECTIONS_KEY = 'suspended_selection_keys';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  private selectionKey(eventId: string, selectionId: string): string {
+    return `${eventId}:${selectionId}`;
+  }
+
+  private parseIdList(rawValue: string | null | undefined): Set<string> {
+    if (!rawValue) return new Set<string>();
+    try {
+      const parsed: unknown = JSON.parse(rawValue);
+      if (!Array.isArray(parsed)) return new Set<string>();
+      return new Set(
+        parsed
+          .map((id) => String(id ?? '').trim())
+          .filter((id) => id.length > 0),
+      );
+    } catch {
+      return new Set<string>();
+    }
+  }
+
+  private async readIdList(key: string): Promise<Set<string>> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key },
+      select: { value: true },
+    });
+    return this.parseIdList(existing?.value);
+  }
+
+  private async writeIdList(key: string, ids: Set<string>) {
+    const value = JSON.stringify(Array.from(ids));
+    await this.prisma.setting.upsert({
+      where: { key },
+      update: { value },
+      create: { key, value },
+    });
+  }
+
+  async setMarketSuspended(marketId: string, suspended: boolean) {
+    const normalizedMarketId = String(marketId || '').trim();
+    if (!normalizedMarketId) {
+      throw new BadRequestException('marketId is required');
+    }
+
+    const suspendedSet = await this.readIdList(this.SUSPENDED_MARKETS_KEY);
+    if (suspended) suspendedSet.add(normalizedMarketId);
+    else suspendedSet.delete(normalizedMarketId);
+    await this.writeIdList(this.SUSPENDED_MARKETS_KEY, suspendedSet);
+
+    return {
+      marketId: normalizedMarketId,
+      suspended,
+      totalSuspendedMarkets: suspendedSet.size,
+    };
+  }
+
+  async getSuspendedMarkets(): Promise<string[]> {
+    return Array.from(await this.readIdList(this.SUSPENDED_MARKETS_KEY));
+  }
+
+  async setSelectionSuspended(
+    eventId: string,
+    selectionId: string,
+    suspended: boolean,
+  ) {
+    const normalizedEventId = String(eventId || '').trim();
+    const normalizedSelectionId = String(selectionId || '').trim();
+    if (!normalizedEventId || !normalizedSelectionId) {
+      throw new BadRequestException('eventId and selectionId are required');
+    }
+
+    const suspendedSet = await this.readIdList(this.SUSPENDED_SELECTIONS_KEY);
+    const key = this.selectionKey(normalizedEventId, normalizedSelectionId);
+    if (suspended) suspendedSet.add(key);
+    else suspendedSet.delete(key);
+    await this.writeIdList(this.SUSPENDED_SELECTIONS_KEY, suspendedSet);
+
+    return {
+      eventId: normalizedEventId,
+      selectionId: normalizedSelectionId,
+      suspended,
+      totalSuspendedSelections: suspendedSet.size,
+    };
+  }
+
+  /**
+   * Suspended selections, optionally only those of one event.
+   */
+  async getSuspendedSelections(
+    eventId?: string,
+  ): Promise<Array<{ eventId: string; selectionId: string }>> {
+    const normalizedEventId = String(eventId || '').trim();
+    const selections: Array<{ eventId: string; selectionId: string }> = [];
+    for (const key of await this.readIdList(this.SUSPENDED_SELECTIONS_KEY)) {
+      const separator = key.indexOf(':');
+      if (separator <= 0) continue;
+      const selection = {
+        eventId: key.slice(0, separator),
+        selectionId: key.slice(separator + 1),
+      };
+      if (normalizedEventId && selection.eventId !== normalizedEventId)
+        continue;
+      selections.push(selection);
+    }
+    return selections;
+  }
+
+  private scoreSuspensionKey(eventId: string, kind: ScoreSuspensionKind) {
+    return `score-suspension:${eventId}:${kind}`;
+  }
+
+  /**
+   * Suspend fancy or bookmaker placement of an event for `seconds`. The suspension lifts by
+   * itself when the Redis key expires; an earlier suspension that ends later is kept.
+   */
+  async suspendForScoreEvent(
+    eventId: string,
+    kind: ScoreSuspensionKind,
+    seconds: number,
+    trigger: string,
+  ): Promise<ScoreSuspension | null> {
+    if (!(seconds > 0)) return null;
+    const key = this.scoreSuspensionKey(eventId, kind);
+    const until = Date.now() + seconds * 1000;
+
+    const existing = await this.redisService.get<ScoreSuspension>(key);
+    if (existing && Date.parse(existing.suspendedUntil) >= until) {
+      return existing;
+    }
+
+    const suspension: ScoreSuspension = {
+      trigger,
+      suspendedUntil: new Date(until).toISOString(),
+    };
+    await this.redisService.set(key, suspension, Math.ceil(seconds));
+    return suspension;
+  }
+
+  async getScoreSuspension(
+    eventId: string,
+    kind: ScoreSuspensionKind,
+  ): Promise<ScoreSuspension | null> {
+    const suspension = await this.redisService.get<ScoreSuspension>(
+      this.scoreSuspensionKey(eventId, kind),
+    );
+    if (!suspension || Date.parse(suspension.suspendedUntil) <= Date.now()) {
+      return null;
+    }
+    return suspension;
+  }
+
+  /**
+   * Why a bet on this market/selection must be rejected, or null when it is open.
+   * `kind` adds the score-event suspension of the event's fancy or bookmaker markets.
+   */
+  async getSuspension(params: {
+    marketId?: string | null;
+    eventId?: string | null;
+    selectionId?: string | number | null;
+    kind?: ScoreSuspensionKind | null;
+  }): Promise<MarketSuspension | null> {
+    const marketId = String(params.marketId ?? '').trim();
+    const eventId = String(params.eventId ?? '').trim();
+    const selectionId = String(params.selectionId ?? '').trim();
+
+    const [suspendedMarkets, suspendedSelections, scoreSuspension] =
+      await Promise.all([
+        this.readIdList(this.SUSPENDED_MARKETS_KEY),
+        this.readIdList(this.SUSPENDED_SELECTIONS_KEY),
+        eventId && params.kind
+          ? this.getScoreSuspension(eventId, params.kind)
+          : Promise.resolve(null),
+      ]);
+    if (marketId && suspendedMarkets.has(marketId)) {
+      return { suspendedBy: 'MARKET' };
+    }
+    if (
+      eventId &&
+      selectionId &&
+      suspendedSelections.has(this.selectionKey(eventId, selectionId))
+    ) {
+      return { suspendedBy: 'SELECTION' };
+    }
+    if (scoreSuspension) {
+      return { suspendedBy: 'SCORE_EVENT', ...scoreSuspension };
+    }
+    return null;
+  }
+
+  /**
+   * Fancy or bookmaker family of a bookmaker-fancy market (null for Match Odds and toss).
+   */
+  private scoreSuspensionKindOf(market: {
+    [key: string]: any;
+  }): ScoreSuspensionKind | null {
+    const mname = String(market?.mname ?? '').toUpperCase();
+    const gtype = String(market?.gtype ?? '').toLowerCase();
+    if (mname === 'MATCH_ODDS' || mname.includes('TOSS')) return null;
+    return mname.includes('BOOKMAKER') ||
+      mname.includes('TIED') ||
+      (gtype.startsWith('match') && gtype !== 'match' && gtype !== 'matchodds')
+      ? 'bookmaker'
+      : 'fancy';
+  }
+
+  /**
+   * Overlay the suspension lists on a bookmaker-fancy payload.
+   *
+   * Every market gets `suspended` (and `isSuspended` forced on when suspended by marketId or by
+   * a score event); every section gets `suspended`, with `gstatus` set to SUSPENDED when it is
+   * on the list.
+   * Returns a copy so the vendor cache never stores operator suspensions.
+   */
+  async applyToBookmakerFancy<
+    T extends BookmakerFancyPayload | null | undefined,
+  >(eventId: string | number, payload: T): Promise<T> {
+    if (!payload || !Array.isArray(payload.data)) return payload;
+
+    const normalizedEventId = String(eventId).trim();
+    let suspendedMarkets: Set<string>;
+    let suspendedSelections: Set<string>;
+    let scoreSuspended: Record<ScoreSuspensionKind, boolean>;
+    try {
+      const [markets, selections, fancy, bookmaker] = await Promise.all([
+        this.readIdList(this.SUSPENDED_MARKETS_KEY),
+        this.readIdList(this.SUSPENDED_SELECTIONS_KEY),
+        this.getScoreSuspension(normalizedEventId, 'fancy'),
+        this.getScoreSuspension(normalizedEventId, 'bookmaker'),
+      ]);
+      suspendedMarkets = markets;
+      suspendedSelections = selections;
+      scoreSuspended = { fancy: !!fancy, bookmaker: !!bookmaker };
+    } catch (error) {
+      this.logger.error(
+        `Error reading market suspensions for eventId ${eventId}:`,
+        error,
+      );
+      return payload;
+    }
+
+    const data = payload.data.map((market) => {
+      const marketId = String(market?.mid ?? market?.marketId ?? '').trim();
+      const kind = this.scoreSuspensionKindOf(market);
+      const marketSuspended =
+        (!!marketId && suspendedMarkets.has(marketId)) ||
+        (kind !== null && scoreSuspended[kind]);
+      const section: unknown = Array.isArray(market?.section)
+        ? (market.section as Array<{ [key: string]: any }>).map((s) => {
+            const selectionSuspended = suspendedSelections.has(
+              this.selectionKey(normalizedEventId, String(s?.sid ?? '').trim()),
+            );
+            const suspended = marketSuspended || selectionSuspended;
+            return suspended
+              ? { ...s, gstatus: 'SUSPENDED', suspended }
+              : { ...s, suspended };
+          })
+        : market?.section;
+
+      return {
+        ...market,
+        ...(section !== undefined ? { section } : {}),
+        isSuspended: marketSuspended || !!market?.isSuspended,
+        suspended: marketSuspended,
+      };
+    });
+
+    return { ...payload, data };
+  }
+}
@@ -0,0 +1,73 @@
+import { diffSnapshots, type ScoreSnapshot } from './score-watch.service';
+
+describe('diffSnapshots', () => {
+  const snapshot = (overrides: Partial<ScoreSnapshot> = {}): ScoreSnapshot => ({
+    battingTeam: 'IND',
+    runs: 100,
+    wickets: 2,
+    balls: 62,
+    ...overrides,
+  });
+
+  it('finds nothing when the score is unchanged or moves by a single', () => {
+    expect(diffSnapshots(snapshot(), snapshot())).toEqual([]);
+    expect(
+      diffSnapshots(snapshot(), snapshot({ runs: 101, balls: 63 })),
+    ).toEqual([]);
+  });
+
+  it('detects a wicket', () => {
+    expect(
+      diffSnapshots(snapshot(), snapshot({ wickets: 3, balls: 63 })),
+    ).toEqual(['WICKET']);
+  });
+
+  it('detects a boundary off at most one ball', () => {
+    expect(
+      diffSnapshots(snapshot(), snapshot({ runs: 104, balls: 63 })),
+    ).toEqual(['BOUNDARY']);
+    // Wide / no-ball boundary: no legal ball bowled
+    expect(diffSnapshots(snapshot(), snapshot({ runs: 105 }))).toEqual([
+      'BOUNDARY',
+    ]);
+  });
+
+  it('does not call 4+ runs over several balls a boundary', () => {
+    expect(
+      diffSnapshots(snapshot(), snapshot({ runs: 106, balls: 65 })),
+    ).toEqual([]);
+  });
+
+  it('detects a completed over', () => {
+    expect(
+      diffSnapshots(snapshot({ balls: 65 }), snapshot({ balls: 66 })),
+    ).toEqual(['OVER_COMPLETE']);
+  });
+
+  it('reports every trigger of one ball together', () => {
+    expect(
+      diffSnapshots(
+        snapshot({ balls: 65 }),
+        snapshot({ runs: 106, wickets: 3, balls: 66 }),
+      ),
+    ).toEqual(['WICKET', 'BOUNDARY', 'OVER_COMPLETE']);
+  });
+
+  it('reports only the innings change when the batting team changes', () => {
+    expect(
+      diffSnapshots(
+        snapshot({ balls: 120 }),
+        snapshot({ battingTeam: 'AUS', runs: 0, wickets: 0, balls: 0 }),
+      ),
+    ).toEqual(['INNINGS_CHANGE']);
+  });
+
+  it('skips fields missing from either snapshot', () => {
+    expect(
+      diffSnapshots(
+        snapshot({ wickets: null, runs: null }),
+        snapshot({ wickets: 5, runs: 140, balls: 66, battingTeam: null }),
+      ),
+    ).toEqual(['OVER_COMPLETE']);
+  });
+});
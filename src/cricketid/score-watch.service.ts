@@ -0,0 +1,386 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+import { BettingGateway } from '../betting/betting.gateway';
+import { AggregatorService } from './aggregator.service';
+import { CricketIdService } from './cricketid.service';
+import {
+  MarketSuspensionService,
+  type ScoreSuspensionKind,
+} from './market-suspension.service';
+
+export const SCORE_TRIGGERS = [
+  'WICKET',
+  'BOUNDARY',
+  'OVER_COMPLETE',
+  'INNINGS_CHANGE',
+] as const;
+export type ScoreTrigger = (typeof SCORE_TRIGGERS)[number];
+
+/** Seconds to suspend each market family for, per trigger (0 / missing = no suspension). */
+export type ScoreTriggerSuspension = Partial<
+  Record<ScoreSuspensionKind, number>
+>;
+
+/** Setting `score_watch_config` */
+export interface ScoreWatchConfig {
+  enabled: boolean;
+  triggers: Partial<Record<ScoreTrigger, ScoreTriggerSuspension>>;
+}
+
+/** Scoreboard fields the watcher diffs, parsed from the CricketIdScoreDto shape. */
+export interface ScoreSnapshot {
+  battingTeam: string | null;
+  runs: number | null;
+  wickets: number | null;
+  balls: number | null;
+}
+
+/**
+ * Score triggers between two snapshots of the same match. An innings change is reported alone;
+ * otherwise wickets, boundaries and completed overs are reported together.
+ */
+export function diffSnapshots(
+  previous: ScoreSnapshot,
+  current: ScoreSnapshot,
+): ScoreTrigger[] {
+  if (
+    previous.battingTeam &&
+    current.battingTeam &&
+    previous.battingTeam !== current.battingTeam
+  ) {
+    return ['INNINGS_CHANGE'];
+  }
+
+  const triggers: ScoreTrigger[] = [];
+  if (
+    previous.wickets !== null &&
+    current.wickets !== null &&
+    current.wickets > previous.wickets
+  ) {
+    triggers.push('WICKET');
+  }
+
+  const ballsDelta =
+    previous.balls !== null && current.balls !== null
+      ? current.balls - previous.balls
+      : null;
+  // 4+ runs off at most one ball; larger gaps between snapshots are ordinary scoring
+  if (
+    previous.runs !== null &&
+    current.runs !== null &&
+    current.runs - previous.runs >= 4 &&
+    (ballsDelta === null || ballsDelta <= 1)
+  ) {
+    triggers.push('BOUNDARY');
+  }
+
+  if (
+    previous.balls !== null &&
+    current.balls !== null &&
+    Math.floor(current.balls / 6) > Math.floor(previous.balls / 6)
+  ) {
+    triggers.push('OVER_COMPLETE');
+  }
+  return triggers;
+}
+
+/**
+ * Automatic suspension on score events
+ *
+ * Every 2 seconds, for each active match, the latest scoreboard (pushed score, falling back to
+ * the score API) is diffed with the previous snapshot. Wickets, boundaries, completed overs and
+ * innings changes suspend fancy and/or bookmaker placement for the configured number of
+ * seconds through MarketSuspensionService; the suspension lifts when it expires. Every detected
+ * trigger is written to score_trigger_logs so late-bet disputes can be checked against it.
+ */
+@Injectable()
+export class ScoreWatchService {
+  private readonly logger = new Logger(ScoreWatchService.name);
+  private readonly SCORE_WATCH_CONFIG_KEY = 'score_watch_config';
+  private readonly MAX_SUSPEND_SEC = 600;
+  /** Previous snapshot per event; kept well past the end of a match session. */
+  private readonly SNAPSHOT_TTL_SEC = 6 * 3600;
+  /** A pushed scoreboard older than this is stale (the push feed stopped): the score API is used. */
+  private readonly PUSHED_SCORE_MAX_AGE_MS = 6000;
+  private readonly DEFAULT_CONFIG: ScoreWatchConfig = {
+    enabled: false,
+    triggers: {
+      WICKET: { fancy: 30, bookmaker: 10 },
+      BOUNDARY: { fancy: 15 },
+      INNINGS_CHANGE: { fancy: 60, bookmaker: 60 },
+    },
+  };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly aggregatorService: AggregatorService,
+    private readonly cricketIdService: CricketIdService,
+    private readonly marketSuspensionService: MarketSuspensionService,
+    private readonly bettingGateway: BettingGateway,
+  ) {}
+
+  private parseScoreWatchConfig(
+    raw: string | null | undefined,
+  ): ScoreWatchConfig {
+    if (!raw) return this.DEFAULT_CONFIG;
+    try {
+      const parsed = JSON.parse(raw) as Partial<ScoreWatchConfig>;
+      return {
+        enabled: parsed.enabled === true,
+        triggers:
+          parsed.triggers && typeof parsed.triggers === 'object'
+            ? parsed.triggers
+            : {},
+      };
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.SCORE_WATCH_CONFIG_KEY} setting, using defaults`,
+      );
+      return this.DEFAULT_CONFIG;
+    }
+  }
+
+  async getScoreWatchConfig(): Promise<ScoreWatchConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.SCORE_WATCH_CONFIG_KEY },
+      select: { value: true },
+    });
+    return this.parseScoreWatchConfig(existing?.value);
+  }
+
+  /**
+   * Update the config. `triggers` is merged per trigger; a trigger set to null is removed.
+   */
+  async updateScoreWatchConfig(update: {
+    enabled?: boolean;
+    triggers?: Record<string, ScoreTriggerSuspension | null>;
+  }): Promise<ScoreWatchConfig> {
+    if (update.enabled !== undefined && typeof update.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+
+    const config = await this.getScoreWatchConfig();
+    const triggers = { ...config.triggers };
+    for (const [trigger, suspension] of Object.entries(update.triggers ?? {})) {
+      if (!SCORE_TRIGGERS.includes(trigger as ScoreTrigger)) {
+        throw new BadRequestException(
+          `trigger must be one of: ${SCORE_TRIGGERS.join(', ')}`,
+        );
+      }
+      if (suspension === null) {
+        delete triggers[trigger as ScoreTrigger];
+        continue;
+      }
+      const next: ScoreTriggerSuspension = {};
+      for (const kind of ['fancy', 'bookmaker'] as const) {
+        const sec = suspension?.[kind];
+        if (sec === undefined || sec === null) continue;
+        if (!Number.isInteger(sec) || sec < 0 || sec > this.MAX_SUSPEND_SEC) {
+          throw new BadRequestException(
+            `${trigger}.${kind} must be an integer between 0 and ${this.MAX_SUSPEND_SEC}`,
+          );
+        }
+        if (sec > 0) next[kind] = sec;
+      }
+      triggers[trigger as ScoreTrigger] = next;
+    }
+
+    const next: ScoreWatchConfig = {
+      enabled: update.enabled ?? config.enabled,
+      triggers,
+    };
+    const value = JSON.stringify(next);
+    await this.prisma.setting.upsert({
+      where: { key: this.SCORE_WATCH_CONFIG_KEY },
+      update: { value },
+      create: { key: this.SCORE_WATCH_CONFIG_KEY, value },
+    });
+    return next;
+  }
+
+  /**
+   * Trigger audit log, newest first, with the suspensions still running for `eventId`.
+   */
+  async getTriggerLogs(eventId?: string, limit = 100) {
+    const normalizedEventId = String(eventId || '').trim();
+    const take = Math.min(Math.max(Math.floor(limit) || 100, 1), 500);
+    const logs = await this.prisma.scoreTriggerLog.findMany({
+      where: normalizedEventId ? { eventId: normalizedEventId } : {},
+      orderBy: { createdAt: 'desc' },
+      take,
+    });
+
+    if (!normalizedEventId) return { logs };
+    const [fancy, bookmaker] = await Promise.all([
+      this.marketSuspensionService.getScoreSuspension(
+        normalizedEventId,
+        'fancy',
+      ),
+      this.marketSuspensionService.getScoreSuspension(
+        normalizedEventId,
+        'bookmaker',
+      ),
+    ]);
+    return {
+      eventId: normalizedEventId,
+      activeSuspensions: { fancy, bookmaker },
+      logs,
+    };
+  }
+
+  @Cron('*/2 * * * * *')
+  async watchScores() {
+    try {
+      const config = await this.getScoreWatchConfig();
+      if (!config.enabled) return;
+
+      const eventIds = Array.from(
+        new Set(
+          this.aggregatorService.getActiveMatches().map((m) => m.eventId),
+        ),
+      );
+      await Promise.all(
+        eventIds.map((eventId) =>
+          this.checkEvent(eventId, config).catch((error) =>
+            this.logger.warn(
+              `Score watch failed for eventId ${eventId}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            ),
+          ),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in score watch cron job:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private async checkEvent(eventId: string, config: ScoreWatchConfig) {
+    const raw = await this.fetchScore(eventId);
+    const current = this.toSnapshot(raw);
+    if (!current) return;
+
+    const snapshotKey = this.redisService.getVendorKey('score-watch', eventId);
+    const previous = await this.redisService.get<ScoreSnapshot>(snapshotKey);
+    await this.redisService.set(snapshotKey, current, this.SNAPSHOT_TTL_SEC);
+    if (!previous) return;
+
+    const triggers = diffSnapshots(previous, current);
+    if (triggers.length === 0) return;
+
+    // Several instances may see the same transition; only the first one acts on it
+    const transition = createHash('sha1')
+      .update(JSON.stringify([previous, current]))
+      .digest('hex');
+    const claimed = await this.redisService
+      .setIfAbsent(`score-watch:transition:${eventId}:${transition}`, 1, 60)
+      .catch(() => true);
+    if (!claimed) return;
+
+    const seconds: Record<ScoreSuspensionKind, number> = {
+      fancy: 0,
+      bookmaker: 0,
+    };
+    for (const trigger of triggers) {
+      const suspension = config.triggers[trigger] ?? {};
+      seconds.fancy = Math.max(seconds.fancy, suspension.fancy ?? 0);
+      seconds.bookmaker = Math.max(
+        seconds.bookmaker,
+        suspension.bookmaker ?? 0,
+      );
+    }
+    const label = triggers.join('+');
+    await Promise.all(
+      (['fancy', 'bookmaker'] as const).map((kind) =>
+        this.marketSuspensionService.suspendForScoreEvent(
+          eventId,
+          kind,
+          seconds[kind],
+          label,
+        ),
+      ),
+    );
+
+    await this.prisma.scoreTriggerLog.createMany({
+      data: triggers.map((trigger) => ({
+        eventId,
+        trigger,
+        fancySec: config.triggers[trigger]?.fancy ?? 0,
+        bookmakerSec: config.triggers[trigger]?.bookmaker ?? 0,
+        previousScore: { ...previous },
+        currentScore: { ...current },
+      })),
+    });
+    this.logger.log(
+      `Score trigger ${label} on eventId ${eventId}: fancy suspended ${seconds.fancy}s, bookmaker ${seconds.bookmaker}s`,
+    );
+
+    if (seconds.fancy > 0 || seconds.bookmaker > 0) {
+      const payload = await this.cricketIdService.getBookmakerFancy(eventId);
+      this.bettingGateway.emitBookmakerFancyIfChanged(eventId, payload);
+    }
+  }
+
+  /**
+   * Pushed scoreboard when there is a recent one, otherwise the score API.
+   */
+  private async fetchScore(
+    eventId: string,
+  ): Promise<Record<string, unknown> | null> {
+    const pushed = await this.cricketIdService.getPushedScore(eventId);
+    if (
+      pushed &&
+      Date.now() - Number(pushed.receivedAt ?? 0) <=
+        this.PUSHED_SCORE_MAX_AGE_MS
+    ) {
+      return pushed;
+    }
+    const pulled = (await this.cricketIdService.getScoreByEventId(eventId)) as {
+      data?: Record<string, unknown>;
+    } | null;
+    return pulled?.data ?? pulled;
+  }
+
+  /**
+   * Parse `score` ("145/3" or "145"), `wickets` and `overs` ("14.3") into runs, wickets and balls.
+   */
+  private toSnapshot(
+    raw: Record<string, unknown> | null,
+  ): ScoreSnapshot | null {
+    if (!raw || typeof raw !== 'object') return null;
+
+    let runs: number | null = null;
+    let wickets: number | null = null;
+    const score = String((raw.score as string | undefined) ?? '').trim();
+    const scoreMatch = /^(\d+)(?:\s*[/-]\s*(\d+))?/.exec(score);
+    if (scoreMatch) {
+      runs = Number(scoreMatch[1]);
+      if (scoreMatch[2] !== undefined) wickets = Number(scoreMatch[2]);
+    }
+    if (raw.wickets !== undefined && raw.wickets !== null) {
+      const w = Number(raw.wickets);
+      if (Number.isFinite(w)) wickets = w;
+    }
+
+    let balls: number | null = null;
+    const oversMatch = /^(\d+)(?:\.(\d))?/.exec(
+      String((raw.overs as string | undefined) ?? '').trim(),
+    );
+    if (oversMatch) {
+      balls = Number(oversMatch[1]) * 6 + Number(oversMatch[2] ?? 0);
+    }
+
+    if (runs === null && wickets === null && balls === null) return null;
+    const battingTeam = String(
+      (raw.batting_team as string | undefined) ?? '',
+    ).trim();
+    return { battingTeam: battingTeam || null, runs, wickets, balls };
+  }
+}
@@ -18,6 +18,8 @@ async function bootstrap() {
     new FastifyAdapter({
       logger: process.env.NODE_ENV === 'development',
     }),
+    // Raw body is needed to verify signed vendor webhooks (POST /cricketid/webhook)
+    { rawBody: true },
   );
   
   // OPTIMIZED: Enable response compression (reduces response size by 70-90%)
@@ -4,11 +4,13 @@ import { PositionsController } from './positions.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CricketIdModule } from '../cricketid/cricketid.module';
 import { RedisModule } from '../common/redis/redis.module';
+import { BetsModule } from '../bets/bets.module';
+import { Playlive24OriginGuard } from '../common/guards/playlive24-origin.guard';
 
 @Module({
-  imports: [PrismaModule, CricketIdModule, RedisModule], // ✅ PERFORMANCE: Redis for position snapshots
+  imports: [PrismaModule, CricketIdModule, RedisModule, BetsModule], // ✅ PERFORMANCE: Redis for position snapshots
   controllers: [PositionsController],
-  providers: [PositionService],
+  providers: [PositionService, Playlive24OriginGuard],
   exports: [PositionService],
 })
 export class PositionModule {}
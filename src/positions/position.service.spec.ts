@@ -0,0 +1,87 @@
+import { calculateCashOut, type MatchOddsPosition } from './position.service';
+
+describe('calculateCashOut', () => {
+  const position = (nets: Record<string, number>): MatchOddsPosition => ({
+    marketId: 'M1',
+    runners: Object.fromEntries(
+      Object.entries(nets).map(([id, net]) => [id, { net }]),
+    ),
+  });
+
+  const twoRunnerPrices = {
+    A: { back: 2, lay: 2.1 },
+    B: { back: 1.9, lay: 2 },
+  };
+
+  it('lays the runner in profit when that equalises higher', () => {
+    const quote = calculateCashOut(
+      position({ A: 100, B: -50 }),
+      twoRunnerPrices,
+    );
+
+    // LAY A: -50 + 150 / 2.1 = 21.43; BACK B: 100 - 150 / 1.9 = 21.05
+    expect(quote?.legs).toEqual([
+      { selectionId: 'A', betType: 'LAY', odds: 2.1, stake: 71.43 },
+    ]);
+    expect(quote?.cashOutValue).toBe(21.43);
+    expect(quote?.runners.A).toEqual({ current: 100, after: 21.43 });
+    expect(quote?.runners.B).toEqual({ current: -50, after: 21.43 });
+  });
+
+  it('scales the hedge stake for a partial cash-out', () => {
+    const quote = calculateCashOut(
+      position({ A: 100, B: -50 }),
+      twoRunnerPrices,
+      50,
+    );
+
+    expect(quote?.percent).toBe(50);
+    expect(quote?.legs[0].stake).toBe(35.71);
+    expect(quote?.runners.A.after).toBe(60.72);
+    expect(quote?.runners.B.after).toBe(-14.29);
+  });
+
+  it('backs the other runners when that equalises higher', () => {
+    const prices = {
+      A: { back: 3, lay: 3.2 },
+      B: { back: 3, lay: 3.2 },
+      C: { back: 3, lay: 3.2 },
+    };
+    const quote = calculateCashOut(position({ A: 60, B: -20, C: -40 }), prices);
+
+    // LAY plan: -40 + (100 + 20) / 3.2 = -2.5; BACK plan: 60 - (80 + 100) / 3 = 0
+    expect(quote?.legs).toEqual([
+      { selectionId: 'B', betType: 'BACK', odds: 3, stake: 26.67 },
+      { selectionId: 'C', betType: 'BACK', odds: 3, stake: 33.33 },
+    ]);
+    expect(quote?.cashOutValue).toBe(0);
+    for (const runner of Object.values(quote?.runners ?? {})) {
+      expect(runner.after).toBeCloseTo(0, 1);
+    }
+  });
+
+  it('falls back to the plan that can be priced', () => {
+    const quote = calculateCashOut(position({ A: 100, B: -50 }), {
+      A: { back: 2, lay: null },
+      B: { back: 1.9, lay: 2 },
+    });
+
+    expect(quote?.legs).toEqual([
+      { selectionId: 'B', betType: 'BACK', odds: 1.9, stake: 78.95 },
+    ]);
+    expect(quote?.cashOutValue).toBe(21.05);
+  });
+
+  it('returns null for a flat position, a missing price or a single runner', () => {
+    expect(
+      calculateCashOut(position({ A: 10, B: 10 }), twoRunnerPrices),
+    ).toBeNull();
+    expect(
+      calculateCashOut(position({ A: 100, B: -50 }), {
+        A: { back: 2, lay: null },
+        B: { back: null, lay: 2 },
+      }),
+    ).toBeNull();
+    expect(calculateCashOut(position({ A: 100 }), twoRunnerPrices)).toBeNull();
+  });
+});
@@ -1,5 +1,9 @@
 import { Injectable } from '@nestjs/common';
 import { Bet } from '@prisma/client';
+import {
+  isSportsMarketGtype,
+  type SportsMarketGtype,
+} from '../constants/sports-markets';
 
 /**
  * Position Service
@@ -77,15 +81,38 @@ export interface BookmakerPosition {
   runners: Record<string, { net: number }>; // selectionId -> { net P/L if this runner wins }
 }
 
+/**
+ * Toss Position Result
+ *
+ * Returns NET P/L if each side wins the toss.
+ */
+export interface TossPosition {
+  marketId: string;
+  runners: Record<string, { net: number }>; // selectionId -> { net P/L if this side wins }
+}
+
+/**
+ * Sports Market Position Result (soccer Over/Under, BTTS, Correct Score, tennis Set Betting)
+ *
+ * Returns NET P/L if each runner wins.
+ */
+export interface SportsMarketPosition {
+  marketId: string;
+  gtype: SportsMarketGtype;
+  runners: Record<string, { net: number }>; // selectionId -> { net P/L if this runner wins }
+}
+
 /**
  * Complete Position Result
  * 
- * Supports multiple Match Odds and Bookmaker markets.
+ * Supports multiple Match Odds, Bookmaker, Toss and sports markets.
  */
 export interface AllPositions {
   matchOdds?: MatchOddsPosition[]; // Array to support multiple Match Odds markets
   fancy?: FancyPosition[];
   bookmaker?: BookmakerPosition[]; // Array to support multiple Bookmaker markets
+  toss?: TossPosition[];
+  sportsMarkets?: SportsMarketPosition[];
 }
 
 /**
@@ -422,6 +449,249 @@ export function calculateBookmakerPosition(
   };
 }
 
+/**
+ * NET P/L per runner of a single-winner market on decimal odds (Toss, sports markets):
+ * BACK wins (odds − 1) × stake on its runner and loses the stake otherwise; LAY the reverse.
+ */
+function calculateRunnerNetPositions(
+  marketBets: Array<BetForPosition | Bet>,
+  marketSelections: string[],
+): Record<string, { net: number }> {
+  const runners: Record<string, { net: number }> = {};
+  for (const runnerSelectionId of marketSelections) {
+    let netPnL = 0;
+    for (const bet of marketBets) {
+      if (bet.selectionId === null || bet.selectionId === undefined) {
+        continue;
+      }
+      const betType = bet.betType?.toUpperCase();
+      const odds = bet.betRate ?? bet.odds ?? 0;
+      const stake = bet.betValue ?? bet.amount ?? 0;
+      if (
+        !betType ||
+        (betType !== 'BACK' && betType !== 'LAY') ||
+        odds <= 0 ||
+        stake <= 0
+      ) {
+        continue;
+      }
+
+      const onRunner = String(bet.selectionId) === runnerSelectionId;
+      if (betType === 'BACK') {
+        netPnL += onRunner ? (odds - 1) * stake : -stake;
+      } else {
+        netPnL += onRunner ? -(odds - 1) * stake : stake;
+      }
+    }
+    runners[runnerSelectionId] = { net: Math.round(netPnL * 100) / 100 };
+  }
+
+  return runners;
+}
+
+/**
+ * ✅ PURE FUNCTION: Calculate Toss Position
+ *
+ * Same runner formula as Match Odds / Bookmaker on decimal odds, over bets with gtype='toss'
+ * (PENDING only). Both sides of the toss must be supplied in marketSelections.
+ *
+ * @param bets - Array of ALL bets (will be filtered to Toss only)
+ * @param marketId - Market ID
+ * @param marketSelections - Both runner IDs of the toss market (REQUIRED)
+ * @returns Toss position or null if marketSelections empty
+ */
+export function calculateTossPosition(
+  bets: BetForPosition[] | Bet[],
+  marketId: string,
+  marketSelections: string[],
+): TossPosition | null {
+  const uniqueMarketSelections = [
+    ...new Set(
+      (marketSelections || []).map((id) => String(id).trim()).filter(Boolean),
+    ),
+  ];
+  if (uniqueMarketSelections.length === 0 || !marketId) {
+    return null;
+  }
+
+  const tossBets = bets.filter(
+    (bet) =>
+      (bet.gtype || '').toLowerCase() === 'toss' &&
+      bet.marketId === marketId &&
+      bet.status === 'PENDING',
+  );
+
+  return {
+    marketId,
+    runners: calculateRunnerNetPositions(tossBets, uniqueMarketSelections),
+  };
+}
+
+/**
+ * ✅ PURE FUNCTION: Calculate Sports Market Position
+ *
+ * Soccer Over/Under, Both Teams To Score, Correct Score and tennis Set Betting (see
+ * constants/sports-markets), PENDING only. All runners of the market must be supplied.
+ *
+ * @param bets - Array of ALL bets (will be filtered to this market's sports bets)
+ * @param marketId - Market ID
+ * @param marketSelections - All runner IDs of the market (REQUIRED)
+ * @returns Sports market position or null if marketSelections empty / no sports bets
+ */
+export function calculateSportsMarketPosition(
+  bets: BetForPosition[] | Bet[],
+  marketId: string,
+  marketSelections: string[],
+): SportsMarketPosition | null {
+  const uniqueMarketSelections = [
+    ...new Set(
+      (marketSelections || []).map((id) => String(id).trim()).filter(Boolean),
+    ),
+  ];
+  if (uniqueMarketSelections.length === 0 || !marketId) {
+    return null;
+  }
+
+  const marketBets = bets.filter(
+    (bet) =>
+      isSportsMarketGtype(bet.gtype) &&
+      bet.marketId === marketId &&
+      bet.status === 'PENDING',
+  );
+  const gtype = marketBets[0]?.gtype?.toLowerCase();
+  if (!isSportsMarketGtype(gtype)) {
+    return null;
+  }
+
+  return {
+    marketId,
+    gtype,
+    runners: calculateRunnerNetPositions(marketBets, uniqueMarketSelections),
+  };
+}
+
+/**
+ * Live prices per runner used for a cash-out quote (decimal odds; null = no price on that side).
+ */
+export type CashOutPrices = Record<
+  string,
+  { back: number | null; lay: number | null }
+>;
+
+export interface CashOutLeg {
+  selectionId: string;
+  betType: 'BACK' | 'LAY';
+  odds: number;
+  stake: number;
+}
+
+/**
+ * Cash-out (green-up) quote for a Match Odds / Bookmaker position.
+ *
+ * `legs` are the hedge bets to place at current prices; `runners` is the net P/L per runner
+ * after they are matched. At 100% every runner ends on `cashOutValue`.
+ */
+export interface CashOutQuote {
+  marketId: string;
+  percent: number;
+  cashOutValue: number;
+  legs: CashOutLeg[];
+  runners: Record<string, { current: number; after: number }>;
+}
+
+/**
+ * ✅ PURE FUNCTION: Calculate Cash-Out hedge for a Match Odds / Bookmaker position
+ *
+ * Two ways to equalise P/L across runners, using the position formulas above:
+ * - LAY plan:  m = min(net); lay each runner i for (net_i - m) / lay_i
+ *              → every runner ends on m + Σ layStakes
+ * - BACK plan: M = max(net); back each runner i for (M - net_i) / back_i
+ *              → every runner ends on M - Σ backStakes
+ * The plan with the higher equalised P/L wins (on a two-runner market each plan is one bet).
+ * A plan is unusable if any runner it needs to hedge has no price on that side.
+ *
+ * Partial cash-out scales every hedge stake by percent / 100.
+ *
+ * @param position - Match Odds or Bookmaker position (net P/L per runner)
+ * @param prices - Current best back/lay per runner
+ * @param percent - Share of the position to cash out (1-100)
+ * @returns Quote, or null if the position is already flat or no plan can be priced
+ */
+export function calculateCashOut(
+  position: MatchOddsPosition | BookmakerPosition,
+  prices: CashOutPrices,
+  percent: number = 100,
+): CashOutQuote | null {
+  const selections = Object.keys(position.runners);
+  if (selections.length < 2) {
+    return null;
+  }
+
+  const nets = selections.map((id) => position.runners[id].net);
+  const minNet = Math.min(...nets);
+  const maxNet = Math.max(...nets);
+  if (maxNet - minNet < 0.01) {
+    return null;
+  }
+
+  const buildPlan = (betType: 'BACK' | 'LAY') => {
+    const legs: CashOutLeg[] = [];
+    for (const selectionId of selections) {
+      const net = position.runners[selectionId].net;
+      const gap = betType === 'LAY' ? net - minNet : maxNet - net;
+      if (gap <= 0) continue;
+      const odds =
+        betType === 'LAY'
+          ? prices[selectionId]?.lay
+          : prices[selectionId]?.back;
+      if (!odds || odds <= 1) return null;
+      legs.push({ selectionId, betType, odds, stake: gap / odds });
+    }
+    const totalStake = legs.reduce((sum, leg) => sum + leg.stake, 0);
+    return {
+      legs,
+      value: betType === 'LAY' ? minNet + totalStake : maxNet - totalStake,
+    };
+  };
+
+  const plans = [buildPlan('LAY'), buildPlan('BACK')].filter(
+    (plan): plan is NonNullable<ReturnType<typeof buildPlan>> => plan !== null,
+  );
+  if (plans.length === 0) {
+    return null;
+  }
+  const best = plans.reduce((a, b) => (b.value > a.value ? b : a));
+
+  const share = Math.min(Math.max(percent, 0), 100) / 100;
+  const legs = best.legs.map((leg) => ({
+    ...leg,
+    stake: Math.round(leg.stake * share * 100) / 100,
+  }));
+
+  const runners: Record<string, { current: number; after: number }> = {};
+  for (const selectionId of selections) {
+    const current = position.runners[selectionId].net;
+    let after = current;
+    for (const leg of legs) {
+      const wins = leg.selectionId === selectionId;
+      if (leg.betType === 'BACK') {
+        after += wins ? (leg.odds - 1) * leg.stake : -leg.stake;
+      } else {
+        after += wins ? -(leg.odds - 1) * leg.stake : leg.stake;
+      }
+    }
+    runners[selectionId] = { current, after: Math.round(after * 100) / 100 };
+  }
+
+  return {
+    marketId: position.marketId,
+    percent: share * 100,
+    cashOutValue: Math.round(best.value * 100) / 100,
+    legs,
+    runners,
+  };
+}
+
 /**
  * ✅ PURE FUNCTION: Calculate All Positions
  * 
@@ -528,6 +798,62 @@ export function calculateAllPositions(
     result.bookmaker = bookmakerPositions;
   }
 
+  // Calculate Toss positions (runner list from the map, same rule as Bookmaker)
+  const tossMarketIds = new Set<string>();
+  for (const bet of bets) {
+    if ((bet.gtype || '').toLowerCase() === 'toss' && bet.marketId) {
+      tossMarketIds.add(bet.marketId);
+    }
+  }
+
+  const tossPositions: TossPosition[] = [];
+  for (const marketId of tossMarketIds) {
+    const marketSelections = marketSelectionsMap?.get(marketId);
+    if (!marketSelections || marketSelections.length === 0) {
+      continue;
+    }
+    const tossPosition = calculateTossPosition(
+      bets,
+      marketId,
+      marketSelections,
+    );
+    if (tossPosition) {
+      tossPositions.push(tossPosition);
+    }
+  }
+
+  if (tossPositions.length > 0) {
+    result.toss = tossPositions;
+  }
+
+  // Calculate sports market positions (runner list from the map, same rule as Bookmaker)
+  const sportsMarketIds = new Set<string>();
+  for (const bet of bets) {
+    if (isSportsMarketGtype(bet.gtype) && bet.marketId) {
+      sportsMarketIds.add(bet.marketId);
+    }
+  }
+
+  const sportsMarketPositions: SportsMarketPosition[] = [];
+  for (const marketId of sportsMarketIds) {
+    const marketSelections = marketSelectionsMap?.get(marketId);
+    if (!marketSelections || marketSelections.length === 0) {
+      continue;
+    }
+    const sportsMarketPosition = calculateSportsMarketPosition(
+      bets,
+      marketId,
+      marketSelections,
+    );
+    if (sportsMarketPosition) {
+      sportsMarketPositions.push(sportsMarketPosition);
+    }
+  }
+
+  if (sportsMarketPositions.length > 0) {
+    result.sportsMarkets = sportsMarketPositions;
+  }
+
   return result;
 }
 
@@ -642,6 +968,51 @@ export class PositionService {
     return calculateBookmakerPosition(bets, marketId, marketSelections);
   }
 
+  /**
+   * Calculate Toss position
+   *
+   * @param bets - Array of bets
+   * @param marketId - Market ID (required)
+   * @param marketSelections - Both runner IDs of the toss market (required)
+   */
+  calculateTossPosition(
+    bets: BetForPosition[] | Bet[],
+    marketId: string,
+    marketSelections: string[],
+  ): TossPosition | null {
+    return calculateTossPosition(bets, marketId, marketSelections);
+  }
+
+  /**
+   * Calculate sports market position (soccer Over/Under, BTTS, Correct Score, tennis Set Betting)
+   *
+   * @param bets - Array of bets
+   * @param marketId - Market ID (required)
+   * @param marketSelections - All runner IDs of the market (required)
+   */
+  calculateSportsMarketPosition(
+    bets: BetForPosition[] | Bet[],
+    marketId: string,
+    marketSelections: string[],
+  ): SportsMarketPosition | null {
+    return calculateSportsMarketPosition(bets, marketId, marketSelections);
+  }
+
+  /**
+   * Calculate Cash-Out hedge for a Match Odds / Bookmaker position
+   *
+   * @param position - Market position (net P/L per runner)
+   * @param prices - Current best back/lay per runner
+   * @param percent - Share of the position to cash out (1-100)
+   */
+  calculateCashOut(
+    position: MatchOddsPosition | BookmakerPosition,
+    prices: CashOutPrices,
+    percent?: number,
+  ): CashOutQuote | null {
+    return calculateCashOut(position, prices, percent);
+  }
+
   /**
    * Calculate all positions (all market types)
    * 
@@ -1,11 +1,14 @@
 import {
+  Body,
   Controller,
   Get,
+  Post,
   UseGuards,
   HttpException,
   HttpStatus,
   Logger,
   Param,
+  ParseIntPipe,
   Query,
 } from '@nestjs/common';
 import { PositionService } from './position.service';
@@ -13,14 +16,21 @@ import { PrismaService } from '../prisma/prisma.service';
 import { AggregatorService } from '../cricketid/aggregator.service';
 import { CricketIdService } from '../cricketid/cricketid.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { Playlive24OriginGuard } from '../common/guards/playlive24-origin.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { BetStatus } from '@prisma/client';
 import type { User } from '@prisma/client';
 import { RedisService } from '../common/redis/redis.service';
+import { BetsService } from '../bets/bets.service';
+import { FancyExposureService } from '../bets/fancy-exposure.service';
+import { PlaceBetDto } from '../bets/bets.dto';
+import { CashOutDto } from './positions.dto';
+import { isSportsMarketGtype } from '../constants/sports-markets';
 import { 
   calculateAllPositions,
   MatchOddsPosition,
   BookmakerPosition,
+  CashOutPrices,
 } from './position.service';
 
 @Controller('positions')
@@ -34,6 +44,8 @@ export class PositionsController {
     private readonly aggregatorService: AggregatorService,
     private readonly cricketIdService: CricketIdService,
     private readonly redisService: RedisService, // ✅ PERFORMANCE: Redis for position snapshots
+    private readonly betsService: BetsService,
+    private readonly fancyExposureService: FancyExposureService,
   ) {}
 
   private isTiedMatchMarketName(marketName: string | null | undefined): boolean {
@@ -208,6 +220,16 @@ export class PositionsController {
    *     "7337": 120,
    *     "10301": -150
    *   },
+   *   "toss": {
+   *     "1": 90,         // selectionId -> net P/L if that side wins the toss
+   *     "2": -100
+   *   },
+   *   "sportsMarkets": {
+   *     "1.237066385": { // marketId (soccer Over/Under, BTTS, Correct Score, tennis Set Betting)
+   *       "gtype": "overunder",
+   *       "runners": { "47972": -100, "47973": 85 }
+   *     }
+   *   },
    *   "fancy": {
    *     "fancyId_1": {
    *       "YES": 50,
@@ -328,11 +350,26 @@ export class PositionsController {
         }
       }
       
+      // Soccer/tennis sports market ids by eventId (runners resolved from getMatchDetail by exact marketId)
+      const sportsMarketIdsByEvent = new Map<string, Set<string>>();
+      for (const bet of openBets) {
+        if (isSportsMarketGtype(bet.gtype) && bet.marketId && bet.eventId) {
+          if (!sportsMarketIdsByEvent.has(bet.eventId)) {
+            sportsMarketIdsByEvent.set(bet.eventId, new Set());
+          }
+          sportsMarketIdsByEvent.get(bet.eventId)!.add(bet.marketId);
+        }
+      }
+
       // ✅ PERFORMANCE: Get ALL runners from getMatchDetail API in parallel (not sequential)
       // ✅ PERFORMANCE: getMatchDetail now reads from Redis cache (fast, <10ms)
       // This ensures we use the correct selectionIds that match the actual bets
       const eventIds = Array.from(
-        new Set([...matchOddsBetsByEvent.keys(), ...bookmakerBetsByEvent.keys()]),
+        new Set([
+          ...matchOddsBetsByEvent.keys(),
+          ...bookmakerBetsByEvent.keys(),
+          ...sportsMarketIdsByEvent.keys(),
+        ]),
       );
       
       // ✅ PERFORMANCE: Fetch all match details in parallel instead of sequentially
@@ -464,9 +501,39 @@ export class PositionsController {
               }
             }
           }
+
+          // Sports markets: exact marketId only (several Over/Under lines share runner names)
+          for (const sportsMarketId of sportsMarketIdsByEvent.get(eventId) ??
+            []) {
+            const apiMarket = markets.find(
+              (m: any) => String(m?.marketId) === sportsMarketId,
+            );
+            const runnerIds = (
+              Array.isArray(apiMarket?.runners) ? apiMarket.runners : []
+            )
+              .map((r: any) =>
+                r?.selectionId !== null && r?.selectionId !== undefined
+                  ? String(r.selectionId)
+                  : null,
+              )
+              .filter((id): id is string => id !== null);
+            if (runnerIds.length > 0) {
+              marketSelectionsMap.set(sportsMarketId, runnerIds);
+            } else {
+              this.logger.warn(
+                `Sports market (marketId ${sportsMarketId}) not found in getMatchDetail for eventId ${eventId}. Skipping (do not fall back to bets).`,
+              );
+            }
+          }
         }
       }
 
+      // Toss runners come from the Diamond toss market, same rule: never built from bets
+      await this.addTossMarketSelections(
+        openBets.filter((bet) => (bet.gtype || '').toLowerCase() === 'toss'),
+        marketSelectionsMap,
+      );
+
       // Keep tied-match markets fully separated from Match Odds calculation.
       const betsForStandardPosition = openBets.filter((bet) => {
         const betGtype = (bet.gtype || '').toLowerCase();
@@ -628,6 +695,38 @@ export class PositionsController {
         }
       }
       
+      // Transform Toss: flatten runners to selectionId -> net
+      if (allPositions.toss && allPositions.toss.length > 0) {
+        const tossFlat: Record<string, number> = {};
+        for (const tossPos of allPositions.toss) {
+          for (const [selectionId, runner] of Object.entries(tossPos.runners)) {
+            tossFlat[selectionId] = (tossFlat[selectionId] || 0) + runner.net;
+          }
+        }
+        if (Object.keys(tossFlat).length > 0) {
+          response.toss = tossFlat;
+        }
+      }
+
+      // Transform sports markets: marketId -> { gtype, runners: selectionId -> net }
+      // (kept per market: Over/Under lines and Correct Score reuse selection ids across markets)
+      if (allPositions.sportsMarkets && allPositions.sportsMarkets.length > 0) {
+        const sportsFlat: Record<
+          string,
+          { gtype: string; runners: Record<string, number> }
+        > = {};
+        for (const sportsPos of allPositions.sportsMarkets) {
+          const runners: Record<string, number> = {};
+          for (const [selectionId, runner] of Object.entries(
+            sportsPos.runners,
+          )) {
+            runners[selectionId] = runner.net;
+          }
+          sportsFlat[sportsPos.marketId] = { gtype: sportsPos.gtype, runners };
+        }
+        response.sportsMarkets = sportsFlat;
+      }
+
       // Transform Fancy: convert array to object with fancyId as key
       if (allPositions.fancy && allPositions.fancy.length > 0) {
         const fancyFlat: Record<string, { YES: number; NO: number }> = {};
@@ -852,6 +951,452 @@ export class PositionsController {
     }
   }
 
+  /**
+   * ✅ GET /positions/market/:marketId/cashout?percent=100
+   *
+   * Cash-out (green-up) quote for an open Match Odds / Bookmaker position at current prices:
+   * the hedge bet(s) that level P/L across every runner, and each runner's P/L after them.
+   * `percent` < 100 quotes a partial cash-out (hedge stakes scaled down).
+   */
+  @Get('market/:marketId/cashout')
+  async getCashOutQuote(
+    @CurrentUser() user: User,
+    @Param('marketId') marketId: string,
+    @Query('percent') percent?: string,
+  ) {
+    try {
+      const { quote, position } = await this.buildCashOutQuote(
+        user.id,
+        marketId,
+        percent === undefined || percent === '' ? 100 : Number(percent),
+      );
+      return {
+        success: true,
+        data: quote,
+        position,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(
+        `Error quoting cash-out for user ${user.id}, market ${marketId}:`,
+        error,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Failed to quote cash-out',
+          code: 'CASHOUT_QUOTE_FAILED',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * ✅ POST /positions/market/:marketId/cashout
+   *
+   * Re-quotes at current prices and places the hedge through BetsService.placeBetSlip, so every
+   * normal validation (limits, rate check, balance, exposure, accept delay) applies.
+   * Body: { percent?: number } (1-100, default 100).
+   *
+   * All legs of the hedge are one slip: they are placed together in one transaction, or none
+   * is (BET_SLIP_REJECTED marks the failing leg). Under an accept delay the slip is parked and
+   * the response carries its acceptanceId instead of `placed`.
+   */
+  @Post('market/:marketId/cashout')
+  @UseGuards(Playlive24OriginGuard)
+  async executeCashOut(
+    @CurrentUser() user: User,
+    @Param('marketId') marketId: string,
+    @Body() dto: CashOutDto,
+  ) {
+    const { quote, openBets, runnerNames } = await this.buildCashOutQuote(
+      user.id,
+      marketId,
+      dto.percent ?? 100,
+    );
+
+    const betDtos = quote.legs.map((leg): PlaceBetDto => {
+      const template =
+        openBets.find((b) => String(b.selectionId) === leg.selectionId) ??
+        openBets[0];
+      const isMatchOdds = ['matchodds', 'match'].includes(
+        (template.gtype || '').toLowerCase(),
+      );
+
+      return {
+        selection_id: Number(leg.selectionId),
+        bet_type: leg.betType,
+        user_id: user.id,
+        bet_name:
+          runnerNames[leg.selectionId] ?? template.betName ?? leg.selectionId,
+        // placeBet reads match odds >= 10 as scaled feed values, so send those in hundredths
+        bet_rate:
+          isMatchOdds && leg.odds >= 10 ? Math.round(leg.odds * 100) : leg.odds,
+        match_id: Number(template.matchId),
+        market_name: template.marketName ?? '',
+        betvalue: leg.stake,
+        market_type: template.marketType ?? '',
+        win_amount: 0,
+        loss_amount: 0,
+        gtype: template.gtype ?? '',
+        marketId,
+        eventId: template.eventId ?? undefined,
+      };
+    });
+
+    const slip = await this.betsService.placeBetSlip(betDtos);
+    // Accept delay: the hedge is parked as one slip (AWAITING_ACCEPTANCE with an acceptanceId)
+    if (!('results' in slip)) {
+      return { ...slip, data: quote };
+    }
+
+    return {
+      success: true,
+      data: quote,
+      placed: quote.legs.map((leg, index) => ({
+        leg,
+        result: slip.results[index],
+      })),
+      available_balance: slip.available_balance,
+      liability: slip.liability,
+    };
+  }
+
+  /**
+   * Shared by the cash-out quote and execution: open bets → catalog runners → position → live prices → hedge.
+   */
+  private async buildCashOutQuote(
+    userId: string,
+    marketId: string,
+    percent: number,
+  ) {
+    if (!Number.isFinite(percent) || percent < 1 || percent > 100) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'percent must be between 1 and 100',
+          code: 'INVALID_CASHOUT_PERCENT',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const openBets = await this.prisma.bet.findMany({
+      where: {
+        userId,
+        marketId,
+        status: BetStatus.PENDING,
+      },
+      select: {
+        id: true,
+        gtype: true,
+        marketId: true,
+        eventId: true,
+        matchId: true,
+        selectionId: true,
+        betType: true,
+        betValue: true,
+        amount: true,
+        betRate: true,
+        odds: true,
+        winAmount: true,
+        lossAmount: true,
+        betName: true,
+        marketName: true,
+        marketType: true,
+        status: true,
+      },
+    });
+
+    if (openBets.length === 0) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'No open bets found for this market',
+          code: 'NO_OPEN_POSITION',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const gtype = (openBets[0]?.gtype || '').toLowerCase();
+    let kind: 'matchOdds' | 'bookmaker';
+    if (gtype === 'matchodds' || gtype === 'match') {
+      kind = 'matchOdds';
+    } else if (gtype === 'bookmaker' || gtype.startsWith('match')) {
+      kind = 'bookmaker';
+    } else {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Market type '${gtype}' not supported. Cash-out is available for Match Odds and Bookmaker only.`,
+          code: 'UNSUPPORTED_MARKET_TYPE',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const eventId = openBets[0]?.eventId ?? '';
+    let catalogRunners: any[] = [];
+    if (eventId) {
+      try {
+        const marketDetails =
+          await this.aggregatorService.getMatchDetail(eventId);
+        const apiMarket = this.resolveCatalogMarketNode(
+          Array.isArray(marketDetails) ? marketDetails : [],
+          marketId,
+          openBets,
+          kind,
+        );
+        catalogRunners = Array.isArray(apiMarket?.runners)
+          ? apiMarket.runners
+          : [];
+      } catch (error) {
+        this.logger.warn(
+          `Cash-out: failed to fetch market details for eventId ${eventId}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const runnerNames: Record<string, string> = {};
+    for (const r of catalogRunners) {
+      if (r?.selectionId === null || r?.selectionId === undefined) continue;
+      runnerNames[String(r.selectionId)] = String(
+        r.runnerName || r.name || r.selectionId,
+      );
+    }
+    const marketSelections = Object.keys(runnerNames);
+
+    const position =
+      marketSelections.length === 0
+        ? null
+        : kind === 'matchOdds'
+          ? this.positionService.calculateMatchOddsPosition(
+              openBets,
+              marketId,
+              marketSelections,
+            )
+          : this.positionService.calculateBookmakerPosition(
+              openBets,
+              marketId,
+              marketSelections,
+            );
+    if (!position) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Market runners unavailable; cannot calculate position',
+          code: 'CASHOUT_MARKET_UNAVAILABLE',
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const prices =
+      kind === 'matchOdds'
+        ? await this.getMatchOddsCashOutPrices(marketId)
+        : await this.getBookmakerCashOutPrices(
+            eventId,
+            marketId,
+            openBets,
+            runnerNames,
+          );
+
+    const quote = this.positionService.calculateCashOut(
+      position,
+      prices,
+      percent,
+    );
+    if (!quote) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'Position is already level or current prices cannot hedge it',
+          code: 'CASHOUT_UNAVAILABLE',
+          position,
+          prices,
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    return { quote, position, openBets, runnerNames };
+  }
+
+  /** Best back (highest) / lay (lowest) per runner from the live Betfair feed (same as placeBet's rate check). */
+  private async getMatchOddsCashOutPrices(
+    marketId: string,
+  ): Promise<CashOutPrices> {
+    const payload: any = await this.cricketIdService.getBetfairOdds(marketId, {
+      skipCache: true,
+    });
+    const markets: any[] = Array.isArray(payload)
+      ? payload
+      : Array.isArray(payload?.data)
+        ? payload.data
+        : [];
+    const market = markets.find(
+      (m: any) => String(m?.marketId ?? '').trim() === String(marketId).trim(),
+    );
+    const pick = (
+      levels: unknown,
+      best: (...values: number[]) => number,
+    ): number | null => {
+      const values = (Array.isArray(levels) ? levels : [])
+        .map((x: any) => Number(x?.price ?? x?.p ?? 0))
+        .filter((n: number) => Number.isFinite(n) && n > 1);
+      return values.length ? best(...values) : null;
+    };
+
+    const prices: CashOutPrices = {};
+    for (const runner of Array.isArray(market?.runners) ? market.runners : []) {
+      const selectionId = String(
+        runner?.selectionId ?? runner?.id ?? '',
+      ).trim();
+      if (!selectionId) continue;
+      prices[selectionId] = {
+        back: pick(runner?.ex?.availableToBack, Math.max),
+        lay: pick(runner?.ex?.availableToLay, Math.min),
+      };
+    }
+    return prices;
+  }
+
+  /**
+   * Runner ids for each open Toss market, read from the Diamond toss market
+   * (GET /cricketid/bookmaker-fancy). Markets missing from the feed are skipped.
+   */
+  private async addTossMarketSelections(
+    tossBets: Array<{ eventId: string | null; marketId: string | null }>,
+    marketSelectionsMap: Map<string, string[]>,
+  ): Promise<void> {
+    const marketIdsByEvent = new Map<string, Set<string>>();
+    for (const bet of tossBets) {
+      if (!bet.eventId || !bet.marketId) continue;
+      if (!marketIdsByEvent.has(bet.eventId)) {
+        marketIdsByEvent.set(bet.eventId, new Set());
+      }
+      marketIdsByEvent.get(bet.eventId)!.add(bet.marketId);
+    }
+
+    await Promise.all(
+      Array.from(marketIdsByEvent.entries()).map(
+        async ([eventId, marketIds]) => {
+          try {
+            const payload =
+              await this.cricketIdService.getBookmakerFancy(eventId);
+            const tossMarkets = (
+              Array.isArray(payload?.data) ? payload.data : []
+            ).filter((m) =>
+              String(m?.mname || '')
+                .toUpperCase()
+                .includes('TOSS'),
+            );
+            for (const marketId of marketIds) {
+              const market =
+                tossMarkets.find(
+                  (m) => String(m?.mid ?? m?.marketId ?? '') === marketId,
+                ) ?? (tossMarkets.length === 1 ? tossMarkets[0] : undefined);
+              const sections: any[] = Array.isArray(market?.section)
+                ? market.section
+                : [];
+              const selectionIds = sections
+                .map((s) =>
+                  s?.sid !== null && s?.sid !== undefined
+                    ? String(s.sid)
+                    : null,
+                )
+                .filter((id): id is string => id !== null);
+              if (selectionIds.length > 0) {
+                marketSelectionsMap.set(marketId, selectionIds);
+              } else {
+                this.logger.warn(
+                  `Toss market (marketId ${marketId}) not found in bookmaker-fancy for eventId ${eventId}. Skipping (do not fall back to bets).`,
+                );
+              }
+            }
+          } catch (error: any) {
+            this.logger.debug(
+              `Could not fetch bookmaker-fancy for toss eventId ${eventId}: ${error?.message || String(error)}.`,
+            );
+          }
+        },
+      ),
+    );
+  }
+
+  /**
+   * Bookmaker rates from the Diamond bookmaker section (GET /cricketid/bookmaker-fancy), converted
+   * to the decimal odds bookmaker bets and positions use (45 → 1.45). Suspended markets/runners have no price.
+   */
+  private async getBookmakerCashOutPrices(
+    eventId: string,
+    marketId: string,
+    openBets: Array<{ marketName: string | null }>,
+    runnerNames: Record<string, string>,
+  ): Promise<CashOutPrices> {
+    const payload = eventId
+      ? await this.cricketIdService.getBookmakerFancy(eventId)
+      : null;
+    const markets = Array.isArray(payload?.data) ? payload.data : [];
+    const betMarketName = String(openBets[0]?.marketName || '')
+      .trim()
+      .toUpperCase();
+    const bookmakerMarkets = markets.filter((m) =>
+      String(m?.mname || '')
+        .toUpperCase()
+        .includes('BOOKMAKER'),
+    );
+    const market =
+      markets.find(
+        (m) => String(m?.mid ?? m?.marketId ?? '') === String(marketId),
+      ) ??
+      bookmakerMarkets.find(
+        (m) =>
+          String(m?.mname || '')
+            .trim()
+            .toUpperCase() === betMarketName,
+      ) ??
+      (bookmakerMarkets.length === 1 ? bookmakerMarkets[0] : undefined);
+
+    const prices: CashOutPrices = {};
+    if (!market || market.isSuspended) {
+      return prices;
+    }
+
+    const sections: any[] = Array.isArray(market.section) ? market.section : [];
+    const toDecimal = (rate: number) => (rate >= 1 ? 1 + rate / 100 : 0);
+    for (const [selectionId, name] of Object.entries(runnerNames)) {
+      const section = sections.find(
+        (s) =>
+          String(s?.sid ?? '') === selectionId ||
+          String(s?.nat || '')
+            .trim()
+            .toLowerCase() === name.trim().toLowerCase(),
+      );
+      const status = String(section?.gstatus || '').toUpperCase();
+      if (!section || (status && status !== 'ACTIVE' && status !== 'OPEN'))
+        continue;
+
+      const rates = (otype: string) =>
+        (Array.isArray(section.odds) ? section.odds : [])
+          .filter((o: any) => String(o?.otype || '').toLowerCase() === otype)
+          .map((o: any) => toDecimal(Number(o?.odds)))
+          .filter((n: number) => Number.isFinite(n) && n > 1);
+      const backs = rates('back');
+      const lays = rates('lay');
+      prices[selectionId] = {
+        back: backs.length ? Math.max(...backs) : null,
+        lay: lays.length ? Math.min(...lays) : null,
+      };
+    }
+    return prices;
+  }
+
   /**
    * ✅ GET /positions/fancy
    * 
@@ -912,5 +1457,79 @@ export class PositionsController {
       );
     }
   }
-}
 
+  /**
+   * ✅ GET /positions/fancy/:eventId/:selectionId/ladder
+   *
+   * P/L of the authenticated user's pending bets on one fancy at every run value.
+   * Optional `from` / `to` set the run range (default: bet lines ± 5 runs).
+   */
+  @Get('fancy/:eventId/:selectionId/ladder')
+  async getFancyLadder(
+    @CurrentUser() user: User,
+    @Param('eventId') eventId: string,
+    @Param('selectionId', ParseIntPipe) selectionId: number,
+    @Query('from', new ParseIntPipe({ optional: true })) from?: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ) {
+    try {
+      const fancyBets = await this.prisma.bet.findMany({
+        where: {
+          userId: user.id,
+          status: BetStatus.PENDING,
+          gtype: 'fancy',
+          eventId,
+          selectionId,
+        },
+        select: {
+          gtype: true,
+          eventId: true,
+          selectionId: true,
+          betType: true,
+          betValue: true,
+          amount: true,
+          betRate: true,
+          odds: true,
+          winAmount: true,
+          lossAmount: true,
+          betName: true,
+        },
+      });
+
+      const ladder = this.fancyExposureService.calculateFancyRunPnl(fancyBets, {
+        from,
+        to,
+      });
+
+      return {
+        success: true,
+        data: {
+          eventId,
+          selectionId,
+          betName: fancyBets[0]?.betName ?? null,
+          ...ladder,
+          exposure:
+            this.fancyExposureService.calculateFancyExposureInMemory(fancyBets),
+        },
+        betCount: fancyBets.length,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error calculating fancy ladder for user ${user.id}:`,
+        error,
+      );
+
+      throw new HttpException(
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Failed to calculate fancy ladder',
+          code: 'POSITION_CALCULATION_FAILED',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
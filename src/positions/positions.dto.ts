@@ -0,0 +1,11 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CashOutDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  percent?: number; // Share of the position to cash out (default 100)
+}
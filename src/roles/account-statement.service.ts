@@ -1,6 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { TransactionType, TransferLogType, BetStatus } from '@prisma/client';
+import {
+  TransactionType,
+  TransferLogType,
+  BetStatus,
+  MarketType,
+} from '@prisma/client';
 
 /**
  * Account Statement Service
@@ -8,7 +13,7 @@ import { TransactionType, TransferLogType, BetStatus } from '@prisma/client';
  * Provides comprehensive account statement with:
  * - Cash transactions (CashIn/CashOut)
  * - Match settlements (Profit/Loss)
- * - Market Commission
+ * - Market Commission (paid on net winnings, and earned from downline via HierarchyPnl)
  * - Session Profit/Loss
  * - Toss Profit/Loss
  * 
@@ -165,6 +170,10 @@ export class AccountStatementService {
           status: { in: [BetStatus.WON, BetStatus.LOST, BetStatus.CANCELLED] },
           settlementId: { not: null },
           eventId: { not: null },
+          // Toss bets get their own TOSS rows when requested, so don't count them twice
+          ...(showTossPnl
+            ? { NOT: { settlementId: { startsWith: 'CRICKET:TOSS:' } } }
+            : {}),
           ...(fromDate || toDate
             ? {
                 settledAt: {
@@ -195,6 +204,44 @@ export class AccountStatementService {
         orderBy: { settledAt: 'desc' },
       });
 
+      // Market commission paid on net winnings: one debit line per settled market
+      const marketCommissions = await this.prisma.marketCommission.findMany({
+        where: {
+          userId,
+          ...(fromDate || toDate
+            ? {
+                createdAt: {
+                  ...(fromDate ? { gte: fromDate } : {}),
+                  ...(toDate ? { lte: toDate } : {}),
+                },
+              }
+            : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      const commissionByEventId = new Map<string, number>();
+      for (const commission of marketCommissions) {
+        commissionByEventId.set(
+          commission.eventId,
+          (commissionByEventId.get(commission.eventId) || 0) +
+            commission.amount,
+        );
+        allEntries.push({
+          id: commission.id,
+          date: commission.createdAt,
+          type: 'COMMISSION',
+          description: `Market Commission ${commission.rate}% - ${commission.marketType}`,
+          result: null,
+          credit: 0,
+          debit: commission.amount,
+          balance: 0, // Will be calculated later
+          settlementId: commission.settlementId,
+          eventId: commission.eventId,
+          marketId: commission.marketId,
+          hasBets: false,
+        });
+      }
+
       // Group by eventId to show one entry per match
       const betsByEventId = new Map<string, typeof settledBets>();
       for (const bet of settledBets) {
@@ -241,7 +288,7 @@ export class AccountStatementService {
           result = latestBet.betName || 'Settled';
         }
 
-        const description = `Cricket/${matchName} : Match COM 0.00`;
+        const description = `Cricket/${matchName} : Match COM ${(commissionByEventId.get(eventId) || 0).toFixed(2)}`;
 
         allEntries.push({
           id: `match_${eventId}`,
@@ -301,6 +348,7 @@ export class AccountStatementService {
         where: {
           userId,
           // Assuming session is tracked via a specific market type or event
+          ...(showTossPnl ? { marketType: { not: MarketType.TOSS } } : {}),
           ...(fromDate || toDate
             ? {
                 createdAt: {
@@ -333,14 +381,17 @@ export class AccountStatementService {
       }
     }
 
-    // 5️⃣ Get Toss Profit/Loss (similar to session, could be from specific market type)
+    // 5️⃣ Get Toss Profit/Loss (settled Toss markets, one row per settlement)
     if (showTossPnl) {
-      // Toss PnL would be similar to session - could be from UserPnl with marketType = 'TOSS'
-      // For now, we'll check if there are any bets with marketName containing 'Toss'
+      // gtype 'toss' bets settle under CRICKET:TOSS:*; marketName match keeps legacy toss bets visible
       const tossBets = await this.prisma.bet.findMany({
         where: {
           userId,
-          marketName: { contains: 'Toss', mode: 'insensitive' },
+          OR: [
+            { gtype: 'toss' },
+            { settlementId: { startsWith: 'CRICKET:TOSS:' } },
+            { marketName: { contains: 'Toss', mode: 'insensitive' } },
+          ],
           status: { in: [BetStatus.WON, BetStatus.LOST] },
           ...(fromDate || toDate
             ? {
@@ -1,7 +1,8 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { PositionService, calculateMatchOddsPosition, calculateFancyPosition, MatchOddsPosition, FancyPosition, BetForPosition } from '../positions/position.service';
 import { AggregatorService } from '../cricketid/aggregator.service';
+import { FancyExposureService } from '../bets/fancy-exposure.service';
 import { BetStatus, UserRole } from '@prisma/client';
 
 /**
@@ -63,6 +64,31 @@ export interface MatchData {
   clients: ClientPosition[];
 }
 
+export interface FancyLadderRow {
+  runs: number;
+  pnl: number;
+}
+
+export interface AgentFancyLadderResult {
+  agentId: string;
+  eventId: string;
+  selectionId: number;
+  betName: string | null;
+  from: number;
+  to: number;
+  totalBets: number;
+  totalClients: number;
+  agentExposure: number;
+  rows: FancyLadderRow[]; // Agent P/L per run value (inverse of clients)
+  clients: Array<{
+    clientId: string;
+    clientName: string | null;
+    clientUsername: string | null;
+    totalBets: number;
+    rows: FancyLadderRow[]; // Client P/L per run value
+  }>;
+}
+
 export interface AgentMatchBookResult {
   agentId: string;
   totalIfWin: number;
@@ -84,6 +110,7 @@ export class AgentMatchBookService {
     private readonly prisma: PrismaService,
     private readonly positionService: PositionService,
     private readonly aggregatorService: AggregatorService,
+    private readonly fancyExposureService: FancyExposureService,
   ) {}
 
   /**
@@ -568,5 +595,109 @@ export class AgentMatchBookService {
       matches: matchesData,
     };
   }
-}
 
+  /**
+   * Get Agent Fancy Ladder
+   *
+   * P/L at every run value of one fancy, per client and for the agent (inverse of the clients'
+   * total). All rows share one run range: `from`/`to` or the clients' bet lines ± 5 runs.
+   *
+   * @param agentId - Agent user ID
+   * @param eventId - Event ID of the fancy
+   * @param selectionId - Fancy selection ID
+   * @param range - Optional first/last run value
+   */
+  async getAgentFancyLadder(
+    agentId: string,
+    eventId: string,
+    selectionId: number,
+    range: { from?: number; to?: number } = {},
+  ): Promise<AgentFancyLadderResult> {
+    if (!eventId || !Number.isInteger(selectionId)) {
+      throw new BadRequestException('eventId and selectionId are required');
+    }
+
+    const clients = await this.prisma.user.findMany({
+      where: {
+        parentId: agentId,
+        role: UserRole.CLIENT,
+      },
+      select: {
+        id: true,
+        name: true,
+        username: true,
+      },
+    });
+
+    const bets = clients.length
+      ? await this.prisma.bet.findMany({
+          where: {
+            userId: { in: clients.map((c) => c.id) },
+            status: BetStatus.PENDING,
+            gtype: 'fancy',
+            eventId,
+            selectionId,
+          },
+          select: {
+            userId: true,
+            gtype: true,
+            eventId: true,
+            selectionId: true,
+            betType: true,
+            betValue: true,
+            amount: true,
+            betRate: true,
+            odds: true,
+            winAmount: true,
+            lossAmount: true,
+            betName: true,
+          },
+        })
+      : [];
+
+    // Range and totals from all clients' bets, then each client over the same range
+    const total = this.fancyExposureService.calculateFancyRunPnl(bets, range);
+    const betsByClient = new Map<string, typeof bets>();
+    for (const bet of bets) {
+      if (!betsByClient.has(bet.userId)) {
+        betsByClient.set(bet.userId, []);
+      }
+      betsByClient.get(bet.userId)!.push(bet);
+    }
+
+    const clientLadders = clients
+      .filter((client) => betsByClient.has(client.id))
+      .map((client) => {
+        const clientBets = betsByClient.get(client.id)!;
+        return {
+          clientId: client.id,
+          clientName: client.name,
+          clientUsername: client.username,
+          totalBets: clientBets.length,
+          rows: this.fancyExposureService.calculateFancyRunPnl(clientBets, {
+            from: total.from,
+            to: total.to,
+          }).rows,
+        };
+      });
+
+    const rows = total.rows.map((row) => ({
+      runs: row.runs,
+      pnl: row.pnl === 0 ? 0 : -row.pnl,
+    }));
+
+    return {
+      agentId,
+      eventId,
+      selectionId,
+      betName: bets[0]?.betName ?? null,
+      from: total.from,
+      to: total.to,
+      totalBets: bets.length,
+      totalClients: clientLadders.length,
+      agentExposure: Math.max(0, ...rows.map((row) => -row.pnl)),
+      rows,
+      clients: clientLadders,
+    };
+  }
+}
@@ -265,4 +265,28 @@ export class AgentController {
       marketType,
     );
   }
+
+  /**
+   * Get Agent Fancy Ladder
+   *
+   * P/L at every run value of one fancy for each client and for the agent.
+   *
+   * Example:
+   * - GET /agent/match-book/fancy-ladder?eventId=5331&selectionId=12&from=40&to=60
+   */
+  @Get('match-book/fancy-ladder')
+  async getMatchBookFancyLadder(
+    @CurrentUser() currentUser: User,
+    @Query('eventId') eventId: string,
+    @Query('selectionId', ParseIntPipe) selectionId: number,
+    @Query('from', new ParseIntPipe({ optional: true })) from?: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ) {
+    return this.agentMatchBookService.getAgentFancyLadder(
+      currentUser.id,
+      eventId,
+      selectionId,
+      { from, to },
+    );
+  }
 }
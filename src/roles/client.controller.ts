@@ -52,7 +52,11 @@ export class ClientController {
    */
   @Get('profile')
   async getProfile(@CurrentUser() currentUser: User) {
-    return this.usersService.getCurrentUser(currentUser.id);
+    const [profile, stakeLimits] = await Promise.all([
+      this.usersService.getCurrentUser(currentUser.id),
+      this.usersService.getEffectiveStakeLimits(currentUser.id),
+    ]);
+    return { ...profile, stakeLimits };
   }
 
   /**
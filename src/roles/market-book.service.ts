@@ -0,0 +1,581 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { BetStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+import {
+  calculateMatchOddsPosition,
+  calculateBookmakerPosition,
+  BetForPosition,
+} from '../positions/position.service';
+import { FancyExposureService } from '../bets/fancy-exposure.service';
+import { AggregatorService } from '../cricketid/aggregator.service';
+import { CricketIdService } from '../cricketid/cricketid.service';
+import { MarketSuspensionService } from '../cricketid/market-suspension.service';
+
+/**
+ * Market Book Service (house liability)
+ *
+ * Platform-wide version of the agent match book: aggregates every client's PENDING bets of a
+ * market into the house P/L per outcome (house = inverse of the clients). Match Odds and
+ * Bookmaker give one net per runner; fancy gives a run ladder per selection.
+ *
+ * A liability above the configured threshold of its market type blocks the market (or fancy
+ * selection) through the market suspension lists. Markets with recent bets are checked every
+ * 15 seconds; each market/selection is auto-blocked at most once a day, so an admin can lift it.
+ *
+ * 🚨 Preview only: no wallet or bet mutations.
+ */
+
+export type MarketBookType = 'matchodds' | 'bookmaker' | 'fancy';
+
+/** Setting `market_book_alert`: liability threshold per market type, and whether crossing it blocks. */
+export interface MarketBookAlertConfig {
+  thresholds: Partial<Record<MarketBookType, number>>;
+  autoBlock: boolean;
+}
+
+export interface FancyBook {
+  selectionId: string;
+  name: string | null;
+  totalBets: number;
+  /** House P/L per band of runs */
+  ladder: Array<{ from: number; to: number | null; net: number }>;
+  liability: number;
+  thresholdCrossed: boolean;
+  blocked: boolean;
+}
+
+export interface MarketBook {
+  eventId: string;
+  marketId: string;
+  marketType: MarketBookType;
+  marketName: string | null;
+  totalBets: number;
+  totalClients: number;
+  totalStake: number;
+  /** House P/L if each runner wins (Match Odds / Bookmaker) */
+  runners: Record<string, { net: number; name?: string }>;
+  /** Per selection run ladders (fancy) */
+  fancies: FancyBook[];
+  /** Largest amount the house can lose on this market */
+  liability: number;
+  threshold: number | null;
+  thresholdCrossed: boolean;
+  blocked: boolean;
+}
+
+type BookBet = BetForPosition & { userId: string };
+
+/** Fields read from the vendor's match detail and bookmaker-fancy payloads. */
+interface VendorMarket {
+  marketId?: string | number;
+  marketName?: string;
+  mid?: string | number;
+  mname?: string;
+  runners?: unknown;
+  section?: unknown;
+}
+interface VendorRunner {
+  selectionId?: string | number | null;
+  runnerName?: string;
+  name?: string;
+  sid?: string | number | null;
+  nat?: string;
+}
+
+/** Vendor data of one event used for runner lists and names. */
+interface EventRunners {
+  matchOdds: Map<string, { name: string | null; runners: Map<string, string> }>;
+  bookmaker: Map<string, { name: string | null; runners: Map<string, string> }>;
+}
+
+@Injectable()
+export class MarketBookService {
+  private readonly logger = new Logger(MarketBookService.name);
+  private readonly MARKET_BOOK_ALERT_KEY = 'market_book_alert';
+  /** Markets with a bet in this window are re-checked by the alert job. */
+  private readonly ALERT_ACTIVITY_WINDOW_MS = 60_000;
+  private readonly AUTO_BLOCK_MARKER_TTL_SEC = 24 * 3600;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly fancyExposureService: FancyExposureService,
+    private readonly aggregatorService: AggregatorService,
+    private readonly cricketIdService: CricketIdService,
+    private readonly marketSuspensionService: MarketSuspensionService,
+  ) {}
+
+  private parseMarketBookAlertConfig(
+    raw: string | null | undefined,
+  ): MarketBookAlertConfig {
+    const config: MarketBookAlertConfig = { thresholds: {}, autoBlock: true };
+    if (!raw) return config;
+    try {
+      const parsed = JSON.parse(raw) as Partial<MarketBookAlertConfig>;
+      if (parsed.thresholds && typeof parsed.thresholds === 'object') {
+        config.thresholds = parsed.thresholds;
+      }
+      if (typeof parsed.autoBlock === 'boolean') {
+        config.autoBlock = parsed.autoBlock;
+      }
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.MARKET_BOOK_ALERT_KEY} setting, ignoring it`,
+      );
+    }
+    return config;
+  }
+
+  async getAlertConfig(): Promise<MarketBookAlertConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.MARKET_BOOK_ALERT_KEY },
+      select: { value: true },
+    });
+    return this.parseMarketBookAlertConfig(existing?.value);
+  }
+
+  /**
+   * Update thresholds (null removes one) and/or autoBlock.
+   */
+  async updateAlertConfig(update: {
+    thresholds?: Partial<Record<string, number | null>>;
+    autoBlock?: boolean;
+  }): Promise<MarketBookAlertConfig> {
+    const config = await this.getAlertConfig();
+    for (const [marketType, threshold] of Object.entries(
+      update.thresholds ?? {},
+    )) {
+      if (!['matchodds', 'bookmaker', 'fancy'].includes(marketType)) {
+        throw new BadRequestException(
+          'threshold market type must be matchodds, bookmaker or fancy',
+        );
+      }
+      if (threshold === null || threshold === undefined) {
+        delete config.thresholds[marketType as MarketBookType];
+        continue;
+      }
+      if (!Number.isFinite(threshold) || threshold <= 0) {
+        throw new BadRequestException(
+          `${marketType} threshold must be a positive number or null`,
+        );
+      }
+      config.thresholds[marketType as MarketBookType] = threshold;
+    }
+    if (update.autoBlock !== undefined) {
+      if (typeof update.autoBlock !== 'boolean') {
+        throw new BadRequestException('autoBlock must be a boolean');
+      }
+      config.autoBlock = update.autoBlock;
+    }
+
+    const value = JSON.stringify(config);
+    await this.prisma.setting.upsert({
+      where: { key: this.MARKET_BOOK_ALERT_KEY },
+      update: { value },
+      create: { key: this.MARKET_BOOK_ALERT_KEY, value },
+    });
+    return config;
+  }
+
+  private marketTypeOf(gtype: string | null): MarketBookType | null {
+    const normalized = (gtype || '').toLowerCase();
+    if (normalized === 'matchodds' || normalized === 'match')
+      return 'matchodds';
+    if (normalized === 'fancy') return 'fancy';
+    if (
+      normalized === 'bookmaker' ||
+      (normalized.startsWith('match') && normalized !== 'match')
+    ) {
+      return 'bookmaker';
+    }
+    return null;
+  }
+
+  private async findPendingBets(where: {
+    marketId?: string;
+    eventId?: string;
+  }): Promise<BookBet[]> {
+    return this.prisma.bet.findMany({
+      where: { ...where, status: BetStatus.PENDING },
+      select: {
+        userId: true,
+        gtype: true,
+        marketId: true,
+        eventId: true,
+        selectionId: true,
+        betType: true,
+        betValue: true,
+        amount: true,
+        betRate: true,
+        odds: true,
+        winAmount: true,
+        lossAmount: true,
+        status: true,
+        betName: true,
+      },
+    });
+  }
+
+  /**
+   * Runner lists and names from the vendor (Match Odds: match detail; Bookmaker: bookmaker-fancy).
+   * Vendor failures leave the maps empty; runners are then taken from the bets.
+   */
+  private async getEventRunners(
+    eventId: string,
+    types: Set<MarketBookType>,
+  ): Promise<EventRunners> {
+    const result: EventRunners = { matchOdds: new Map(), bookmaker: new Map() };
+
+    if (types.has('matchodds')) {
+      try {
+        const markets: unknown =
+          await this.aggregatorService.getMatchDetail(eventId);
+        for (const market of Array.isArray(markets)
+          ? (markets as VendorMarket[])
+          : []) {
+          const runners = new Map<string, string>();
+          for (const runner of Array.isArray(market?.runners)
+            ? (market.runners as VendorRunner[])
+            : []) {
+            if (
+              runner?.selectionId === null ||
+              runner?.selectionId === undefined
+            ) {
+              continue;
+            }
+            runners.set(
+              String(runner.selectionId),
+              String(runner.runnerName ?? runner.name ?? ''),
+            );
+          }
+          result.matchOdds.set(String(market?.marketId), {
+            name: market?.marketName ?? null,
+            runners,
+          });
+        }
+      } catch (error) {
+        this.logger.debug(
+          `Could not fetch match detail for eventId ${eventId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (types.has('bookmaker') || types.has('fancy')) {
+      try {
+        const payload = await this.cricketIdService.getBookmakerFancy(eventId);
+        for (const market of Array.isArray(payload?.data)
+          ? (payload.data as VendorMarket[])
+          : []) {
+          const runners = new Map<string, string>();
+          for (const section of Array.isArray(market?.section)
+            ? (market.section as VendorRunner[])
+            : []) {
+            if (section?.sid === null || section?.sid === undefined) continue;
+            runners.set(String(section.sid), String(section.nat ?? ''));
+          }
+          result.bookmaker.set(String(market?.mid ?? market?.marketId ?? ''), {
+            name: market?.mname ?? null,
+            runners,
+          });
+        }
+      } catch (error) {
+        this.logger.debug(
+          `Could not fetch bookmaker-fancy for eventId ${eventId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private liabilityOf(nets: number[]): number {
+    return Number(Math.max(0, ...nets.map((net) => -net)).toFixed(2));
+  }
+
+  private buildMarketBook(
+    eventId: string,
+    marketId: string,
+    marketType: MarketBookType,
+    bets: BookBet[],
+    eventRunners: EventRunners,
+    config: MarketBookAlertConfig,
+    suspendedMarkets: Set<string>,
+    suspendedSelections: Set<string>,
+  ): MarketBook {
+    const threshold = config.thresholds[marketType] ?? null;
+    const book: MarketBook = {
+      eventId,
+      marketId,
+      marketType,
+      marketName: null,
+      totalBets: bets.length,
+      totalClients: new Set(bets.map((b) => b.userId)).size,
+      totalStake: Number(
+        bets
+          .reduce((sum, b) => sum + (b.betValue ?? b.amount ?? 0), 0)
+          .toFixed(2),
+      ),
+      runners: {},
+      fancies: [],
+      liability: 0,
+      threshold,
+      thresholdCrossed: false,
+      blocked: suspendedMarkets.has(marketId),
+    };
+
+    if (marketType === 'fancy') {
+      const bySelection = new Map<string, BookBet[]>();
+      for (const bet of bets) {
+        const selectionId = String(bet.selectionId ?? '');
+        if (!bySelection.has(selectionId)) bySelection.set(selectionId, []);
+        bySelection.get(selectionId)!.push(bet);
+      }
+      const names = eventRunners.bookmaker.get(marketId)?.runners;
+      book.marketName = eventRunners.bookmaker.get(marketId)?.name ?? null;
+
+      for (const [selectionId, selectionBets] of bySelection.entries()) {
+        const ladder = this.fancyExposureService
+          .calculateFancyRunLadder(selectionBets)
+          .map((row) => ({ from: row.from, to: row.to, net: -row.pnl }));
+        const liability = this.liabilityOf(ladder.map((row) => row.net));
+        book.fancies.push({
+          selectionId,
+          name: names?.get(selectionId) || selectionBets[0]?.betName || null,
+          totalBets: selectionBets.length,
+          ladder,
+          liability,
+          thresholdCrossed: threshold !== null && liability > threshold,
+          blocked: suspendedSelections.has(`${eventId}:${selectionId}`),
+        });
+      }
+      book.liability = Number(
+        book.fancies.reduce((sum, f) => sum + f.liability, 0).toFixed(2),
+      );
+      book.thresholdCrossed = book.fancies.some((f) => f.thresholdCrossed);
+      return book;
+    }
+
+    const vendorMarket =
+      marketType === 'matchodds'
+        ? eventRunners.matchOdds.get(marketId)
+        : eventRunners.bookmaker.get(marketId);
+    book.marketName = vendorMarket?.name ?? null;
+    const selections = Array.from(
+      new Set([
+        ...(vendorMarket?.runners.keys() ?? []),
+        ...bets
+          .map((b) => b.selectionId)
+          .filter((id): id is number => id !== null && id !== undefined)
+          .map((id) => String(id)),
+      ]),
+    );
+
+    const position =
+      marketType === 'matchodds'
+        ? calculateMatchOddsPosition(bets, marketId, selections)
+        : calculateBookmakerPosition(bets, marketId, selections);
+    for (const [selectionId, runner] of Object.entries(
+      position?.runners ?? {},
+    )) {
+      book.runners[selectionId] = {
+        net: Number((-runner.net).toFixed(2)),
+        name: vendorMarket?.runners.get(selectionId) || undefined,
+      };
+    }
+    book.liability = this.liabilityOf(
+      Object.values(book.runners).map((r) => r.net),
+    );
+    book.thresholdCrossed = threshold !== null && book.liability > threshold;
+    return book;
+  }
+
+  private async buildBooks(bets: BookBet[]): Promise<MarketBook[]> {
+    const groups = new Map<
+      string,
+      {
+        eventId: string;
+        marketId: string;
+        marketType: MarketBookType;
+        bets: BookBet[];
+      }
+    >();
+    for (const bet of bets) {
+      const marketType = this.marketTypeOf(bet.gtype);
+      if (!marketType || !bet.marketId) continue;
+      const key = `${bet.eventId ?? ''}|${bet.marketId}|${marketType}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          eventId: bet.eventId ?? '',
+          marketId: bet.marketId,
+          marketType,
+          bets: [],
+        });
+      }
+      groups.get(key)!.bets.push(bet);
+    }
+    if (groups.size === 0) return [];
+
+    const [config, suspendedMarketIds, suspendedSelectionList] =
+      await Promise.all([
+        this.getAlertConfig(),
+        this.marketSuspensionService.getSuspendedMarkets(),
+        this.marketSuspensionService.getSuspendedSelections(),
+      ]);
+    const suspendedMarkets = new Set(suspendedMarketIds);
+    const suspendedSelections = new Set(
+      suspendedSelectionList.map((s) => `${s.eventId}:${s.selectionId}`),
+    );
+
+    const typesByEvent = new Map<string, Set<MarketBookType>>();
+    for (const group of groups.values()) {
+      if (!typesByEvent.has(group.eventId)) {
+        typesByEvent.set(group.eventId, new Set());
+      }
+      typesByEvent.get(group.eventId)!.add(group.marketType);
+    }
+    const runnersByEvent = new Map<string, EventRunners>();
+    await Promise.all(
+      Array.from(typesByEvent.entries()).map(async ([eventId, types]) => {
+        runnersByEvent.set(
+          eventId,
+          eventId
+            ? await this.getEventRunners(eventId, types)
+            : { matchOdds: new Map(), bookmaker: new Map() },
+        );
+      }),
+    );
+
+    return Array.from(groups.values()).map((group) =>
+      this.buildMarketBook(
+        group.eventId,
+        group.marketId,
+        group.marketType,
+        group.bets,
+        runnersByEvent.get(group.eventId)!,
+        config,
+        suspendedMarkets,
+        suspendedSelections,
+      ),
+    );
+  }
+
+  /**
+   * House book of one market (all pending bets on marketId across every client).
+   */
+  async getMarketBook(marketId: string) {
+    const normalizedMarketId = String(marketId || '').trim();
+    if (!normalizedMarketId) {
+      throw new BadRequestException('marketId is required');
+    }
+    const bets = await this.findPendingBets({ marketId: normalizedMarketId });
+    const books = await this.buildBooks(bets);
+    return {
+      marketId: normalizedMarketId,
+      liability: Number(
+        books.reduce((sum, b) => sum + b.liability, 0).toFixed(2),
+      ),
+      books,
+    };
+  }
+
+  /**
+   * House book of every Match Odds / Bookmaker / Fancy market of an event.
+   */
+  async getEventBook(eventId: string) {
+    const normalizedEventId = String(eventId || '').trim();
+    if (!normalizedEventId) {
+      throw new BadRequestException('eventId is required');
+    }
+    const bets = await this.findPendingBets({ eventId: normalizedEventId });
+    const books = await this.buildBooks(bets);
+    return {
+      eventId: normalizedEventId,
+      totalBets: bets.length,
+      totalClients: new Set(bets.map((b) => b.userId)).size,
+      liability: Number(
+        books.reduce((sum, b) => sum + b.liability, 0).toFixed(2),
+      ),
+      markets: books,
+    };
+  }
+
+  @Cron('*/15 * * * * *')
+  async checkLiabilityAlerts() {
+    try {
+      const config = await this.getAlertConfig();
+      if (!config.autoBlock || Object.keys(config.thresholds).length === 0) {
+        return;
+      }
+
+      const active = await this.prisma.bet.findMany({
+        where: {
+          status: BetStatus.PENDING,
+          createdAt: {
+            gte: new Date(Date.now() - this.ALERT_ACTIVITY_WINDOW_MS),
+          },
+          marketId: { not: null },
+        },
+        distinct: ['marketId'],
+        select: { marketId: true },
+      });
+
+      for (const { marketId } of active) {
+        if (!marketId) continue;
+        const { books } = await this.getMarketBook(marketId);
+        for (const book of books) {
+          await this.autoBlock(book);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error in market book alert job:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private async autoBlock(book: MarketBook) {
+    if (book.marketType !== 'fancy') {
+      if (!book.thresholdCrossed || book.blocked) return;
+      if (!(await this.claimAutoBlock(book.marketId))) return;
+      await this.marketSuspensionService.setMarketSuspended(
+        book.marketId,
+        true,
+      );
+      this.logger.warn(
+        `Market ${book.marketId} (eventId ${book.eventId}) blocked: house liability ${book.liability} above ${book.threshold}`,
+      );
+      return;
+    }
+
+    for (const fancy of book.fancies) {
+      if (!fancy.thresholdCrossed || fancy.blocked) continue;
+      if (
+        !(await this.claimAutoBlock(`${book.eventId}:${fancy.selectionId}`))
+      ) {
+        continue;
+      }
+      await this.marketSuspensionService.setSelectionSuspended(
+        book.eventId,
+        fancy.selectionId,
+        true,
+      );
+      this.logger.warn(
+        `Fancy ${fancy.selectionId} (eventId ${book.eventId}) blocked: house liability ${fancy.liability} above ${book.threshold}`,
+      );
+    }
+  }
+
+  /** True the first time in a day a market/selection is auto-blocked (so admins can lift it). */
+  private claimAutoBlock(key: string): Promise<boolean> {
+    return this.redisService
+      .setIfAbsent(
+        `market-book:auto-blocked:${key}`,
+        Date.now(),
+        this.AUTO_BLOCK_MARKER_TTL_SEC,
+      )
+      .catch(() => false);
+  }
+}
@@ -5,20 +5,33 @@ import { AgentController } from './agent.controller';
 import { ClientController } from './client.controller';
 import { AgentMatchBookService } from './agent-match-book.service';
 import { AccountStatementService } from './account-statement.service';
+import { MarketBookService } from './market-book.service';
 import { TransferModule } from '../transfer/transfer.module';
 import { UsersModule } from '../users/users.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { PositionModule } from '../positions/position.module';
 import { CricketIdModule } from '../cricketid/cricketid.module';
+import { BetsModule } from '../bets/bets.module';
 
 @Module({
-  imports: [TransferModule, UsersModule, PrismaModule, PositionModule, CricketIdModule],
+  imports: [
+    TransferModule,
+    UsersModule,
+    PrismaModule,
+    PositionModule,
+    CricketIdModule,
+    BetsModule,
+  ],
   controllers: [
     SuperAdminController,
     AdminController,
     AgentController,
     ClientController
   ],
-  providers: [AgentMatchBookService, AccountStatementService],
+  providers: [
+    AgentMatchBookService,
+    AccountStatementService,
+    MarketBookService,
+  ],
 })
 export class RolesModule {}
@@ -3,6 +3,7 @@ import {
   Get, 
   Post, 
   Put, 
+  Patch,
   Body, 
   Param, 
   Query,
@@ -14,6 +15,7 @@ import { IsString, IsEmail, IsOptional, IsNumber, Min, Max } from 'class-validat
 import { TransferService } from '../transfer/transfer.service';
 import { UsersService } from '../users/users.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { MarketBookService } from './market-book.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -35,7 +37,8 @@ export class SuperAdminController {
   constructor(
     private readonly transferService: TransferService,
     private readonly usersService: UsersService,
-    private readonly prisma: PrismaService
+    private readonly prisma: PrismaService,
+    private readonly marketBookService: MarketBookService,
   ) {}
 
   /**
@@ -157,4 +160,42 @@ export class SuperAdminController {
       ]
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * House liability alert thresholds per market type
+   */
+  @Get('market-book/alert-thresholds')
+  async getMarketBookAlertConfig() {
+    return this.marketBookService.getAlertConfig();
+  }
+
+  /**
+   * Set thresholds ({ matchodds?, bookmaker?, fancy? }, null removes one) and/or autoBlock
+   */
+  @Patch('market-book/alert-thresholds')
+  async updateMarketBookAlertConfig(
+    @Body()
+    body: {
+      thresholds?: Partial<Record<string, number | null>>;
+      autoBlock?: boolean;
+    },
+  ) {
+    return this.marketBookService.updateAlertConfig(body ?? {});
+  }
+
+  /**
+   * House book of every market of an event
+   */
+  @Get('market-book/event/:eventId')
+  async getEventMarketBook(@Param('eventId') eventId: string) {
+    return this.marketBookService.getEventBook(eventId);
+  }
+
+  /**
+   * House book of one market across all clients' pending bets
+   */
+  @Get('market-book/:marketId')
+  async getMarketBook(@Param('marketId') marketId: string) {
+    return this.marketBookService.getMarketBook(marketId);
+  }
+}
@@ -0,0 +1,60 @@
+import { parseFancyResult } from './auto-settlement.service';
+
+describe('parseFancyResult', () => {
+  it('reads the decision run from the nested data', () => {
+    expect(parseFancyResult({ data: { result: '54' } })).toEqual({
+      kind: 'RESULT',
+      decisionRun: 54,
+    });
+    expect(parseFancyResult({ data: [{ final_result: 61.5 }] })).toEqual({
+      kind: 'RESULT',
+      decisionRun: 61,
+    });
+  });
+
+  it('accepts the same run repeated across fields', () => {
+    expect(
+      parseFancyResult({
+        result: 54,
+        data: { decision_run: '54', decisionRun: 54 },
+      }),
+    ).toEqual({ kind: 'RESULT', decisionRun: 54 });
+  });
+
+  it('treats a cancel / abandon text as a void fancy', () => {
+    for (const text of ['Cancel', 'Abandoned', 'VOID', 'No Result']) {
+      expect(parseFancyResult({ data: { result: text } })).toEqual({
+        kind: 'CANCELLED',
+      });
+    }
+  });
+
+  it('reports a missing result', () => {
+    for (const raw of [null, {}, { data: { result: '' } }, { data: [] }]) {
+      expect(parseFancyResult(raw).kind).toBe('MISSING');
+    }
+    expect(parseFancyResult({ data: { result: 'pending' } }).kind).toBe(
+      'MISSING',
+    );
+  });
+
+  it('flags different results as a conflict', () => {
+    const result = parseFancyResult({
+      data: [{ result: '54' }, { result: '55' }],
+    });
+    expect(result.kind).toBe('CONFLICT');
+    expect(
+      parseFancyResult({
+        data: [{ result: 54 }, { result: 'Cancel' }],
+      }).kind,
+    ).toBe('CONFLICT');
+  });
+
+  it('ignores results nested deeper than the feed shape', () => {
+    expect(
+      parseFancyResult({
+        data: { data: { data: { data: { result: '54' } } } },
+      }).kind,
+    ).toBe('MISSING');
+  });
+});
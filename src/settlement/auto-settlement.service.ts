@@ -0,0 +1,1191 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  BetStatus,
+  MarketType,
+  Prisma,
+  SettlementProposal,
+  SettlementProposalStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../common/redis/redis.service';
+import { ResultsService } from '../results/results.service';
+import { SettlementService } from './settlement.service';
+import {
+  isApprovalPending,
+  SettlementApprovalService,
+  type SettleRequestParams,
+} from './settlement-approval.service';
+import { CricketIdService } from '../cricketid/cricketid.service';
+
+/** Setting `fancy_auto_settlement` */
+export interface FancyAutoSettlementConfig {
+  enabled: boolean;
+  /** Events whose proposals are settled without approval. */
+  autoSettleEventIds: string[];
+  /** A fancy still without a result this long after the match start is flagged MISSING_RESULT. */
+  missingResultAfterMinutes: number;
+}
+
+/** Decision run read from the vendor result feed. */
+export type FancyVendorResult =
+  | { kind: 'RESULT'; decisionRun: number }
+  | { kind: 'CANCELLED' }
+  | { kind: 'MISSING'; reason: string }
+  | { kind: 'CONFLICT'; reason: string };
+
+export type ProposalFlag = 'CONFLICT' | 'MISSING_RESULT';
+
+/** What the job does with a closed market: nothing, queue a proposal, or settle it. */
+export type MarketAutoSettleMode = 'OFF' | 'QUEUE' | 'EXECUTE';
+
+/** Setting `market_auto_settlement` */
+export interface MarketAutoSettlementConfig {
+  matchOdds: MarketAutoSettleMode;
+  bookmaker: MarketAutoSettleMode;
+}
+
+/** Winner of a Match Odds / Bookmaker market read from the vendor match detail. */
+type RunnerMarketResult =
+  | { kind: 'OPEN' }
+  | { kind: 'RESULT'; winnerSelectionId: string; winnerName: string | null }
+  | { kind: 'MISSING'; reason: string }
+  | { kind: 'CONFLICT'; reason: string };
+
+/** Match Odds or Bookmaker market with pending bets. */
+interface PendingRunnerMarket {
+  eventId: string;
+  marketId: string;
+  marketType: typeof MarketType.MATCH_ODDS | typeof MarketType.BOOKMAKER;
+  marketName: string | null;
+  /** Betfair Match Odds market of the event, whose WINNER runner decides the market */
+  matchOddsMarketId: string | null;
+  /** selectionId -> runner name, from the bets */
+  runners: Map<string, string | null>;
+  pendingBets: number;
+}
+
+/** Fields read from getMatchDetailByMarketId. */
+interface VendorMatchDetailMarket {
+  marketId?: string;
+  status?: string | null;
+  isClosed?: boolean;
+  runners?: Array<{
+    selectionId?: string | number;
+    runnerName?: string | null;
+    status?: string | null;
+  }>;
+}
+
+/** One pending fancy (eventId + selectionId) as listed by getPendingFancyMarkets. */
+interface PendingFancy {
+  eventId: string;
+  selectionId: string;
+  marketId: string | null;
+  fancyName: string | null;
+  matchTitle: string;
+  startTime: Date;
+  pendingBets: number;
+}
+
+/** Proposal statuses the job may still update; the others are final. */
+const OPEN_STATUSES: SettlementProposalStatus[] = [
+  SettlementProposalStatus.PENDING,
+  SettlementProposalStatus.FLAGGED,
+];
+
+/**
+ * Read the decision run from a get-result response. The feed nests the result under `data`
+ * (object or list) as `result` / `final_result` / `decision_run`; a text result such as
+ * "Abandoned" or "Cancel" means the fancy is void. Two different results = CONFLICT.
+ */
+export function parseFancyResult(raw: unknown): FancyVendorResult {
+  const values: unknown[] = [];
+  const collect = (node: unknown, depth: number) => {
+    if (node === null || node === undefined || depth > 3) return;
+    if (Array.isArray(node)) {
+      node.forEach((item) => collect(item, depth + 1));
+      return;
+    }
+    if (typeof node !== 'object') return;
+    const record = node as Record<string, unknown>;
+    for (const field of [
+      'result',
+      'final_result',
+      'decision_run',
+      'decisionRun',
+    ]) {
+      const value = record[field];
+      if (
+        value !== null &&
+        value !== undefined &&
+        value !== '' &&
+        typeof value !== 'object'
+      ) {
+        values.push(value);
+      }
+    }
+    collect(record.data, depth + 1);
+  };
+  collect(raw, 0);
+
+  const outcomes = new Set<string>();
+  for (const value of values) {
+    const text = String(value as string | number | boolean).trim();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      outcomes.add(String(Math.floor(Number(text))));
+    } else if (/cancel|abandon|void|no result/i.test(text)) {
+      outcomes.add('CANCELLED');
+    }
+  }
+
+  if (outcomes.size === 0) {
+    return { kind: 'MISSING', reason: 'No result declared yet' };
+  }
+  if (outcomes.size > 1) {
+    return {
+      kind: 'CONFLICT',
+      reason: `Result feed returned different results: ${Array.from(outcomes).join(', ')}`,
+    };
+  }
+  const [outcome] = Array.from(outcomes);
+  return outcome === 'CANCELLED'
+    ? { kind: 'CANCELLED' }
+    : { kind: 'RESULT', decisionRun: Number(outcome) };
+}
+
+/**
+ * Automatic settlement
+ *
+ * Fancy: every minute the pending fancy markets are looked up in the vendor result feed
+ * (ResultsService.getResult). A declared decision run (or a cancelled fancy) becomes a
+ * SettlementProposal that a settlement admin approves in one call; events on the auto-settle
+ * list are settled straight away through settleFancyManual.
+ *
+ * Proposals are flagged instead of settled when the vendor changes its result or returns more
+ * than one (CONFLICT), or when a fancy still has no result long after the match started
+ * (MISSING_RESULT). A result that was already rejected or applied is not proposed again, nor
+ * one whose proposal FAILED until an admin approves (retries) or rejects that proposal.
+ * Proposals settle through SettlementApprovalService: when the market type needs approval for
+ * the payout, the proposal waits as AWAITING_APPROVAL for a second admin.
+ *
+ * Match Odds / Bookmaker: every minute the Betfair Match Odds market of each event with pending
+ * bets is checked; once it is closed with a WINNER runner the market is queued as a proposal
+ * or settled (settleMatchOddsManual / settleBookmakerManual), per `market_auto_settlement`.
+ * Bookmaker runners are matched to the winner by name. A closed market without exactly one
+ * WINNER is flagged.
+ */
+@Injectable()
+export class AutoSettlementService {
+  private readonly logger = new Logger(AutoSettlementService.name);
+  private readonly FANCY_AUTO_SETTLEMENT_KEY = 'fancy_auto_settlement';
+  private readonly FANCY_JOB_LOCK_KEY = 'auto-settlement:fancy:lock';
+  private readonly MARKET_AUTO_SETTLEMENT_KEY = 'market_auto_settlement';
+  private readonly MARKET_JOB_LOCK_KEY = 'auto-settlement:markets:lock';
+  private readonly MARKET_AUTO_SETTLE_MODES: MarketAutoSettleMode[] = [
+    'OFF',
+    'QUEUE',
+    'EXECUTE',
+  ];
+  /** settledBy of settlements applied by the job (the `AUTO` history filter). */
+  private readonly AUTO_SETTLER = 'AUTO';
+  private readonly DEFAULT_CONFIG: FancyAutoSettlementConfig = {
+    enabled: false,
+    autoSettleEventIds: [],
+    missingResultAfterMinutes: 240,
+  };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly resultsService: ResultsService,
+    private readonly settlementService: SettlementService,
+    private readonly settlementApprovalService: SettlementApprovalService,
+    private readonly cricketIdService: CricketIdService,
+  ) {}
+
+  private parseFancyAutoSettlementConfig(
+    raw: string | null | undefined,
+  ): FancyAutoSettlementConfig {
+    if (!raw) return { ...this.DEFAULT_CONFIG };
+    try {
+      const parsed = JSON.parse(raw) as Partial<FancyAutoSettlementConfig>;
+      return {
+        enabled: parsed.enabled === true,
+        autoSettleEventIds: Array.isArray(parsed.autoSettleEventIds)
+          ? parsed.autoSettleEventIds.map((id) => String(id))
+          : [],
+        missingResultAfterMinutes:
+          Number(parsed.missingResultAfterMinutes) > 0
+            ? Number(parsed.missingResultAfterMinutes)
+            : this.DEFAULT_CONFIG.missingResultAfterMinutes,
+      };
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.FANCY_AUTO_SETTLEMENT_KEY} setting, using defaults`,
+      );
+      return { ...this.DEFAULT_CONFIG };
+    }
+  }
+
+  async getFancyAutoSettlementConfig(): Promise<FancyAutoSettlementConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.FANCY_AUTO_SETTLEMENT_KEY },
+      select: { value: true },
+    });
+    return this.parseFancyAutoSettlementConfig(existing?.value);
+  }
+
+  private async saveFancyAutoSettlementConfig(
+    config: FancyAutoSettlementConfig,
+  ) {
+    const value = JSON.stringify(config);
+    await this.prisma.setting.upsert({
+      where: { key: this.FANCY_AUTO_SETTLEMENT_KEY },
+      update: { value },
+      create: { key: this.FANCY_AUTO_SETTLEMENT_KEY, value },
+    });
+    return config;
+  }
+
+  async updateFancyAutoSettlementConfig(update: {
+    enabled?: boolean;
+    missingResultAfterMinutes?: number;
+  }) {
+    const config = await this.getFancyAutoSettlementConfig();
+    if (update.enabled !== undefined) {
+      if (typeof update.enabled !== 'boolean') {
+        throw new BadRequestException('enabled must be a boolean');
+      }
+      config.enabled = update.enabled;
+    }
+    if (update.missingResultAfterMinutes !== undefined) {
+      const minutes = Number(update.missingResultAfterMinutes);
+      if (!Number.isInteger(minutes) || minutes < 1 || minutes > 7 * 24 * 60) {
+        throw new BadRequestException(
+          'missingResultAfterMinutes must be an integer between 1 and 10080',
+        );
+      }
+      config.missingResultAfterMinutes = minutes;
+    }
+    return this.saveFancyAutoSettlementConfig(config);
+  }
+
+  /**
+   * Turn auto-settle on or off for one event (off = proposals wait for approval).
+   */
+  async setEventAutoSettle(eventId: string, autoSettle: boolean) {
+    const normalizedEventId = String(eventId || '').trim();
+    if (!normalizedEventId) {
+      throw new BadRequestException('eventId is required');
+    }
+    const config = await this.getFancyAutoSettlementConfig();
+    const eventIds = new Set(config.autoSettleEventIds);
+    if (autoSettle) eventIds.add(normalizedEventId);
+    else eventIds.delete(normalizedEventId);
+    await this.saveFancyAutoSettlementConfig({
+      ...config,
+      autoSettleEventIds: Array.from(eventIds),
+    });
+    return { eventId: normalizedEventId, autoSettle };
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runFancyAutoSettlement() {
+    try {
+      const config = await this.getFancyAutoSettlementConfig();
+      if (!config.enabled) return;
+
+      // One instance at a time; the lock expires by itself if an instance dies mid-run
+      if (
+        !(await this.redisService.setIfAbsent(
+          this.FANCY_JOB_LOCK_KEY,
+          Date.now(),
+          300,
+        ))
+      ) {
+        return;
+      }
+      try {
+        const fancies = await this.listPendingFancies();
+        for (const fancy of fancies) {
+          await this.processFancy(fancy, config).catch((error) =>
+            this.logger.warn(
+              `Fancy auto-settlement failed for ${fancy.eventId}:${fancy.selectionId}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            ),
+          );
+        }
+      } finally {
+        await this.redisService.delAwait(this.FANCY_JOB_LOCK_KEY);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error in fancy auto-settlement job:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private async listPendingFancies(): Promise<PendingFancy[]> {
+    const pending = await this.settlementService.getPendingFancyMarkets();
+    const fancies = new Map<string, PendingFancy>();
+    for (const match of pending.data) {
+      if (!match.eventId) continue;
+      for (const bet of match.fancy.bets as Array<{
+        selectionId: number | null;
+        marketId: string | null;
+        betName: string | null;
+      }>) {
+        if (bet.selectionId === null || bet.selectionId === undefined) continue;
+        const key = `${match.eventId}:${bet.selectionId}`;
+        const existing = fancies.get(key);
+        if (existing) {
+          existing.pendingBets++;
+          continue;
+        }
+        fancies.set(key, {
+          eventId: match.eventId,
+          selectionId: String(bet.selectionId),
+          marketId: bet.marketId,
+          fancyName: bet.betName,
+          matchTitle: match.matchTitle,
+          startTime: match.startTime,
+          pendingBets: 1,
+        });
+      }
+    }
+    return Array.from(fancies.values());
+  }
+
+  private async fetchFancyResult(
+    fancy: PendingFancy,
+  ): Promise<{ result: FancyVendorResult; raw: unknown }> {
+    if (!/^\d+$/.test(fancy.eventId) || !fancy.fancyName) {
+      return {
+        result: {
+          kind: 'MISSING',
+          reason: 'Fancy cannot be looked up in the result feed',
+        },
+        raw: null,
+      };
+    }
+    try {
+      const response = await this.resultsService.getResult({
+        event_id: Number(fancy.eventId),
+        event_name: fancy.matchTitle,
+        market_id: Number(fancy.selectionId),
+        market_name: fancy.fancyName,
+        market_type: 'fancy',
+      });
+      const raw: unknown = response?.data;
+      return { result: parseFancyResult(raw), raw };
+    } catch (error) {
+      return {
+        result: {
+          kind: 'MISSING',
+          reason: `Result feed error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+        raw: null,
+      };
+    }
+  }
+
+  private async processFancy(
+    fancy: PendingFancy,
+    config: FancyAutoSettlementConfig,
+  ) {
+    const settlementId = `CRICKET:FANCY:${fancy.eventId}:${fancy.selectionId}`;
+    if (await this.isAwaitingApproval(settlementId)) return;
+    const { result, raw } = await this.fetchFancyResult(fancy);
+    const vendorResult =
+      raw === null || raw === undefined
+        ? Prisma.JsonNull
+        : (raw as Prisma.InputJsonValue);
+
+    const open = await this.prisma.settlementProposal.findFirst({
+      where: { settlementId, status: { in: OPEN_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+    const base = {
+      settlementId,
+      eventId: fancy.eventId,
+      marketType: MarketType.FANCY,
+      marketId: fancy.marketId,
+      selectionId: fancy.selectionId,
+      marketName: fancy.fancyName,
+      pendingBets: fancy.pendingBets,
+    };
+
+    if (result.kind === 'MISSING') {
+      const overdue =
+        Date.now() - new Date(fancy.startTime).getTime() >
+        config.missingResultAfterMinutes * 60_000;
+      if (overdue) {
+        await this.flagMissing(open, base, result.reason, vendorResult);
+      }
+      return;
+    }
+
+    if (result.kind === 'CONFLICT') {
+      await this.flagConflict(open, base, result.reason, vendorResult);
+      return;
+    }
+
+    await this.proposeResult(
+      open,
+      base,
+      result.kind === 'RESULT' ? String(result.decisionRun) : null,
+      result.kind === 'CANCELLED',
+      vendorResult,
+      config.autoSettleEventIds.includes(fancy.eventId),
+    );
+  }
+
+  /** An approved proposal waits for its settlement request: the job leaves the market alone. */
+  private async isAwaitingApproval(settlementId: string): Promise<boolean> {
+    const waiting = await this.prisma.settlementProposal.findFirst({
+      where: {
+        settlementId,
+        status: SettlementProposalStatus.AWAITING_APPROVAL,
+      },
+      select: { id: true },
+    });
+    return waiting !== null;
+  }
+
+  /**
+   * Create or refresh the proposal of a declared result (winnerId, or isCancel) and apply it
+   * when `autoApply`. A result different from the one already proposed flags a CONFLICT.
+   */
+  private async proposeResult(
+    open: SettlementProposal | null,
+    base: Prisma.SettlementProposalUncheckedCreateInput,
+    winnerId: string | null,
+    isCancel: boolean,
+    vendorResult: Prisma.InputJsonValue | Prisma.NullTypes.JsonNull,
+    autoApply: boolean,
+  ) {
+    // A conflict stays flagged until an admin confirms or rejects it
+    if (open?.flag === 'CONFLICT') return;
+
+    // Vendor changed its mind after proposing: a person has to look at it
+    if (
+      open?.status === SettlementProposalStatus.PENDING &&
+      (open.winnerId !== winnerId || open.isCancel !== isCancel)
+    ) {
+      await this.flagConflict(
+        open,
+        base,
+        `Result feed changed from ${open.isCancel ? 'CANCELLED' : open.winnerId} to ${isCancel ? 'CANCELLED' : winnerId}`,
+        vendorResult,
+      );
+      return;
+    }
+
+    // The same result was already rejected or applied (e.g. rolled back since), or failed and
+    // waits for an admin to retry or reject it: don't re-propose
+    const closed = await this.prisma.settlementProposal.findFirst({
+      where: {
+        settlementId: base.settlementId,
+        winnerId,
+        isCancel,
+        status: {
+          in: [
+            SettlementProposalStatus.APPLIED,
+            SettlementProposalStatus.REJECTED,
+            SettlementProposalStatus.FAILED,
+          ],
+        },
+      },
+      select: { id: true },
+    });
+    if (closed) return;
+
+    let proposal: SettlementProposal;
+    if (open) {
+      if (open.status === SettlementProposalStatus.PENDING) {
+        proposal = await this.prisma.settlementProposal.update({
+          where: { id: open.id },
+          data: { pendingBets: base.pendingBets, vendorResult },
+        });
+      } else {
+        // MISSING_RESULT flag cleared by the result arriving
+        proposal = await this.prisma.settlementProposal.update({
+          where: { id: open.id },
+          data: {
+            ...base,
+            winnerId,
+            isCancel,
+            status: SettlementProposalStatus.PENDING,
+            flag: null,
+            flagReason: null,
+            vendorResult,
+          },
+        });
+      }
+    } else {
+      proposal = await this.prisma.settlementProposal.create({
+        data: { ...base, winnerId, isCancel, vendorResult },
+      });
+      this.logger.log(
+        `${base.settlementId} proposed: ${isCancel ? 'CANCELLED' : `result ${winnerId}`}`,
+      );
+    }
+
+    if (autoApply) {
+      await this.applyProposal(proposal.id, this.AUTO_SETTLER, true);
+    }
+  }
+
+  private async flagMissing(
+    open: SettlementProposal | null,
+    base: Prisma.SettlementProposalUncheckedCreateInput,
+    reason: string,
+    vendorResult: Prisma.InputJsonValue | Prisma.NullTypes.JsonNull,
+  ) {
+    if (open) return;
+    await this.prisma.settlementProposal.create({
+      data: {
+        ...base,
+        status: SettlementProposalStatus.FLAGGED,
+        flag: 'MISSING_RESULT' satisfies ProposalFlag,
+        flagReason: reason,
+        vendorResult,
+      },
+    });
+    this.logger.warn(`${base.settlementId} flagged: ${reason}`);
+  }
+
+  private async flagConflict(
+    open: SettlementProposal | null,
+    base: Prisma.SettlementProposalUncheckedCreateInput,
+    reason: string,
+    vendorResult: Prisma.InputJsonValue | Prisma.NullTypes.JsonNull,
+  ) {
+    if (open?.flag === 'CONFLICT') return;
+    if (open) {
+      await this.prisma.settlementProposal.update({
+        where: { id: open.id },
+        data: {
+          status: SettlementProposalStatus.FLAGGED,
+          flag: 'CONFLICT' satisfies ProposalFlag,
+          flagReason: reason,
+          vendorResult,
+        },
+      });
+    } else {
+      await this.prisma.settlementProposal.create({
+        data: {
+          ...base,
+          status: SettlementProposalStatus.FLAGGED,
+          flag: 'CONFLICT' satisfies ProposalFlag,
+          flagReason: reason,
+          vendorResult,
+        },
+      });
+    }
+    this.logger.warn(`${base.settlementId} flagged: ${reason}`);
+  }
+
+  private parseMarketAutoSettlementConfig(
+    raw: string | null | undefined,
+  ): MarketAutoSettlementConfig {
+    const config: MarketAutoSettlementConfig = {
+      matchOdds: 'OFF',
+      bookmaker: 'OFF',
+    };
+    if (!raw) return config;
+    try {
+      const parsed = JSON.parse(raw) as Partial<MarketAutoSettlementConfig>;
+      for (const key of ['matchOdds', 'bookmaker'] as const) {
+        if (this.MARKET_AUTO_SETTLE_MODES.includes(parsed[key]!)) {
+          config[key] = parsed[key]!;
+        }
+      }
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.MARKET_AUTO_SETTLEMENT_KEY} setting, ignoring it`,
+      );
+    }
+    return config;
+  }
+
+  async getMarketAutoSettlementConfig(): Promise<MarketAutoSettlementConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.MARKET_AUTO_SETTLEMENT_KEY },
+      select: { value: true },
+    });
+    return this.parseMarketAutoSettlementConfig(existing?.value);
+  }
+
+  async updateMarketAutoSettlementConfig(
+    update: Partial<Record<keyof MarketAutoSettlementConfig, string>>,
+  ) {
+    const config = await this.getMarketAutoSettlementConfig();
+    for (const key of ['matchOdds', 'bookmaker'] as const) {
+      const mode = update[key]?.toUpperCase();
+      if (mode === undefined) continue;
+      if (
+        !this.MARKET_AUTO_SETTLE_MODES.includes(mode as MarketAutoSettleMode)
+      ) {
+        throw new BadRequestException(
+          `${key} must be one of: ${this.MARKET_AUTO_SETTLE_MODES.join(', ')}`,
+        );
+      }
+      config[key] = mode as MarketAutoSettleMode;
+    }
+
+    const value = JSON.stringify(config);
+    await this.prisma.setting.upsert({
+      where: { key: this.MARKET_AUTO_SETTLEMENT_KEY },
+      update: { value },
+      create: { key: this.MARKET_AUTO_SETTLEMENT_KEY, value },
+    });
+    return config;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runMarketAutoSettlement() {
+    try {
+      const config = await this.getMarketAutoSettlementConfig();
+      if (config.matchOdds === 'OFF' && config.bookmaker === 'OFF') return;
+
+      if (
+        !(await this.redisService.setIfAbsent(
+          this.MARKET_JOB_LOCK_KEY,
+          Date.now(),
+          300,
+        ))
+      ) {
+        return;
+      }
+      try {
+        // One vendor lookup per Match Odds market per run (bookmaker markets share it)
+        const results = new Map<string, Promise<RunnerMarketResult>>();
+        for (const market of await this.listPendingRunnerMarkets()) {
+          const mode =
+            market.marketType === MarketType.MATCH_ODDS
+              ? config.matchOdds
+              : config.bookmaker;
+          if (mode === 'OFF' || !market.matchOddsMarketId) continue;
+
+          const marketId = market.matchOddsMarketId;
+          if (!results.has(marketId)) {
+            results.set(marketId, this.resolveMatchOddsWinner(marketId));
+          }
+          await this.processRunnerMarket(
+            market,
+            await results.get(marketId)!,
+            mode,
+          ).catch((error) =>
+            this.logger.warn(
+              `Market auto-settlement failed for ${market.eventId}:${market.marketId}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            ),
+          );
+        }
+      } finally {
+        await this.redisService.delAwait(this.MARKET_JOB_LOCK_KEY);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error in market auto-settlement job:',
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private async listPendingRunnerMarkets(): Promise<PendingRunnerMarket[]> {
+    const bets = await this.prisma.bet.findMany({
+      where: {
+        status: BetStatus.PENDING,
+        eventId: { not: null },
+        marketId: { not: null },
+        NOT: [
+          { betType: { in: ['YES', 'NO'] } },
+          { gtype: { contains: 'fancy', mode: 'insensitive' } },
+        ],
+      },
+      select: {
+        eventId: true,
+        marketId: true,
+        gtype: true,
+        marketName: true,
+        selectionId: true,
+        betName: true,
+        match: { select: { marketId: true } },
+      },
+    });
+
+    const markets = new Map<string, PendingRunnerMarket>();
+    for (const bet of bets) {
+      const gtype = (bet.gtype || '').toLowerCase();
+      // Tied Match is a Yes/No market with its own settlement
+      if (/tied/i.test(bet.marketName || '')) continue;
+      const marketType =
+        gtype === 'matchodds' || gtype === 'match'
+          ? MarketType.MATCH_ODDS
+          : gtype === 'bookmaker' || /^match\d+$/.test(gtype)
+            ? MarketType.BOOKMAKER
+            : null;
+      if (!marketType || !bet.eventId || !bet.marketId) continue;
+
+      const key = `${marketType}:${bet.eventId}:${bet.marketId}`;
+      let market = markets.get(key);
+      if (!market) {
+        const matchMarketId = bet.match?.marketId ?? '';
+        market = {
+          eventId: bet.eventId,
+          marketId: bet.marketId,
+          marketType,
+          marketName: bet.marketName,
+          matchOddsMarketId:
+            marketType === MarketType.MATCH_ODDS
+              ? bet.marketId
+              : matchMarketId.includes('.')
+                ? matchMarketId
+                : null,
+          runners: new Map(),
+          pendingBets: 0,
+        };
+        markets.set(key, market);
+      }
+      market.pendingBets++;
+      if (bet.selectionId !== null) {
+        market.runners.set(String(bet.selectionId), bet.betName);
+      }
+    }
+
+    // Bookmaker without a Match Odds market on its match: use the event's pending Match Odds one
+    const all = Array.from(markets.values());
+    for (const market of all) {
+      if (market.matchOddsMarketId) continue;
+      market.matchOddsMarketId =
+        all.find(
+          (m) =>
+            m.marketType === MarketType.MATCH_ODDS &&
+            m.eventId === market.eventId &&
+            m.marketId.includes('.'),
+        )?.marketId ?? null;
+    }
+    return all;
+  }
+
+  private async resolveMatchOddsWinner(
+    marketId: string,
+  ): Promise<RunnerMarketResult> {
+    let markets: VendorMatchDetailMarket[];
+    try {
+      const detail: unknown =
+        await this.cricketIdService.getMatchDetailByMarketId(marketId);
+      markets = Array.isArray(detail)
+        ? (detail as VendorMatchDetailMarket[])
+        : [];
+    } catch (error) {
+      this.logger.debug(
+        `Could not fetch match detail for marketId ${marketId}: ${(error as Error).message}`,
+      );
+      return { kind: 'OPEN' };
+    }
+
+    const market = markets.find((m) => String(m.marketId) === marketId);
+    const status = String(market?.status ?? '').toUpperCase();
+    if (
+      !market ||
+      !(market.isClosed || ['CLOSED', 'SETTLED'].includes(status))
+    ) {
+      return { kind: 'OPEN' };
+    }
+
+    const winners = (market.runners ?? []).filter(
+      (r) => String(r.status ?? '').toUpperCase() === 'WINNER',
+    );
+    if (winners.length === 0) {
+      return {
+        kind: 'MISSING',
+        reason: 'Market closed without a WINNER runner',
+      };
+    }
+    if (winners.length > 1) {
+      return {
+        kind: 'CONFLICT',
+        reason: `Market closed with ${winners.length} WINNER runners`,
+      };
+    }
+    return {
+      kind: 'RESULT',
+      winnerSelectionId: String(winners[0].selectionId),
+      winnerName: winners[0].runnerName ?? null,
+    };
+  }
+
+  /**
+   * Bookmaker runner with the Match Odds winner's name (from the bets, then the bookmaker feed).
+   */
+  private async findBookmakerWinner(
+    market: PendingRunnerMarket,
+    winnerName: string | null,
+  ): Promise<string | null> {
+    const normalize = (name: string | null | undefined) =>
+      String(name ?? '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '');
+    const target = normalize(winnerName);
+    if (!target) return null;
+
+    for (const [selectionId, name] of market.runners.entries()) {
+      if (normalize(name) === target) return selectionId;
+    }
+
+    try {
+      const payload = await this.cricketIdService.getBookmakerFancy(
+        market.eventId,
+      );
+      const feedMarkets = (
+        Array.isArray(payload?.data) ? payload.data : []
+      ) as Array<{ mid?: string | number; section?: unknown }>;
+      const feedMarket = feedMarkets.find(
+        (m) => String(m?.mid ?? '') === market.marketId,
+      );
+      const sections = (
+        Array.isArray(feedMarket?.section) ? feedMarket.section : []
+      ) as Array<{ sid?: string | number; nat?: string }>;
+      const section = sections.find((sec) => normalize(sec?.nat) === target);
+      return section?.sid !== undefined ? String(section.sid) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async processRunnerMarket(
+    market: PendingRunnerMarket,
+    result: RunnerMarketResult,
+    mode: MarketAutoSettleMode,
+  ) {
+    if (result.kind === 'OPEN') return;
+
+    const settlementId =
+      market.marketType === MarketType.MATCH_ODDS
+        ? `CRICKET:MATCHODDS:${market.eventId}:${market.marketId}`
+        : `CRICKET:BOOKMAKER:${market.eventId}:${market.marketId}`;
+    if (await this.isAwaitingApproval(settlementId)) return;
+    const open = await this.prisma.settlementProposal.findFirst({
+      where: { settlementId, status: { in: OPEN_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+    const base = {
+      settlementId,
+      eventId: market.eventId,
+      marketType: market.marketType,
+      marketId: market.marketId,
+      marketName: market.marketName,
+      pendingBets: market.pendingBets,
+    };
+
+    if (result.kind === 'MISSING' || result.kind === 'CONFLICT') {
+      const vendorResult = {
+        matchOddsMarketId: market.matchOddsMarketId,
+        reason: result.reason,
+      };
+      if (result.kind === 'MISSING') {
+        await this.flagMissing(open, base, result.reason, vendorResult);
+      } else {
+        await this.flagConflict(open, base, result.reason, vendorResult);
+      }
+      return;
+    }
+
+    let winnerSelectionId: string | null = result.winnerSelectionId;
+    if (market.marketType === MarketType.BOOKMAKER) {
+      winnerSelectionId = await this.findBookmakerWinner(
+        market,
+        result.winnerName,
+      );
+    }
+    const vendorResult = {
+      matchOddsMarketId: market.matchOddsMarketId,
+      winnerSelectionId: result.winnerSelectionId,
+      winnerName: result.winnerName,
+    };
+    if (!winnerSelectionId) {
+      await this.flagMissing(
+        open,
+        base,
+        `Match Odds winner ${result.winnerName ?? result.winnerSelectionId} not found among the bookmaker runners`,
+        vendorResult,
+      );
+      return;
+    }
+
+    await this.proposeResult(
+      open,
+      base,
+      winnerSelectionId,
+      false,
+      vendorResult,
+      mode === 'EXECUTE',
+    );
+  }
+
+  async getProposals(filters: {
+    status?: string;
+    eventId?: string;
+    limit?: number;
+  }) {
+    const status = filters.status?.toUpperCase();
+    if (
+      status &&
+      !Object.values(SettlementProposalStatus).includes(
+        status as SettlementProposalStatus,
+      )
+    ) {
+      throw new BadRequestException(
+        `status must be one of: ${Object.values(SettlementProposalStatus).join(', ')}`,
+      );
+    }
+    const proposals = await this.prisma.settlementProposal.findMany({
+      where: {
+        ...(status
+          ? { status: status as SettlementProposalStatus }
+          : {
+              status: {
+                in: [...OPEN_STATUSES, SettlementProposalStatus.FAILED],
+              },
+            }),
+        ...(filters.eventId ? { eventId: filters.eventId } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(Math.floor(filters.limit ?? 100) || 100, 1), 500),
+    });
+    return { count: proposals.length, proposals };
+  }
+
+  private async claimProposal(
+    id: string,
+    reviewedBy: string,
+    status: SettlementProposalStatus,
+    data: Prisma.SettlementProposalUpdateManyMutationInput = {},
+  ) {
+    const claimed = await this.prisma.settlementProposal.updateMany({
+      where: {
+        id,
+        status: {
+          in: [...OPEN_STATUSES, SettlementProposalStatus.FAILED],
+        },
+      },
+      data: {
+        ...data,
+        status,
+        reviewedBy,
+        reviewedAt: new Date(),
+        error: null,
+      },
+    });
+    if (claimed.count === 0) {
+      const existing = await this.prisma.settlementProposal.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+      throw new BadRequestException(
+        existing
+          ? `Proposal is already ${existing.status}`
+          : 'Proposal not found',
+      );
+    }
+    return this.prisma.settlementProposal.findUniqueOrThrow({ where: { id } });
+  }
+
+  /**
+   * Settle a proposal. A flagged proposal needs the result confirmed by the approver
+   * (`decisionRun` for fancy, `winnerSelectionId` for Match Odds / Bookmaker, or `isCancel`),
+   * which also replaces the proposed one. Settlement approval rules apply: a payout that needs a
+   * second admin becomes a settlement request instead.
+   */
+  async approveProposal(
+    id: string,
+    adminId: string,
+    override: {
+      decisionRun?: number | null;
+      winnerSelectionId?: string | null;
+      isCancel?: boolean;
+    } = {},
+  ) {
+    const proposal = await this.prisma.settlementProposal.findUnique({
+      where: { id },
+    });
+    if (!proposal) {
+      throw new BadRequestException('Proposal not found');
+    }
+
+    const isFancy = proposal.marketType === MarketType.FANCY;
+    const overrideResult = isFancy
+      ? override.decisionRun
+      : override.winnerSelectionId;
+    const hasOverride =
+      override.isCancel === true ||
+      (overrideResult !== null && overrideResult !== undefined);
+    if (
+      override.isCancel === true &&
+      proposal.marketType === MarketType.BOOKMAKER
+    ) {
+      throw new BadRequestException(
+        'Bookmaker settlements cannot be cancelled from a proposal',
+      );
+    }
+    if (hasOverride && override.isCancel !== true) {
+      if (isFancy) {
+        const run = Number(override.decisionRun);
+        if (!Number.isInteger(run) || run < 0) {
+          throw new BadRequestException(
+            'decisionRun must be a non-negative integer',
+          );
+        }
+      } else if (!/^\d+$/.test(String(override.winnerSelectionId))) {
+        throw new BadRequestException('winnerSelectionId must be numeric');
+      }
+    }
+    if (proposal.status === SettlementProposalStatus.FLAGGED && !hasOverride) {
+      throw new BadRequestException(
+        `Proposal is flagged (${proposal.flag}): send ${isFancy ? 'decisionRun' : 'winnerSelectionId'} or isCancel to confirm the result`,
+      );
+    }
+
+    if (hasOverride) {
+      await this.prisma.settlementProposal.updateMany({
+        where: {
+          id,
+          status: { in: [...OPEN_STATUSES, SettlementProposalStatus.FAILED] },
+        },
+        data: {
+          isCancel: override.isCancel === true,
+          winnerId: override.isCancel === true ? null : String(overrideResult),
+        },
+      });
+    }
+    return this.applyProposal(id, adminId, false);
+  }
+
+  private async applyProposal(
+    id: string,
+    settledBy: string,
+    autoApplied: boolean,
+  ) {
+    const proposal = await this.claimProposal(
+      id,
+      settledBy,
+      SettlementProposalStatus.APPLIED,
+      { autoApplied },
+    );
+    if (proposal.winnerId === null && !proposal.isCancel) {
+      await this.markFailed(id, 'Proposal has no result');
+      throw new BadRequestException('Proposal has no result');
+    }
+
+    try {
+      const result =
+        await this.settlementApprovalService.settleOrRequestApproval(
+          await this.toSettleRequestParams(proposal),
+          settledBy,
+          false,
+          { proposalId: id },
+        );
+      if (isApprovalPending(result)) {
+        // The settlement request decides; it moves the proposal to APPLIED, REJECTED or FAILED
+        const { request } = result;
+        await this.prisma.settlementProposal.update({
+          where: { id },
+          data: { status: SettlementProposalStatus.AWAITING_APPROVAL },
+        });
+        this.logger.log(
+          `${proposal.settlementId} from proposal ${id} waits for approval (request ${request.id})`,
+        );
+        return {
+          success: true,
+          proposalId: id,
+          approvalRequired: true,
+          request,
+        };
+      }
+      this.logger.log(
+        `${proposal.settlementId} settled from proposal ${id} by ${settledBy}`,
+      );
+      return { success: true, proposalId: id, settlement: result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.markFailed(id, message);
+      throw error;
+    }
+  }
+
+  /** Settle call of a proposal, run (or held for approval) by SettlementApprovalService. */
+  private async toSettleRequestParams(
+    proposal: SettlementProposal,
+  ): Promise<SettleRequestParams> {
+    switch (proposal.marketType) {
+      case MarketType.FANCY:
+        return {
+          marketType: MarketType.FANCY,
+          eventId: proposal.eventId,
+          selectionId: proposal.selectionId ?? '',
+          decisionRun: proposal.isCancel ? null : Number(proposal.winnerId),
+          isCancel: proposal.isCancel,
+          marketId: proposal.marketId,
+        };
+      case MarketType.MATCH_ODDS: {
+        // Cancelling still takes a runner id (any runner with bets); it is not used for the payout
+        let winnerSelectionId = proposal.winnerId;
+        if (proposal.isCancel) {
+          const bet = await this.prisma.bet.findFirst({
+            where: {
+              eventId: proposal.eventId,
+              marketId: proposal.marketId,
+              status: BetStatus.PENDING,
+              selectionId: { not: null },
+            },
+            select: { selectionId: true },
+          });
+          winnerSelectionId = String(bet?.selectionId ?? '');
+        }
+        return {
+          marketType: MarketType.MATCH_ODDS,
+          eventId: proposal.eventId,
+          marketId: proposal.marketId ?? '',
+          winnerSelectionId: winnerSelectionId ?? '',
+          isCancel: proposal.isCancel,
+        };
+      }
+      case MarketType.BOOKMAKER:
+        return {
+          marketType: MarketType.BOOKMAKER,
+          eventId: proposal.eventId,
+          marketId: proposal.marketId ?? '',
+          winnerSelectionId: proposal.winnerId ?? '',
+        };
+      default:
+        throw new BadRequestException(
+          `Proposals of market type ${proposal.marketType} are not supported`,
+        );
+    }
+  }
+
+  private async markFailed(id: string, message: string) {
+    await this.prisma.settlementProposal.update({
+      where: { id },
+      data: { status: SettlementProposalStatus.FAILED, error: message },
+    });
+    this.logger.error(`Settlement proposal ${id} failed: ${message}`);
+  }
+
+  async rejectProposal(id: string, adminId: string, reason?: string) {
+    const proposal = await this.claimProposal(
+      id,
+      adminId,
+      SettlementProposalStatus.REJECTED,
+      reason ? { flagReason: reason } : {},
+    );
+    return { success: true, proposal };
+  }
+}
@@ -2,6 +2,14 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 // @ts-ignore - MarketType exists after Prisma client regeneration
 import { MarketType } from '@prisma/client';
+import type { Prisma, User } from '@prisma/client';
+
+/** One upline user's share of a client's P/L, as written to hierarchy_pnl. */
+export interface HierarchyPnlShare {
+  toUserId: string;
+  amount: number;
+  percentage: number;
+}
 
 @Injectable()
 export class HierarchyPnlService {
@@ -91,7 +99,7 @@ export class HierarchyPnlService {
           return;
         }
 
-        let currentUser = await tx.user.findUnique({
+        const currentUser = await tx.user.findUnique({
           where: { id: userId },
         });
 
@@ -108,42 +116,12 @@ export class HierarchyPnlService {
             eventId,
             marketType,
             fromUserId: userId, // sourceUserId (original client)
+            isCommission: false, // market commission rows are owned by distributeCommission()
           },
         });
 
-        // Store original netPnl for calculating shares
-        const originalNetPnl = netPnl;
-        let childShare = 100; // Client always starts at 100%
-        let distributedTotal = 0; // Track total distributed to handle floating-point remainder
-
         // Traverse up the hierarchy
-        while (currentUser?.parentId) {
-          const parent = await tx.user.findUnique({
-            where: { id: currentUser.parentId },
-          });
-
-          if (!parent) {
-            this.logger.warn(
-              `Parent ${currentUser.parentId} not found for user ${currentUser.id}. Stopping hierarchy traversal.`,
-            );
-            break;
-          }
-
-          // CORRECT COMMISSION CALCULATION (Industry Standard)
-          // commissionPercentage = what THIS USER keeps from downline PnL
-          // Parent earns the DIFFERENCE between child's share and parent's share
-          const parentShare = parent.commissionPercentage; // What parent keeps (e.g., 70% for Agent)
-          const parentCommissionPct = (childShare - parentShare) / 100; // Difference (e.g., 30% for Agent)
-
-          // Calculate the amount this parent receives
-          // If client lost money (negative PnL), parent gains (positive amount)
-          // If client won money (positive PnL), parent loses (negative amount)
-          // We negate originalNetPnl because parent's gain/loss is opposite of child's
-          const amount = -originalNetPnl * parentCommissionPct;
-
-          // Track distributed total
-          distributedTotal += amount;
-
+        for (const share of await this.computePnlShares(tx, currentUser, netPnl)) {
           // CRITICAL: LEDGER ONLY - NO WALLET UPDATES
           // Wallet balance = credit only, managed separately via transfers
           // PnL distribution is tracked in hierarchyPnl ledger for reporting/audit
@@ -153,42 +131,14 @@ export class HierarchyPnlService {
               eventId,
               marketType,
               fromUserId: userId, // sourceUserId (original client)
-              toUserId: parent.id, // beneficiaryId (agent/admin/superadmin)
-              amount,
-              percentage: parentCommissionPct * 100,
+              toUserId: share.toUserId, // beneficiaryId (agent/admin/superadmin)
+              amount: share.amount,
+              percentage: share.percentage,
             },
           });
 
           this.logger.debug(
-            `Created hierarchical PnL ledger: client ${userId} → ${parent.id}, amount: ${amount}, commission: ${parentCommissionPct * 100}%`,
-          );
-
-          // Update for next iteration
-          childShare = parentShare; // Next level uses parent's share as child's share
-          currentUser = parent;
-        }
-
-        // 🔒 CRITICAL FIX: Force rounding correction on last parent
-        // Floating-point drift can leave 0.02-0.05 undistributed, causing "settlement incomplete" warnings
-        const expectedTotal = -originalNetPnl; // Total should be opposite of client's netPnl
-        const remainder = expectedTotal - distributedTotal;
-
-        if (Math.abs(remainder) > 0.01 && currentUser) {
-          // Absorb remainder into the last parent (top of hierarchy)
-          // @ts-ignore - hierarchyPnl property exists after Prisma client regeneration
-          await tx.hierarchyPnl.create({
-            data: {
-              eventId,
-              marketType,
-              fromUserId: userId,
-              toUserId: currentUser.id,
-              amount: remainder,
-              percentage: 0, // Remainder correction, not a commission percentage
-            },
-          });
-
-          this.logger.debug(
-            `Applied floating-point remainder correction: ${remainder} to user ${currentUser.id}`,
+            `Created hierarchical PnL ledger: client ${userId} → ${share.toUserId}, amount: ${share.amount}, commission: ${share.percentage}%`,
           );
         }
 
@@ -230,5 +180,139 @@ export class HierarchyPnlService {
       // But log the error so it can be investigated
     }
   }
-}
 
+  /**
+   * Rows distributePnL() would write for a client net P/L, without writing anything.
+   * Used by settlement dry runs; empty when the net P/L is zero or the user is unknown.
+   */
+  async previewDistribution(
+    userId: string,
+    clientNetPnl: number,
+  ): Promise<HierarchyPnlShare[]> {
+    if (clientNetPnl === 0) return [];
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return [];
+    return this.computePnlShares(this.prisma, user, clientNetPnl);
+  }
+
+  /**
+   * Walk up from the client: each parent gets the difference between its child's share and its
+   * own commissionPercentage of -netPnl; the floating-point remainder goes to the top user.
+   */
+  private async computePnlShares(
+    client: Pick<Prisma.TransactionClient, 'user'>,
+    clientUser: User,
+    netPnl: number,
+  ): Promise<HierarchyPnlShare[]> {
+    const shares: HierarchyPnlShare[] = [];
+    let currentUser: User | null = clientUser;
+    let childShare = 100; // Client always starts at 100%
+    let distributedTotal = 0; // Track total distributed to handle floating-point remainder
+
+    while (currentUser?.parentId) {
+      const parent = await client.user.findUnique({
+        where: { id: currentUser.parentId },
+      });
+
+      if (!parent) {
+        this.logger.warn(
+          `Parent ${currentUser.parentId} not found for user ${currentUser.id}. Stopping hierarchy traversal.`,
+        );
+        break;
+      }
+
+      // CORRECT COMMISSION CALCULATION (Industry Standard)
+      // commissionPercentage = what THIS USER keeps from downline PnL
+      // Parent earns the DIFFERENCE between child's share and parent's share
+      const parentShare = parent.commissionPercentage; // What parent keeps (e.g., 70% for Agent)
+      const parentCommissionPct = (childShare - parentShare) / 100; // Difference (e.g., 30% for Agent)
+
+      // If client lost money (negative PnL), parent gains (positive amount)
+      // If client won money (positive PnL), parent loses (negative amount)
+      // We negate netPnl because parent's gain/loss is opposite of child's
+      const amount = -netPnl * parentCommissionPct;
+      distributedTotal += amount;
+      shares.push({
+        toUserId: parent.id,
+        amount,
+        percentage: parentCommissionPct * 100,
+      });
+
+      // Update for next iteration
+      childShare = parentShare; // Next level uses parent's share as child's share
+      currentUser = parent;
+    }
+
+    // 🔒 CRITICAL FIX: Force rounding correction on last parent
+    // Floating-point drift can leave 0.02-0.05 undistributed, causing "settlement incomplete" warnings
+    const expectedTotal = -netPnl; // Total should be opposite of client's netPnl
+    const remainder = expectedTotal - distributedTotal;
+
+    if (Math.abs(remainder) > 0.01 && currentUser) {
+      // Absorb remainder into the last parent (top of hierarchy)
+      shares.push({
+        toUserId: currentUser.id,
+        amount: remainder,
+        percentage: 0, // Remainder correction, not a commission percentage
+      });
+    }
+
+    return shares;
+  }
+
+  /**
+   * Credit a client's market commission up the hierarchy (LEDGER ONLY - NO WALLET UPDATES)
+   *
+   * Runs inside MarketCommissionService's charge transaction, after the commission was debited
+   * from the client's wallet. The shares come from computePnlShares() as for a client loss of
+   * the commission, so parents get the same commissionPercentage split as distributePnL().
+   * Rows are written with isCommission = true and rebuilt from market_commissions on every call.
+   *
+   * @param tx - Transaction of the commission charge
+   * @param userId - The client who paid the commission
+   * @param eventId - Event ID
+   * @param marketType - Market type the commission was charged on
+   */
+  async distributeCommission(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    eventId: string,
+    marketType: MarketType,
+  ) {
+    const charged = await tx.marketCommission.aggregate({
+      where: { userId, eventId, marketType },
+      _sum: { amount: true },
+    });
+    const totalCommission = charged._sum.amount ?? 0;
+
+    await tx.hierarchyPnl.deleteMany({
+      where: {
+        eventId,
+        marketType,
+        fromUserId: userId,
+        isCommission: true,
+      },
+    });
+
+    if (totalCommission <= 0) return;
+
+    const user = await tx.user.findUnique({ where: { id: userId } });
+    if (!user) return;
+
+    const shares = await this.computePnlShares(tx, user, -totalCommission);
+    // Without a parent the remainder row would credit the client itself
+    for (const share of shares.filter((s) => s.toUserId !== userId)) {
+      await tx.hierarchyPnl.create({
+        data: {
+          eventId,
+          marketType,
+          fromUserId: userId,
+          toUserId: share.toUserId,
+          amount: share.amount,
+          percentage: share.percentage,
+          isCommission: true,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BetStatus, MarketType, Prisma, TransactionType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HierarchyPnlService } from './hierarchy-pnl.service';
+import { UsersService } from '../users/users.service';
+
+/** Commission rate (% of net winnings) per market type. */
+export type MarketCommissionRates = Partial<Record<MarketType, number>>;
+
+/** Setting `market_commission_rates`: default rate per market type plus per-user / per-agent overrides. */
+export interface MarketCommissionConfig {
+  marketTypes: MarketCommissionRates;
+  users: Record<string, MarketCommissionRates>;
+}
+
+/**
+ * Market commission on net winnings
+ *
+ * After a market settles, each client whose net P/L on that settlement is positive pays
+ * `rate%` of it. The rate is the nearest override walking up from the client through its
+ * agents (parentId chain), falling back to the market type default, then 0.
+ *
+ * The deduction is written to the client's wallet as a COMMISSION transaction and recorded in
+ * market_commissions (one row per settlement and user), and credited up the hierarchy as
+ * `isCommission` HierarchyPnl ledger rows in the same transaction. Charges that fail are kept in
+ * market_commission_failures and retried every minute.
+ */
+@Injectable()
+export class MarketCommissionService {
+  private readonly logger = new Logger(MarketCommissionService.name);
+  private readonly MARKET_COMMISSION_KEY = 'market_commission_rates';
+  /** Failed charges retried per run */
+  private readonly RETRY_BATCH_SIZE = 100;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly hierarchyPnlService: HierarchyPnlService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  private parseMarketCommissionConfig(
+    raw: string | null | undefined,
+  ): MarketCommissionConfig {
+    const config: MarketCommissionConfig = { marketTypes: {}, users: {} };
+    if (!raw) return config;
+    try {
+      const parsed = JSON.parse(raw) as Partial<MarketCommissionConfig>;
+      if (parsed.marketTypes && typeof parsed.marketTypes === 'object') {
+        config.marketTypes = parsed.marketTypes;
+      }
+      if (parsed.users && typeof parsed.users === 'object') {
+        config.users = parsed.users;
+      }
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.MARKET_COMMISSION_KEY} setting, ignoring it`,
+      );
+    }
+    return config;
+  }
+
+  private async getMarketCommissionConfig(): Promise<MarketCommissionConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.MARKET_COMMISSION_KEY },
+      select: { value: true },
+    });
+    return this.parseMarketCommissionConfig(existing?.value);
+  }
+
+  private async saveMarketCommissionConfig(config: MarketCommissionConfig) {
+    const value = JSON.stringify(config);
+    await this.prisma.setting.upsert({
+      where: { key: this.MARKET_COMMISSION_KEY },
+      update: { value },
+      create: { key: this.MARKET_COMMISSION_KEY, value },
+    });
+  }
+
+  private validateRate(marketType: MarketType, rate: number | null) {
+    if (!Object.values(MarketType).includes(marketType)) {
+      throw new BadRequestException(
+        `marketType must be one of: ${Object.values(MarketType).join(', ')}`,
+      );
+    }
+    if (rate !== null && (!Number.isFinite(rate) || rate < 0 || rate > 100)) {
+      throw new BadRequestException(
+        'rate must be a number between 0 and 100, or null',
+      );
+    }
+  }
+
+  async getMarketCommissionRates() {
+    return this.getMarketCommissionConfig();
+  }
+
+  /**
+   * Set or clear (rate = null) the default commission rate of a market type.
+   */
+  async setMarketTypeRate(marketType: MarketType, rate: number | null) {
+    this.validateRate(marketType, rate);
+
+    const config = await this.getMarketCommissionConfig();
+    if (rate === null) delete config.marketTypes[marketType];
+    else config.marketTypes[marketType] = rate;
+    await this.saveMarketCommissionConfig(config);
+
+    return { marketType, rate };
+  }
+
+  /**
+   * Set or clear (rate = null) a user's commission rate for one market type.
+   * On an agent the override applies to every client below it without a closer override.
+   */
+  async setUserRate(
+    userId: string,
+    marketType: MarketType,
+    rate: number | null,
+  ) {
+    this.validateRate(marketType, rate);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+    if (!user) {
+      throw new BadRequestException(`User ${userId} not found`);
+    }
+
+    const config = await this.getMarketCommissionConfig();
+    const rates: MarketCommissionRates = { ...(config.users[userId] ?? {}) };
+    if (rate === null) delete rates[marketType];
+    else rates[marketType] = rate;
+    if (Object.keys(rates).length > 0) config.users[userId] = rates;
+    else delete config.users[userId];
+    await this.saveMarketCommissionConfig(config);
+
+    return { userId, role: user.role, marketType, rate };
+  }
+
+  /**
+   * Commission rate in effect for a client: nearest user/agent override, then market type default.
+   */
+  private async resolveRate(
+    userId: string,
+    marketType: MarketType,
+    config: MarketCommissionConfig,
+  ): Promise<number> {
+    for (const user of await this.usersService.getAncestorChain(userId)) {
+      const override = config.users[user.id]?.[marketType];
+      if (typeof override === 'number') return override;
+    }
+    return config.marketTypes[marketType] ?? 0;
+  }
+
+  /**
+   * Charge (or re-charge after a partial settle / rollback) commission for one settlement.
+   *
+   * Net winnings = sum of P/L of the user's WON and LOST bets under settlementId. Only the
+   * difference with what was already charged for the settlement is applied, so calling this
+   * again is safe. A failed charge never fails the settlement: it is recorded in
+   * market_commission_failures and retried by retryFailedCommissions().
+   */
+  async chargeMarketCommission(
+    settlementId: string,
+    eventId: string,
+    marketType: MarketType,
+    userIds: Iterable<string>,
+  ): Promise<void> {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return;
+
+    let config: MarketCommissionConfig;
+    let marketId: string | null;
+    try {
+      config = await this.getMarketCommissionConfig();
+      marketId = await this.getSettlementMarketId(settlementId);
+    } catch (error) {
+      for (const userId of ids) {
+        await this.recordFailure(
+          settlementId,
+          eventId,
+          marketType,
+          userId,
+          error,
+        );
+      }
+      return;
+    }
+
+    for (const userId of ids) {
+      try {
+        await this.chargeUser(
+          settlementId,
+          eventId,
+          marketType,
+          marketId,
+          userId,
+          config,
+        );
+        await this.prisma.marketCommissionFailure.deleteMany({
+          where: { settlementId, userId },
+        });
+      } catch (error) {
+        await this.recordFailure(
+          settlementId,
+          eventId,
+          marketType,
+          userId,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Retry the commission charges that failed. A charge is idempotent, so a row is simply
+   * charged again and dropped once it goes through.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async retryFailedCommissions(): Promise<void> {
+    try {
+      const failures = await this.prisma.marketCommissionFailure.findMany({
+        orderBy: { updatedAt: 'asc' },
+        take: this.RETRY_BATCH_SIZE,
+      });
+      if (failures.length === 0) return;
+
+      const config = await this.getMarketCommissionConfig();
+      for (const failure of failures) {
+        const { settlementId, eventId, marketType, userId } = failure;
+        try {
+          await this.chargeUser(
+            settlementId,
+            eventId,
+            marketType,
+            await this.getSettlementMarketId(settlementId),
+            userId,
+            config,
+          );
+          await this.prisma.marketCommissionFailure.deleteMany({
+            where: { id: failure.id, updatedAt: failure.updatedAt },
+          });
+          this.logger.log(
+            `Market commission for user ${userId}, settlement ${settlementId} charged on retry`,
+          );
+        } catch (error) {
+          await this.recordFailure(
+            settlementId,
+            eventId,
+            marketType,
+            userId,
+            error,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Market commission retry failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  private async getSettlementMarketId(
+    settlementId: string,
+  ): Promise<string | null> {
+    const settlement = await this.prisma.settlement.findUnique({
+      where: { settlementId },
+      select: { marketId: true },
+    });
+    return settlement?.marketId ?? null;
+  }
+
+  private async recordFailure(
+    settlementId: string,
+    eventId: string,
+    marketType: MarketType,
+    userId: string,
+    error: unknown,
+  ) {
+    const message = (error as Error).message ?? String(error);
+    this.logger.error(
+      `Failed to charge market commission for user ${userId}, settlement ${settlementId}: ${message}`,
+      (error as Error).stack,
+    );
+    try {
+      await this.prisma.marketCommissionFailure.upsert({
+        where: { settlementId_userId: { settlementId, userId } },
+        update: { error: message, attempts: { increment: 1 } },
+        create: { settlementId, userId, eventId, marketType, error: message },
+      });
+    } catch (recordError) {
+      this.logger.error(
+        `Failed to record market commission failure for user ${userId}, settlement ${settlementId}: ${(recordError as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Bring one user's commission for a settlement in line with its settled bets and credit it up
+   * the hierarchy, in one transaction. The wallet row is locked first, so concurrent charges
+   * (settle chunks, retries) and rollbacks of the same user run one after the other.
+   */
+  private async chargeUser(
+    settlementId: string,
+    eventId: string,
+    marketType: MarketType,
+    marketId: string | null,
+    userId: string,
+    config: MarketCommissionConfig,
+  ) {
+    const rate = await this.resolveRate(userId, marketType, config);
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const [wallet] = await tx.$queryRaw<Array<{ id: string }>>`
+          SELECT id FROM wallets WHERE user_id = ${userId} FOR UPDATE`;
+        if (!wallet) return;
+
+        const [settled, existing] = await Promise.all([
+          tx.bet.aggregate({
+            where: {
+              settlementId,
+              userId,
+              status: { in: [BetStatus.WON, BetStatus.LOST] },
+            },
+            _sum: { pnl: true },
+          }),
+          tx.marketCommission.findUnique({
+            where: { settlementId_userId: { settlementId, userId } },
+          }),
+        ]);
+
+        const netWinnings = Number((settled._sum.pnl ?? 0).toFixed(2));
+        const amount =
+          netWinnings > 0 && rate > 0
+            ? Number(((netWinnings * rate) / 100).toFixed(2))
+            : 0;
+        const delta = Number((amount - (existing?.amount ?? 0)).toFixed(2));
+        if (delta === 0 && (existing || amount === 0)) return;
+
+        if (delta !== 0) {
+          await tx.wallet.update({
+            where: { userId },
+            data: { balance: { decrement: delta } },
+          });
+          await tx.transaction.create({
+            data: {
+              walletId: wallet.id,
+              amount: Math.abs(delta),
+              type:
+                delta > 0 ? TransactionType.COMMISSION : TransactionType.REFUND,
+              description:
+                delta > 0
+                  ? `Market Commission ${rate}% on net winnings ${netWinnings} - ${settlementId}`
+                  : `Market Commission adjusted: Refunded ${Math.abs(delta)} - ${settlementId}`,
+            },
+          });
+        }
+
+        if (amount === 0) {
+          await tx.marketCommission.deleteMany({
+            where: { settlementId, userId },
+          });
+        } else {
+          await tx.marketCommission.upsert({
+            where: { settlementId_userId: { settlementId, userId } },
+            update: { netWinnings, rate, amount },
+            create: {
+              settlementId,
+              userId,
+              eventId,
+              marketType,
+              marketId,
+              netWinnings,
+              rate,
+              amount,
+            },
+          });
+        }
+
+        await this.hierarchyPnlService.distributeCommission(
+          tx,
+          userId,
+          eventId,
+          marketType,
+        );
+      },
+      { maxWait: 10000, timeout: 30000 },
+    );
+  }
+
+  /**
+   * Inside a rollback transaction: drop the commission charged for a settlement and
+   * write its refund. Returns the amount the caller must add back to the wallet balance.
+   */
+  async reverseMarketCommission(
+    tx: Prisma.TransactionClient,
+    settlementId: string,
+    userId: string,
+    walletId: string,
+  ): Promise<number> {
+    const existing = await tx.marketCommission.findUnique({
+      where: { settlementId_userId: { settlementId, userId } },
+    });
+    if (!existing) return 0;
+
+    await tx.marketCommission.delete({ where: { id: existing.id } });
+    if (existing.amount > 0) {
+      await tx.transaction.create({
+        data: {
+          walletId,
+          amount: existing.amount,
+          type: TransactionType.REFUND,
+          description: `Rollback: Market Commission reversed ${existing.amount} - ${settlementId}`,
+        },
+      });
+    }
+    return existing.amount;
+  }
+}
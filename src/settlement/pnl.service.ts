@@ -1,8 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { BetStatus } from '@prisma/client';
+import type { Bet } from '@prisma/client';
 // @ts-ignore - MarketType exists after Prisma client regeneration
 import { MarketType } from '@prisma/client';
+import {
+  SPORTS_MARKETS,
+  isSportsMarketGtype,
+  type SportsMarketGtype,
+} from '../constants/sports-markets';
 
 @Injectable()
 export class PnlService {
@@ -18,12 +24,16 @@ export class PnlService {
    * - 'MATCH_ODDS' → MATCH_ODDS
    * - 'FANCY' → FANCY
    * - 'BOOKMAKER' → BOOKMAKER
+   * - 'TOSS' → TOSS
    */
   private mapMarketType(marketType: string | null | undefined): MarketType | null {
     if (!marketType) return null;
 
     const upper = marketType.toUpperCase();
     
+    // TOSS markets
+    if (upper.includes('TOSS')) return MarketType.TOSS;
+
     // FANCY markets
     if (upper.includes('FANCY')) return MarketType.FANCY;
     if (upper === 'FANCY' || upper === 'FANCY1') return MarketType.FANCY;
@@ -65,36 +75,7 @@ export class PnlService {
       },
     });
 
-    const pnlByMarket: Record<string, { profit: number; loss: number }> = {};
-
-    for (const bet of bets) {
-      const marketType = this.mapMarketType(bet.marketType);
-      if (!marketType) {
-        this.logger.warn(
-          `Skipping bet ${bet.id} - unknown marketType: ${bet.marketType}`,
-        );
-        continue;
-      }
-
-      if (!pnlByMarket[marketType]) {
-        pnlByMarket[marketType] = { profit: 0, loss: 0 };
-      }
-
-      // CRITICAL FIX: Use bet.pnl as SINGLE SOURCE OF TRUTH
-      // Settlement already wrote the final PnL value - we just aggregate it
-      // @ts-ignore - pnl field exists after database migration
-      const pnl = bet.pnl ?? 0;
-
-      // Aggregate based on sign of pnl
-      // Positive pnl = profit (user won)
-      // Negative pnl = loss (user lost)
-      if (pnl > 0) {
-        pnlByMarket[marketType].profit += pnl;
-      } else if (pnl < 0) {
-        pnlByMarket[marketType].loss += Math.abs(pnl);
-      }
-      // pnl === 0 is ignored (shouldn't happen, but safe to skip)
-    }
+    const pnlByMarket = this.aggregatePnlByMarket(bets);
 
     // Save per market
     for (const [marketTypeStr, { profit, loss }] of Object.entries(pnlByMarket)) {
@@ -132,6 +113,81 @@ export class PnlService {
     return pnlByMarket;
   }
 
+  /**
+   * Net P/L of one market type that calculateUserPnl would store once `outcomes` (pending bets
+   * of the user with the status and pnl settlement would give them) are settled.
+   * Read-only; used by settlement dry runs. Null when no WON / LOST bet maps to the market type.
+   */
+  async previewUserNetPnl(
+    userId: string,
+    eventId: string,
+    marketType: MarketType,
+    outcomes: Array<{ bet: Bet; status: BetStatus; pnl: number }>,
+  ): Promise<number | null> {
+    const settled = await this.prisma.bet.findMany({
+      where: {
+        userId,
+        eventId,
+        status: { in: [BetStatus.WON, BetStatus.LOST] },
+        id: { notIn: outcomes.map((o) => o.bet.id) },
+      },
+    });
+    const bets = [
+      ...settled,
+      ...outcomes
+        .filter(
+          (o) => o.status === BetStatus.WON || o.status === BetStatus.LOST,
+        )
+        .map((o) => ({ ...o.bet, status: o.status, pnl: o.pnl })),
+    ];
+
+    const entry = this.aggregatePnlByMarket(bets)[marketType];
+    return entry ? entry.profit - entry.loss : null;
+  }
+
+  private aggregatePnlByMarket(bets: Bet[]) {
+    const pnlByMarket: Record<string, { profit: number; loss: number }> = {};
+
+    for (const bet of bets) {
+      // Toss and soccer/tennis sports market bets carry whatever market_type the client sent,
+      // so gtype decides
+      const marketType =
+        (bet.gtype || '').toLowerCase() === 'toss'
+          ? MarketType.TOSS
+          : isSportsMarketGtype(bet.gtype)
+            ? SPORTS_MARKETS[bet.gtype.toLowerCase() as SportsMarketGtype]
+                .marketType
+            : this.mapMarketType(bet.marketType);
+      if (!marketType) {
+        this.logger.warn(
+          `Skipping bet ${bet.id} - unknown marketType: ${bet.marketType}`,
+        );
+        continue;
+      }
+
+      if (!pnlByMarket[marketType]) {
+        pnlByMarket[marketType] = { profit: 0, loss: 0 };
+      }
+
+      // CRITICAL FIX: Use bet.pnl as SINGLE SOURCE OF TRUTH
+      // Settlement already wrote the final PnL value - we just aggregate it
+      // @ts-ignore - pnl field exists after database migration
+      const pnl = bet.pnl ?? 0;
+
+      // Aggregate based on sign of pnl
+      // Positive pnl = profit (user won)
+      // Negative pnl = loss (user lost)
+      if (pnl > 0) {
+        pnlByMarket[marketType].profit += pnl;
+      } else if (pnl < 0) {
+        pnlByMarket[marketType].loss += Math.abs(pnl);
+      }
+      // pnl === 0 is ignored (shouldn't happen, but safe to skip)
+    }
+
+    return pnlByMarket;
+  }
+
   /**
    * Aggregate P/L for all users for an event
    */
@@ -8,16 +8,35 @@ import {
   UseGuards,
   BadRequestException,
   Delete,
+  Patch,
   ValidationPipe,
 } from '@nestjs/common';
-import { IsNotEmpty, IsString, IsOptional, IsBoolean, IsNumber, IsArray } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  IsArray,
+  IsIn,
+  Min,
+  Max,
+} from 'class-validator';
 import { SettlementService } from './settlement.service';
+import { MarketCommissionService } from './market-commission.service';
+import { AutoSettlementService } from './auto-settlement.service';
+import { SettlementApprovalService } from './settlement-approval.service';
+import { SettlementQueue } from './settlement.queue';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { UserRole, MarketType } from '@prisma/client';
 import type { User } from '@prisma/client';
+import {
+  SPORTS_MARKET_GTYPES,
+  type SportsMarketGtype,
+} from '../constants/sports-markets';
 
 class SettleFancyDto {
   @IsNotEmpty()
@@ -44,6 +63,14 @@ class SettleFancyDto {
   @IsArray()
   @IsString({ each: true })
   betIds?: string[]; // Optional: settle only specific bets. If not provided, settles all pending bets for the market
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean; // Optional: when true, return what the settlement would do without writing anything
+
+  @IsOptional()
+  @IsBoolean()
+  queued?: boolean; // Optional: settle the whole market in a background job (see GET jobs/:id)
 }
 
 class SettleMarketDto {
@@ -71,6 +98,14 @@ class SettleMarketDto {
   @IsArray()
   @IsString({ each: true })
   betIds?: string[]; // Optional: settle only specific bets. If not provided, settles all pending bets for the market
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean; // Optional: when true, return what the settlement would do without writing anything
+
+  @IsOptional()
+  @IsBoolean()
+  queued?: boolean; // Optional: settle the whole market in a background job (see GET jobs/:id)
 }
 
 class SettleTiedMatchDto {
@@ -94,6 +129,121 @@ class SettleTiedMatchDto {
   @IsArray()
   @IsString({ each: true })
   betIds?: string[]; // Optional: settle only specific bets. If not provided, settles all pending bets for the market
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean; // Optional: when true, return what the settlement would do without writing anything
+}
+
+class SettleTossDto {
+  @IsNotEmpty()
+  @IsString()
+  eventId: string;
+
+  @IsNotEmpty()
+  @IsString()
+  marketId: string;
+
+  @IsNotEmpty()
+  @IsString()
+  winnerSelectionId: string; // Runner selectionId that won the toss
+
+  @IsOptional()
+  @IsBoolean()
+  isCancel?: boolean; // Optional: when true, cancel/refund all matching bets instead of settling by winner
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  betIds?: string[]; // Optional: settle only specific bets. If not provided, settles all pending bets for the market
+}
+
+class SettleSportsMarketDto {
+  @IsNotEmpty()
+  @IsString()
+  eventId: string;
+
+  @IsNotEmpty()
+  @IsString()
+  marketId: string;
+
+  @IsIn(SPORTS_MARKET_GTYPES)
+  marketType: SportsMarketGtype; // overunder | btts | correctscore | setbetting (the bets' gtype)
+
+  @IsNotEmpty()
+  @IsString()
+  winnerSelectionId: string; // Betfair selectionId of the winning runner
+
+  @IsOptional()
+  @IsBoolean()
+  isCancel?: boolean; // Optional: when true, cancel/refund all matching bets instead of settling by winner
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  betIds?: string[]; // Optional: settle only specific bets. If not provided, settles all pending bets for the market
+}
+
+class SetMarketCommissionDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  rate: number | null; // % of net winnings; null removes the rate
+}
+
+class UpdateFancyAutoSettlementDto {
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  missingResultAfterMinutes?: number; // Flag MISSING_RESULT this long after the match start
+}
+
+class SetEventAutoSettleDto {
+  @IsNotEmpty()
+  @IsBoolean()
+  autoSettle: boolean;
+}
+
+class UpdateMarketAutoSettlementDto {
+  @IsOptional()
+  @IsIn(['OFF', 'QUEUE', 'EXECUTE'])
+  matchOdds?: 'OFF' | 'QUEUE' | 'EXECUTE';
+
+  @IsOptional()
+  @IsIn(['OFF', 'QUEUE', 'EXECUTE'])
+  bookmaker?: 'OFF' | 'QUEUE' | 'EXECUTE';
+}
+
+class ApproveProposalDto {
+  @IsOptional()
+  @IsNumber()
+  decisionRun?: number | null; // Fancy: required (or isCancel) for a flagged proposal; replaces the proposed run
+
+  @IsOptional()
+  @IsString()
+  winnerSelectionId?: string | null; // Match Odds / Bookmaker: same, for the winning runner
+
+  @IsOptional()
+  @IsBoolean()
+  isCancel?: boolean;
+}
+
+class RejectProposalDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+class SetApprovalRuleDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPayout: number | null; // Approval needed from this payout up (0 = always); null settles directly
 }
 
 @Controller('admin/settlement')
@@ -104,24 +254,41 @@ class SettleTiedMatchDto {
   'SETTLEMENT_ADMIN' as UserRole,
 )
 export class SettlementAdminController {
-  constructor(private readonly settlementService: SettlementService) {}
+  constructor(
+    private readonly settlementService: SettlementService,
+    private readonly marketCommissionService: MarketCommissionService,
+    private readonly autoSettlementService: AutoSettlementService,
+    private readonly settlementApprovalService: SettlementApprovalService,
+    private readonly settlementQueue: SettlementQueue,
+  ) {}
 
   /**
    * Settle fancy bets manually (Admin only)
+   * With "dryRun": true (here and on the other settle routes) nothing is written and the
+   * settlement preview is returned instead.
+   * When the market type needs approval (see approval/config) the settlement is not run and
+   * { "approvalRequired": true, "request": {...} } is returned instead.
+   * With "queued": true (fancy and Match Odds) the market is settled by a background job and
+   * { "queued": true, "jobId": "..." } is returned; follow it on GET /admin/settlement/jobs/:id.
    */
   @Post('fancy')
   async settleFancy(
     @Body() dto: SettleFancyDto,
     @CurrentUser() user: User,
   ) {
-    return this.settlementService.settleFancyManual(
-      dto.eventId,
-      dto.selectionId,
-      dto.decisionRun ?? null,
-      dto.isCancel,
-      dto.marketId ?? null,
+    return this.settlementApprovalService.settleOrRequestApproval(
+      {
+        marketType: MarketType.FANCY,
+        eventId: dto.eventId,
+        selectionId: dto.selectionId,
+        decisionRun: dto.decisionRun ?? null,
+        isCancel: dto.isCancel,
+        marketId: dto.marketId ?? null,
+        betIds: dto.betIds, // Pass optional betIds array
+        queued: dto.queued === true,
+      },
       user.id,
-      dto.betIds, // Pass optional betIds array
+      dto.dryRun === true,
     );
   }
 
@@ -150,35 +317,47 @@ export class SettlementAdminController {
 
     // Route to appropriate settlement function
     if (dto.marketType === 'BOOKMAKER') {
-      return this.settlementService.settleBookmakerManual(
-        dto.eventId,
-        dto.marketId,
-        dto.winnerSelectionId,
+      return this.settlementApprovalService.settleOrRequestApproval(
+        {
+          marketType: MarketType.BOOKMAKER,
+          eventId: dto.eventId,
+          marketId: dto.marketId,
+          winnerSelectionId: dto.winnerSelectionId,
+          betIds: dto.betIds,
+        },
         user.id,
-        dto.betIds,
+        dto.dryRun === true,
       );
     }
 
     if (dto.marketType === 'TIED_MATCH') {
-      return this.settlementService.settleTiedMatchManual(
-        dto.eventId,
-        dto.marketId,
-        dto.winnerSelectionId,
+      return this.settlementApprovalService.settleOrRequestApproval(
+        {
+          marketType: MarketType.TIED_MATCH,
+          eventId: dto.eventId,
+          marketId: dto.marketId,
+          winnerSelectionId: dto.winnerSelectionId,
+          isCancel: dto.isCancel === true,
+          betIds: dto.betIds,
+        },
         user.id,
-        dto.betIds,
-        dto.isCancel === true,
+        dto.dryRun === true,
       );
     }
 
     // MATCH_ODDS
-    return this.settlementService.settleMarketManual(
-      dto.eventId,
-      dto.marketId,
-      dto.winnerSelectionId,
-      MarketType.MATCH_ODDS,
+    return this.settlementApprovalService.settleOrRequestApproval(
+      {
+        marketType: MarketType.MATCH_ODDS,
+        eventId: dto.eventId,
+        marketId: dto.marketId,
+        winnerSelectionId: dto.winnerSelectionId,
+        isCancel: dto.isCancel === true,
+        betIds: dto.betIds,
+        queued: dto.queued === true,
+      },
       user.id,
-      dto.betIds,
-      dto.isCancel === true,
+      dto.dryRun === true,
     );
   }
 
@@ -201,7 +380,37 @@ export class SettlementAdminController {
     @Body(ValidationPipe) dto: SettleTiedMatchDto,
     @CurrentUser() user: User,
   ) {
-    return this.settlementService.settleTiedMatchManual(
+    return this.settlementApprovalService.settleOrRequestApproval(
+      {
+        marketType: MarketType.TIED_MATCH,
+        eventId: dto.eventId,
+        marketId: dto.marketId,
+        winnerSelectionId: dto.winnerSelectionId,
+        isCancel: dto.isCancel === true,
+        betIds: dto.betIds,
+      },
+      user.id,
+      dto.dryRun === true,
+    );
+  }
+
+  /**
+   * Settle Toss bets (Admin only)
+   * POST /admin/settlement/toss
+   * Body: {
+   *   "eventId": "34917574",
+   *   "marketId": "1.250049502",
+   *   "winnerSelectionId": "49050",  // Runner that won the toss
+   *   "isCancel": false,             // Optional: refund all bets instead
+   *   "betIds": ["bet1", "bet2"]     // Optional
+   * }
+   */
+  @Post('toss')
+  async settleToss(
+    @Body(ValidationPipe) dto: SettleTossDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.settlementService.settleTossManual(
       dto.eventId,
       dto.marketId,
       dto.winnerSelectionId,
@@ -212,25 +421,56 @@ export class SettlementAdminController {
   }
 
   /**
-   * @deprecated Use POST /admin/settlement/market instead
-   * Settle match odds bets (Admin only)
+   * Settle soccer/tennis sports market bets (Admin only)
+   * POST /admin/settlement/sports-market
+   * Body: {
+   *   "eventId": "33858191",
+   *   "marketId": "1.237066385",
+   *   "marketType": "correctscore",   // overunder | btts | correctscore | setbetting
+   *   "winnerSelectionId": "3",       // Winning runner
+   *   "isCancel": false,              // Optional: refund all bets instead
+   *   "betIds": ["bet1", "bet2"]      // Optional
+   * }
    */
-  @Post('match-odds')
-  async settleMatchOdds(
-    @Body() dto: Omit<SettleMarketDto, 'marketType'>,
+  @Post('sports-market')
+  async settleSportsMarket(
+    @Body(ValidationPipe) dto: SettleSportsMarketDto,
     @CurrentUser() user: User,
   ) {
-    return this.settlementService.settleMarketManual(
+    return this.settlementService.settleSportsMarketManual(
       dto.eventId,
       dto.marketId,
+      dto.marketType,
       dto.winnerSelectionId,
-      MarketType.MATCH_ODDS,
       user.id,
       dto.betIds,
       dto.isCancel === true,
     );
   }
 
+  /**
+   * @deprecated Use POST /admin/settlement/market instead
+   * Settle match odds bets (Admin only)
+   */
+  @Post('match-odds')
+  async settleMatchOdds(
+    @Body() dto: Omit<SettleMarketDto, 'marketType'>,
+    @CurrentUser() user: User,
+  ) {
+    return this.settlementApprovalService.settleOrRequestApproval(
+      {
+        marketType: MarketType.MATCH_ODDS,
+        eventId: dto.eventId,
+        marketId: dto.marketId,
+        winnerSelectionId: dto.winnerSelectionId,
+        isCancel: dto.isCancel === true,
+        betIds: dto.betIds,
+      },
+      user.id,
+      dto.dryRun === true,
+    );
+  }
+
   /**
    * @deprecated Use POST /admin/settlement/market instead
    * Settle bookmaker bets (Admin only)
@@ -240,13 +480,284 @@ export class SettlementAdminController {
     @Body() dto: Omit<SettleMarketDto, 'marketType'>,
     @CurrentUser() user: User,
   ) {
-    return this.settlementService.settleBookmakerManual(
-      dto.eventId,
-      dto.marketId,
-      dto.winnerSelectionId,
+    return this.settlementApprovalService.settleOrRequestApproval(
+      {
+        marketType: MarketType.BOOKMAKER,
+        eventId: dto.eventId,
+        marketId: dto.marketId,
+        winnerSelectionId: dto.winnerSelectionId,
+        betIds: dto.betIds,
+      },
       user.id,
-      dto.betIds,
+      dto.dryRun === true,
+    );
+  }
+
+  /**
+   * Market commission rates (SUPER_ADMIN / ADMIN)
+   * GET /admin/settlement/commission
+   * Response: { "success": true, "marketTypes": { "MATCH_ODDS": 2 }, "users": { "<userId>": { "MATCH_ODDS": 1 } } }
+   */
+  @Get('commission')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getMarketCommissionRates() {
+    const rates = await this.marketCommissionService.getMarketCommissionRates();
+    return { success: true, ...rates };
+  }
+
+  /**
+   * Default market commission rate of a market type (SUPER_ADMIN / ADMIN)
+   * PATCH /admin/settlement/commission/MATCH_ODDS
+   * Body: { "rate": 2 } — 2% of a client's net winnings per settled market; { "rate": null } removes it
+   */
+  @Patch('commission/:marketType')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async setMarketCommissionRate(
+    @Param('marketType') marketType: string,
+    @Body(ValidationPipe) dto: SetMarketCommissionDto,
+  ) {
+    const result = await this.marketCommissionService.setMarketTypeRate(
+      marketType.toUpperCase() as MarketType,
+      dto.rate ?? null,
+    );
+    return { success: true, ...result };
+  }
+
+  /**
+   * Market commission override for a client or an agent (SUPER_ADMIN / ADMIN)
+   * PATCH /admin/settlement/commission/MATCH_ODDS/users/:userId
+   * Body: { "rate": 1.5 } or { "rate": null } to remove the override.
+   * On an agent it applies to every client below it; the nearest override wins.
+   */
+  @Patch('commission/:marketType/users/:userId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async setUserMarketCommissionRate(
+    @Param('marketType') marketType: string,
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) dto: SetMarketCommissionDto,
+  ) {
+    const result = await this.marketCommissionService.setUserRate(
+      userId,
+      marketType.toUpperCase() as MarketType,
+      dto.rate ?? null,
+    );
+    return { success: true, ...result };
+  }
+
+  /**
+   * Fancy auto-settlement config (SUPER_ADMIN / ADMIN)
+   * GET /admin/settlement/auto/fancy
+   * Response: { "success": true, "enabled": true, "autoSettleEventIds": ["34917574"], "missingResultAfterMinutes": 240 }
+   */
+  @Get('auto/fancy')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getFancyAutoSettlementConfig() {
+    const config =
+      await this.autoSettlementService.getFancyAutoSettlementConfig();
+    return { success: true, ...config };
+  }
+
+  /**
+   * PATCH /admin/settlement/auto/fancy
+   * Body: { "enabled": true, "missingResultAfterMinutes": 240 }
+   */
+  @Patch('auto/fancy')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async updateFancyAutoSettlementConfig(
+    @Body(ValidationPipe) dto: UpdateFancyAutoSettlementDto,
+  ) {
+    const config =
+      await this.autoSettlementService.updateFancyAutoSettlementConfig(dto);
+    return { success: true, ...config };
+  }
+
+  /**
+   * Settle an event's fancy results without approval (SUPER_ADMIN / ADMIN)
+   * PATCH /admin/settlement/auto/fancy/events/:eventId
+   * Body: { "autoSettle": true }
+   */
+  @Patch('auto/fancy/events/:eventId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async setEventAutoSettle(
+    @Param('eventId') eventId: string,
+    @Body(ValidationPipe) dto: SetEventAutoSettleDto,
+  ) {
+    const result = await this.autoSettlementService.setEventAutoSettle(
+      eventId,
+      dto.autoSettle,
+    );
+    return { success: true, ...result };
+  }
+
+  /**
+   * Match Odds / Bookmaker auto-settlement when the vendor closes the market (SUPER_ADMIN / ADMIN)
+   * GET /admin/settlement/auto/markets
+   * Response: { "success": true, "matchOdds": "QUEUE", "bookmaker": "OFF" }
+   */
+  @Get('auto/markets')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getMarketAutoSettlementConfig() {
+    const config =
+      await this.autoSettlementService.getMarketAutoSettlementConfig();
+    return { success: true, ...config };
+  }
+
+  /**
+   * PATCH /admin/settlement/auto/markets
+   * Body: { "matchOdds": "EXECUTE", "bookmaker": "QUEUE" } — OFF, QUEUE (proposal) or EXECUTE (settle)
+   */
+  @Patch('auto/markets')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async updateMarketAutoSettlementConfig(
+    @Body(ValidationPipe) dto: UpdateMarketAutoSettlementDto,
+  ) {
+    const config =
+      await this.autoSettlementService.updateMarketAutoSettlementConfig(dto);
+    return { success: true, ...config };
+  }
+
+  /**
+   * Settlement proposals from the result feed and closed vendor markets
+   * GET /admin/settlement/proposals?status=PENDING&eventId=...&limit=100
+   * Without status: PENDING, FLAGGED (flag CONFLICT or MISSING_RESULT) and FAILED.
+   */
+  @Get('proposals')
+  async getSettlementProposals(
+    @Query('status') status?: string,
+    @Query('eventId') eventId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.autoSettlementService.getProposals({
+      status,
+      eventId,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    return { success: true, ...result };
+  }
+
+  /**
+   * Settle a proposal as proposed
+   * POST /admin/settlement/proposals/:id/approve
+   * Body (flagged proposals): { "decisionRun": 54 } (fancy), { "winnerSelectionId": "49050" } or { "isCancel": true }
+   * Approval rules apply: the response can be a settlement request (approvalRequired) instead.
+   */
+  @Post('proposals/:id/approve')
+  async approveSettlementProposal(
+    @Param('id') id: string,
+    @Body(ValidationPipe) dto: ApproveProposalDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.autoSettlementService.approveProposal(id, user.id, dto ?? {});
+  }
+
+  /**
+   * POST /admin/settlement/proposals/:id/reject
+   * Body: { "reason": "Wrong run" }
+   */
+  @Post('proposals/:id/reject')
+  async rejectSettlementProposal(
+    @Param('id') id: string,
+    @Body(ValidationPipe) dto: RejectProposalDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.autoSettlementService.rejectProposal(id, user.id, dto?.reason);
+  }
+
+  /**
+   * Market types whose settlements and rollbacks need a second admin (SUPER_ADMIN / ADMIN)
+   * GET /admin/settlement/approval/config
+   * Response: { "success": true, "marketTypes": { "FANCY": { "minPayout": 50000 } } }
+   */
+  @Get('approval/config')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async getSettlementApprovalConfig() {
+    const config = await this.settlementApprovalService.getApprovalConfig();
+    return { success: true, ...config };
+  }
+
+  /**
+   * PATCH /admin/settlement/approval/config/FANCY
+   * Body: { "minPayout": 50000 } — approval for payouts from 50000 up (0 = always); { "minPayout": null } turns it off
+   */
+  @Patch('approval/config/:marketType')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  async setSettlementApprovalRule(
+    @Param('marketType') marketType: string,
+    @Body(ValidationPipe) dto: SetApprovalRuleDto,
+  ) {
+    const config = await this.settlementApprovalService.setMarketTypeRule(
+      marketType.toUpperCase() as MarketType,
+      dto.minPayout ?? null,
     );
+    return { success: true, ...config };
+  }
+
+  /**
+   * Settlements and rollbacks waiting for (or done after) a second admin's review
+   * GET /admin/settlement/approval/requests?status=PENDING&eventId=...&limit=100
+   */
+  @Get('approval/requests')
+  async getSettlementRequests(
+    @Query('status') status?: string,
+    @Query('eventId') eventId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.settlementApprovalService.getRequests({
+      status,
+      eventId,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    return { success: true, ...result };
+  }
+
+  /**
+   * Run a requested settlement or rollback; must be a different admin than the requester
+   * POST /admin/settlement/approval/requests/:id/approve
+   */
+  @Post('approval/requests/:id/approve')
+  async approveSettlementRequest(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ) {
+    return this.settlementApprovalService.approveRequest(id, user.id);
+  }
+
+  /**
+   * POST /admin/settlement/approval/requests/:id/reject
+   * Body: { "reason": "Wrong run" }
+   */
+  @Post('approval/requests/:id/reject')
+  async rejectSettlementRequest(
+    @Param('id') id: string,
+    @Body(ValidationPipe) dto: RejectProposalDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.settlementApprovalService.rejectRequest(
+      id,
+      user.id,
+      dto?.reason,
+    );
+  }
+
+  /**
+   * Progress of a queued settlement ("queued": true on POST fancy / market)
+   * GET /admin/settlement/jobs/:id
+   * Response: { "success": true, "job": { "state": "active", "progress": { "totalUsers": 900, "settledUsers": 450, "percent": 50, ... }, "failures": [], "resumable": false, ... } }
+   */
+  @Get('jobs/:id')
+  async getSettlementJob(@Param('id') id: string) {
+    const job = await this.settlementQueue.getSettlementJob(id);
+    return { success: true, job };
+  }
+
+  /**
+   * Run a failed settlement job again; users it already settled are skipped
+   * POST /admin/settlement/jobs/:id/resume
+   */
+  @Post('jobs/:id/resume')
+  async resumeSettlementJob(@Param('id') id: string) {
+    const job = await this.settlementQueue.resumeSettlementJob(id);
+    return { success: true, job };
   }
 
   /**
@@ -292,12 +803,21 @@ export class SettlementAdminController {
    * GET /admin/settlement/pending/match-odds
    * GET /admin/settlement/pending/bookmaker
    * GET /admin/settlement/pending/tied-match
+   * GET /admin/settlement/pending/toss
+   * GET /admin/settlement/pending/sports-markets
    */
   @Get('pending/:marketType')
   async getPendingBetsByMarketType(
     @Param('marketType') marketType: string,
   ) {
-    const validTypes = ['fancy', 'match-odds', 'bookmaker', 'tied-match'];
+    const validTypes = [
+      'fancy',
+      'match-odds',
+      'bookmaker',
+      'tied-match',
+      'toss',
+      'sports-markets',
+    ];
     
     if (!validTypes.includes(marketType)) {
       throw new BadRequestException(
@@ -306,7 +826,13 @@ export class SettlementAdminController {
     }
 
     return this.settlementService.getPendingBetsByMarketType(
-      marketType as 'fancy' | 'match-odds' | 'bookmaker' | 'tied-match',
+      marketType as
+        | 'fancy'
+        | 'match-odds'
+        | 'bookmaker'
+        | 'tied-match'
+        | 'toss'
+        | 'sports-markets',
     );
   }
 
@@ -316,7 +842,8 @@ export class SettlementAdminController {
    * 
    * Query Parameters:
    * - eventId: Filter by event ID
-   * - marketType: Filter by market type (FANCY, MATCH_ODDS, BOOKMAKER)
+   * - marketType: Filter by market type (FANCY, MATCH_ODDS, BOOKMAKER, TIED_MATCH, TOSS, OVER_UNDER,
+   *   BOTH_TEAMS_TO_SCORE, CORRECT_SCORE, SET_BETTING)
    * - isRollback: Filter by rollback status (true/false)
    * - settledBy: Filter by who settled (user ID or "AUTO")
    * - startDate: Start of day in Asia/Karachi (prefer YYYY-MM-DD; avoids UTC-midnight parsing bugs)
@@ -344,7 +871,17 @@ export class SettlementAdminController {
     }
 
     if (marketType) {
-      const validMarketTypes = ['FANCY', 'MATCH_ODDS', 'BOOKMAKER', 'TIED_MATCH'];
+      const validMarketTypes = [
+        'FANCY',
+        'MATCH_ODDS',
+        'BOOKMAKER',
+        'TIED_MATCH',
+        'TOSS',
+        'OVER_UNDER',
+        'BOTH_TEAMS_TO_SCORE',
+        'CORRECT_SCORE',
+        'SET_BETTING',
+      ];
       if (!validMarketTypes.includes(marketType.toUpperCase())) {
         throw new BadRequestException(
           `Invalid market type: ${marketType}. Must be one of: ${validMarketTypes.join(', ')}`,
@@ -561,6 +1098,7 @@ export class SettlementAdminController {
    *   "success": true,
    *   "message": "Settlement rolled back successfully"
    * }
+   * When the market type needs approval: { "success": true, "approvalRequired": true, "request": {...} }
    */
   @Post('rollback')
   async rollbackSettlement(
@@ -571,10 +1109,9 @@ export class SettlementAdminController {
       throw new BadRequestException('settlementId is required');
     }
 
-    return this.settlementService.rollbackSettlement(
-      body.settlementId,
+    return this.settlementApprovalService.rollbackOrRequestApproval(
+      { settlementId: body.settlementId, betIds: body.betIds },
       user.id,
-      body.betIds,
     );
   }
 
@@ -0,0 +1,552 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import {
+  MarketType,
+  Prisma,
+  SettlementProposalStatus,
+  SettlementRequest,
+  SettlementRequestAction,
+  SettlementRequestStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  SettlementService,
+  type SettlementPreview,
+} from './settlement.service';
+import { SettlementQueue } from './settlement.queue';
+
+/** Approval rule of a market type: requests are needed from this payout up (0 = always). */
+export interface SettlementApprovalRule {
+  minPayout: number;
+}
+
+/** Setting `settlement_approval`. Market types without a rule settle and roll back directly. */
+export interface SettlementApprovalConfig {
+  marketTypes: Partial<Record<MarketType, SettlementApprovalRule>>;
+}
+
+/**
+ * Arguments of a manual settle call, stored on the request and replayed on approval.
+ * `queued` (Fancy and Match Odds) settles the whole market in a SettlementQueue job.
+ */
+export type SettleRequestParams =
+  | {
+      marketType: typeof MarketType.FANCY;
+      eventId: string;
+      selectionId: string;
+      decisionRun: number | null;
+      isCancel: boolean;
+      marketId: string | null;
+      betIds?: string[];
+      queued?: boolean;
+    }
+  | {
+      marketType: typeof MarketType.MATCH_ODDS;
+      eventId: string;
+      marketId: string;
+      winnerSelectionId: string;
+      isCancel: boolean;
+      betIds?: string[];
+      queued?: boolean;
+    }
+  | {
+      marketType: typeof MarketType.TIED_MATCH;
+      eventId: string;
+      marketId: string;
+      winnerSelectionId: string;
+      isCancel: boolean;
+      betIds?: string[];
+    }
+  | {
+      marketType: typeof MarketType.BOOKMAKER;
+      eventId: string;
+      marketId: string;
+      winnerSelectionId: string;
+      betIds?: string[];
+    };
+
+/**
+ * Market types a rule can be set for: those whose settle calls have a dry run. Toss and the
+ * soccer / tennis sports markets always settle directly.
+ */
+const APPROVAL_MARKET_TYPES: MarketType[] = [
+  MarketType.FANCY,
+  MarketType.MATCH_ODDS,
+  MarketType.TIED_MATCH,
+  MarketType.BOOKMAKER,
+];
+
+/** Response of a settle or rollback call that was stored as a request instead of run. */
+export interface SettlementApprovalPending {
+  success: true;
+  approvalRequired: true;
+  message: string;
+  request: SettlementRequest;
+}
+
+export function isApprovalPending(
+  result: object,
+): result is SettlementApprovalPending {
+  return 'approvalRequired' in result;
+}
+
+/** Arguments of a rollback call, stored on the request and replayed on approval. */
+export interface RollbackRequestParams {
+  settlementId: string;
+  betIds?: string[];
+}
+
+/**
+ * Maker-checker for manual settlements and rollbacks
+ *
+ * When the market type has a rule in `settlement_approval`, a settle or rollback call whose
+ * payout reaches the rule's `minPayout` is not run: it is stored as a PENDING SettlementRequest
+ * with its dry-run totals, and runs only when a different admin approves it. The payout is the
+ * total credited to winning users (settle) or taken back from users (rollback), over the whole
+ * market even when the call is limited to betIds, so a market cannot be settled in batches that
+ * each stay under the threshold.
+ * Proposals from the vendor result feed (AutoSettlementService) approved by an admin come through
+ * here too; such a proposal waits as AWAITING_APPROVAL and follows its request's outcome.
+ */
+@Injectable()
+export class SettlementApprovalService {
+  private readonly logger = new Logger(SettlementApprovalService.name);
+  private readonly SETTLEMENT_APPROVAL_KEY = 'settlement_approval';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settlementService: SettlementService,
+    private readonly settlementQueue: SettlementQueue,
+  ) {}
+
+  private parseSettlementApprovalConfig(
+    raw: string | null | undefined,
+  ): SettlementApprovalConfig {
+    if (!raw) return { marketTypes: {} };
+    try {
+      const parsed = JSON.parse(raw) as Partial<SettlementApprovalConfig>;
+      return {
+        marketTypes:
+          parsed.marketTypes && typeof parsed.marketTypes === 'object'
+            ? parsed.marketTypes
+            : {},
+      };
+    } catch {
+      this.logger.warn(
+        `Invalid ${this.SETTLEMENT_APPROVAL_KEY} setting, approval is off`,
+      );
+      return { marketTypes: {} };
+    }
+  }
+
+  async getApprovalConfig(): Promise<SettlementApprovalConfig> {
+    const existing = await this.prisma.setting.findUnique({
+      where: { key: this.SETTLEMENT_APPROVAL_KEY },
+      select: { value: true },
+    });
+    return this.parseSettlementApprovalConfig(existing?.value);
+  }
+
+  /**
+   * Require approval for a market type from `minPayout` up, or settle it directly again (null).
+   */
+  async setMarketTypeRule(marketType: MarketType, minPayout: number | null) {
+    if (!APPROVAL_MARKET_TYPES.includes(marketType)) {
+      throw new BadRequestException(
+        `marketType must be one of: ${APPROVAL_MARKET_TYPES.join(', ')} (other market types settle without approval)`,
+      );
+    }
+    if (minPayout !== null && !(Number.isFinite(minPayout) && minPayout >= 0)) {
+      throw new BadRequestException('minPayout must be a number of at least 0');
+    }
+
+    const config = await this.getApprovalConfig();
+    const marketTypes = { ...config.marketTypes };
+    if (minPayout === null) delete marketTypes[marketType];
+    else marketTypes[marketType] = { minPayout };
+
+    const next: SettlementApprovalConfig = { ...config, marketTypes };
+    const value = JSON.stringify(next);
+    await this.prisma.setting.upsert({
+      where: { key: this.SETTLEMENT_APPROVAL_KEY },
+      update: { value },
+      create: { key: this.SETTLEMENT_APPROVAL_KEY, value },
+    });
+    return next;
+  }
+
+  private runSettle(
+    params: SettleRequestParams,
+    adminId: string,
+    dryRun: boolean,
+  ) {
+    if (
+      !dryRun &&
+      (params.marketType === MarketType.FANCY ||
+        params.marketType === MarketType.MATCH_ODDS) &&
+      params.queued
+    ) {
+      if (params.betIds && params.betIds.length > 0) {
+        throw new BadRequestException(
+          'A queued settlement settles the whole market; betIds cannot be used with queued',
+        );
+      }
+      return this.settlementQueue.addSettlementJob(
+        params.marketType === MarketType.FANCY
+          ? {
+              marketType: params.marketType,
+              eventId: params.eventId,
+              selectionId: params.selectionId,
+              decisionRun: params.decisionRun,
+              isCancel: params.isCancel,
+              marketId: params.marketId,
+            }
+          : {
+              marketType: params.marketType,
+              eventId: params.eventId,
+              marketId: params.marketId,
+              winnerSelectionId: params.winnerSelectionId,
+              isCancel: params.isCancel,
+            },
+        adminId,
+      );
+    }
+
+    switch (params.marketType) {
+      case MarketType.FANCY:
+        return this.settlementService.settleFancyManual(
+          params.eventId,
+          params.selectionId,
+          params.decisionRun,
+          params.isCancel,
+          params.marketId,
+          adminId,
+          params.betIds,
+          dryRun,
+        );
+      case MarketType.MATCH_ODDS:
+        return this.settlementService.settleMarketManual(
+          params.eventId,
+          params.marketId,
+          params.winnerSelectionId,
+          MarketType.MATCH_ODDS,
+          adminId,
+          params.betIds,
+          params.isCancel,
+          dryRun,
+        );
+      case MarketType.TIED_MATCH:
+        return this.settlementService.settleTiedMatchManual(
+          params.eventId,
+          params.marketId,
+          params.winnerSelectionId,
+          adminId,
+          params.betIds,
+          params.isCancel,
+          dryRun,
+        );
+      case MarketType.BOOKMAKER:
+        return this.settlementService.settleBookmakerManual(
+          params.eventId,
+          params.marketId,
+          params.winnerSelectionId,
+          adminId,
+          params.betIds,
+          dryRun,
+        );
+    }
+  }
+
+  /** Total credited to winning users by a settlement preview. */
+  private getPreviewPayout(preview: SettlementPreview): number {
+    return preview.users.reduce((sum, u) => sum + Math.max(u.payout, 0), 0);
+  }
+
+  /**
+   * Settle now, or store a request when the market type needs approval for this payout.
+   * A dry run always returns the preview.
+   * @param options.proposalId settlement proposal being approved; it follows the request.
+   */
+  async settleOrRequestApproval(
+    params: SettleRequestParams,
+    adminId: string,
+    dryRun: boolean,
+    options: { proposalId?: string } = {},
+  ) {
+    const rule = (await this.getApprovalConfig()).marketTypes[
+      params.marketType
+    ];
+    if (dryRun || !rule) return this.runSettle(params, adminId, dryRun);
+
+    const result = await this.runSettle(params, adminId, true);
+    if (!('dryRun' in result)) return this.runSettle(params, adminId, false);
+    const preview: SettlementPreview = result;
+    const payout = this.getPreviewPayout(preview);
+    // The threshold applies to the whole market, not to the betIds batch
+    let marketPayout = payout;
+    if (params.betIds && params.betIds.length > 0) {
+      const market = await this.runSettle(
+        { ...params, betIds: undefined },
+        adminId,
+        true,
+      );
+      if ('dryRun' in market) marketPayout = this.getPreviewPayout(market);
+    }
+    if (marketPayout < rule.minPayout) {
+      return this.runSettle(params, adminId, false);
+    }
+
+    return this.createRequest({
+      action: SettlementRequestAction.SETTLE,
+      settlementId: preview.settlementId,
+      eventId: preview.eventId,
+      marketType: preview.marketType,
+      marketId: preview.marketId,
+      proposalId: options.proposalId ?? null,
+      params,
+      preview: {
+        winnerId: preview.winnerId,
+        isCancel: preview.isCancel,
+        betCount: preview.betCount,
+        userCount: preview.userCount,
+        totalPnl: preview.totalPnl,
+        totalPayout: preview.totalPayout,
+        totalLiabilityReleased: preview.totalLiabilityReleased,
+        marketPayout,
+      },
+      payout,
+      requestedBy: adminId,
+    });
+  }
+
+  /**
+   * Roll back now, or store a request when the settlement's market type needs approval for
+   * the amount taken back.
+   */
+  async rollbackOrRequestApproval(
+    params: RollbackRequestParams,
+    adminId: string,
+  ) {
+    const config = await this.getApprovalConfig();
+    const preview = await this.settlementService.previewRollback(
+      params.settlementId,
+      params.betIds,
+    );
+    const rule = config.marketTypes[preview.marketType];
+    const payout = -preview.totalBalanceReversal;
+    // The threshold applies to the whole settlement, not to the betIds batch
+    const marketPayout =
+      params.betIds && params.betIds.length > 0
+        ? -(await this.settlementService.previewRollback(params.settlementId))
+            .totalBalanceReversal
+        : payout;
+    if (!rule || marketPayout < rule.minPayout) {
+      return this.settlementService.rollbackSettlement(
+        params.settlementId,
+        adminId,
+        params.betIds,
+      );
+    }
+
+    return this.createRequest({
+      action: SettlementRequestAction.ROLLBACK,
+      settlementId: preview.settlementId,
+      eventId: preview.eventId,
+      marketType: preview.marketType,
+      marketId: null,
+      params,
+      preview: {
+        betCount: preview.betCount,
+        userCount: preview.userCount,
+        totalPnl: preview.totalPnl,
+        totalBalanceReversal: preview.totalBalanceReversal,
+        marketPayout,
+      },
+      payout,
+      requestedBy: adminId,
+    });
+  }
+
+  private async createRequest(
+    data: Omit<Prisma.SettlementRequestUncheckedCreateInput, 'params'> & {
+      params: SettleRequestParams | RollbackRequestParams;
+    },
+  ): Promise<SettlementApprovalPending> {
+    const open = await this.prisma.settlementRequest.findFirst({
+      where: {
+        settlementId: data.settlementId,
+        status: SettlementRequestStatus.PENDING,
+      },
+      select: { id: true },
+    });
+    if (open) {
+      throw new BadRequestException(
+        `Settlement ${data.settlementId} already has a pending request (${open.id})`,
+      );
+    }
+
+    const request = await this.prisma.settlementRequest.create({
+      data: {
+        ...data,
+        params: data.params as unknown as Prisma.InputJsonValue,
+      },
+    });
+    this.logger.log(
+      `${request.action} of ${request.settlementId} requested by ${request.requestedBy} (payout ${request.payout}), waiting for approval`,
+    );
+    return {
+      success: true,
+      approvalRequired: true,
+      message: 'Waiting for approval by another admin',
+      request,
+    };
+  }
+
+  async getRequests(filters: {
+    status?: string;
+    eventId?: string;
+    limit?: number;
+  }) {
+    const status = filters.status?.toUpperCase();
+    if (
+      status &&
+      !Object.values(SettlementRequestStatus).includes(
+        status as SettlementRequestStatus,
+      )
+    ) {
+      throw new BadRequestException(
+        `status must be one of: ${Object.values(SettlementRequestStatus).join(', ')}`,
+      );
+    }
+    const requests = await this.prisma.settlementRequest.findMany({
+      where: {
+        status:
+          (status as SettlementRequestStatus | undefined) ??
+          SettlementRequestStatus.PENDING,
+        ...(filters.eventId ? { eventId: filters.eventId } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(Math.floor(filters.limit ?? 100) || 100, 1), 500),
+    });
+    return { count: requests.length, requests };
+  }
+
+  /**
+   * Move a PENDING request to `status`. Only one reviewer can win, and never the requester.
+   */
+  private async claimRequest(
+    id: string,
+    reviewedBy: string,
+    status: SettlementRequestStatus,
+    reason?: string,
+  ): Promise<SettlementRequest> {
+    const claimed = await this.prisma.settlementRequest.updateMany({
+      where: {
+        id,
+        status: SettlementRequestStatus.PENDING,
+        requestedBy: { not: reviewedBy },
+      },
+      data: {
+        status,
+        reviewedBy,
+        reviewedAt: new Date(),
+        ...(reason ? { reason } : {}),
+      },
+    });
+    if (claimed.count === 0) {
+      const existing = await this.prisma.settlementRequest.findUnique({
+        where: { id },
+        select: { status: true, requestedBy: true },
+      });
+      if (!existing) throw new BadRequestException('Request not found');
+      if (existing.status !== SettlementRequestStatus.PENDING) {
+        throw new BadRequestException(`Request is already ${existing.status}`);
+      }
+      throw new ForbiddenException(
+        'A request must be reviewed by a different admin than the one who made it',
+      );
+    }
+    return this.prisma.settlementRequest.findUniqueOrThrow({ where: { id } });
+  }
+
+  /**
+   * Approve a request and run the settlement or rollback as the approver. A request that
+   * fails is marked FAILED with the error; make a new request to try again.
+   */
+  async approveRequest(id: string, adminId: string) {
+    const request = await this.claimRequest(
+      id,
+      adminId,
+      SettlementRequestStatus.APPROVED,
+    );
+
+    try {
+      const result =
+        request.action === SettlementRequestAction.ROLLBACK
+          ? await this.settlementService.rollbackSettlement(
+              request.settlementId,
+              adminId,
+              (request.params as unknown as RollbackRequestParams).betIds,
+            )
+          : await this.runSettle(
+              request.params as unknown as SettleRequestParams,
+              adminId,
+              false,
+            );
+      this.logger.log(
+        `${request.action} of ${request.settlementId} requested by ${request.requestedBy} approved by ${adminId}`,
+      );
+      await this.closeProposal(request, SettlementProposalStatus.APPLIED, {
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+      });
+      return { success: true, request, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.prisma.settlementRequest.update({
+        where: { id },
+        data: { status: SettlementRequestStatus.FAILED, error: message },
+      });
+      await this.closeProposal(request, SettlementProposalStatus.FAILED, {
+        error: message,
+      });
+      this.logger.error(`Settlement request ${id} failed: ${message}`);
+      throw error;
+    }
+  }
+
+  async rejectRequest(id: string, adminId: string, reason?: string) {
+    const request = await this.claimRequest(
+      id,
+      adminId,
+      SettlementRequestStatus.REJECTED,
+      reason,
+    );
+    await this.closeProposal(request, SettlementProposalStatus.REJECTED, {
+      reviewedBy: adminId,
+      reviewedAt: new Date(),
+      flagReason: reason ?? `Settlement request ${id} rejected`,
+    });
+    return { success: true, request };
+  }
+
+  /** Move the proposal a request was made from (if any) to the request's outcome. */
+  private async closeProposal(
+    request: SettlementRequest,
+    status: SettlementProposalStatus,
+    data: Prisma.SettlementProposalUpdateManyMutationInput,
+  ) {
+    if (!request.proposalId) return;
+    await this.prisma.settlementProposal.updateMany({
+      where: {
+        id: request.proposalId,
+        status: SettlementProposalStatus.AWAITING_APPROVAL,
+      },
+      data: { ...data, status },
+    });
+  }
+}
@@ -2,28 +2,48 @@ import { Module } from '@nestjs/common';
 import { SettlementService } from './settlement.service';
 import { PnlService } from './pnl.service';
 import { HierarchyPnlService } from './hierarchy-pnl.service';
+import { MarketCommissionService } from './market-commission.service';
+import { AutoSettlementService } from './auto-settlement.service';
+import { SettlementApprovalService } from './settlement-approval.service';
+import { SettlementQueue } from './settlement.queue';
+import { SettlementWorker } from './settlement.worker';
 import { SettlementController } from './settlement.controller';
 import { SettlementAdminController } from './settlement-admin.controller';
 import { CricketIdModule } from '../cricketid/cricketid.module';
 import { RedisModule } from '../common/redis/redis.module';
 import { BackgroundProcessorModule } from '../common/background/background-processor.module';
+import { ResultsModule } from '../results/results.module';
+import { UsersModule } from '../users/users.module';
 import { FancyExposureService } from '../bets/fancy-exposure.service';
 import { MatchOddsExposureService } from '../bets/matchodds-exposure.service';
 import { BookmakerExposureService } from '../bets/bookmaker-exposure.service';
+import { TossExposureService } from '../bets/toss-exposure.service';
+import { SportsMarketExposureService } from '../bets/sports-market-exposure.service';
+import { LiabilityService } from '../bets/liability.service';
 
 @Module({
   imports: [
     CricketIdModule,
     RedisModule, // ✅ PERFORMANCE: Redis for snapshot invalidation
     BackgroundProcessorModule, // ✅ PERFORMANCE: Background processing for PnL recalculation
+    ResultsModule,
+    UsersModule,
   ],
   providers: [
     SettlementService,
     PnlService,
     HierarchyPnlService,
+    MarketCommissionService,
+    AutoSettlementService,
+    SettlementApprovalService,
+    SettlementQueue,
+    SettlementWorker,
     FancyExposureService,
     MatchOddsExposureService,
     BookmakerExposureService,
+    TossExposureService,
+    SportsMarketExposureService,
+    LiabilityService,
   ],
   controllers: [SettlementController, SettlementAdminController],
   exports: [PnlService, HierarchyPnlService, SettlementService],
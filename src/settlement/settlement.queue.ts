@@ -0,0 +1,259 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { MarketType } from '@prisma/client';
+import { Job, Queue } from 'bullmq';
+
+/** Settle call run by SettlementWorker (settleFancyManual / settleMarketManual arguments). */
+export type QueuedSettlementParams =
+  | {
+      marketType: typeof MarketType.FANCY;
+      eventId: string;
+      selectionId: string;
+      decisionRun: number | null;
+      isCancel: boolean;
+      marketId: string | null;
+    }
+  | {
+      marketType: typeof MarketType.MATCH_ODDS;
+      eventId: string;
+      marketId: string;
+      winnerSelectionId: string;
+      isCancel: boolean;
+    };
+
+export interface SettlementJobData {
+  settlementId: string;
+  params: QueuedSettlementParams;
+  adminId: string;
+}
+
+/** Checkpoint of a settlement job, written after every chunk; a retry resumes from it. */
+export interface SettlementJobProgress {
+  totalUsers: number;
+  totalBets: number;
+  /** Users whose bets are settled */
+  settledUserIds: string[];
+  settledBets: number;
+  chunkSize: number;
+  /** Chunks that failed, latest attempt last */
+  failures: Array<{
+    attempt: number;
+    userIds: string[];
+    error: string;
+    at: string;
+  }>;
+}
+
+/**
+ * Settlement Queue
+ *
+ * Large Fancy and Match Odds settlements run as jobs on the `settlement` queue instead of in
+ * one request and one transaction: SettlementWorker settles the market a chunk of users at a
+ * time. Same Redis connection as BetProcessingQueue.
+ */
+@Injectable()
+export class SettlementQueue implements OnModuleDestroy {
+  private readonly logger = new Logger(SettlementQueue.name);
+  private queue: Queue<SettlementJobData>;
+
+  constructor() {
+    try {
+      this.queue = new Queue<SettlementJobData>('settlement', {
+        connection: {
+          host: process.env.REDIS_HOST || 'localhost',
+          port: parseInt(process.env.REDIS_PORT || '6379'),
+          password: process.env.REDIS_PASSWORD,
+          maxRetriesPerRequest: null, // Disable retries to reduce spam
+          enableReadyCheck: false, // Don't wait for ready check
+          lazyConnect: true, // Connect on demand
+          retryStrategy: () => null, // Stop retrying immediately
+          enableOfflineQueue: false, // Don't queue commands when offline
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          // Jobs stay readable on GET /admin/settlement/jobs/:id for a week
+          removeOnComplete: { age: 7 * 86400 },
+          removeOnFail: { age: 7 * 86400 },
+        },
+      });
+
+      let connectionErrorLogged = false;
+      this.queue.on('error', (err) => {
+        if (!connectionErrorLogged) {
+          this.logger.warn(
+            `Redis not available for settlement queue: ${err.message}. ` +
+              'Queued settlement is unavailable; settle without "queued".',
+          );
+          connectionErrorLogged = true;
+        }
+      });
+
+      this.logger.log('Settlement Queue initialized');
+    } catch (error) {
+      this.logger.error(
+        `Failed to initialize settlement queue: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      this.queue = null as unknown as Queue<SettlementJobData>;
+    }
+  }
+
+  private settlementIdOf(params: QueuedSettlementParams): string {
+    return params.marketType === MarketType.FANCY
+      ? `CRICKET:FANCY:${params.eventId}:${params.selectionId}`
+      : `CRICKET:MATCHODDS:${params.eventId}:${params.marketId}`;
+  }
+
+  private unavailable(error?: unknown): HttpException {
+    return new HttpException(
+      {
+        success: false,
+        error: 'Settlement queue is unavailable, settle without "queued"',
+        code: 'SETTLEMENT_QUEUE_UNAVAILABLE',
+        ...(error ? { details: (error as Error).message } : {}),
+      },
+      503,
+    );
+  }
+
+  /**
+   * Queue a settlement. A market can only have one waiting or running job.
+   */
+  async addSettlementJob(params: QueuedSettlementParams, adminId: string) {
+    if (!this.queue) throw this.unavailable();
+    const settlementId = this.settlementIdOf(params);
+
+    let job: Job<SettlementJobData>;
+    try {
+      const open = await this.queue.getJobs([
+        'active',
+        'waiting',
+        'delayed',
+        'prioritized',
+      ]);
+      const running = open.find((j) => j?.data?.settlementId === settlementId);
+      if (running) {
+        throw new HttpException(
+          {
+            success: false,
+            error: `Settlement ${settlementId} is already queued`,
+            code: 'SETTLEMENT_JOB_EXISTS',
+            jobId: running.id,
+          },
+          409,
+        );
+      }
+
+      job = await this.queue.add(
+        'settle-market',
+        { settlementId, params, adminId },
+        // BullMQ job ids cannot contain ':'
+        { jobId: `${settlementId.replace(/:/g, '-')}-${Date.now()}` },
+      );
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      throw this.unavailable(error);
+    }
+
+    this.logger.log(`Settlement ${settlementId} queued as job ${job.id}`);
+    return {
+      success: true,
+      queued: true,
+      jobId: job.id,
+      settlementId,
+      statusUrl: `/admin/settlement/jobs/${job.id}`,
+    };
+  }
+
+  private async findJob(id: string): Promise<Job<SettlementJobData>> {
+    if (!this.queue) throw this.unavailable();
+    let job: Job<SettlementJobData> | undefined;
+    try {
+      job = await this.queue.getJob(id);
+    } catch (error) {
+      throw this.unavailable(error);
+    }
+    if (!job) throw new NotFoundException(`Settlement job ${id} not found`);
+    return job;
+  }
+
+  /**
+   * State, progress and failures of a job. A failed job with users left is resumable.
+   */
+  async getSettlementJob(id: string) {
+    const job = await this.findJob(id);
+    const state = await job.getState();
+    const progress =
+      typeof job.progress === 'object' && job.progress !== null
+        ? (job.progress as SettlementJobProgress)
+        : null;
+    const settledUsers = progress?.settledUserIds.length ?? 0;
+
+    return {
+      id: job.id,
+      state,
+      settlementId: job.data.settlementId,
+      params: job.data.params,
+      requestedBy: job.data.adminId,
+      progress: progress
+        ? {
+            totalUsers: progress.totalUsers,
+            settledUsers,
+            totalBets: progress.totalBets,
+            settledBets: progress.settledBets,
+            percent:
+              progress.totalUsers > 0
+                ? Math.floor((settledUsers / progress.totalUsers) * 100)
+                : 100,
+          }
+        : null,
+      failures: progress?.failures ?? [],
+      failedReason: job.failedReason ?? null,
+      attemptsMade: job.attemptsMade,
+      attempts: job.opts.attempts ?? 1,
+      resumable:
+        state === 'failed' && (!progress || settledUsers < progress.totalUsers),
+      result: (job.returnvalue as unknown) ?? null,
+      createdAt: new Date(job.timestamp).toISOString(),
+      startedAt: job.processedOn
+        ? new Date(job.processedOn).toISOString()
+        : null,
+      finishedAt: job.finishedOn
+        ? new Date(job.finishedOn).toISOString()
+        : null,
+    };
+  }
+
+  /**
+   * Run a failed job again; it skips the users it already settled.
+   */
+  async resumeSettlementJob(id: string) {
+    const job = await this.findJob(id);
+    const state = await job.getState();
+    if (state !== 'failed') {
+      throw new HttpException(
+        {
+          success: false,
+          error: `Only a failed job can be resumed (job is ${state})`,
+          code: 'SETTLEMENT_JOB_NOT_RESUMABLE',
+        },
+        409,
+      );
+    }
+    await job.retry('failed', { resetAttemptsMade: true });
+    this.logger.log(`Settlement job ${id} resumed`);
+    return this.getSettlementJob(id);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.queue?.close();
+  }
+}
@@ -0,0 +1,51 @@
+import { Bet } from '@prisma/client';
+import { getSingleWinnerBetPnl } from './settlement.service';
+
+describe('getSingleWinnerBetPnl', () => {
+  const bet = (overrides: Partial<Bet>): Bet =>
+    ({
+      betValue: 100,
+      amount: 100,
+      betRate: 2.5,
+      odds: 2.5,
+      betType: 'BACK',
+      selectionId: 1,
+      winAmount: null,
+      lossAmount: null,
+      ...overrides,
+    }) as Bet;
+
+  it('pays a winning BACK bet stake × (odds − 1)', () => {
+    expect(getSingleWinnerBetPnl(bet({}), 1)).toBeCloseTo(150);
+  });
+
+  it('loses the stake on a losing BACK bet', () => {
+    expect(getSingleWinnerBetPnl(bet({}), 2)).toBe(-100);
+  });
+
+  it('charges a LAY bet on the winner stake × (odds − 1)', () => {
+    expect(getSingleWinnerBetPnl(bet({ betType: 'LAY' }), 1)).toBeCloseTo(-150);
+  });
+
+  it('wins the stake on a LAY bet against a loser', () => {
+    expect(getSingleWinnerBetPnl(bet({ betType: 'LAY' }), 2)).toBe(100);
+  });
+
+  it('ignores the stored win / loss amounts', () => {
+    expect(getSingleWinnerBetPnl(bet({ winAmount: 10000 }), 1)).toBeCloseTo(
+      150,
+    );
+    expect(
+      getSingleWinnerBetPnl(bet({ betType: 'LAY', lossAmount: 1 }), 1),
+    ).toBeCloseTo(-150);
+  });
+
+  it('falls back to amount / odds when betValue / betRate are missing', () => {
+    expect(
+      getSingleWinnerBetPnl(
+        bet({ betValue: null, betRate: null, amount: 50, odds: 3 }),
+        1,
+      ),
+    ).toBeCloseTo(100);
+  });
+});
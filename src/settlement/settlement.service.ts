@@ -1,13 +1,155 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { formatInTimeZone, fromZonedTime as zonedTimeToUtc } from 'date-fns-tz';
-import { PrismaClient, BetStatus, MarketType, TransactionType, TransferLogType } from '@prisma/client';
+import {
+  PrismaClient,
+  Bet,
+  BetStatus,
+  MarketType,
+  TransactionType,
+  TransferLogType,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AggregatorService } from '../cricketid/aggregator.service';
 import { PnlService } from './pnl.service';
 import { HierarchyPnlService } from './hierarchy-pnl.service';
+import { MarketCommissionService } from './market-commission.service';
 import { FancyExposureService } from '../bets/fancy-exposure.service';
 import { MatchOddsExposureService } from '../bets/matchodds-exposure.service';
 import { BookmakerExposureService } from '../bets/bookmaker-exposure.service';
+import { TossExposureService } from '../bets/toss-exposure.service';
+import { SportsMarketExposureService } from '../bets/sports-market-exposure.service';
+import { LiabilityService } from '../bets/liability.service';
+import {
+  SPORTS_MARKETS,
+  SPORTS_MARKET_GTYPES,
+  isSportsMarketGtype,
+  sportsMarketGtypeFor,
+  sportsMarketSettlementId,
+} from '../constants/sports-markets';
+import { BettingGateway } from '../betting/betting.gateway';
+import type { HierarchyPnlShare } from './hierarchy-pnl.service';
+
+/** Per-bet outcome and wallet effect of settling one user's bets on a fancy selection. */
+interface FancyUserSettlement {
+  balanceDelta: number;
+  liabilityDelta: number;
+  totalPnl: number;
+  refundPairBetIds: Set<string>;
+  useExposureCredit: boolean;
+  suppressBalanceCreditOnLoss: boolean;
+  lines: Array<{
+    tag: 'cancel_bet' | 'bet_win_exposure_credit' | 'bet_win_credit' | 'bet_loss';
+    bet: Bet;
+    type: string;
+    stake: number;
+    lossAmount: number;
+    status: BetStatus;
+    pnl: number;
+    alreadyRefunded: boolean;
+    liabilityAmount: number;
+    credit: number;
+    appliedExposureCredit: boolean;
+    running: { balanceDelta: number; liabilityDelta: number };
+  }>;
+}
+
+/** Status and P/L a settlement gives one bet. */
+interface BetSettlementUpdate {
+  id: string;
+  status: BetStatus;
+  pnl: number;
+}
+
+/** What settling a market would do to one user, computed without writing (dry run). */
+interface UserSettlementOutcome {
+  userId: string;
+  bets: Array<{ bet: Bet; status: BetStatus; pnl: number }>;
+  /** Wallet balance change; negative when the settlement debits the wallet */
+  payout: number;
+  liabilityReleased: number;
+}
+
+export interface SettlementPreviewUser {
+  userId: string;
+  username: string | null;
+  won: number;
+  lost: number;
+  cancelled: number;
+  /** P/L of the bets being settled */
+  pnl: number;
+  payout: number;
+  liabilityReleased: number;
+  /** Event P/L of the market type that would be recorded for the user (null when none) */
+  netPnl: number | null;
+  /** Rows HierarchyPnlService would record for netPnl */
+  hierarchy: HierarchyPnlShare[];
+  bets: Array<{
+    betId: string;
+    selectionId: number | null;
+    betType: string | null;
+    betName: string | null;
+    stake: number;
+    odds: number;
+    status: BetStatus;
+    pnl: number;
+  }>;
+}
+
+/** Result of a settle call with dryRun: the settlement it would make, nothing written. */
+export interface SettlementPreview {
+  dryRun: true;
+  settlementId: string;
+  eventId: string;
+  marketId: string | null;
+  marketType: MarketType;
+  winnerId: string | null;
+  isCancel: boolean;
+  betCount: number;
+  userCount: number;
+  totalPnl: number;
+  totalPayout: number;
+  totalLiabilityReleased: number;
+  users: SettlementPreviewUser[];
+}
+
+/** Result of previewRollback: the balance each user would give back, nothing written. */
+export interface RollbackPreview {
+  settlementId: string;
+  eventId: string;
+  marketType: MarketType;
+  betCount: number;
+  userCount: number;
+  /** P/L of the settled bets being reset */
+  totalPnl: number;
+  /** Sum of the users' wallet debits (0 or negative) */
+  totalBalanceReversal: number;
+  users: Array<{
+    userId: string;
+    betCount: number;
+    pnl: number;
+    balanceReversal: number;
+  }>;
+}
+
+/**
+ * Settled P/L of one single-winner market bet from its stake and decimal odds. The stored
+ * win / loss amounts are not used: they may have been priced from a client-supplied win_amount.
+ */
+export function getSingleWinnerBetPnl(
+  bet: Bet,
+  winnerSelectionIdNum: number,
+): number {
+  const stake = Number(bet.betValue ?? bet.amount ?? 0);
+  const odds = Number(bet.betRate ?? bet.odds ?? 0);
+  const isBack = (bet.betType || '').toUpperCase() === 'BACK';
+  const onWinner = Number(bet.selectionId) === winnerSelectionIdNum;
+  const payout = stake * (odds - 1);
+
+  if (isBack) {
+    return onWinner ? payout : -stake;
+  }
+  return onWinner ? -payout : stake;
+}
 
 @Injectable()
 export class SettlementService {
@@ -22,9 +164,14 @@ export class SettlementService {
     private readonly aggregatorService: AggregatorService,
     private readonly pnlService: PnlService,
     private readonly hierarchyPnlService: HierarchyPnlService,
+    private readonly marketCommissionService: MarketCommissionService,
     private readonly fancyExposureService: FancyExposureService,
     private readonly matchOddsExposureService: MatchOddsExposureService,
     private readonly bookmakerExposureService: BookmakerExposureService,
+    private readonly tossExposureService: TossExposureService,
+    private readonly sportsMarketExposureService: SportsMarketExposureService,
+    private readonly liabilityService: LiabilityService,
+    private readonly bettingGateway: BettingGateway,
   ) {
     // Clean expired cache entries every 5 minutes
     setInterval(() => this.cleanExpiredCache(), 5 * 60 * 1000);
@@ -62,6 +209,7 @@ export class SettlementService {
     const matchOddsBetsByMarket = new Map<string, any[]>();
     const bookmakerBetsByMarket = new Map<string, any[]>();
     const fancyBetsBySelection = new Map<string, any[]>();
+    const tossBetsByMarket = new Map<string, any[]>();
 
     for (const bet of bets) {
       const betGtype = (bet.gtype || '').toLowerCase();
@@ -86,6 +234,11 @@ export class SettlementService {
           fancyBetsBySelection.set(key, []);
         }
         fancyBetsBySelection.get(key)!.push(bet);
+      } else if (betGtype === 'toss' && bet.marketId) {
+        if (!tossBetsByMarket.has(bet.marketId)) {
+          tossBetsByMarket.set(bet.marketId, []);
+        }
+        tossBetsByMarket.get(bet.marketId)!.push(bet);
       }
     }
 
@@ -99,6 +252,14 @@ export class SettlementService {
     for (const [, selectionBets] of fancyBetsBySelection) {
       total += this.fancyExposureService.calculateFancyExposureInMemory(selectionBets);
     }
+    for (const [, marketBets] of tossBetsByMarket) {
+      total +=
+        this.tossExposureService.calculateTossExposureInMemory(marketBets);
+    }
+    total +=
+      this.sportsMarketExposureService.calculateSportsMarketsExposureInMemory(
+        bets,
+      );
     return total;
   }
 
@@ -175,6 +336,7 @@ export class SettlementService {
   /**
    * Settle fancy bets manually (Admin). Entry point for POST /admin/settlement/fancy.
    * Handles single and multiple fancy bets using FancyExposureService.getPerBetPnLForOutcome (single source of truth).
+   * With dryRun, returns the SettlementPreview instead and writes nothing.
    */
   async settleFancyManual(
     eventId: string,
@@ -184,6 +346,7 @@ export class SettlementService {
     marketId: string | null,
     adminId: string,
     betIds?: string[],
+    dryRun = false,
   ) {
     if (decisionRun === null && !isCancel) {
       throw new BadRequestException('Either decisionRun or isCancel must be provided');
@@ -214,7 +377,7 @@ export class SettlementService {
           ],
         },
       });
-      if (bets.length > 0) {
+      if (bets.length > 0 && !dryRun) {
         await this.prisma.bet.updateMany({
           where: { id: { in: bets.map((b) => b.id) } },
           data: { settlementId },
@@ -226,6 +389,18 @@ export class SettlementService {
       return { success: true, message: 'No pending bets to settle' };
     }
 
+    if (dryRun) {
+      return this.previewFancySettlement({
+        settlementId,
+        eventId,
+        selectionId,
+        marketId,
+        actualRuns,
+        isCancel,
+        bets,
+      });
+    }
+
     // Same as other markets: persist a row in `settlements` (bets stay in `bets` and link via settlement_id).
     // FANCY: winnerId stores decision run (runs scored); null when void/cancel.
     const fancyMarketId = marketId ?? bets[0]?.marketId ?? null;
@@ -286,53 +461,41 @@ export class SettlementService {
               2,
             ),
           );
-          for (const bet of userBets) {
-            const type = (bet.betType || '').toUpperCase();
-            const stake = bet.betValue ?? bet.amount ?? 0;
-            const lossAmount = bet.lossAmount ?? stake;
-            const liabilityAmount = type === 'LAY' || type === 'NO' ? lossAmount : stake;
-            liabilityDelta -= liabilityAmount;
-            balanceDelta += liabilityAmount;
+          const outcome = this.getFancyUserSettlement(userBets, actualRuns, true, null);
+          balanceDelta = outcome.balanceDelta;
+          liabilityDelta = outcome.liabilityDelta;
+          for (const line of outcome.lines) {
             console.log(
               '[FANCY_DEBUG]',
               JSON.stringify(
                 {
-                  tag: 'cancel_bet',
+                  tag: line.tag,
                   settlementId,
                   userId,
-                  betId: bet.id,
-                  type,
-                  stake,
-                  lossAmount,
-                  liabilityAmount,
-                  running: { balanceDelta, liabilityDelta },
+                  betId: line.bet.id,
+                  type: line.type,
+                  stake: line.stake,
+                  lossAmount: line.lossAmount,
+                  liabilityAmount: line.liabilityAmount,
+                  running: line.running,
                 },
                 null,
                 2,
               ),
             );
             await tx.bet.update({
-              where: { id: bet.id },
+              where: { id: line.bet.id },
               data: {
                 settlementId,
                 status: BetStatus.CANCELLED,
                 pnl: 0,
                 settledAt: new Date(),
                 updatedAt: new Date(),
-                metadata: { ...((bet.metadata as object) || {}), decisionRun: null },
+                metadata: { ...((line.bet.metadata as object) || {}), decisionRun: null },
               },
             });
           }
         } else {
-          // Partially hedged / gola: bets with isRefunded or refundedByBetId had liability already released at placement (REFUND tx).
-          // Do not release liability again; on win only credit profit (pnl), not stake+pnl.
-          const refundPairBetIds = new Set<string>();
-          for (const b of userBets) {
-            if (b.isRefunded === true) refundPairBetIds.add(b.id);
-            const pairedId = b.refundedByBetId;
-            if (pairedId && userBets.some((x) => x.id === pairedId)) refundPairBetIds.add(pairedId);
-          }
-
           // One exposure read per user group (fancy_exposures) for correct credit in hedge cases
           const marketIdForExposure = marketId ?? userBets[0]?.marketId ?? undefined;
           const exposure = marketIdForExposure
@@ -346,20 +509,9 @@ export class SettlementService {
               })
             : null;
 
-          const perBet = this.fancyExposureService.getPerBetPnLForOutcome(userBets, actualRuns);
-          const totalPnl = perBet.reduce((sum, { pnl }) => sum + pnl, 0);
-          const hasRefundPairs = refundPairBetIds.size > 0;
-          const hasExposure =
-            exposure != null &&
-            exposure.remainingExposure > 0;
-          const useExposureCredit =
-            hasExposure &&
-            hasRefundPairs;
-          // Range/Gola rule requested: if this is a range/gola exposure and net result is LOSS,
-          // do not credit anything to balance (credit should be 0 on loss).
-          const isRangeOrGola = exposure != null && exposure.remainingExposure > 0;
-          const suppressBalanceCreditOnLoss = isRangeOrGola && totalPnl <= 0;
-          let appliedExposureCredit = false;
+          const outcome = this.getFancyUserSettlement(userBets, actualRuns, false, exposure);
+          balanceDelta = outcome.balanceDelta;
+          liabilityDelta = outcome.liabilityDelta;
 
           console.log(
             '[FANCY_DEBUG]',
@@ -379,144 +531,51 @@ export class SettlementService {
                       remainingExposure: exposure.remainingExposure,
                     }
                   : null,
-                refundPairBetIds: Array.from(refundPairBetIds),
-                totalPnl,
-                useExposureCredit,
-                suppressBalanceCreditOnLoss,
+                refundPairBetIds: Array.from(outcome.refundPairBetIds),
+                totalPnl: outcome.totalPnl,
+                useExposureCredit: outcome.useExposureCredit,
+                suppressBalanceCreditOnLoss: outcome.suppressBalanceCreditOnLoss,
               },
               null,
               2,
             ),
           );
 
-          for (const { bet, betWins, pnl } of perBet) {
-            const type = (bet.betType || '').toUpperCase();
-            const stake = bet.betValue ?? bet.amount ?? 0;
-            const lossAmount = bet.lossAmount ?? stake;
-            const alreadyRefunded = refundPairBetIds.has(bet.id);
-            // BUG 2 FIX: Always release full liability on settlement, regardless of refund/hedge flags.
-            const liabilityAmount = type === 'LAY' || type === 'NO' ? lossAmount : stake;
-            liabilityDelta -= liabilityAmount;
-
-            if (betWins) {
-              if (useExposureCredit && alreadyRefunded && !appliedExposureCredit) {
-                // Gola / range fancy: remaining_exposure is the effective stake, totalPnl is the net profit.
-                const effectiveStake = exposure!.remainingExposure;
-                const profit = totalPnl;
-                // GOLA / RANGE RULE:
-                // - Detect gola ONLY via exposure.remainingExposure > 0
-                // - Win (totalPnl > 0): credit = remainingExposure + totalPnl (only once)
-                // - Loss (totalPnl <= 0): credit = 0
-                const credit = totalPnl > 0 ? effectiveStake + profit : 0;
-                balanceDelta += credit;
-                appliedExposureCredit = true;
-                console.log(
-                  '[FANCY_DEBUG]',
-                  JSON.stringify(
-                    {
-                      tag: 'bet_win_exposure_credit',
-                      settlementId,
-                      userId,
-                      betId: bet.id,
-                      type,
-                      stake,
-                      lossAmount,
-                      pnl,
-                      betWins,
-                      alreadyRefunded,
-                      liabilityAmount,
-                      credit,
-                      appliedExposureCredit,
-                      running: { balanceDelta, liabilityDelta },
-                    },
-                    null,
-                    2,
-                  ),
-                );
-              } else {
-                // In exposure mode, refunded bets are credited only once via exposure credit.
-                // All other bets are settled individually.
-                const profit = pnl;
-                const credit =
-                  useExposureCredit && alreadyRefunded
-                    ? 0
-                    : !hasExposure && hasRefundPairs && totalPnl <= 0 && alreadyRefunded
-                      ? 0
-                    : alreadyRefunded
-                      ? profit
-                      : stake + profit;
-                balanceDelta += credit;
-                console.log(
-                  '[FANCY_DEBUG]',
-                  JSON.stringify(
-                    {
-                      tag: 'bet_win_credit',
-                      settlementId,
-                      userId,
-                      betId: bet.id,
-                      type,
-                      stake,
-                      lossAmount,
-                      pnl,
-                      betWins,
-                      alreadyRefunded,
-                      liabilityAmount,
-                      credit,
-                      appliedExposureCredit,
-                      running: { balanceDelta, liabilityDelta },
-                    },
-                    null,
-                    2,
-                  ),
-                );
-              }
-              await tx.bet.update({
-                where: { id: bet.id },
-                data: {
-                  settlementId,
-                  status: BetStatus.WON,
-                  pnl,
-                  settledAt: new Date(),
-                  updatedAt: new Date(),
-                  metadata: { ...((bet.metadata as object) || {}), decisionRun: actualRuns },
-                },
-              });
-            } else {
-              console.log(
-                '[FANCY_DEBUG]',
-                JSON.stringify(
-                  {
-                    tag: 'bet_loss',
-                    settlementId,
-                    userId,
-                    betId: bet.id,
-                    type,
-                    stake,
-                    lossAmount,
-                    pnl,
-                    betWins,
-                    alreadyRefunded,
-                    liabilityAmount,
-                    credit: 0,
-                    appliedExposureCredit,
-                    running: { balanceDelta, liabilityDelta },
-                  },
-                  null,
-                  2,
-                ),
-              );
-              await tx.bet.update({
-                where: { id: bet.id },
-                data: {
+          for (const line of outcome.lines) {
+            console.log(
+              '[FANCY_DEBUG]',
+              JSON.stringify(
+                {
+                  tag: line.tag,
                   settlementId,
-                  status: BetStatus.LOST,
-                  pnl,
-                  settledAt: new Date(),
-                  updatedAt: new Date(),
-                  metadata: { ...((bet.metadata as object) || {}), decisionRun: actualRuns },
+                  userId,
+                  betId: line.bet.id,
+                  type: line.type,
+                  stake: line.stake,
+                  lossAmount: line.lossAmount,
+                  pnl: line.pnl,
+                  betWins: line.status === BetStatus.WON,
+                  alreadyRefunded: line.alreadyRefunded,
+                  liabilityAmount: line.liabilityAmount,
+                  credit: line.credit,
+                  appliedExposureCredit: line.appliedExposureCredit,
+                  running: line.running,
                 },
-              });
-            }
+                null,
+                2,
+              ),
+            );
+            await tx.bet.update({
+              where: { id: line.bet.id },
+              data: {
+                settlementId,
+                status: line.status,
+                pnl: line.pnl,
+                settledAt: new Date(),
+                updatedAt: new Date(),
+                metadata: { ...((line.bet.metadata as object) || {}), decisionRun: actualRuns },
+              },
+            });
           }
         }
 
@@ -573,9 +632,226 @@ export class SettlementService {
       });
     }, { maxWait: 15000, timeout: 30000 });
 
+    const affectedUserIds = new Set(bets.map((b) => b.userId));
+    await this.marketCommissionService.chargeMarketCommission(
+      settlementId,
+      eventId,
+      MarketType.FANCY,
+      affectedUserIds,
+    );
+    await this.notifyUsersAfterSettlement(settlementId, affectedUserIds);
+
     return { success: true, message: 'Fancy bets settled successfully' };
   }
 
+  /**
+   * Status, P/L, balance credit and liability release of one user's bets on a fancy selection.
+   * Pure: settleFancyManual applies the result and its dry run reports it.
+   *
+   * @param exposure - The user's fancy_exposures row for the selection (ignored when cancelling)
+   */
+  private getFancyUserSettlement(
+    userBets: Bet[],
+    actualRuns: number,
+    isCancel: boolean,
+    exposure: { remainingExposure: number } | null,
+  ): FancyUserSettlement {
+    let balanceDelta = 0;
+    let liabilityDelta = 0;
+    const lines: FancyUserSettlement['lines'] = [];
+
+    if (isCancel) {
+      for (const bet of userBets) {
+        const type = (bet.betType || '').toUpperCase();
+        const stake = bet.betValue ?? bet.amount ?? 0;
+        const lossAmount = bet.lossAmount ?? stake;
+        const liabilityAmount = type === 'LAY' || type === 'NO' ? lossAmount : stake;
+        liabilityDelta -= liabilityAmount;
+        balanceDelta += liabilityAmount;
+        lines.push({
+          tag: 'cancel_bet',
+          bet,
+          type,
+          stake,
+          lossAmount,
+          status: BetStatus.CANCELLED,
+          pnl: 0,
+          alreadyRefunded: false,
+          liabilityAmount,
+          credit: liabilityAmount,
+          appliedExposureCredit: false,
+          running: { balanceDelta, liabilityDelta },
+        });
+      }
+      return {
+        balanceDelta,
+        liabilityDelta,
+        totalPnl: 0,
+        refundPairBetIds: new Set<string>(),
+        useExposureCredit: false,
+        suppressBalanceCreditOnLoss: false,
+        lines,
+      };
+    }
+
+    // Partially hedged / gola: bets with isRefunded or refundedByBetId had liability already released at placement (REFUND tx).
+    // Do not release liability again; on win only credit profit (pnl), not stake+pnl.
+    const refundPairBetIds = new Set<string>();
+    for (const b of userBets) {
+      if (b.isRefunded === true) refundPairBetIds.add(b.id);
+      const pairedId = b.refundedByBetId;
+      if (pairedId && userBets.some((x) => x.id === pairedId)) refundPairBetIds.add(pairedId);
+    }
+
+    const perBet = this.fancyExposureService.getPerBetPnLForOutcome(userBets, actualRuns);
+    const totalPnl = perBet.reduce((sum, { pnl }) => sum + pnl, 0);
+    const hasRefundPairs = refundPairBetIds.size > 0;
+    const hasExposure =
+      exposure != null &&
+      exposure.remainingExposure > 0;
+    const useExposureCredit =
+      hasExposure &&
+      hasRefundPairs;
+    // Range/Gola rule requested: if this is a range/gola exposure and net result is LOSS,
+    // do not credit anything to balance (credit should be 0 on loss).
+    const isRangeOrGola = exposure != null && exposure.remainingExposure > 0;
+    const suppressBalanceCreditOnLoss = isRangeOrGola && totalPnl <= 0;
+    let appliedExposureCredit = false;
+
+    for (const { bet, betWins, pnl } of perBet as Array<{ bet: Bet; betWins: boolean; pnl: number }>) {
+      const type = (bet.betType || '').toUpperCase();
+      const stake = bet.betValue ?? bet.amount ?? 0;
+      const lossAmount = bet.lossAmount ?? stake;
+      const alreadyRefunded = refundPairBetIds.has(bet.id);
+      // BUG 2 FIX: Always release full liability on settlement, regardless of refund/hedge flags.
+      const liabilityAmount = type === 'LAY' || type === 'NO' ? lossAmount : stake;
+      liabilityDelta -= liabilityAmount;
+
+      let credit = 0;
+      let tag: FancyUserSettlement['lines'][number]['tag'] = 'bet_loss';
+      if (betWins) {
+        if (useExposureCredit && alreadyRefunded && !appliedExposureCredit) {
+          // Gola / range fancy: remaining_exposure is the effective stake, totalPnl is the net profit.
+          const effectiveStake = exposure!.remainingExposure;
+          const profit = totalPnl;
+          // GOLA / RANGE RULE:
+          // - Detect gola ONLY via exposure.remainingExposure > 0
+          // - Win (totalPnl > 0): credit = remainingExposure + totalPnl (only once)
+          // - Loss (totalPnl <= 0): credit = 0
+          credit = totalPnl > 0 ? effectiveStake + profit : 0;
+          appliedExposureCredit = true;
+          tag = 'bet_win_exposure_credit';
+        } else {
+          // In exposure mode, refunded bets are credited only once via exposure credit.
+          // All other bets are settled individually.
+          const profit = pnl;
+          credit =
+            useExposureCredit && alreadyRefunded
+              ? 0
+              : !hasExposure && hasRefundPairs && totalPnl <= 0 && alreadyRefunded
+                ? 0
+              : alreadyRefunded
+                ? profit
+                : stake + profit;
+          tag = 'bet_win_credit';
+        }
+        balanceDelta += credit;
+      }
+
+      lines.push({
+        tag,
+        bet,
+        type,
+        stake,
+        lossAmount,
+        status: betWins ? BetStatus.WON : BetStatus.LOST,
+        pnl,
+        alreadyRefunded,
+        liabilityAmount,
+        credit,
+        appliedExposureCredit,
+        running: { balanceDelta, liabilityDelta },
+      });
+    }
+
+    return {
+      balanceDelta,
+      liabilityDelta,
+      totalPnl,
+      refundPairBetIds,
+      useExposureCredit,
+      suppressBalanceCreditOnLoss,
+      lines,
+    };
+  }
+
+  /**
+   * Dry run of settleFancyManual: the same per-user math against current wallets and fancy
+   * exposures, nothing written. Fancy settlement does not distribute hierarchy P/L, so the
+   * preview has no hierarchy rows either.
+   */
+  private async previewFancySettlement(params: {
+    settlementId: string;
+    eventId: string;
+    selectionId: string;
+    marketId: string | null;
+    actualRuns: number;
+    isCancel: boolean;
+    bets: Bet[];
+  }) {
+    const { settlementId, eventId, selectionId, marketId, actualRuns, isCancel, bets } =
+      params;
+
+    const betsByUser = new Map<string, Bet[]>();
+    for (const bet of bets) {
+      if (!betsByUser.has(bet.userId)) betsByUser.set(bet.userId, []);
+      betsByUser.get(bet.userId)!.push(bet);
+    }
+    const wallets = await this.prisma.wallet.findMany({
+      where: { userId: { in: Array.from(betsByUser.keys()) } },
+      select: { userId: true, liability: true },
+    });
+    const liabilityByUser = new Map(wallets.map((w) => [w.userId, w.liability]));
+
+    const outcomes: UserSettlementOutcome[] = [];
+    for (const [userId, userBets] of betsByUser.entries()) {
+      const liability = liabilityByUser.get(userId);
+      if (liability === undefined) continue;
+
+      const marketIdForExposure = marketId ?? userBets[0]?.marketId ?? undefined;
+      const exposure =
+        !isCancel && marketIdForExposure
+          ? await this.prisma.fancyExposure.findFirst({
+              where: {
+                userId,
+                eventId,
+                selectionId: Number(selectionId),
+                marketId: marketIdForExposure,
+              },
+            })
+          : null;
+      const outcome = this.getFancyUserSettlement(userBets, actualRuns, isCancel, exposure);
+      outcomes.push({
+        userId,
+        bets: outcome.lines.map(({ bet, status, pnl }) => ({ bet, status, pnl })),
+        payout: outcome.balanceDelta,
+        liabilityReleased:
+          liability - Math.max(0, liability + outcome.liabilityDelta),
+      });
+    }
+
+    return this.buildSettlementPreview({
+      settlementId,
+      eventId,
+      marketId: marketId ?? bets[0]?.marketId ?? null,
+      marketType: MarketType.FANCY,
+      winnerId: isCancel ? null : String(actualRuns),
+      isCancel,
+      outcomes,
+      distributesPnl: false,
+    });
+  }
+
   // async settleFancyManual(
   //   eventId: string,
   //   selectionId: string,
@@ -2372,21 +2648,10 @@ export class SettlementService {
   //   return affectedUserIds;
   // }
   /**
-   * Cancel/draw for Match Odds (same market): refund per runner = |sum(BACK stakes) − sum(LAY liabilities)|,
-   * summed across selections. Liability cleared to 0 for this cancel path.
+   * Cancel/draw refund of one user's Match Odds bets: |sum(BACK stakes) − sum(LAY liabilities)|
+   * per runner, summed across selections (see applySettleMarketCancelRefund).
    */
-  private async applySettleMarketCancelRefund(
-    tx: any,
-    params: {
-      userId: string;
-      userBets: any[];
-      marketId: string;
-      settlementId: string;
-      currentBalance: number;
-    },
-  ): Promise<void> {
-    const { userId, userBets, marketId, settlementId, currentBalance } = params;
-
+  private getMarketCancelRefund(userBets: any[], marketId: string) {
     const selectionMap = new Map<number, { back: number; lay: number }>();
     const betLines: Array<{
       betId: string;
@@ -2490,6 +2755,30 @@ export class SettlementService {
       });
     }
 
+    return { refund, perSelection, betLines };
+  }
+
+  /**
+   * Cancel/draw for Match Odds (same market): refund per runner = |sum(BACK stakes) − sum(LAY liabilities)|,
+   * summed across selections. Liability cleared to 0 for this cancel path.
+   */
+  private async applySettleMarketCancelRefund(
+    tx: any,
+    params: {
+      userId: string;
+      userBets: any[];
+      marketId: string;
+      settlementId: string;
+      currentBalance: number;
+    },
+  ): Promise<void> {
+    const { userId, userBets, marketId, settlementId, currentBalance } = params;
+
+    const { refund, perSelection, betLines } = this.getMarketCancelRefund(
+      userBets,
+      marketId,
+    );
+
     const newBalance = currentBalance + refund;
     const newLiability = 0;
 
@@ -2586,57 +2875,11 @@ export class SettlementService {
             `[SETTLE MARKET] user=${userId} bets=${userBets.length} settlementId=${settlementId} isCancel=${isCancel}`,
           );
 
-        let totalPnL = 0;
-        const betUpdates: Array<{ id: string; status: BetStatus; pnl: number }> = [];
-
-        for (const bet of userBets) {
-          const stake = Number(bet.betValue ?? bet.amount ?? 0);
-          const odds = Number(bet.betRate ?? bet.odds ?? 0);
-          const betType = String(bet.betType ?? '').toUpperCase();
-          const betSelectionId = Number(bet.selectionId);
-
-          if (isNaN(betSelectionId)) {
-            throw new BadRequestException(`Invalid selectionId in bet ${bet.id}`);
-          }
-
-          const isWinner = betSelectionId === winnerSelectionIdNum;
-
-          if (isCancel) {
-            betUpdates.push({ id: bet.id, status: BetStatus.CANCELLED, pnl: 0 });
-            continue;
-          }
-
-          if (betType === 'BACK') {
-            if (isWinner) {
-              const pnl = stake * (odds - 1);
-              totalPnL += pnl;
-              this.logger.debug(`[SETTLE MARKET] bet=${bet.id} BACK WIN pnl=${pnl} totalPnL=${totalPnL}`);
-              betUpdates.push({ id: bet.id, status: BetStatus.WON, pnl });
-            } else {
-              const pnl = -stake;
-              totalPnL += pnl;
-              this.logger.debug(`[SETTLE MARKET] bet=${bet.id} BACK LOSS pnl=${pnl} totalPnL=${totalPnL}`);
-              betUpdates.push({ id: bet.id, status: BetStatus.LOST, pnl });
-            }
-          }
-
-          if (betType === 'LAY') {
-            const liability = stake * (odds - 1);
-            if (isWinner) {
-              // Our selection won → LAY loses
-              const pnl = -liability;
-              totalPnL += pnl;
-              this.logger.debug(`[SETTLE MARKET] bet=${bet.id} LAY LOSS pnl=${pnl} totalPnL=${totalPnL}`);
-              betUpdates.push({ id: bet.id, status: BetStatus.LOST, pnl });
-            } else {
-              // Our selection lost → LAY wins
-              const pnl = stake;
-              totalPnL += pnl;
-              this.logger.debug(`[SETTLE MARKET] bet=${bet.id} LAY WIN pnl=${pnl} totalPnL=${totalPnL}`);
-              betUpdates.push({ id: bet.id, status: BetStatus.WON, pnl });
-            }
-          }
-        }
+        const { totalPnL, betUpdates } = this.getMarketBetUpdates(
+          userBets,
+          winnerSelectionIdNum,
+          isCancel,
+        );
 
         const now = new Date();
 
@@ -2696,87 +2939,15 @@ export class SettlementService {
         });
         const exposureAfter = this.calculateExposureFromBets(allPendingAfter);
 
-        let releasedLiability = 0;
-        const nonOffsetBets = userBets;
-        const laySelections = new Set(
-          nonOffsetBets
-            .filter((b) => String(b.betType ?? '').toUpperCase() === 'LAY')
-            .map((b) => Number(b.selectionId))
-            .filter((id) => !isNaN(id)),
-        );
-        const hasLayOnDifferentSelections = laySelections.size > 1;
-
-        if (!hasLayOnDifferentSelections) {
-          for (const bet of nonOffsetBets) {
-            const stake = Number(bet.betValue ?? bet.amount ?? 0);
-            const odds = Number(bet.betRate ?? bet.odds ?? 0);
-            const bt = String(bet.betType ?? '').toUpperCase();
-            if (bt === 'BACK') releasedLiability += stake;
-            else if (bt === 'LAY') releasedLiability += stake * (odds - 1);
-          }
-        } else {
-          let worstCaseNet = Infinity;
-          for (const simulatedWinnerSelId of laySelections) {
-            let simNet = 0;
-            for (const bet of nonOffsetBets) {
-              const stake = Number(bet.betValue ?? bet.amount ?? 0);
-              const odds = Number(bet.betRate ?? bet.odds ?? 0);
-              const bt = String(bet.betType ?? '').toUpperCase();
-              const betSelId = Number(bet.selectionId);
-              if (bt === 'BACK') {
-                simNet += stake;
-              } else if (bt === 'LAY') {
-                if (betSelId === simulatedWinnerSelId) {
-                  simNet -= stake * (odds - 1);
-                } else {
-                  simNet += stake;
-                }
-              }
-            }
-            worstCaseNet = Math.min(worstCaseNet, simNet);
-          }
-          releasedLiability = Math.abs(worstCaseNet === Infinity ? 0 : worstCaseNet);
-        }
-        let newBalance: number;
-        let newLiability: number;
-
-        // Offset = same selectionId has both BACK and LAY bets
-        const selectionMap = new Map<number, { back: number; lay: number }>();
-        for (const bet of userBets) {
-          const selId = Number(bet.selectionId);
-          const bt = String(bet.betType ?? '').toUpperCase();
-
-          if (!selectionMap.has(selId)) {
-            selectionMap.set(selId, { back: 0, lay: 0 });
-          }
-
-          const entry = selectionMap.get(selId)!;
-
-          if (bt === 'BACK') entry.back++;
-          if (bt === 'LAY') entry.lay++;
-        }
-
-        const isOffsetCase = Array.from(selectionMap.values()).some(
-          (v) => v.back > 0 && v.lay > 0,
-        );
-
-        if (isOffsetCase) {
-          // Offset: releasedLiability from exposure (calculateExposureFromBets), not pending-bet sum
-          const releasedLiabilityOffset = exposureBefore - exposureAfter;
-          if (totalPnL > 0) {
-            // Winning case
-            newBalance = currentBalance + totalPnL + releasedLiabilityOffset;
-          } else {
-            // Losing case
-            newBalance = currentBalance;
-          }
-          // Liability from exposure (source of truth)
-          newLiability = exposureAfter;
-        } else {
-          // Normal case
-          newBalance = currentBalance + totalPnL + releasedLiability;
-          newLiability = Math.max(0, currentLiability - releasedLiability);
-        }
+        const { newBalance, newLiability, releasedLiability, isOffsetCase, selectionMap } =
+          this.getMarketWalletChange({
+            userBets,
+            totalPnL,
+            currentBalance,
+            currentLiability,
+            exposureBefore,
+            exposureAfter,
+          });
 
         this.logger.debug(
           `[SETTLE MARKET] user=${userId} isOffsetCase=${isOffsetCase} selectionMap=${JSON.stringify(Object.fromEntries(selectionMap))} ` +
@@ -2820,33 +2991,297 @@ export class SettlementService {
     return affectedUserIds;
   }
 
-  private getLockedAmount(betType: string, stake: number, odds: number): number {
-    if (betType === 'BACK') return stake;
-    if (betType === 'LAY') return stake * (odds - 1);
-    return 0;
-  }
-
   /**
-   * Tied Match markets are often placed with bookmaker-style gtype (percentage odds).
-   * Must match grouping in calculateExposureFromBets for bookmaker bets.
+   * Dry run of settleMarket (Match Odds): the same per-user math against current wallets and
+   * pending bets, nothing written.
    */
-  private isTiedMatchBookmakerStyleBet(bet: any): boolean {
-    const g = (bet?.gtype || '').toLowerCase();
-    return (
-      g === 'bookmaker' ||
-      (g.startsWith('match') && g !== 'match' && g !== 'matchodds')
-    );
-  }
+  private async previewMarketSettlement({
+    settlementId,
+    eventId,
+    marketId,
+    winnerSelectionId,
+    bets,
+    isCancel,
+  }: {
+    settlementId: string;
+    eventId: string;
+    marketId: string;
+    winnerSelectionId: string;
+    bets: Bet[];
+    isCancel: boolean;
+  }) {
+    const betsByUser = new Map<string, Bet[]>();
+    for (const bet of bets) {
+      if (!betsByUser.has(bet.userId)) betsByUser.set(bet.userId, []);
+      betsByUser.get(bet.userId)!.push(bet);
+    }
+    const userIds = Array.from(betsByUser.keys());
+    const [wallets, pendingBets] = await Promise.all([
+      this.prisma.wallet.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, balance: true, liability: true },
+      }),
+      isCancel
+        ? Promise.resolve([] as Bet[])
+        : this.prisma.bet.findMany({
+            where: { userId: { in: userIds }, status: BetStatus.PENDING },
+          }),
+    ]);
+    const walletByUser = new Map(wallets.map((w) => [w.userId, w]));
+    const betById = new Map(bets.map((b) => [b.id, b]));
 
-  /**
-   * Diamond / bookmaker-fancy Tied Match uses `section[].sid` 1 = YES, 2 = NO (`gtype` e.g. match1).
-   * Legacy / exchange-style ids: 37302 = Yes, 37303 = No.
-   */
-  private normalizeTiedMatchSide(
-    selectionId: number | null | undefined,
-  ): 'yes' | 'no' | null {
-    if (selectionId == null || Number.isNaN(Number(selectionId))) return null;
-    const n = Number(selectionId);
+    const outcomes: UserSettlementOutcome[] = [];
+    for (const [userId, userBets] of betsByUser.entries()) {
+      const wallet = walletByUser.get(userId);
+      if (!wallet) continue;
+
+      const { totalPnL, betUpdates } = this.getMarketBetUpdates(
+        userBets,
+        Number(winnerSelectionId),
+        isCancel,
+      );
+      let payout: number;
+      let liabilityReleased: number;
+      if (isCancel) {
+        // applySettleMarketCancelRefund clears the liability
+        payout = this.getMarketCancelRefund(userBets, marketId).refund;
+        liabilityReleased = wallet.liability;
+      } else {
+        const settledIds = new Set(betUpdates.map((u) => u.id));
+        const userPending = pendingBets.filter((b) => b.userId === userId);
+        const { newBalance, newLiability } = this.getMarketWalletChange({
+          userBets,
+          totalPnL,
+          currentBalance: wallet.balance,
+          currentLiability: wallet.liability,
+          exposureBefore: this.calculateExposureFromBets(userPending),
+          exposureAfter: this.calculateExposureFromBets(
+            userPending.filter((b) => !settledIds.has(b.id)),
+          ),
+        });
+        payout = newBalance - wallet.balance;
+        liabilityReleased = wallet.liability - newLiability;
+      }
+
+      outcomes.push({
+        userId,
+        bets: betUpdates.map((u) => ({
+          bet: betById.get(u.id)!,
+          status: u.status,
+          pnl: u.pnl,
+        })),
+        payout,
+        liabilityReleased,
+      });
+    }
+
+    return this.buildSettlementPreview({
+      settlementId,
+      eventId,
+      marketId,
+      marketType: MarketType.MATCH_ODDS,
+      winnerId: winnerSelectionId,
+      isCancel,
+      outcomes,
+      distributesPnl: true,
+    });
+  }
+
+  /**
+   * Status and P/L of one user's Match Odds bets for a winner (all CANCELLED with pnl 0 on cancel).
+   */
+  private getMarketBetUpdates(
+    userBets: any[],
+    winnerSelectionIdNum: number,
+    isCancel: boolean,
+  ): { totalPnL: number; betUpdates: BetSettlementUpdate[] } {
+    let totalPnL = 0;
+    const betUpdates: BetSettlementUpdate[] = [];
+
+    for (const bet of userBets) {
+      const stake = Number(bet.betValue ?? bet.amount ?? 0);
+      const odds = Number(bet.betRate ?? bet.odds ?? 0);
+      const betType = String(bet.betType ?? '').toUpperCase();
+      const betSelectionId = Number(bet.selectionId);
+
+      if (isNaN(betSelectionId)) {
+        throw new BadRequestException(`Invalid selectionId in bet ${bet.id}`);
+      }
+
+      const isWinner = betSelectionId === winnerSelectionIdNum;
+
+      if (isCancel) {
+        betUpdates.push({ id: bet.id, status: BetStatus.CANCELLED, pnl: 0 });
+        continue;
+      }
+
+      if (betType === 'BACK') {
+        if (isWinner) {
+          const pnl = stake * (odds - 1);
+          totalPnL += pnl;
+          this.logger.debug(`[SETTLE MARKET] bet=${bet.id} BACK WIN pnl=${pnl} totalPnL=${totalPnL}`);
+          betUpdates.push({ id: bet.id, status: BetStatus.WON, pnl });
+        } else {
+          const pnl = -stake;
+          totalPnL += pnl;
+          this.logger.debug(`[SETTLE MARKET] bet=${bet.id} BACK LOSS pnl=${pnl} totalPnL=${totalPnL}`);
+          betUpdates.push({ id: bet.id, status: BetStatus.LOST, pnl });
+        }
+      }
+
+      if (betType === 'LAY') {
+        const liability = stake * (odds - 1);
+        if (isWinner) {
+          // Our selection won → LAY loses
+          const pnl = -liability;
+          totalPnL += pnl;
+          this.logger.debug(`[SETTLE MARKET] bet=${bet.id} LAY LOSS pnl=${pnl} totalPnL=${totalPnL}`);
+          betUpdates.push({ id: bet.id, status: BetStatus.LOST, pnl });
+        } else {
+          // Our selection lost → LAY wins
+          const pnl = stake;
+          totalPnL += pnl;
+          this.logger.debug(`[SETTLE MARKET] bet=${bet.id} LAY WIN pnl=${pnl} totalPnL=${totalPnL}`);
+          betUpdates.push({ id: bet.id, status: BetStatus.WON, pnl });
+        }
+      }
+    }
+
+    return { totalPnL, betUpdates };
+  }
+
+  /**
+   * New balance and liability of a user after a (non-cancel) Match Odds settlement.
+   * exposureBefore / exposureAfter: calculateExposureFromBets over the user's pending bets
+   * with and without the bets being settled.
+   */
+  private getMarketWalletChange({
+    userBets,
+    totalPnL,
+    currentBalance,
+    currentLiability,
+    exposureBefore,
+    exposureAfter,
+  }: {
+    userBets: any[];
+    totalPnL: number;
+    currentBalance: number;
+    currentLiability: number;
+    exposureBefore: number;
+    exposureAfter: number;
+  }) {
+    let releasedLiability = 0;
+    const nonOffsetBets = userBets;
+    const laySelections = new Set(
+      nonOffsetBets
+        .filter((b) => String(b.betType ?? '').toUpperCase() === 'LAY')
+        .map((b) => Number(b.selectionId))
+        .filter((id) => !isNaN(id)),
+    );
+    const hasLayOnDifferentSelections = laySelections.size > 1;
+
+    if (!hasLayOnDifferentSelections) {
+      for (const bet of nonOffsetBets) {
+        const stake = Number(bet.betValue ?? bet.amount ?? 0);
+        const odds = Number(bet.betRate ?? bet.odds ?? 0);
+        const bt = String(bet.betType ?? '').toUpperCase();
+        if (bt === 'BACK') releasedLiability += stake;
+        else if (bt === 'LAY') releasedLiability += stake * (odds - 1);
+      }
+    } else {
+      let worstCaseNet = Infinity;
+      for (const simulatedWinnerSelId of laySelections) {
+        let simNet = 0;
+        for (const bet of nonOffsetBets) {
+          const stake = Number(bet.betValue ?? bet.amount ?? 0);
+          const odds = Number(bet.betRate ?? bet.odds ?? 0);
+          const bt = String(bet.betType ?? '').toUpperCase();
+          const betSelId = Number(bet.selectionId);
+          if (bt === 'BACK') {
+            simNet += stake;
+          } else if (bt === 'LAY') {
+            if (betSelId === simulatedWinnerSelId) {
+              simNet -= stake * (odds - 1);
+            } else {
+              simNet += stake;
+            }
+          }
+        }
+        worstCaseNet = Math.min(worstCaseNet, simNet);
+      }
+      releasedLiability = Math.abs(worstCaseNet === Infinity ? 0 : worstCaseNet);
+    }
+    let newBalance: number;
+    let newLiability: number;
+
+    // Offset = same selectionId has both BACK and LAY bets
+    const selectionMap = new Map<number, { back: number; lay: number }>();
+    for (const bet of userBets) {
+      const selId = Number(bet.selectionId);
+      const bt = String(bet.betType ?? '').toUpperCase();
+
+      if (!selectionMap.has(selId)) {
+        selectionMap.set(selId, { back: 0, lay: 0 });
+      }
+
+      const entry = selectionMap.get(selId)!;
+
+      if (bt === 'BACK') entry.back++;
+      if (bt === 'LAY') entry.lay++;
+    }
+
+    const isOffsetCase = Array.from(selectionMap.values()).some(
+      (v) => v.back > 0 && v.lay > 0,
+    );
+
+    if (isOffsetCase) {
+      // Offset: releasedLiability from exposure (calculateExposureFromBets), not pending-bet sum
+      const releasedLiabilityOffset = exposureBefore - exposureAfter;
+      if (totalPnL > 0) {
+        // Winning case
+        newBalance = currentBalance + totalPnL + releasedLiabilityOffset;
+      } else {
+        // Losing case
+        newBalance = currentBalance;
+      }
+      // Liability from exposure (source of truth)
+      newLiability = exposureAfter;
+    } else {
+      // Normal case
+      newBalance = currentBalance + totalPnL + releasedLiability;
+      newLiability = Math.max(0, currentLiability - releasedLiability);
+    }
+
+    return { newBalance, newLiability, releasedLiability, isOffsetCase, selectionMap };
+  }
+
+  private getLockedAmount(betType: string, stake: number, odds: number): number {
+    if (betType === 'BACK') return stake;
+    if (betType === 'LAY') return stake * (odds - 1);
+    return 0;
+  }
+
+  /**
+   * Tied Match markets are often placed with bookmaker-style gtype (percentage odds).
+   * Must match grouping in calculateExposureFromBets for bookmaker bets.
+   */
+  private isTiedMatchBookmakerStyleBet(bet: any): boolean {
+    const g = (bet?.gtype || '').toLowerCase();
+    return (
+      g === 'bookmaker' ||
+      (g.startsWith('match') && g !== 'match' && g !== 'matchodds')
+    );
+  }
+
+  /**
+   * Diamond / bookmaker-fancy Tied Match uses `section[].sid` 1 = YES, 2 = NO (`gtype` e.g. match1).
+   * Legacy / exchange-style ids: 37302 = Yes, 37303 = No.
+   */
+  private normalizeTiedMatchSide(
+    selectionId: number | null | undefined,
+  ): 'yes' | 'no' | null {
+    if (selectionId == null || Number.isNaN(Number(selectionId))) return null;
+    const n = Number(selectionId);
     if (n === 1 || n === 37302) return 'yes';
     if (n === 2 || n === 37303) return 'no';
     return null;
@@ -3058,6 +3493,92 @@ export class SettlementService {
     });
   }
 
+  /**
+   * Shape a dry run: per-user win/loss, payout and liability release, plus the event P/L and
+   * hierarchy rows recalculatePnLForUsers would record when `distributesPnl` is set.
+   */
+  private async buildSettlementPreview(params: {
+    settlementId: string;
+    eventId: string;
+    marketId: string | null;
+    marketType: MarketType;
+    winnerId: string | null;
+    isCancel: boolean;
+    outcomes: UserSettlementOutcome[];
+    distributesPnl: boolean;
+  }): Promise<{ success: true } & SettlementPreview> {
+    const { eventId, marketType, outcomes } = params;
+    const usernames = new Map(
+      (
+        await this.prisma.user.findMany({
+          where: { id: { in: outcomes.map((o) => o.userId) } },
+          select: { id: true, username: true },
+        })
+      ).map((u) => [u.id, u.username]),
+    );
+
+    const users: SettlementPreviewUser[] = [];
+    for (const outcome of outcomes) {
+      const netPnl = params.distributesPnl
+        ? await this.pnlService.previewUserNetPnl(
+            outcome.userId,
+            eventId,
+            marketType,
+            outcome.bets,
+          )
+        : null;
+      const hierarchy =
+        netPnl !== null
+          ? await this.hierarchyPnlService.previewDistribution(outcome.userId, netPnl)
+          : [];
+      const countOf = (status: BetStatus) =>
+        outcome.bets.filter((b) => b.status === status).length;
+
+      users.push({
+        userId: outcome.userId,
+        username: usernames.get(outcome.userId) ?? null,
+        won: countOf(BetStatus.WON),
+        lost: countOf(BetStatus.LOST),
+        cancelled: countOf(BetStatus.CANCELLED),
+        pnl: outcome.bets.reduce((sum, b) => sum + b.pnl, 0),
+        payout: outcome.payout,
+        liabilityReleased: outcome.liabilityReleased,
+        netPnl,
+        hierarchy,
+        bets: outcome.bets.map(({ bet, status, pnl }) => ({
+          betId: bet.id,
+          selectionId: bet.selectionId,
+          betType: bet.betType,
+          betName: bet.betName,
+          stake: Number(bet.betValue ?? bet.amount ?? 0),
+          odds: Number(bet.betRate ?? bet.odds ?? 0),
+          status,
+          pnl,
+        })),
+      });
+    }
+
+    return {
+      success: true,
+      dryRun: true,
+      settlementId: params.settlementId,
+      eventId,
+      marketId: params.marketId,
+      marketType,
+      winnerId: params.winnerId,
+      isCancel: params.isCancel,
+      betCount: users.reduce((sum, u) => sum + u.bets.length, 0),
+      userCount: users.length,
+      totalPnl: users.reduce((sum, u) => sum + u.pnl, 0),
+      totalPayout: users.reduce((sum, u) => sum + u.payout, 0),
+      totalLiabilityReleased: users.reduce(
+        (sum, u) => sum + u.liabilityReleased,
+        0,
+      ),
+      users,
+    };
+  }
+
   // Helper: Recalculate P/L for affected users (Fancy-specific)
   private async recalculatePnLForUsersFancy(
     affectedUserIds: Set<string>,
@@ -3135,7 +3656,62 @@ export class SettlementService {
     );
   }
 
+  /**
+   * Push post-settlement wallet, exposure and per-bet status to each affected user's socket room.
+   * Runs after commit; failures are logged and never fail the settlement itself.
+   */
+  private async notifyUsersAfterSettlement(
+    settlementId: string,
+    userIds: Set<string>,
+  ): Promise<void> {
+    if (userIds.size === 0) return;
+    try {
+      const ids = Array.from(userIds);
+      const [wallets, bets] = await Promise.all([
+        this.prisma.wallet.findMany({
+          where: { userId: { in: ids } },
+          select: { userId: true, balance: true, liability: true },
+        }),
+        this.prisma.bet.findMany({
+          where: { settlementId, userId: { in: ids } },
+          select: {
+            id: true,
+            userId: true,
+            status: true,
+            pnl: true,
+            eventId: true,
+            marketId: true,
+          },
+        }),
+      ]);
+
+      for (const wallet of wallets) {
+        this.bettingGateway.emitWalletUpdate(wallet.userId, wallet);
+        this.bettingGateway.emitExposureUpdate(wallet.userId, {
+          liability: wallet.liability,
+        });
+      }
+      for (const bet of bets) {
+        this.bettingGateway.emitBetStatus(bet.userId, {
+          betId: bet.id,
+          status: bet.status,
+          eventId: bet.eventId,
+          marketId: bet.marketId,
+          pnl: bet.pnl,
+        });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to push settlement updates for ${settlementId}: ${(error as Error).message}`,
+      );
+    }
+  }
 
+  /**
+   * Settle a Match Odds market. With dryRun, returns the SettlementPreview instead and writes nothing.
+   * continueSettlement settles another chunk of a queued settlement (SettlementWorker): the
+   * market may already be partly settled, and the winner was validated against all its bets.
+   */
   async settleMarketManual(
     eventId: string,
     marketId: string,
@@ -3144,6 +3720,8 @@ export class SettlementService {
     adminId: string,
     betIds?: string[],
     isCancelOverride = false,
+    dryRun = false,
+    continueSettlement = false,
   ) {
     try {
       // 🔐 STRICT VALIDATION: Validate required parameters
@@ -3288,7 +3866,10 @@ export class SettlementService {
       }
 
       // If API validation failed or no valid runners found, validate against bets
-      if (!validSelectionIds || validSelectionIds.length === 0) {
+      if (
+        (!validSelectionIds || validSelectionIds.length === 0) &&
+        !continueSettlement
+      ) {
         if (bets.length === 0) {
           // Can't validate without bets or API - but bets.length check happens later
           // This is just for validation, so continue
@@ -3334,7 +3915,9 @@ export class SettlementService {
       }
 
       // 🔐 STRICT VALIDATION: Check if settlement already exists
-      const validation = await this.validateSettlement(settlementId);
+      const validation = continueSettlement
+        ? { hasExisting: false }
+        : await this.validateSettlement(settlementId);
       if (validation.hasExisting) {
         throw new BadRequestException(validation.message);
       }
@@ -3357,7 +3940,7 @@ export class SettlementService {
       const matchOddsBetsToNormalize = bets.filter(
         (bet) => !bet.settlementId?.startsWith('CRICKET:MATCHODDS:'),
       );
-      if (matchOddsBetsToNormalize.length > 0) {
+      if (matchOddsBetsToNormalize.length > 0 && !dryRun) {
         await this.prisma.bet.updateMany({
           where: { id: { in: matchOddsBetsToNormalize.map((b) => b.id) } },
           data: { settlementId },
@@ -3451,6 +4034,17 @@ export class SettlementService {
         );
       }
 
+      if (dryRun) {
+        return await this.previewMarketSettlement({
+          settlementId,
+          eventId,
+          marketId,
+          winnerSelectionId,
+          bets,
+          isCancel,
+        });
+      }
+
       // Create settlement record
       await this.createSettlementRecord(
         settlementId,
@@ -3475,6 +4069,13 @@ export class SettlementService {
 
       // Recalculate P/L
       await this.recalculatePnLForUsers(affectedUserIds, eventId, MarketType.MATCH_ODDS);
+      await this.marketCommissionService.chargeMarketCommission(
+        settlementId,
+        eventId,
+        MarketType.MATCH_ODDS,
+        affectedUserIds,
+      );
+      await this.notifyUsersAfterSettlement(settlementId, affectedUserIds);
 
       return { success: true, message: 'Match Odds bets settled successfully' };
     } catch (error) {
@@ -3527,6 +4128,7 @@ export class SettlementService {
    * @param winnerSelectionId - Exchange runner selection ID that won
    * @param adminId - Admin user ID who is settling
    * @param betIds - Optional: settle only specific bets
+   * @param dryRun - Return the SettlementPreview instead and write nothing
    */
   async settleBookmakerManualV2(
     eventId: string,
@@ -3534,6 +4136,7 @@ export class SettlementService {
     winnerSelectionId: string,
     adminId: string,
     betIds?: string[],
+    dryRun = false,
   ) {
     try {
       // 🔐 STRICT VALIDATION: Validate required parameters
@@ -3636,7 +4239,7 @@ export class SettlementService {
       const bookmakerBetsToNormalize = bets.filter(
         (bet) => !bet.settlementId?.startsWith('CRICKET:BOOKMAKER:'),
       );
-      if (bookmakerBetsToNormalize.length > 0) {
+      if (bookmakerBetsToNormalize.length > 0 && !dryRun) {
         await this.prisma.bet.updateMany({
           where: { id: { in: bookmakerBetsToNormalize.map((b) => b.id) } },
           data: { settlementId },
@@ -3646,6 +4249,16 @@ export class SettlementService {
         );
       }
 
+      if (dryRun) {
+        return await this.previewBookmakerSettlement({
+          settlementId,
+          eventId,
+          marketId,
+          winnerSelectionId,
+          bets,
+        });
+      }
+
       // Create settlement record
       await this.createSettlementRecord(
         settlementId,
@@ -3668,6 +4281,13 @@ export class SettlementService {
 
       // Recalculate P/L
       await this.recalculatePnLForUsers(affectedUserIds, eventId, MarketType.BOOKMAKER);
+      await this.marketCommissionService.chargeMarketCommission(
+        settlementId,
+        eventId,
+        MarketType.BOOKMAKER,
+        affectedUserIds,
+      );
+      await this.notifyUsersAfterSettlement(settlementId, affectedUserIds);
 
       return { success: true, message: 'Bookmaker bets settled successfully' };
     } catch (error) {
@@ -3802,103 +4422,8 @@ export class SettlementService {
           }
 
           // Track deltas for atomic update (NO wallet read needed - we use increment/decrement)
-          let balanceDelta = 0;
-          let liabilityDelta = 0;
-
-          // 🚀 OPTIMIZATION: Collect bet updates for batching
-          const betUpdates: Array<{ id: string; status: BetStatus; pnl: number }> = [];
-
-          // 3️⃣ Process each bet with BOOKMAKER-SPECIFIC rules
-          for (const bet of userBets) {
-            // 🔐 HARD GUARD: Bet status already validated before transaction
-            // Skip redundant status check to improve performance
-
-            const stake = Number(bet.betValue ?? bet.amount ?? 0);
-            const odds = Number(bet.betRate ?? bet.odds ?? 0);
-            const betType = bet.betType?.toUpperCase() || '';
-
-            // Validate selectionId
-            if (!bet.selectionId && bet.selectionId !== 0) {
-              this.logger.error(
-                `CRITICAL: Bet ${bet.id} has no selectionId. Cannot determine win/loss.`,
-              );
-              throw new BadRequestException(
-                `Bet ${bet.id} has no selectionId. Cannot settle bet without selectionId.`,
-              );
-            }
-
-            const betSelectionId = Number(bet.selectionId);
-            if (isNaN(betSelectionId)) {
-              this.logger.error(
-                `CRITICAL: Bet ${bet.id} has invalid selectionId: ${bet.selectionId}`,
-              );
-              throw new BadRequestException(
-                `Bet ${bet.id} has invalid selectionId: ${bet.selectionId}. SelectionId must be a number.`,
-              );
-            }
-
-            const isWinner = betSelectionId === winnerSelectionIdNum;
-
-            // ✅ BOOKMAKER BACK BET
-            if (betType === 'BACK') {
-              // Rule: Liability at placement = stake
-              // Always release liability (stake was added at placement)
-              const stakeLiability = stake;
-              
-              if (isWinner) {
-                // ✅ BACK WIN: balance += profit ONLY, liability -= stake
-                // ⚠️ CRITICAL: Stake is NEVER credited back - only profit
-                // Profit = (stake * odds) / 100
-                const profit = this.bookmakerBackProfit(stake, odds);
-                balanceDelta += profit; // ✅ Credit profit ONLY
-                liabilityDelta -= stake; // ✅ Release liability
-                betUpdates.push({
-                  id: bet.id,
-                  status: BetStatus.WON,
-                  pnl: profit,
-                });
-              } else {
-                // ✅ BACK LOSS: liability -= stake ONLY
-                // ⚠️ CRITICAL: Balance unchanged (stake already deducted at placement)
-                // NO balance change - stake was already deducted when bet was placed
-                liabilityDelta -= stake; // ✅ Release liability ONLY
-                betUpdates.push({
-                  id: bet.id,
-                  status: BetStatus.LOST,
-                  pnl: -stake,
-                });
-              }
-            }
-
-            // ✅ BOOKMAKER LAY BET
-            if (betType === 'LAY') {
-              // Rule: Liability at placement = (stake * odds) / 100
-              const layLiability = this.bookmakerLayLiability(stake, odds);
-              
-              if (!isWinner) {
-                // ✅ LAY WIN (selection loses): liability -= (stake * odds / 100)
-                // ⚠️ CRITICAL: Balance unchanged (no money movement)
-                // Only release liability
-                liabilityDelta -= layLiability; // ✅ Release liability ONLY
-                const profit = stake; // For reporting only (NOT credited to balance)
-                betUpdates.push({
-                  id: bet.id,
-                  status: BetStatus.WON,
-                  pnl: profit,
-                });
-              } else {
-                // ✅ LAY LOSS (selection wins): balance -= (stake * odds / 100), liability -= (stake * odds / 100)
-                // ⚠️ CRITICAL: Deduct loss amount = liability (we pay opponent)
-                balanceDelta -= layLiability; // ✅ Deduct loss
-                liabilityDelta -= layLiability; // ✅ Release liability
-                betUpdates.push({
-                  id: bet.id,
-                  status: BetStatus.LOST,
-                  pnl: -layLiability,
-                });
-              }
-            }
-          }
+          const { balanceDelta, liabilityDelta, betUpdates } =
+            this.getBookmakerUserSettlement(userBets, winnerSelectionIdNum);
 
           // 🚀 BATCH UPDATE: Update all bets at once instead of individually
           if (betUpdates.length > 0) {
@@ -4000,34 +4525,202 @@ export class SettlementService {
     return affectedUserIds;
   }
 
-  // @deprecated Use settleBookmakerManualV2 instead
-  async settleBookmakerManual(
-    eventId: string,
-    marketId: string,
-    winnerSelectionId: string,
-    adminId: string,
-    betIds?: string[],
-  ) {
-    return this.settleBookmakerManualV2(
-      eventId,
-      marketId,
-      winnerSelectionId,
-      adminId,
-      betIds,
-    );
-  }
+  /**
+   * Bookmaker rules for one user's bets (see settleBookmakerBetsStrict): status and P/L of each
+   * bet, the balance change and the liability delta (<= 0) before clamping.
+   */
+  private getBookmakerUserSettlement(
+    userBets: any[],
+    winnerSelectionIdNum: number,
+  ): { balanceDelta: number; liabilityDelta: number; betUpdates: BetSettlementUpdate[] } {
+    let balanceDelta = 0;
+    let liabilityDelta = 0;
 
-  // @deprecated Use settleMarketManual instead
-  async settleMatchOddsManual(
-    eventId: string,
-    marketId: string,
-    winnerSelectionId: string,
-    adminId: string,
-    betIds?: string[],
-    isCancelOverride = false,
-  ) {
-    return this.settleMarketManual(
-      eventId,
+    // 🚀 OPTIMIZATION: Collect bet updates for batching
+    const betUpdates: BetSettlementUpdate[] = [];
+
+    // 3️⃣ Process each bet with BOOKMAKER-SPECIFIC rules
+    for (const bet of userBets) {
+      // 🔐 HARD GUARD: Bet status already validated before transaction
+      // Skip redundant status check to improve performance
+
+      const stake = Number(bet.betValue ?? bet.amount ?? 0);
+      const odds = Number(bet.betRate ?? bet.odds ?? 0);
+      const betType = bet.betType?.toUpperCase() || '';
+
+      // Validate selectionId
+      if (!bet.selectionId && bet.selectionId !== 0) {
+        this.logger.error(
+          `CRITICAL: Bet ${bet.id} has no selectionId. Cannot determine win/loss.`,
+        );
+        throw new BadRequestException(
+          `Bet ${bet.id} has no selectionId. Cannot settle bet without selectionId.`,
+        );
+      }
+
+      const betSelectionId = Number(bet.selectionId);
+      if (isNaN(betSelectionId)) {
+        this.logger.error(
+          `CRITICAL: Bet ${bet.id} has invalid selectionId: ${bet.selectionId}`,
+        );
+        throw new BadRequestException(
+          `Bet ${bet.id} has invalid selectionId: ${bet.selectionId}. SelectionId must be a number.`,
+        );
+      }
+
+      const isWinner = betSelectionId === winnerSelectionIdNum;
+
+      // ✅ BOOKMAKER BACK BET
+      if (betType === 'BACK') {
+        // Rule: Liability at placement = stake
+        // Always release liability (stake was added at placement)
+        const stakeLiability = stake;
+        
+        if (isWinner) {
+          // ✅ BACK WIN: balance += profit ONLY, liability -= stake
+          // ⚠️ CRITICAL: Stake is NEVER credited back - only profit
+          // Profit = (stake * odds) / 100
+          const profit = this.bookmakerBackProfit(stake, odds);
+          balanceDelta += profit; // ✅ Credit profit ONLY
+          liabilityDelta -= stake; // ✅ Release liability
+          betUpdates.push({
+            id: bet.id,
+            status: BetStatus.WON,
+            pnl: profit,
+          });
+        } else {
+          // ✅ BACK LOSS: liability -= stake ONLY
+          // ⚠️ CRITICAL: Balance unchanged (stake already deducted at placement)
+          // NO balance change - stake was already deducted when bet was placed
+          liabilityDelta -= stake; // ✅ Release liability ONLY
+          betUpdates.push({
+            id: bet.id,
+            status: BetStatus.LOST,
+            pnl: -stake,
+          });
+        }
+      }
+
+      // ✅ BOOKMAKER LAY BET
+      if (betType === 'LAY') {
+        // Rule: Liability at placement = (stake * odds) / 100
+        const layLiability = this.bookmakerLayLiability(stake, odds);
+        
+        if (!isWinner) {
+          // ✅ LAY WIN (selection loses): liability -= (stake * odds / 100)
+          // ⚠️ CRITICAL: Balance unchanged (no money movement)
+          // Only release liability
+          liabilityDelta -= layLiability; // ✅ Release liability ONLY
+          const profit = stake; // For reporting only (NOT credited to balance)
+          betUpdates.push({
+            id: bet.id,
+            status: BetStatus.WON,
+            pnl: profit,
+          });
+        } else {
+          // ✅ LAY LOSS (selection wins): balance -= (stake * odds / 100), liability -= (stake * odds / 100)
+          // ⚠️ CRITICAL: Deduct loss amount = liability (we pay opponent)
+          balanceDelta -= layLiability; // ✅ Deduct loss
+          liabilityDelta -= layLiability; // ✅ Release liability
+          betUpdates.push({
+            id: bet.id,
+            status: BetStatus.LOST,
+            pnl: -layLiability,
+          });
+        }
+      }
+    }
+
+    return { balanceDelta, liabilityDelta, betUpdates };
+  }
+
+  /**
+   * Dry run of settleBookmakerBetsStrict: the same per-user rules, nothing written.
+   */
+  private async previewBookmakerSettlement({
+    settlementId,
+    eventId,
+    marketId,
+    winnerSelectionId,
+    bets,
+  }: {
+    settlementId: string;
+    eventId: string;
+    marketId: string;
+    winnerSelectionId: string;
+    bets: Bet[];
+  }) {
+    const betsByUser = new Map<string, Bet[]>();
+    for (const bet of bets) {
+      if (!betsByUser.has(bet.userId)) betsByUser.set(bet.userId, []);
+      betsByUser.get(bet.userId)!.push(bet);
+    }
+    const wallets = await this.prisma.wallet.findMany({
+      where: { userId: { in: Array.from(betsByUser.keys()) } },
+      select: { userId: true },
+    });
+    const withWallet = new Set(wallets.map((w) => w.userId));
+    const betById = new Map(bets.map((b) => [b.id, b]));
+
+    const outcomes: UserSettlementOutcome[] = [];
+    for (const [userId, userBets] of betsByUser.entries()) {
+      if (!withWallet.has(userId)) continue;
+      const { balanceDelta, liabilityDelta, betUpdates } =
+        this.getBookmakerUserSettlement(userBets, Number(winnerSelectionId));
+      outcomes.push({
+        userId,
+        bets: betUpdates.map((u) => ({
+          bet: betById.get(u.id)!,
+          status: u.status,
+          pnl: u.pnl,
+        })),
+        payout: balanceDelta,
+        liabilityReleased: -Math.min(0, liabilityDelta),
+      });
+    }
+
+    return this.buildSettlementPreview({
+      settlementId,
+      eventId,
+      marketId,
+      marketType: MarketType.BOOKMAKER,
+      winnerId: winnerSelectionId,
+      isCancel: false,
+      outcomes,
+      distributesPnl: true,
+    });
+  }
+
+  // @deprecated Use settleBookmakerManualV2 instead
+  async settleBookmakerManual(
+    eventId: string,
+    marketId: string,
+    winnerSelectionId: string,
+    adminId: string,
+    betIds?: string[],
+    dryRun = false,
+  ) {
+    return this.settleBookmakerManualV2(
+      eventId,
+      marketId,
+      winnerSelectionId,
+      adminId,
+      betIds,
+      dryRun,
+    );
+  }
+
+  // @deprecated Use settleMarketManual instead
+  async settleMatchOddsManual(
+    eventId: string,
+    marketId: string,
+    winnerSelectionId: string,
+    adminId: string,
+    betIds?: string[],
+    isCancelOverride = false,
+  ) {
+    return this.settleMarketManual(
+      eventId,
       marketId,
       winnerSelectionId,
       MarketType.MATCH_ODDS,
@@ -4055,6 +4748,7 @@ export class SettlementService {
    * @param winnerSelectionId - Winning runner: 1 or 37302 (Yes), 2 or 37303 (No)
    * @param adminId - Admin user ID who is settling
    * @param betIds - Optional: settle only specific bets
+   * @param dryRun - Return the SettlementPreview instead and write nothing
    */
   async settleTiedMatchManual(
     eventId: string,
@@ -4063,6 +4757,7 @@ export class SettlementService {
     adminId: string,
     betIds?: string[],
     isCancel = false,
+    dryRun = false,
   ) {
     try {
       // 🔐 STRICT VALIDATION: Validate required parameters
@@ -4217,7 +4912,7 @@ export class SettlementService {
 
       // ✅ NORMALIZE SETTLEMENT IDs: Update all bets to use new format
       const betsToNormalize = bets.filter(bet => !bet.settlementId?.startsWith('CRICKET:TIED_MATCH:'));
-      if (betsToNormalize.length > 0) {
+      if (betsToNormalize.length > 0 && !dryRun) {
         await this.prisma.bet.updateMany({
           where: {
             id: { in: betsToNormalize.map(b => b.id) },
@@ -4231,6 +4926,17 @@ export class SettlementService {
         );
       }
 
+      if (dryRun) {
+        return await this.previewTiedMatchSettlement({
+          settlementId,
+          eventId,
+          marketId,
+          winnerSelectionIdNum,
+          bets,
+          isCancel,
+        });
+      }
+
       // Create/update settlement record
       await this.prisma.settlement.upsert({
         where: { settlementId },
@@ -4270,6 +4976,13 @@ export class SettlementService {
 
       // Recalculate P/L (reporting only, no wallet mutation)
       await this.recalculatePnLForUsers(affectedUserIds, eventId, MarketType.TIED_MATCH);
+      await this.marketCommissionService.chargeMarketCommission(
+        settlementId,
+        eventId,
+        MarketType.TIED_MATCH,
+        affectedUserIds,
+      );
+      await this.notifyUsersAfterSettlement(settlementId, affectedUserIds);
 
       return { success: true, message: 'Tied Match bets settled successfully' };
     } catch (error) {
@@ -4308,7 +5021,7 @@ export class SettlementService {
     adminId,
   }: {
     settlementId: string;
-    bets: any[];
+    bets: Bet[];
     winnerSelectionIdNum: number;
     adminId: string;
   }): Promise<Set<string>> {
@@ -4356,25 +5069,7 @@ export class SettlementService {
             );
           }
 
-          const betType = (bet.betType || '').toUpperCase();
-          if (
-            betType !== 'BACK' &&
-            betType !== 'YES' &&
-            betType !== 'LAY' &&
-            betType !== 'NO'
-          ) {
-            throw new BadRequestException(
-              `CRITICAL: Bet ${bet.id} has invalid betType: ${bet.betType}. ` +
-              `Tied Match supports BACK, YES, LAY, or NO.`,
-            );
-          }
-
-          if (this.getTiedMatchBetSide(bet) === null) {
-            throw new BadRequestException(
-              `CRITICAL: Bet ${bet.id} is not a resolvable Tied Match side (selectionId=${bet.selectionId}, betName=${bet.betName}, marketName=${bet.marketName}). ` +
-                `Use Yes/No selection ids 1, 2, 37302, 37303, or betName Yes/No on a TIED_MATCH market.`,
-            );
-          }
+          this.assertTiedMatchBetSettleable(bet);
 
           if (!betsByUser.has(bet.userId)) {
             betsByUser.set(bet.userId, []);
@@ -4394,64 +5089,17 @@ export class SettlementService {
             continue;
           }
 
-          let balanceDelta = 0;
-          let liabilityDelta = 0;
-
-          const betUpdates: Array<{ id: string; status: BetStatus; pnl: number }> = [];
-
-          for (const bet of userBets) {
-            const stake = Number(bet.betValue ?? bet.amount ?? 0);
-            const odds = Number(bet.betRate ?? bet.odds ?? 0);
-            const betType = (bet.betType || '').toUpperCase();
-            const betSide = this.getTiedMatchBetSide(bet);
-            if (betSide === null) {
-              throw new BadRequestException(
-                `CRITICAL: Bet ${bet.id} has invalid Tied Match side (selectionId: ${bet.selectionId}).`,
+          const { balanceDelta, liabilityDelta, betUpdates } =
+            this.getTiedMatchUserSettlement(userBets, winnerSide);
+          for (const update of betUpdates) {
+            if (update.status === BetStatus.WON) {
+              this.logger.log(
+                `Tied Match ${update.betType} WIN: betId=${update.id}, userId=${userId}, credit=${update.credit}, liabilityRelease=${update.liabilityRelease}`,
+              );
+            } else {
+              this.logger.log(
+                `Tied Match ${update.betType} LOSS: betId=${update.id}, userId=${userId}, liabilityRelease=${update.liabilityRelease}`,
               );
-            }
-            const outcomeMatchesBetSide = betSide === winnerSide;
-
-            if (
-              betType === 'BACK' ||
-              betType === 'YES' ||
-              betType === 'LAY' ||
-              betType === 'NO'
-            ) {
-              const isBackLike = betType === 'BACK' || betType === 'YES';
-              const bookmakerStyle = this.isTiedMatchBookmakerStyleBet(bet);
-              const computedLiability = isBackLike
-                ? stake
-                : bookmakerStyle
-                  ? this.bookmakerLayLiability(stake, odds)
-                  : this.layLiability(stake, odds);
-              const fullLiability = Number(bet.lossAmount ?? computedLiability);
-              const winAmount = Number(bet.winAmount ?? 0);
-              const isWin = isBackLike ? outcomeMatchesBetSide : !outcomeMatchesBetSide;
-
-              // Custom tied-match rule: always release full liability.
-              liabilityDelta -= fullLiability;
-
-              if (isWin) {
-                const creditAmount = winAmount + stake;
-                balanceDelta += creditAmount;
-                betUpdates.push({
-                  id: bet.id,
-                  status: BetStatus.WON,
-                  pnl: winAmount,
-                });
-                this.logger.log(
-                  `Tied Match ${betType} WIN: betId=${bet.id}, userId=${userId}, credit=${creditAmount}, liabilityRelease=${fullLiability}`,
-                );
-              } else {
-                betUpdates.push({
-                  id: bet.id,
-                  status: BetStatus.LOST,
-                  pnl: -fullLiability,
-                });
-                this.logger.log(
-                  `Tied Match ${betType} LOSS: betId=${bet.id}, userId=${userId}, liabilityRelease=${fullLiability}`,
-                );
-              }
             }
           }
 
@@ -4476,89 +5124,639 @@ export class SettlementService {
 
           const clampedLiabilityDelta = Math.min(0, liabilityDelta);
 
-          if (balanceDelta !== 0 || clampedLiabilityDelta !== 0) {
-            await tx.wallet.update({
-              where: { userId },
-              data: {
-                balance: { increment: balanceDelta },
-                liability: { increment: clampedLiabilityDelta },
-              },
-            });
+          if (balanceDelta !== 0 || clampedLiabilityDelta !== 0) {
+            await tx.wallet.update({
+              where: { userId },
+              data: {
+                balance: { increment: balanceDelta },
+                liability: { increment: clampedLiabilityDelta },
+              },
+            });
+
+            if (balanceDelta > 0) {
+              await tx.transaction.create({
+                data: {
+                  walletId: wallet.id,
+                  amount: balanceDelta,
+                  type: TransactionType.BET_WON,
+                  description: `Tied Match Settlement: credited ${balanceDelta} - ${settlementId}`,
+                },
+              });
+            } else if (balanceDelta < 0) {
+              await tx.transaction.create({
+                data: {
+                  walletId: wallet.id,
+                  amount: Math.abs(balanceDelta),
+                  type: TransactionType.BET_PLACED,
+                  description: `Tied Match Settlement: deducted ${Math.abs(balanceDelta)} - ${settlementId}`,
+                },
+              });
+            }
+
+            this.logger.log(
+              `Tied Match wallet userId=${userId}: balanceDelta=${balanceDelta}, liabilityDelta=${clampedLiabilityDelta}`,
+            );
+          } else if (betUpdates.length > 0) {
+            this.logger.log(
+              `Tied Match settlement userId=${userId}: bet rows updated, no wallet delta (e.g. LAY win bookmaker-style).`,
+            );
+          }
+
+          if (betUpdates.length > 0) {
+            affectedUserIds.add(userId);
+          }
+        }
+      },
+      {
+        maxWait: 15000,
+        timeout: 30000,
+      },
+    );
+
+    this.logger.log(
+      `ISOLATED Tied Match settlement completed successfully. ` +
+      `Settled ${bets.length} bets for ${affectedUserIds.size} users. ` +
+      `settlementId: ${settlementId}`,
+    );
+
+    return affectedUserIds;
+  }
+
+  private assertTiedMatchBetSettleable(bet: Bet): void {
+    const betType = (bet.betType || '').toUpperCase();
+    if (
+      betType !== 'BACK' &&
+      betType !== 'YES' &&
+      betType !== 'LAY' &&
+      betType !== 'NO'
+    ) {
+      throw new BadRequestException(
+        `CRITICAL: Bet ${bet.id} has invalid betType: ${bet.betType}. ` +
+        `Tied Match supports BACK, YES, LAY, or NO.`,
+      );
+    }
+
+    if (this.getTiedMatchBetSide(bet) === null) {
+      throw new BadRequestException(
+        `CRITICAL: Bet ${bet.id} is not a resolvable Tied Match side (selectionId=${bet.selectionId}, betName=${bet.betName}, marketName=${bet.marketName}). ` +
+          `Use Yes/No selection ids 1, 2, 37302, 37303, or betName Yes/No on a TIED_MATCH market.`,
+      );
+    }
+  }
+
+  /**
+   * Tied Match rules for one user's bets (see settleTiedMatchBetsIsolated): status and P/L of
+   * each bet with its balance credit and liability release, and the per-user totals.
+   */
+  private getTiedMatchUserSettlement(
+    userBets: Bet[],
+    winnerSide: 'yes' | 'no',
+  ): {
+    balanceDelta: number;
+    liabilityDelta: number;
+    betUpdates: Array<
+      BetSettlementUpdate & { betType: string; credit: number; liabilityRelease: number }
+    >;
+  } {
+    let balanceDelta = 0;
+    let liabilityDelta = 0;
+    const betUpdates: Array<
+      BetSettlementUpdate & { betType: string; credit: number; liabilityRelease: number }
+    > = [];
+
+    for (const bet of userBets) {
+      const stake = Number(bet.betValue ?? bet.amount ?? 0);
+      const odds = Number(bet.betRate ?? bet.odds ?? 0);
+      const betType = (bet.betType || '').toUpperCase();
+      const betSide = this.getTiedMatchBetSide(bet);
+      if (betSide === null) {
+        throw new BadRequestException(
+          `CRITICAL: Bet ${bet.id} has invalid Tied Match side (selectionId: ${bet.selectionId}).`,
+        );
+      }
+      const outcomeMatchesBetSide = betSide === winnerSide;
+
+      if (
+        betType === 'BACK' ||
+        betType === 'YES' ||
+        betType === 'LAY' ||
+        betType === 'NO'
+      ) {
+        const isBackLike = betType === 'BACK' || betType === 'YES';
+        const bookmakerStyle = this.isTiedMatchBookmakerStyleBet(bet);
+        const computedLiability = isBackLike
+          ? stake
+          : bookmakerStyle
+            ? this.bookmakerLayLiability(stake, odds)
+            : this.layLiability(stake, odds);
+        const fullLiability = Number(bet.lossAmount ?? computedLiability);
+        const winAmount = Number(bet.winAmount ?? 0);
+        const isWin = isBackLike ? outcomeMatchesBetSide : !outcomeMatchesBetSide;
+
+        // Custom tied-match rule: always release full liability.
+        liabilityDelta -= fullLiability;
+
+        if (isWin) {
+          const creditAmount = winAmount + stake;
+          balanceDelta += creditAmount;
+          betUpdates.push({
+            id: bet.id,
+            status: BetStatus.WON,
+            pnl: winAmount,
+            betType,
+            credit: creditAmount,
+            liabilityRelease: fullLiability,
+          });
+        } else {
+          betUpdates.push({
+            id: bet.id,
+            status: BetStatus.LOST,
+            pnl: -fullLiability,
+            betType,
+            credit: 0,
+            liabilityRelease: fullLiability,
+          });
+        }
+      }
+    }
+
+    return { balanceDelta, liabilityDelta, betUpdates };
+  }
+
+  /**
+   * Dry run of settleTiedMatchBetsIsolated / cancelTiedMatchBets: the same per-user rules,
+   * nothing written.
+   */
+  private async previewTiedMatchSettlement({
+    settlementId,
+    eventId,
+    marketId,
+    winnerSelectionIdNum,
+    bets,
+    isCancel,
+  }: {
+    settlementId: string;
+    eventId: string;
+    marketId: string;
+    winnerSelectionIdNum: number;
+    bets: Bet[];
+    isCancel: boolean;
+  }) {
+    const winnerSide = this.normalizeTiedMatchSide(winnerSelectionIdNum);
+    const betsByUser = new Map<string, Bet[]>();
+    for (const bet of bets) {
+      if (!isCancel) this.assertTiedMatchBetSettleable(bet);
+      if (!betsByUser.has(bet.userId)) betsByUser.set(bet.userId, []);
+      betsByUser.get(bet.userId)!.push(bet);
+    }
+    const wallets = await this.prisma.wallet.findMany({
+      where: { userId: { in: Array.from(betsByUser.keys()) } },
+      select: { userId: true },
+    });
+    const withWallet = new Set(wallets.map((w) => w.userId));
+    const betById = new Map(bets.map((b) => [b.id, b]));
+
+    const outcomes: UserSettlementOutcome[] = [];
+    for (const [userId, userBets] of betsByUser.entries()) {
+      if (!withWallet.has(userId)) continue;
+
+      if (isCancel || winnerSide === null) {
+        // Cancel refunds the stake; Tied Match liability is left unchanged
+        outcomes.push({
+          userId,
+          bets: userBets.map((bet) => ({ bet, status: BetStatus.CANCELLED, pnl: 0 })),
+          payout: userBets.reduce(
+            (sum, bet) => sum + Number(bet.betValue ?? bet.amount ?? 0),
+            0,
+          ),
+          liabilityReleased: 0,
+        });
+        continue;
+      }
+
+      const { balanceDelta, liabilityDelta, betUpdates } =
+        this.getTiedMatchUserSettlement(userBets, winnerSide);
+      outcomes.push({
+        userId,
+        bets: betUpdates.map((u) => ({
+          bet: betById.get(u.id)!,
+          status: u.status,
+          pnl: u.pnl,
+        })),
+        payout: balanceDelta,
+        liabilityReleased: -Math.min(0, liabilityDelta),
+      });
+    }
+
+    return this.buildSettlementPreview({
+      settlementId,
+      eventId,
+      marketId,
+      marketType: MarketType.TIED_MATCH,
+      winnerId: isCancel ? null : String(winnerSelectionIdNum),
+      isCancel,
+      outcomes,
+      distributesPnl: true,
+    });
+  }
+
+  /**
+   * Cancel / refund Tied Match bets.
+   * - Credit back stake for each bet
+   * - Do NOT apply win/loss logic
+   * - Liability is unchanged (Tied Match does not use liability)
+   */
+  private async cancelTiedMatchBets({
+    settlementId,
+    bets,
+    adminId,
+  }: {
+    settlementId: string;
+    bets: any[];
+    adminId: string;
+  }): Promise<Set<string>> {
+    const affectedUserIds = new Set<string>();
+
+    this.logger.log(
+      `Starting Tied Match CANCEL for ${bets.length} bets. settlementId: ${settlementId}`,
+    );
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const betsByUser = new Map<string, typeof bets>();
+        for (const bet of bets) {
+          if (!betsByUser.has(bet.userId)) {
+            betsByUser.set(bet.userId, []);
+          }
+          betsByUser.get(bet.userId)!.push(bet);
+        }
+
+        for (const [userId, userBets] of betsByUser.entries()) {
+          const wallet = await tx.wallet.findUnique({
+            where: { userId },
+          });
+          if (!wallet) {
+            this.logger.warn(
+              `Wallet not found for user ${userId} during Tied Match cancel.`,
+            );
+            continue;
+          }
+
+          let balanceDelta = 0;
+
+          const now = new Date();
+          for (const bet of userBets) {
+            const stake = Number(bet.betValue ?? bet.amount ?? 0);
+            balanceDelta += stake;
+
+            await tx.bet.update({
+              where: { id: bet.id },
+              data: {
+                settlementId,
+                status: BetStatus.CANCELLED,
+                pnl: 0,
+                settledAt: now,
+                updatedAt: now,
+              },
+            });
+          }
+
+          if (balanceDelta !== 0) {
+            await tx.wallet.update({
+              where: { userId },
+              data: {
+                balance: wallet.balance + balanceDelta,
+                // Liability unchanged for Tied Match
+              },
+            });
+
+            await tx.transaction.create({
+              data: {
+                walletId: wallet.id,
+                amount: balanceDelta,
+                type: TransactionType.REFUND,
+                description: `Tied Match CANCEL: Refunded ${balanceDelta} - ${settlementId}`,
+              },
+            });
+          }
+
+          affectedUserIds.add(userId);
+        }
+      },
+      {
+        maxWait: 15000,
+        timeout: 30000,
+      },
+    );
+
+    return affectedUserIds;
+  }
+
+  /**
+   * ✅ TOSS SETTLEMENT (ISOLATED)
+   *
+   * Toss is a two-runner market (gtype 'toss') on decimal odds. Placement locks the worst-case
+   * loss over both sides (TossExposureService), so settlement releases that exposure per user and
+   * applies the P/L of each bet (see settleSingleWinnerMarket).
+   *
+   * Roll back with POST /admin/settlement/rollback (settlementId CRICKET:TOSS:{eventId}:{marketId}).
+   *
+   * @param eventId - Exchange event ID
+   * @param marketId - Toss market ID
+   * @param winnerSelectionId - Runner that won the toss (ignored when cancelling)
+   * @param adminId - Admin user ID who is settling
+   * @param betIds - Optional: settle only specific bets
+   * @param isCancel - Void the market and refund instead of settling a winner
+   */
+  async settleTossManual(
+    eventId: string,
+    marketId: string,
+    winnerSelectionId: string,
+    adminId: string,
+    betIds?: string[],
+    isCancel = false,
+  ) {
+    return this.settleSingleWinnerMarket({
+      label: 'Toss',
+      gtype: 'toss',
+      marketType: MarketType.TOSS,
+      settlementId: `CRICKET:TOSS:${eventId}:${marketId}`,
+      eventId,
+      marketId,
+      winnerSelectionId,
+      adminId,
+      betIds,
+      isCancel,
+    });
+  }
+
+  /**
+   * ✅ SOCCER / TENNIS SPORTS MARKET SETTLEMENT (ISOLATED)
+   *
+   * Over/Under goals, Both Teams To Score, Correct Score and Set Betting are single-winner
+   * markets on decimal odds (constants/sports-markets). Placement locks the worst-case loss
+   * over the runners (SportsMarketExposureService); settlement releases it per user and applies
+   * the P/L of each bet (see settleSingleWinnerMarket).
+   *
+   * Roll back with POST /admin/settlement/rollback (settlementId {sport}:{marketType}:{eventId}:{marketId}).
+   *
+   * @param eventId - Exchange event ID
+   * @param marketId - Betfair market ID
+   * @param gtype - Sports market gtype (overunder, btts, correctscore, setbetting)
+   * @param winnerSelectionId - Winning runner (ignored when cancelling)
+   * @param adminId - Admin user ID who is settling
+   * @param betIds - Optional: settle only specific bets
+   * @param isCancel - Void the market and refund instead of settling a winner
+   */
+  async settleSportsMarketManual(
+    eventId: string,
+    marketId: string,
+    gtype: string,
+    winnerSelectionId: string,
+    adminId: string,
+    betIds?: string[],
+    isCancel = false,
+  ) {
+    const normalizedGtype = (gtype || '').toLowerCase();
+    if (!isSportsMarketGtype(normalizedGtype)) {
+      throw new BadRequestException(
+        `Invalid marketType: ${gtype}. Must be one of: ${SPORTS_MARKET_GTYPES.join(', ')}`,
+      );
+    }
+
+    return this.settleSingleWinnerMarket({
+      label: SPORTS_MARKETS[normalizedGtype].label,
+      gtype: normalizedGtype,
+      marketType: SPORTS_MARKETS[normalizedGtype].marketType,
+      settlementId: sportsMarketSettlementId(
+        normalizedGtype,
+        eventId,
+        marketId,
+      ),
+      eventId,
+      marketId,
+      winnerSelectionId,
+      adminId,
+      betIds,
+      isCancel,
+    });
+  }
+
+  /**
+   * Exposure calculator of a single-winner market type settled by settleSingleWinnerMarket,
+   * or null for market types with their own settlement model.
+   */
+  private getSingleWinnerExposureCalculator(
+    marketType: MarketType,
+  ): ((bets: Bet[]) => number) | null {
+    if (marketType === MarketType.TOSS) {
+      return (bets) =>
+        this.tossExposureService.calculateTossExposureInMemory(bets);
+    }
+    if (sportsMarketGtypeFor(marketType)) {
+      return (bets) =>
+        this.sportsMarketExposureService.calculateSportsMarketExposureInMemory(
+          bets,
+        );
+    }
+    return null;
+  }
+
+  /**
+   * Shared settlement of single-winner decimal-odds markets (Toss, soccer/tennis sports markets):
+   * - BACK: win → +winAmount, loss → -stake
+   * - LAY: win (another runner won) → +stake, loss → -lossAmount
+   * - Cancel: every bet CANCELLED, the locked exposure is refunded
+   */
+  private async settleSingleWinnerMarket({
+    label,
+    gtype,
+    marketType,
+    settlementId,
+    eventId,
+    marketId,
+    winnerSelectionId,
+    adminId,
+    betIds,
+    isCancel,
+  }: {
+    label: string;
+    gtype: string;
+    marketType: MarketType;
+    settlementId: string;
+    eventId: string;
+    marketId: string;
+    winnerSelectionId: string;
+    adminId: string;
+    betIds?: string[];
+    isCancel: boolean;
+  }) {
+    try {
+      if (!eventId || eventId === 'undefined' || eventId.trim() === '') {
+        throw new BadRequestException(
+          'eventId is required and cannot be empty',
+        );
+      }
+      if (!marketId || marketId === 'undefined' || marketId.trim() === '') {
+        throw new BadRequestException(
+          'marketId is required and cannot be empty',
+        );
+      }
+      if (!adminId || adminId.trim() === '') {
+        throw new BadRequestException('adminId is required');
+      }
+
+      const winnerSelectionIdNum = Number(winnerSelectionId);
+      if (
+        !isCancel &&
+        (!winnerSelectionId ||
+          isNaN(winnerSelectionIdNum) ||
+          winnerSelectionIdNum <= 0)
+      ) {
+        throw new BadRequestException(
+          `Invalid winnerSelectionId: ${winnerSelectionId}. winnerSelectionId must be the selection ID of the winning runner.`,
+        );
+      }
+
+      const validation = await this.validateSettlement(settlementId);
+      if (validation.hasExisting) {
+        throw new BadRequestException(validation.message);
+      }
+
+      const bets = await this.prisma.bet.findMany({
+        where: {
+          eventId,
+          marketId,
+          gtype,
+          status: BetStatus.PENDING,
+          ...(betIds && betIds.length > 0 && { id: { in: betIds } }),
+        },
+      });
+
+      if (bets.length === 0) {
+        throw new BadRequestException(
+          `No pending ${label} bets found. eventId: ${eventId}, marketId: ${marketId}.`,
+        );
+      }
+
+      if (!isCancel) {
+        const invalidBets = bets.filter(
+          (bet) =>
+            bet.selectionId === null ||
+            bet.selectionId === undefined ||
+            isNaN(Number(bet.selectionId)),
+        );
+        if (invalidBets.length > 0) {
+          throw new BadRequestException(
+            `CRITICAL: Found ${invalidBets.length} ${label} bets with invalid or missing selectionId. ` +
+              `Invalid bet IDs: ${invalidBets.map((b) => b.id).join(', ')}. Settlement aborted.`,
+          );
+        }
+      }
+
+      this.logger.log(
+        `Found ${bets.length} pending ${label} bets. settlementId: ${settlementId}, winnerSelectionId: ${winnerSelectionId}, isCancel: ${isCancel}`,
+      );
+
+      await this.prisma.settlement.upsert({
+        where: { settlementId },
+        update: {
+          isRollback: false,
+          settledBy: adminId,
+          winnerId: isCancel ? null : winnerSelectionId,
+        },
+        create: {
+          settlementId,
+          eventId,
+          marketType,
+          marketId,
+          winnerId: isCancel ? null : winnerSelectionId,
+          settledBy: adminId,
+        },
+      });
 
-            if (balanceDelta > 0) {
-              await tx.transaction.create({
-                data: {
-                  walletId: wallet.id,
-                  amount: balanceDelta,
-                  type: TransactionType.BET_WON,
-                  description: `Tied Match Settlement: credited ${balanceDelta} - ${settlementId}`,
-                },
-              });
-            } else if (balanceDelta < 0) {
-              await tx.transaction.create({
-                data: {
-                  walletId: wallet.id,
-                  amount: Math.abs(balanceDelta),
-                  type: TransactionType.BET_PLACED,
-                  description: `Tied Match Settlement: deducted ${Math.abs(balanceDelta)} - ${settlementId}`,
-                },
-              });
-            }
+      const affectedUserIds = await this.settleSingleWinnerBets({
+        label,
+        settlementId,
+        bets,
+        winnerSelectionIdNum,
+        isCancel,
+        calculateExposure: this.getSingleWinnerExposureCalculator(marketType)!,
+      });
 
-            this.logger.log(
-              `Tied Match wallet userId=${userId}: balanceDelta=${balanceDelta}, liabilityDelta=${clampedLiabilityDelta}`,
-            );
-          } else if (betUpdates.length > 0) {
-            this.logger.log(
-              `Tied Match settlement userId=${userId}: bet rows updated, no wallet delta (e.g. LAY win bookmaker-style).`,
-            );
-          }
+      // UserPnl + HierarchyPnl ledger rows for this market type
+      await this.recalculatePnLForUsers(affectedUserIds, eventId, marketType);
+      await this.marketCommissionService.chargeMarketCommission(
+        settlementId,
+        eventId,
+        marketType,
+        affectedUserIds,
+      );
+      await this.notifyUsersAfterSettlement(settlementId, affectedUserIds);
 
-          if (betUpdates.length > 0) {
-            affectedUserIds.add(userId);
-          }
-        }
-      },
-      {
-        maxWait: 15000,
-        timeout: 30000,
-      },
-    );
+      return {
+        success: true,
+        message: isCancel
+          ? `${label} bets cancelled successfully`
+          : `${label} bets settled successfully`,
+        settlementId,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error settling ${label} for eventId ${eventId}, marketId ${marketId}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
 
-    this.logger.log(
-      `ISOLATED Tied Match settlement completed successfully. ` +
-      `Settled ${bets.length} bets for ${affectedUserIds.size} users. ` +
-      `settlementId: ${settlementId}`,
-    );
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
 
-    return affectedUserIds;
+      throw new BadRequestException(
+        `Failed to settle ${label}: ${(error as Error).message}`,
+      );
+    }
   }
 
   /**
-   * Cancel / refund Tied Match bets.
-   * - Credit back stake for each bet
-   * - Do NOT apply win/loss logic
-   * - Liability is unchanged (Tied Match does not use liability)
+   * Wallet credit for one user's settled single-winner market bets: the exposure locked at
+   * placement plus the bets' P/L (0 for cancelled bets). Rollback subtracts the same amount.
    */
-  private async cancelTiedMatchBets({
+  private getSingleWinnerBalanceCredit(
+    userBets: Bet[],
+    calculateExposure: (bets: Bet[]) => number,
+  ): number {
+    const exposure = calculateExposure(userBets);
+    const pnl = userBets.reduce((sum, bet) => sum + Number(bet.pnl ?? 0), 0);
+    return Math.round((exposure + pnl) * 100) / 100;
+  }
+
+  private async settleSingleWinnerBets({
+    label,
     settlementId,
     bets,
-    adminId,
+    winnerSelectionIdNum,
+    isCancel,
+    calculateExposure,
   }: {
+    label: string;
     settlementId: string;
-    bets: any[];
-    adminId: string;
+    bets: Bet[];
+    winnerSelectionIdNum: number;
+    isCancel: boolean;
+    calculateExposure: (bets: Bet[]) => number;
   }): Promise<Set<string>> {
     const affectedUserIds = new Set<string>();
 
-    this.logger.log(
-      `Starting Tied Match CANCEL for ${bets.length} bets. settlementId: ${settlementId}`,
-    );
-
     await this.prisma.$transaction(
       async (tx) => {
         const betsByUser = new Map<string, typeof bets>();
         for (const bet of bets) {
+          if (bet.status !== BetStatus.PENDING) {
+            throw new BadRequestException(
+              `CRITICAL: Bet ${bet.id} is not PENDING (status: ${bet.status}). ` +
+                `Settlement aborted. All bets must be PENDING before settlement.`,
+            );
+          }
           if (!betsByUser.has(bet.userId)) {
             betsByUser.set(bet.userId, []);
           }
@@ -4568,52 +5766,90 @@ export class SettlementService {
         for (const [userId, userBets] of betsByUser.entries()) {
           const wallet = await tx.wallet.findUnique({
             where: { userId },
+            select: { id: true, liability: true },
           });
           if (!wallet) {
-            this.logger.warn(
-              `Wallet not found for user ${userId} during Tied Match cancel.`,
-            );
+            this.logger.warn(`Wallet not found for user ${userId}`);
             continue;
           }
 
-          let balanceDelta = 0;
+          const settledBets = userBets.map((bet) => {
+            const pnl = isCancel
+              ? 0
+              : getSingleWinnerBetPnl(bet, winnerSelectionIdNum);
+            const status = isCancel
+              ? BetStatus.CANCELLED
+              : pnl >= 0
+                ? BetStatus.WON
+                : BetStatus.LOST;
+            return { ...bet, pnl, status };
+          });
+
+          const exposure = calculateExposure(userBets);
+          const balanceDelta = this.getSingleWinnerBalanceCredit(
+            settledBets,
+            calculateExposure,
+          );
+          const totalPnl = Math.round((balanceDelta - exposure) * 100) / 100;
 
           const now = new Date();
-          for (const bet of userBets) {
-            const stake = Number(bet.betValue ?? bet.amount ?? 0);
-            balanceDelta += stake;
+          await Promise.all(
+            settledBets.map((bet) =>
+              tx.bet.update({
+                where: { id: bet.id },
+                data: {
+                  settlementId,
+                  status: bet.status,
+                  pnl: bet.pnl,
+                  settledAt: now,
+                  updatedAt: now,
+                },
+              }),
+            ),
+          );
 
-            await tx.bet.update({
-              where: { id: bet.id },
-              data: {
-                settlementId,
-                status: BetStatus.CANCELLED,
-                pnl: 0,
-                settledAt: now,
-                updatedAt: now,
-              },
-            });
-          }
+          await tx.wallet.update({
+            where: { userId },
+            data: {
+              balance: { increment: balanceDelta },
+              liability: Math.max(0, (wallet.liability ?? 0) - exposure),
+            },
+          });
 
-          if (balanceDelta !== 0) {
-            await tx.wallet.update({
-              where: { userId },
+          if (isCancel) {
+            if (balanceDelta > 0) {
+              await tx.transaction.create({
+                data: {
+                  walletId: wallet.id,
+                  amount: balanceDelta,
+                  type: TransactionType.REFUND,
+                  description: `${label} CANCEL: Refunded ${balanceDelta} - ${settlementId}`,
+                },
+              });
+            }
+          } else if (totalPnl > 0) {
+            await tx.transaction.create({
               data: {
-                balance: wallet.balance + balanceDelta,
-                // Liability unchanged for Tied Match
+                walletId: wallet.id,
+                amount: totalPnl,
+                type: TransactionType.BET_WON,
+                description: `${label} Settlement: Profit credited ${totalPnl} - ${settlementId}`,
               },
             });
-
+          } else if (totalPnl < 0) {
             await tx.transaction.create({
               data: {
                 walletId: wallet.id,
-                amount: balanceDelta,
-                type: TransactionType.REFUND,
-                description: `Tied Match CANCEL: Refunded ${balanceDelta} - ${settlementId}`,
+                amount: Math.abs(totalPnl),
+                type: TransactionType.BET_LOST,
+                description: `${label} Settlement: Loss ${Math.abs(totalPnl)} - ${settlementId}`,
               },
             });
           }
 
+          this.logger.log(
+            `${label} settlement userId=${userId}: bets=${settledBets.length}, exposureReleased=${exposure}, pnl=${totalPnl}, balanceDelta=${balanceDelta}`,
+          );
           affectedUserIds.add(userId);
         }
       },
@@ -4670,8 +5906,8 @@ export class SettlementService {
    */
   /**
    * ✅ PROPER LIABILITY RECALCULATION
-   * Uses market-specific exposure services to calculate liability correctly
-   * Handles Match Odds, Fancy, and Bookmaker markets properly
+   * Uses LiabilityService (market-specific exposure services) to calculate liability correctly
+   * Handles Match Odds, Fancy, Bookmaker and Toss markets properly
    */
   private async recalcLiability(tx: any, userId: string): Promise<void> {
     const bets = await tx.bet.findMany({
@@ -4703,53 +5939,8 @@ export class SettlementService {
       return;
     }
 
-    // Group bets by market type for proper exposure calculation
-    const matchOddsBets: any[] = [];
-    const fancyBets: any[] = [];
-    const bookmakerBets: any[] = [];
-
-    for (const bet of bets) {
-      const gtype = (bet.gtype || '').toLowerCase();
-      if (gtype === 'matchodds' || gtype === 'match') {
-        matchOddsBets.push(bet);
-      } else if (gtype === 'fancy') {
-        fancyBets.push(bet);
-      } else if (gtype === 'bookmaker' || (gtype.startsWith('match') && gtype !== 'match' && gtype !== 'matchodds')) {
-        bookmakerBets.push(bet);
-      }
-    }
-
-    // Calculate exposure per market type using proper services
-    let totalLiability = 0;
-
-    // Match Odds exposure (grouped by marketId)
-    const matchOddsByMarket = new Map<string, any[]>();
-    for (const bet of matchOddsBets) {
-      if (!bet.marketId) continue;
-      if (!matchOddsByMarket.has(bet.marketId)) {
-        matchOddsByMarket.set(bet.marketId, []);
-      }
-      matchOddsByMarket.get(bet.marketId)!.push(bet);
-    }
-    for (const [, marketBets] of matchOddsByMarket) {
-      totalLiability += this.matchOddsExposureService.calculateMatchOddsExposureInMemory(marketBets);
-    }
-
-    // Fancy exposure (grouped by eventId + selectionId)
-    totalLiability += this.fancyExposureService.calculateFancyExposureInMemory(fancyBets);
-
-    // Bookmaker exposure (grouped by marketId)
-    const bookmakerByMarket = new Map<string, any[]>();
-    for (const bet of bookmakerBets) {
-      if (!bet.marketId) continue;
-      if (!bookmakerByMarket.has(bet.marketId)) {
-        bookmakerByMarket.set(bet.marketId, []);
-      }
-      bookmakerByMarket.get(bet.marketId)!.push(bet);
-    }
-    for (const [, marketBets] of bookmakerByMarket) {
-      totalLiability += this.bookmakerExposureService.calculateBookmakerExposureInMemory(marketBets);
-    }
+    // Same per-market liability the exposure caps are checked against at placement
+    const totalLiability = this.liabilityService.calculateLiabilityInMemory(bets);
 
     const wallet = await tx.wallet.findUnique({ where: { userId } });
     if (!wallet) {
@@ -4774,6 +5965,122 @@ export class SettlementService {
   }
 
 
+  /**
+   * Balance change that reverses what settling these bets of one user credited (0 or negative).
+   */
+  private getRollbackBalanceReversal(
+    marketType: MarketType,
+    userBets: Bet[],
+  ): number {
+    // We need to reverse the balance changes that happened during settlement
+    // Settlement logic:
+    // - WIN: balance += profit, liability -= lockedAmount
+    // - LOSS: balance unchanged, liability -= lockedAmount
+    // - CANCEL: balance += refund, liability -= lockedAmount
+    //
+    // Rollback reversal:
+    // - WIN: balance -= profit, liability += lockedAmount (will be recalculated)
+    // - LOSS: balance unchanged, liability += lockedAmount (will be recalculated)
+    // - CANCEL: balance -= refund, liability += lockedAmount (will be recalculated)
+
+    // Toss / sports markets credited exposure + P/L per user rather than per-bet amounts
+    // (see settleSingleWinnerBets)
+    const singleWinnerExposure =
+      this.getSingleWinnerExposureCalculator(marketType);
+    if (singleWinnerExposure) {
+      return -this.getSingleWinnerBalanceCredit(userBets, singleWinnerExposure);
+    }
+
+    let balanceReversal = 0;
+    for (const bet of userBets) {
+      const betType = (bet.betType || '').toUpperCase();
+      const stake = bet.betValue ?? bet.amount ?? 0;
+      const winAmount = bet.winAmount ?? stake;
+      const lossAmount = bet.lossAmount ?? stake;
+
+      // Determine liability that was locked (same as settlement logic)
+      const liabilityAmount =
+        betType === 'LAY' || betType === 'NO' ? lossAmount : stake;
+
+      if (bet.status === BetStatus.WON) {
+        // WIN: Reverse the profit that was credited
+        if (betType === 'BACK' || betType === 'YES') {
+          // BACK/YES WIN: was credited stake + winAmount, reverse it
+          balanceReversal -= stake + winAmount;
+        } else {
+          // LAY/NO WIN: was credited lossAmount + winAmount, reverse it
+          balanceReversal -= lossAmount + winAmount;
+        }
+      } else if (bet.status === BetStatus.CANCELLED) {
+        // CANCEL: Reverse the refund that was credited
+        balanceReversal -= liabilityAmount;
+      }
+      // LOSS: No balance change during settlement, so no reversal needed
+    }
+    return balanceReversal;
+  }
+
+  /**
+   * What rollbackSettlement would take back, per user, without writing anything.
+   * Market commission refunds are not included.
+   */
+  async previewRollback(
+    settlementId: string,
+    betIds?: string[],
+  ): Promise<RollbackPreview> {
+    const settlement = await this.prisma.settlement.findUnique({
+      where: { settlementId },
+    });
+    if (!settlement) {
+      throw new BadRequestException(`Settlement ${settlementId} not found`);
+    }
+    if (settlement.isRollback) {
+      throw new BadRequestException(
+        `Settlement ${settlementId} has already been rolled back`,
+      );
+    }
+
+    const bets = await this.prisma.bet.findMany({
+      where: {
+        settlementId,
+        status: { in: [BetStatus.WON, BetStatus.LOST, BetStatus.CANCELLED] },
+        ...(betIds && betIds.length > 0 && { id: { in: betIds } }),
+      },
+    });
+    const betsByUserId = new Map<string, Bet[]>();
+    for (const bet of bets) {
+      const userBets = betsByUserId.get(bet.userId) ?? [];
+      userBets.push(bet);
+      betsByUserId.set(bet.userId, userBets);
+    }
+
+    const users = Array.from(betsByUserId.entries()).map(
+      ([userId, userBets]) => ({
+        userId,
+        betCount: userBets.length,
+        pnl: userBets.reduce((sum, bet) => sum + Number(bet.pnl ?? 0), 0),
+        balanceReversal: this.getRollbackBalanceReversal(
+          settlement.marketType,
+          userBets,
+        ),
+      }),
+    );
+
+    return {
+      settlementId,
+      eventId: settlement.eventId,
+      marketType: settlement.marketType,
+      betCount: bets.length,
+      userCount: users.length,
+      totalPnl: users.reduce((sum, u) => sum + u.pnl, 0),
+      totalBalanceReversal: users.reduce(
+        (sum, u) => sum + u.balanceReversal,
+        0,
+      ),
+      users,
+    };
+  }
+
   async rollbackSettlement(settlementId: string, adminId: string, betIds?: string[]) {
     try {
       const settlement = await this.prisma.settlement.findUnique({
@@ -4835,42 +6142,10 @@ export class SettlementService {
             }
 
             // ✅ STEP 1: Calculate wallet balance reversal
-            // We need to reverse the balance changes that happened during settlement
-            // Settlement logic:
-            // - WIN: balance += profit, liability -= lockedAmount
-            // - LOSS: balance unchanged, liability -= lockedAmount
-            // - CANCEL: balance += refund, liability -= lockedAmount
-            // 
-            // Rollback reversal:
-            // - WIN: balance -= profit, liability += lockedAmount (will be recalculated)
-            // - LOSS: balance unchanged, liability += lockedAmount (will be recalculated)
-            // - CANCEL: balance -= refund, liability += lockedAmount (will be recalculated)
-            let balanceReversal = 0;
-
-            for (const bet of userBets) {
-              const betType = (bet.betType || '').toUpperCase();
-              const stake = bet.betValue ?? bet.amount ?? 0;
-              const winAmount = bet.winAmount ?? stake;
-              const lossAmount = bet.lossAmount ?? stake;
-              
-              // Determine liability that was locked (same as settlement logic)
-              const liabilityAmount = (betType === 'LAY' || betType === 'NO') ? lossAmount : stake;
-
-              if (bet.status === BetStatus.WON) {
-                // WIN: Reverse the profit that was credited
-                if (betType === 'BACK' || betType === 'YES') {
-                  // BACK/YES WIN: was credited stake + winAmount, reverse it
-                  balanceReversal -= (stake + winAmount);
-                } else {
-                  // LAY/NO WIN: was credited lossAmount + winAmount, reverse it
-                  balanceReversal -= (lossAmount + winAmount);
-                }
-              } else if (bet.status === BetStatus.CANCELLED) {
-                // CANCEL: Reverse the refund that was credited
-                balanceReversal -= liabilityAmount;
-              }
-              // LOSS: No balance change during settlement, so no reversal needed
-            }
+            const balanceReversal = this.getRollbackBalanceReversal(
+              settlement.marketType,
+              userBets,
+            );
 
             // ✅ STEP 2: Reset bets to PENDING
             const betIds = userBets.map((b) => b.id);
@@ -4887,12 +6162,21 @@ export class SettlementService {
               },
             });
 
+            // Market commission charged on this settlement goes back to the client
+            const commissionRefund =
+              await this.marketCommissionService.reverseMarketCommission(
+                tx,
+                settlementId,
+                userId,
+                wallet.id,
+              );
+
             // ✅ STEP 3: Reverse wallet balance changes
-            if (balanceReversal !== 0) {
+            if (balanceReversal !== 0 || commissionRefund !== 0) {
               await tx.wallet.update({
                 where: { userId },
                 data: {
-                  balance: wallet.balance + balanceReversal, // balanceReversal is negative, so this subtracts
+                  balance: wallet.balance + balanceReversal + commissionRefund, // balanceReversal is negative, so this subtracts
                 },
               });
 
@@ -4965,6 +6249,17 @@ export class SettlementService {
         }),
       );
 
+      // Re-credit the hierarchy with the commission still charged on this event/market type
+      // (and re-charge bets of this settlement left settled by a partial rollback)
+      await this.marketCommissionService.chargeMarketCommission(
+        settlementId,
+        settlement.eventId,
+        settlement.marketType,
+        userIds,
+      );
+
+      await this.notifyUsersAfterSettlement(settlementId, userIds);
+
       this.logger.log(
         `Settlement ${settlementId} rolled back successfully. ${bets.length} bets reset to PENDING.`,
       );
@@ -7462,6 +8757,15 @@ export class SettlementService {
     >();
 
     for (const bet of pendingBets) {
+      // Toss and soccer/tennis sports markets have their own lists
+      // (GET /admin/settlement/pending/toss, /pending/sports-markets)
+      if (
+        (bet.gtype || '').toLowerCase() === 'toss' ||
+        isSportsMarketGtype(bet.gtype)
+      ) {
+        continue;
+      }
+
       // Use matchId as key if eventId is not available
       const matchKey = bet.eventId || bet.matchId;
       
@@ -8923,8 +10227,17 @@ export class SettlementService {
 
   /**
    * Get pending bets for a specific market type
+   * ('sports-markets' = soccer Over/Under, BTTS, Correct Score and tennis Set Betting)
    */
-  async getPendingBetsByMarketType(marketType: 'fancy' | 'match-odds' | 'bookmaker' | 'tied-match') {
+  async getPendingBetsByMarketType(
+    marketType:
+      | 'fancy'
+      | 'match-odds'
+      | 'bookmaker'
+      | 'tied-match'
+      | 'toss'
+      | 'sports-markets',
+  ) {
     // Build where clause based on market type
     const whereClause: any = {
       status: BetStatus.PENDING,
@@ -9015,6 +10328,10 @@ export class SettlementService {
       whereClause.settlementId = {
         startsWith: 'CRICKET:BOOKMAKER:',
       };
+    } else if (marketType === 'toss') {
+      whereClause.gtype = 'toss';
+    } else if (marketType === 'sports-markets') {
+      whereClause.gtype = { in: SPORTS_MARKET_GTYPES };
     }
 
     // OPTIMIZED: Use select instead of include
@@ -9030,6 +10347,7 @@ export class SettlementService {
         betName: true,
         marketName: true,
         marketType: true,
+        gtype: true,
         settlementId: true,
         selectionId: true,
         marketId: true,
@@ -9077,7 +10395,9 @@ export class SettlementService {
           betName !== 'tie' &&
           betName !== 'the draw' &&
           !this.isTiedMatchMarketName(bet.marketName) &&
-          !marketName.includes('match odds including tie')
+          !marketName.includes('match odds including tie') &&
+          (bet.gtype || '').toLowerCase() !== 'toss' &&
+          !isSportsMarketGtype(bet.gtype)
         );
       }
 
@@ -9115,7 +10435,12 @@ export class SettlementService {
           startTime: bet.match?.startTime || new Date(),
           bets: [],
           totalAmount: 0,
-          runners: marketType === 'tied-match' || marketType === 'match-odds' ? [] : undefined,
+          runners:
+            marketType === 'tied-match' ||
+            marketType === 'match-odds' ||
+            marketType === 'toss'
+              ? []
+              : undefined,
         });
       }
 
@@ -9127,6 +10452,7 @@ export class SettlementService {
         betType: bet.betType,
         betName: bet.betName,
         marketType: bet.marketType,
+        gtype: bet.gtype,
         settlementId: bet.settlementId,
         eventId: bet.eventId,
         selectionId: bet.selectionId ? Number(bet.selectionId) : null,
@@ -9138,8 +10464,13 @@ export class SettlementService {
       });
       matchData.totalAmount += bet.amount || 0;
 
-      // Add runners for tied-match and match-odds
-      if ((marketType === 'tied-match' || marketType === 'match-odds') && bet.selectionId) {
+      // Add runners for tied-match, match-odds and toss
+      if (
+        (marketType === 'tied-match' ||
+          marketType === 'match-odds' ||
+          marketType === 'toss') &&
+        bet.selectionId
+      ) {
         const selectionId = Number(bet.selectionId);
         if (!isNaN(selectionId) && matchData.runners) {
           const existingRunner = matchData.runners.find((r) => r.selectionId === selectionId);
@@ -0,0 +1,218 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { MarketType } from '@prisma/client';
+import { Job, Worker } from 'bullmq';
+import {
+  SettlementService,
+  type SettlementPreview,
+} from './settlement.service';
+import type {
+  SettlementJobData,
+  SettlementJobProgress,
+} from './settlement.queue';
+
+/**
+ * Settlement Worker
+ *
+ * Runs jobs of the `settlement` queue. The market is previewed (dry run) to validate the result
+ * and group its pending bets by user, then settled CHUNK_SIZE users at a time, each chunk in its
+ * own settle call and transaction. The job progress is the checkpoint: settled users are recorded
+ * after every chunk, a failed chunk is recorded and skipped, and the job fails at the end if any
+ * chunk did. A retry (automatic, or POST /admin/settlement/jobs/:id/resume) settles only the
+ * users still pending.
+ */
+@Injectable()
+export class SettlementWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SettlementWorker.name);
+  private worker: Worker<SettlementJobData>;
+  /** Users settled per settle call / transaction */
+  private readonly CHUNK_SIZE = 25;
+  private readonly MAX_FAILURES_KEPT = 50;
+
+  constructor(private readonly settlementService: SettlementService) {}
+
+  onModuleInit() {
+    try {
+      this.worker = new Worker<SettlementJobData>(
+        'settlement',
+        (job) => this.handleSettlement(job),
+        {
+          connection: {
+            host: process.env.REDIS_HOST || 'localhost',
+            port: parseInt(process.env.REDIS_PORT || '6379'),
+            password: process.env.REDIS_PASSWORD,
+            maxRetriesPerRequest: null, // Disable retries to reduce spam
+            enableReadyCheck: false, // Don't wait for ready check
+            lazyConnect: true, // Connect on demand
+            retryStrategy: () => null, // Stop retrying immediately
+            enableOfflineQueue: false, // Don't queue commands when offline
+          },
+          concurrency: 1, // One market at a time: chunks of two markets would fight over wallets
+        },
+      );
+
+      this.worker.on('failed', (job, err) => {
+        this.logger.error(
+          `Settlement job ${job?.id} failed (attempt ${job?.attemptsMade}): ${err.message}`,
+        );
+      });
+
+      let connectionErrorLogged = false;
+      this.worker.on('error', (err) => {
+        if (!connectionErrorLogged) {
+          this.logger.warn(
+            `Redis not available for settlement worker: ${err.message}`,
+          );
+          connectionErrorLogged = true;
+        }
+      });
+
+      this.logger.log('Settlement Worker started');
+    } catch (error) {
+      this.logger.error(
+        `Failed to start settlement worker: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      this.worker = null as unknown as Worker<SettlementJobData>;
+    }
+  }
+
+  /**
+   * Dry run of the whole market (pending bets only, so users settled earlier drop out).
+   * Null when nothing is left to settle.
+   */
+  private async previewMarket(
+    data: SettlementJobData,
+    resuming: boolean,
+  ): Promise<SettlementPreview | null> {
+    const { params, adminId } = data;
+    const result =
+      params.marketType === MarketType.FANCY
+        ? await this.settlementService.settleFancyManual(
+            params.eventId,
+            params.selectionId,
+            params.decisionRun,
+            params.isCancel,
+            params.marketId,
+            adminId,
+            undefined,
+            true,
+          )
+        : await this.settlementService.settleMarketManual(
+            params.eventId,
+            params.marketId,
+            params.winnerSelectionId,
+            MarketType.MATCH_ODDS,
+            adminId,
+            undefined,
+            params.isCancel,
+            true,
+            resuming,
+          );
+    return 'dryRun' in result ? result : null;
+  }
+
+  private async settleChunk(
+    data: SettlementJobData,
+    preview: SettlementPreview,
+    betIds: string[],
+  ) {
+    const { params, adminId } = data;
+    if (params.marketType === MarketType.FANCY) {
+      return this.settlementService.settleFancyManual(
+        params.eventId,
+        params.selectionId,
+        params.decisionRun,
+        params.isCancel,
+        params.marketId,
+        adminId,
+        betIds,
+      );
+    }
+    // The preview decided whether the market is void (e.g. a tie without a tie runner)
+    return this.settlementService.settleMarketManual(
+      params.eventId,
+      params.marketId,
+      params.winnerSelectionId,
+      MarketType.MATCH_ODDS,
+      adminId,
+      betIds,
+      preview.isCancel,
+      false,
+      true,
+    );
+  }
+
+  private async handleSettlement(job: Job<SettlementJobData>) {
+    const { settlementId } = job.data;
+    const checkpoint =
+      typeof job.progress === 'object' && job.progress !== null
+        ? (job.progress as SettlementJobProgress)
+        : null;
+    const settledUserIds = new Set(checkpoint?.settledUserIds ?? []);
+
+    // A retry may find the market partly settled
+    const preview = await this.previewMarket(job.data, checkpoint !== null);
+    const users = (preview?.users ?? []).filter(
+      (u) => !settledUserIds.has(u.userId),
+    );
+    const progress: SettlementJobProgress = {
+      totalUsers: checkpoint?.totalUsers ?? preview?.userCount ?? 0,
+      totalBets: checkpoint?.totalBets ?? preview?.betCount ?? 0,
+      settledUserIds: Array.from(settledUserIds),
+      settledBets: checkpoint?.settledBets ?? 0,
+      chunkSize: this.CHUNK_SIZE,
+      failures: checkpoint?.failures ?? [],
+    };
+    await job.updateProgress(progress);
+    this.logger.log(
+      `Settling ${settlementId} (job ${job.id}): ${users.length} of ${progress.totalUsers} users left`,
+    );
+
+    let failedChunks = 0;
+    for (let i = 0; preview && i < users.length; i += this.CHUNK_SIZE) {
+      const chunk = users.slice(i, i + this.CHUNK_SIZE);
+      const chunkUserIds = chunk.map((u) => u.userId);
+      const betIds = chunk.flatMap((u) => u.bets.map((b) => b.betId));
+      try {
+        await this.settleChunk(job.data, preview, betIds);
+        progress.settledUserIds.push(...chunkUserIds);
+        progress.settledBets += betIds.length;
+      } catch (error) {
+        failedChunks++;
+        const message = error instanceof Error ? error.message : String(error);
+        progress.failures = [
+          ...progress.failures,
+          {
+            attempt: job.attemptsMade + 1,
+            userIds: chunkUserIds,
+            error: message,
+            at: new Date().toISOString(),
+          },
+        ].slice(-this.MAX_FAILURES_KEPT);
+        this.logger.error(
+          `Settlement ${settlementId} (job ${job.id}): chunk of ${chunkUserIds.length} users failed: ${message}`,
+        );
+      }
+      await job.updateProgress(progress);
+    }
+
+    if (failedChunks > 0) {
+      throw new Error(
+        `${failedChunks} chunk(s) of ${settlementId} failed; settled users are skipped when the job is retried`,
+      );
+    }
+    return {
+      settlementId,
+      settledUsers: progress.settledUserIds.length,
+      settledBets: progress.settledBets,
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.worker?.close();
+  }
+}
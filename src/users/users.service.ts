@@ -15,6 +15,37 @@ type UserDetail = {
   updatedAt: Date;
 };
 
+export type StakeLimitMarketType = 'matchodds' | 'bookmaker' | 'fancy';
+
+export const STAKE_LIMIT_MARKET_TYPES: StakeLimitMarketType[] = [
+  'matchodds',
+  'bookmaker',
+  'fancy',
+];
+
+/** Platform-wide stake bounds used when nobody in the user's parent chain has set a limit. */
+export const DEFAULT_STAKE_LIMITS = { min: 500, max: 200000 };
+
+/** Stored on User.stakeLimits; missing entries inherit from the parent chain. */
+export type StakeLimits = Partial<
+  Record<StakeLimitMarketType, { min?: number; max?: number }>
+>;
+
+/** Stored on User.betDelays: extra accept delay in seconds per market type, set by the agent on one client. */
+export type BetDelays = Partial<Record<StakeLimitMarketType, number>>;
+
+/** One row of getAncestorChain: the user itself, then each ancestor up to the top. */
+export type AncestorChainUser = Pick<
+  User,
+  'id' | 'parentId' | 'stakeLimits' | 'betDelays'
+>;
+
+/** Limits in effect for a user; `minSetBy` / `maxSetBy` is the user id that set it (null = default). */
+export type EffectiveStakeLimits = Record<
+  StakeLimitMarketType,
+  { min: number; max: number; minSetBy: string | null; maxSetBy: string | null }
+>;
+
 @Injectable()
 export class UsersService {
   constructor(private prisma: PrismaService) {}
@@ -176,6 +207,78 @@ export class UsersService {
     };
   }
 
+  /**
+   * The user followed by its parent, grandparent, ... up to the top, loaded in one recursive query.
+   * Empty when the user does not exist; a parent cycle ends the chain.
+   */
+  async getAncestorChain(userId: string): Promise<AncestorChainUser[]> {
+    return this.prisma.$queryRaw<AncestorChainUser[]>`
+      WITH RECURSIVE chain AS (
+        SELECT id, parent_id, stake_limits, bet_delays, 0 AS depth, ARRAY[id] AS path
+        FROM users
+        WHERE id = ${userId}
+        UNION ALL
+        SELECT u.id, u.parent_id, u.stake_limits, u.bet_delays, c.depth + 1, c.path || u.id
+        FROM users u
+        JOIN chain c ON u.id = c.parent_id
+        WHERE NOT u.id = ANY(c.path)
+      )
+      SELECT id, parent_id AS "parentId", stake_limits AS "stakeLimits", bet_delays AS "betDelays"
+      FROM chain
+      ORDER BY depth`;
+  }
+
+  /**
+   * Resolve min/max stake per market type: the user's own limit, else the nearest ancestor's,
+   * else DEFAULT_STAKE_LIMITS. Works like maxWinAmount but walks up the parent chain
+   * (`chain` when the caller already loaded it with getAncestorChain).
+   */
+  async getEffectiveStakeLimits(
+    userId: string,
+    chain?: AncestorChainUser[],
+  ): Promise<EffectiveStakeLimits> {
+    const effective: Partial<EffectiveStakeLimits> = {};
+    const found: Record<
+      StakeLimitMarketType,
+      { min?: [number, string]; max?: [number, string] }
+    > = {
+      matchodds: {},
+      bookmaker: {},
+      fancy: {},
+    };
+
+    for (const user of chain ?? (await this.getAncestorChain(userId))) {
+      const limits = (user.stakeLimits ?? {}) as StakeLimits;
+      for (const type of STAKE_LIMIT_MARKET_TYPES) {
+        const { min, max } = limits[type] ?? {};
+        if (
+          found[type].min === undefined &&
+          typeof min === 'number' &&
+          Number.isFinite(min)
+        ) {
+          found[type].min = [min, user.id];
+        }
+        if (
+          found[type].max === undefined &&
+          typeof max === 'number' &&
+          Number.isFinite(max)
+        ) {
+          found[type].max = [max, user.id];
+        }
+      }
+    }
+
+    for (const type of STAKE_LIMIT_MARKET_TYPES) {
+      effective[type] = {
+        min: found[type].min?.[0] ?? DEFAULT_STAKE_LIMITS.min,
+        max: found[type].max?.[0] ?? DEFAULT_STAKE_LIMITS.max,
+        minSetBy: found[type].min?.[1] ?? null,
+        maxSetBy: found[type].max?.[1] ?? null,
+      };
+    }
+    return effective as EffectiveStakeLimits;
+  }
+
   async getAllUsers(): Promise<UserResponseDto[]> {
     const users = await this.prisma.user.findMany({
       include: {